@@ -3,6 +3,8 @@
  * - Cache read on cache hit returns instant response
  * - Real streaming (async textStream iteration)
  * - Source filtering from USED_SOURCES metadata
+ * - Per-sentence grounding streamed after the text
+ * - Follow-up condensation from conversation history
  *
  * These tests mock all external dependencies and can run in CI.
  */
@@ -31,6 +33,40 @@ jest.mock("@/lib/rag", () => ({
   DEFAULT_TOWN_ID: "needham",
 }));
 
+jest.mock("@/lib/query-decomposer", () => ({
+  decomposeQuery: jest.fn(async (query: string) => ({
+    originalQuery: query,
+    isComplex: false,
+    subQueries: [{ query, intent: "factual", sourceHint: ["municipal"], priority: 1 }],
+    strategy: "single",
+  })),
+}));
+
+const mockCondenseQuery = jest.fn();
+jest.mock("@/lib/query-rewriter", () => ({
+  condenseQuery: (...args: unknown[]) => mockCondenseQuery(...args),
+}));
+
+const mockFindFactAnswer = jest.fn();
+jest.mock("@/lib/fact-store", () => ({
+  findFactAnswer: (...args: unknown[]) => mockFindFactAnswer(...args),
+  formatFactAnswer: jest.requireActual("@/lib/fact-store").formatFactAnswer,
+}));
+
+const mockLogSearchTelemetry = jest.fn().mockResolvedValue(undefined);
+jest.mock("@/lib/telemetry", () => ({
+  logSearchTelemetry: (...args: unknown[]) => mockLogSearchTelemetry(...args),
+}));
+
+let mockEnableAnswerCache = true;
+jest.mock("@/lib/feature-flags", () => ({
+  getRequestSessionId: jest.fn(() => null),
+  getTownFeatureFlags: jest.fn(async () => ({
+    flags: { enableAnswerCache: mockEnableAnswerCache },
+    assignments: {},
+  })),
+}));
+
 jest.mock("@/lib/confidence", () => ({
   scoreConfidenceFromChunks: jest.fn(() => ({
     level: "high",
@@ -45,6 +81,7 @@ jest.mock("@/lib/cost-tracker", () => ({
 
 jest.mock("@/lib/prompts", () => ({
   buildChatSystemPrompt: jest.fn(() => "You are a helpful municipal assistant."),
+  buildFallbackAnswer: jest.fn(() => "I don't have specific information about that topic."),
 }));
 
 jest.mock("@/lib/supabase", () => ({
@@ -60,6 +97,7 @@ jest.mock("@/lib/supabase", () => ({
 }));
 
 jest.mock("@/lib/towns", () => ({
+  getTownByIdOrDefault: jest.requireActual("@/lib/towns").getTownByIdOrDefault,
   getTownById: jest.fn(() => ({
     name: "Needham",
     departments: [{ name: "Town Hall", phone: "781-455-7500" }],
@@ -116,8 +154,9 @@ describe("POST /api/chat — performance optimizations", () => {
   beforeEach(() => {
     jest.clearAllMocks();
 
-    // Default: no cache hit
+    // Default: no cache hit, no stored fact
     mockGetCachedAnswer.mockResolvedValue(null);
+    mockFindFactAnswer.mockResolvedValue(null);
 
     // Default: textStream returns async generator
     mockTextStream.mockReturnValue(
@@ -183,6 +222,23 @@ describe("POST /api/chat — performance optimizations", () => {
       expect(mockHybridSearch).toHaveBeenCalled();
     });
 
+    it("skips the cache when the town's enableAnswerCache flag is off", async () => {
+      mockEnableAnswerCache = false;
+      try {
+        await POST(
+          makeRequest({
+            messages: [{ role: "user", content: "transfer station hours" }],
+          })
+        );
+      } finally {
+        mockEnableAnswerCache = true;
+      }
+
+      expect(mockGetCachedAnswer).not.toHaveBeenCalled();
+      expect(mockSetCachedAnswer).not.toHaveBeenCalled();
+      expect(mockHybridSearch).toHaveBeenCalled();
+    });
+
     it("falls through to RAG pipeline on cache error", async () => {
       mockGetCachedAnswer.mockRejectedValue(new Error("Supabase timeout"));
 
@@ -247,6 +303,219 @@ describe("POST /api/chat — performance optimizations", () => {
     });
   });
 
+  describe("query decomposition", () => {
+    it("searches with the routed config and records the decomposition in telemetry", async () => {
+      await POST(
+        makeRequest({
+          messages: [{ role: "user", content: "transfer station hours" }],
+        })
+      );
+
+      expect(mockHybridSearch).toHaveBeenCalledWith(
+        "transfer station hours",
+        expect.objectContaining({
+          townId: "needham",
+          config: expect.objectContaining({ authorityWeight: 0.2 }),
+        })
+      );
+      expect(mockLogSearchTelemetry).toHaveBeenCalledWith(
+        expect.objectContaining({
+          query: "transfer station hours",
+          wasDecomposed: false,
+          subQueryCount: 1,
+          intents: ["factual"],
+          town: "needham",
+        })
+      );
+    });
+  });
+
+  describe("source conflicts", () => {
+    it("flags disagreeing sources in the prompt and a data-conflicts part", async () => {
+      const { createUIMessageStream } = require("ai");
+      const { buildChatSystemPrompt } = require("@/lib/prompts");
+      const result = (id: string, title: string, text: string, date: string) => ({
+        id,
+        chunk_text: text,
+        metadata: { document_title: title, document_date: date },
+        source: { sourceId: id, citation: `[${title}]`, documentTitle: title },
+        similarity: 0.85,
+        text_rank: 0,
+        score: 0.8,
+        highlight: "",
+      });
+      mockHybridSearch.mockResolvedValue([
+        result("S1", "Building Department", "Building Department: (781) 455-7550", "2025-03-01"),
+        result("S2", "Archived Directory", "Building Department (781) 455-7500", "2019-06-01"),
+      ]);
+
+      await POST(
+        makeRequest({
+          messages: [{ role: "user", content: "building department phone number" }],
+        })
+      );
+
+      const [promptOptions] = buildChatSystemPrompt.mock.calls[0];
+      expect(promptOptions.conflicts).toHaveLength(1);
+
+      const { chunks } = createUIMessageStream.mock.results[0].value;
+      const conflictPart = chunks.find((c: { type: string }) => c.type === "data-conflicts");
+      expect(conflictPart.data[0]).toMatchObject({
+        kind: "phone",
+        newest: { value: "(781) 455-7550", date: "2025-03-01" },
+        others: [{ value: "(781) 455-7500" }],
+      });
+    });
+  });
+
+  describe("grounding", () => {
+    it("streams a data-grounding part and rescores confidence from it", async () => {
+      const { createUIMessageStream } = require("ai");
+      const { buildContextDocuments } = require("@/lib/rag");
+      const { scoreConfidenceFromChunks } = require("@/lib/confidence");
+      buildContextDocuments.mockReturnValueOnce([
+        { sourceId: "S1", citation: "[DPW Guide]", excerpt: "Transfer station open Tuesday through Saturday." },
+      ]);
+      scoreConfidenceFromChunks.mockImplementation(
+        (_chunks: unknown, _query: string, groundedRatio?: number) =>
+          groundedRatio !== undefined && groundedRatio < 0.5
+            ? { level: "low", label: "Limited information" }
+            : { level: "high", label: "Verified from official sources" },
+      );
+      mockTextStream.mockReturnValue(
+        (async function* () {
+          yield "The transfer station is open Tuesday through Saturday. ";
+          yield "Leaf collection happens every November on your trash day. ";
+          yield "Brush pickup costs $40 per load.\nUSED_SOURCES: S1";
+        })()
+      );
+
+      await POST(makeRequest({ messages: [{ role: "user", content: "transfer station hours" }] }));
+      const { chunks, executePromise } = createUIMessageStream.mock.results[0].value;
+      await executePromise;
+
+      const types = chunks.map((c: { type: string }) => c.type);
+      const grounding = chunks.find((c: { type: string }) => c.type === "data-grounding");
+      expect(types.indexOf("data-grounding")).toBeGreaterThan(types.indexOf("text-end"));
+      expect(grounding.data.sentences.map((s: { supported: boolean }) => s.supported)).toEqual([true, false, false]);
+      expect(grounding.data.sentences[0].sourceIds).toEqual(["S1"]);
+      expect(scoreConfidenceFromChunks).toHaveBeenLastCalledWith(expect.any(Array), "transfer station hours", 0.333);
+
+      const confidenceParts = chunks.filter((c: { type: string }) => c.type === "data-confidence");
+      expect(confidenceParts.map((c: { data: { level: string } }) => c.data.level)).toEqual(["high", "low"]);
+    });
+  });
+
+  describe("multi-turn condensation", () => {
+    const conversation = [
+      { role: "user", content: "do I need a permit for a deck?" },
+      { role: "assistant", content: "Yes, decks need a building permit.\nUSED_SOURCES: S1" },
+      { role: "user", content: "what about for a fence?" },
+    ];
+
+    it("searches and caches under the condensed standalone question", async () => {
+      const { createUIMessageStream } = require("ai");
+      mockCondenseQuery.mockResolvedValue("Do I need a permit for a fence?");
+
+      await POST(makeRequest({ messages: conversation }));
+      await createUIMessageStream.mock.results[0].value.executePromise;
+
+      expect(mockCondenseQuery).toHaveBeenCalledWith(
+        "what about for a fence?",
+        conversation.slice(0, 2),
+        "Needham"
+      );
+      expect(mockGetCachedAnswer).toHaveBeenCalledWith("Do I need a permit for a fence?", "needham");
+      expect(mockHybridSearch).toHaveBeenCalledWith("Do I need a permit for a fence?", expect.anything());
+      expect(mockSetCachedAnswer).toHaveBeenCalledWith(
+        "Do I need a permit for a fence?",
+        "needham",
+        expect.any(String),
+        expect.any(Array)
+      );
+    });
+
+    it("skips the answer cache when a follow-up can't be condensed", async () => {
+      const { createUIMessageStream } = require("ai");
+      mockCondenseQuery.mockResolvedValue(null);
+
+      await POST(makeRequest({ messages: conversation }));
+      await createUIMessageStream.mock.results[0].value.executePromise;
+
+      expect(mockHybridSearch).toHaveBeenCalledWith("what about for a fence?", expect.anything());
+      expect(mockGetCachedAnswer).not.toHaveBeenCalled();
+      expect(mockSetCachedAnswer).not.toHaveBeenCalled();
+    });
+
+    it("doesn't condense a first question", async () => {
+      await POST(makeRequest({ messages: [{ role: "user", content: "transfer station hours" }] }));
+      expect(mockCondenseQuery).not.toHaveBeenCalled();
+      expect(mockGetCachedAnswer).toHaveBeenCalledWith("transfer station hours", "needham");
+    });
+  });
+
+  describe("fact store", () => {
+    it("answers from stored facts with an exact citation and skips RAG", async () => {
+      const { createUIMessageStream } = require("ai");
+      mockFindFactAnswer.mockResolvedValue({
+        subject: "Building Department",
+        facts: [
+          {
+            factType: "contact",
+            subject: "Building Department",
+            attribute: "phone",
+            value: "(781) 455-7550",
+            excerpt: "Building Department: (781) 455-7550",
+            chunkIndex: 0,
+            documentId: "doc-1",
+            documentUrl: "https://www.needhamma.gov/building",
+            documentTitle: "Building Department",
+          },
+        ],
+        source: { documentId: "doc-1", url: "https://www.needhamma.gov/building", title: "Building Department" },
+      });
+
+      await POST(
+        makeRequest({
+          messages: [{ role: "user", content: "building department phone number" }],
+        })
+      );
+
+      expect(mockFindFactAnswer).toHaveBeenCalledWith(
+        "building department phone number",
+        expect.objectContaining({ townId: "needham" })
+      );
+      expect(mockHybridSearch).not.toHaveBeenCalled();
+      expect(mockTextStream).not.toHaveBeenCalled();
+
+      const { chunks } = createUIMessageStream.mock.results[0].value;
+      const text = chunks.find((c: { type: string }) => c.type === "text-delta");
+      expect(text.delta).toContain("- **Phone:** (781) 455-7550");
+      expect(text.delta).toContain("Source: [Building Department](https://www.needhamma.gov/building)");
+      const sources = chunks.find((c: { type: string }) => c.type === "data-sources");
+      expect(sources.data).toEqual([
+        expect.objectContaining({
+          citation: "[Building Department]",
+          document_url: "https://www.needhamma.gov/building",
+        }),
+      ]);
+    });
+
+    it("falls through to RAG when the fact lookup fails", async () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+      mockFindFactAnswer.mockRejectedValue(new Error("relation does not exist"));
+
+      await POST(
+        makeRequest({
+          messages: [{ role: "user", content: "transfer station hours" }],
+        })
+      );
+
+      expect(mockHybridSearch).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+
   describe("request validation", () => {
     it("returns 400 for empty messages", async () => {
       const response = await POST(makeRequest({ messages: [] }));
@@ -78,13 +78,12 @@ jest.mock("@/lib/embeddings", () => ({
     generateEmbedding: jest.fn().mockResolvedValue(new Array(1536).fill(0)),
 }));
 
-jest.mock("@/lib/upstash-vector", () => ({
-    queryPinecone: jest.fn().mockResolvedValue([]),
-    upsertToPinecone: jest.fn().mockResolvedValue(undefined),
-    deleteFromPinecone: jest.fn().mockResolvedValue(undefined),
-    PINECONE_NS_CHUNKS: "chunks",
-    PINECONE_NS_CONTENT: "content",
-}));
+// Empty in-memory vector store — no Upstash credentials needed
+jest.mock("@/lib/vector-store", () => {
+    const actual = jest.requireActual("@/lib/vector-store");
+    const store = actual.createMemoryVectorStore();
+    return { ...actual, getVectorStore: () => store };
+});
 
 // ---------------------------------------------------------------------------
 // Environment
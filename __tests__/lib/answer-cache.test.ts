@@ -1,8 +1,95 @@
 /**
- * Tests for answer-cache.ts — normalizeQuery and cache behavior
+ * Tests for answer-cache.ts — normalizeQuery and cache behavior, including
+ * the semantic tier that matches paraphrased questions by embedding and
+ * source-driven invalidation when a cited page changes.
  */
 
-import { normalizeQuery } from "@/lib/answer-cache";
+type Row = Record<string, unknown>;
+const mockRows: Row[] = [];
+const mockPurges: Row[] = [];
+const mockRpc = jest.fn().mockResolvedValue({ error: null });
+
+// Minimal chainable stand-in for the Supabase query builder
+function mockQuery(table: string) {
+  const filters: Row = {};
+  let idFilter: unknown[] | null = null;
+  let pending: Row | null = null;
+  let deleting = false;
+  const matches = () =>
+    mockRows.filter(
+      (r) => Object.entries(filters).every(([k, v]) => r[k] === v) && (!idFilter || idFilter.includes(r.id)),
+    );
+  const builder = {
+    select: () => builder,
+    order: () => builder,
+    limit: () => builder,
+    range: () => builder,
+    gt: () => builder,
+    eq: (column: string, value: unknown) => {
+      filters[column] = value;
+      return builder;
+    },
+    in: (_column: string, values: unknown[]) => {
+      idFilter = values;
+      return builder;
+    },
+    delete: () => {
+      deleting = true;
+      return builder;
+    },
+    insert: async (rows: Row[]) => {
+      if (table === "cached_answer_purges") mockPurges.push(...rows);
+      return { error: null };
+    },
+    upsert: (row: Row) => {
+      pending = { id: `ans-${mockRows.length + 1}`, ...row };
+      mockRows.push(pending);
+      return builder;
+    },
+    single: async () => {
+      const row = pending ?? matches()[0];
+      return row ? { data: row, error: null } : { data: null, error: { message: "not found" } };
+    },
+    then: (resolve: (result: { data: Row[]; error: null }) => void) => {
+      const rows = matches();
+      if (deleting) {
+        for (const row of rows) mockRows.splice(mockRows.indexOf(row), 1);
+      }
+      resolve({ data: rows, error: null });
+    },
+  };
+  return builder;
+}
+
+jest.mock("@/lib/supabase", () => ({
+  getSupabaseServiceClient: () => ({
+    from: (table: string) => mockQuery(table),
+    rpc: (...args: unknown[]) => mockRpc(...args),
+  }),
+}));
+
+// Toy embedding: one axis per topic, so similarities are easy to reason about
+jest.mock("@/lib/embeddings", () => ({
+  generateEmbedding: jest.fn(async (text: string) => [
+    text.includes("transfer station") ? 1 : 0,
+    text.includes("library") ? 1 : 0,
+    text.includes("open") ? 0.5 : 0,
+  ]),
+}));
+
+let mockThreshold = 0.92;
+jest.mock("@/lib/town-settings", () => ({
+  getTownSettings: jest.fn(async () => ({ semanticCacheThreshold: mockThreshold })),
+}));
+
+import {
+  cacheKeyText,
+  getCachedAnswer,
+  invalidateCachedAnswersForUrls,
+  normalizeQuery,
+  setCachedAnswer,
+} from "@/lib/answer-cache";
+import { createMemoryVectorStore, setVectorStore, VECTOR_NS_ANSWERS } from "@/lib/vector-store";
 
 describe("answer-cache", () => {
   describe("normalizeQuery", () => {
@@ -50,4 +137,129 @@ describe("answer-cache", () => {
       expect(normalizeQuery("???!!!")).toBe("");
     });
   });
+
+  describe("semantic tier", () => {
+    beforeEach(async () => {
+      mockRows.length = 0;
+      mockRpc.mockClear();
+      mockThreshold = 0.92;
+      setVectorStore(createMemoryVectorStore());
+      await setCachedAnswer("transfer station hours", "needham", "Open Tue-Sat 7-3", [
+        { title: "Transfer Station", url: "https://www.needhamma.gov/rts" },
+      ]);
+    });
+
+    afterAll(() => setVectorStore(null));
+
+    it("expands synonyms in the embedded text", async () => {
+      expect(await cacheKeyText("When is the dump open?", "needham")).toContain("transfer station");
+    });
+
+    it("serves exact matches from the first tier", async () => {
+      const hit = await getCachedAnswer("What are the transfer station hours?", "needham");
+      expect(hit?.match).toEqual({ tier: "exact" });
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it("serves a paraphrase above the town's cutoff and records it", async () => {
+      mockThreshold = 0.88;
+      const hit = await getCachedAnswer("when is the dump open", "needham");
+
+      expect(hit?.answer_html).toBe("Open Tue-Sat 7-3");
+      expect(hit?.match).toMatchObject({ tier: "semantic", cachedQuery: "transfer station hours" });
+      expect(mockRpc).toHaveBeenCalledWith(
+        "record_cache_paraphrase",
+        expect.objectContaining({ p_normalized_query: "dump open", p_served: true }),
+      );
+    });
+
+    it("records a near miss without serving it", async () => {
+      const hit = await getCachedAnswer("when is the dump open", "needham");
+
+      expect(hit).toBeNull();
+      expect(mockRpc).toHaveBeenCalledWith(
+        "record_cache_paraphrase",
+        expect.objectContaining({ p_served: false }),
+      );
+    });
+
+    it("ignores unrelated questions and other towns", async () => {
+      expect(await getCachedAnswer("library hours", "needham")).toBeNull();
+      expect(await getCachedAnswer("when is the dump open", "wellesley")).toBeNull();
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it("is off when the cutoff is 1", async () => {
+      mockThreshold = 1;
+      expect(await getCachedAnswer("when is the dump open", "needham")).toBeNull();
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("source-driven invalidation", () => {
+    beforeEach(async () => {
+      mockRows.length = 0;
+      mockPurges.length = 0;
+      setVectorStore(createMemoryVectorStore());
+      await setCachedAnswer("transfer station hours", "needham", "Open Tue-Sat 7-3", [
+        { title: "Transfer Station", url: "https://www.needhamma.gov/rts/?utm_source=news" },
+      ]);
+      await setCachedAnswer("library hours", "needham", "Open daily", [
+        { title: "Library", url: "https://www.needhamma.gov/library" },
+      ]);
+    });
+
+    afterAll(() => setVectorStore(null));
+
+    it("purges answers citing a changed URL after canonicalization and records why", async () => {
+      const purged = await invalidateCachedAnswersForUrls("needham", ["http://needhamma.gov/RTS"], {
+        reason: "source_changed",
+        triggeredBy: "monitor:cli",
+      });
+
+      expect(purged).toBe(1);
+      expect(mockRows.map((r) => r.normalized_query)).toEqual(["library hours"]);
+      expect(mockPurges).toEqual([
+        expect.objectContaining({
+          town_id: "needham",
+          normalized_query: "transfer station hours",
+          matched_url: "https://www.needhamma.gov/rts/?utm_source=news",
+          reason: "source_changed",
+          triggered_by: "monitor:cli",
+        }),
+      ]);
+    });
+
+    it("drops the purged question from the semantic tier", async () => {
+      const store = createMemoryVectorStore();
+      setVectorStore(store);
+      await setCachedAnswer("transfer station hours", "needham", "Open Tue-Sat 7-3", [
+        { title: "Transfer Station", url: "https://www.needhamma.gov/rts" },
+      ]);
+
+      await invalidateCachedAnswersForUrls("needham", ["https://www.needhamma.gov/rts"], {
+        reason: "source_changed",
+        triggeredBy: "monitor:cli",
+      });
+
+      expect(await store.query(VECTOR_NS_ANSWERS, [1, 0, 0], 5)).toEqual([]);
+    });
+
+    it("leaves other towns and unrelated URLs alone", async () => {
+      expect(
+        await invalidateCachedAnswersForUrls("wellesley", ["https://www.needhamma.gov/rts"], {
+          reason: "source_changed",
+          triggeredBy: "monitor:cli",
+        }),
+      ).toBe(0);
+      expect(
+        await invalidateCachedAnswersForUrls("needham", ["https://www.needhamma.gov/parks"], {
+          reason: "content_item_updated",
+          triggeredBy: "connector:needham:news",
+        }),
+      ).toBe(0);
+      expect(mockRows).toHaveLength(2);
+      expect(mockPurges).toHaveLength(0);
+    });
+  });
 });
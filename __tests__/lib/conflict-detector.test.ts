@@ -0,0 +1,152 @@
+/**
+ * Tests for conflict-detector.ts — fact extraction, cross-source
+ * disagreement detection and newest-source selection.
+ */
+
+import {
+  detectConflicts,
+  extractFacts,
+  formatConflictsForPrompt,
+  subjectTerms,
+} from "@/lib/conflict-detector";
+import type { RetrievedChunk } from "@/lib/rag";
+
+function chunk(
+  id: string,
+  text: string,
+  options: { title?: string; url?: string; date?: string } = {},
+): RetrievedChunk {
+  const title = options.title ?? `Doc ${id}`;
+  return {
+    id,
+    chunkText: text,
+    similarity: 0.8,
+    metadata: options.date ? { document_date: options.date } : {},
+    source: {
+      sourceId: id,
+      citation: `[${title}]`,
+      documentTitle: title,
+      documentUrl: options.url ?? `https://needhamma.gov/${id}`,
+    },
+  };
+}
+
+describe("extractFacts", () => {
+  it("normalizes phone numbers, money, times and dates", () => {
+    const facts = extractFacts(
+      "Call the Clerk at 781.455.7500. License fee: $1,250.00. Open 8:30 a.m. Due by March 3, 2025.",
+    );
+    const byKind = Object.fromEntries(facts.map((f) => [f.kind, f.value]));
+    expect(byKind).toEqual({
+      phone: "7814557500",
+      money: "1250.00",
+      time: "08:30",
+      date: "2025-03-03",
+    });
+  });
+
+  it("converts PM times to 24-hour", () => {
+    expect(extractFacts("closes at 12 pm")[0].value).toBe("12:00");
+    expect(extractFacts("until 4:30pm")[0].value).toBe("16:30");
+    expect(extractFacts("starting 12 a.m.")[0].value).toBe("00:00");
+  });
+
+  it("tags each fact with the subject words before it", () => {
+    const [fact] = extractFacts("Building Dept. phone: (781) 455-7550");
+    expect(fact.subjectTerms).toEqual(["building", "department"]);
+  });
+});
+
+describe("subjectTerms", () => {
+  it("drops generic words and folds plurals and possessives", () => {
+    expect(subjectTerms("What are the Recreation Department's permit fees?")).toEqual([
+      "recreation", "department", "permit",
+    ]);
+  });
+
+  it("drops the active town's own name", () => {
+    expect(subjectTerms("Needham transfer station fees")).toEqual(["transfer", "station"]);
+    expect(subjectTerms("Exampletown transfer station fees", "mock-town")).toEqual(["transfer", "station"]);
+    expect(subjectTerms("Needham transfer station fees", "mock-town")).toEqual(["needham", "transfer", "station"]);
+  });
+});
+
+describe("detectConflicts", () => {
+  it("flags the same subject with different values across documents", () => {
+    const conflicts = detectConflicts([
+      chunk("S1", "Building Department: (781) 455-7550", { date: "2025-03-01" }),
+      chunk("S2", "Building Dept. (781) 455-7500", { date: "2019-06-01" }),
+    ]);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      kind: "phone",
+      subject: "building department",
+      newest: { value: "(781) 455-7550", sourceId: "S1", date: "2025-03-01" },
+      others: [{ value: "(781) 455-7500", sourceId: "S2", date: "2019-06-01" }],
+    });
+  });
+
+  it("picks the newest source even when it ranked lower", () => {
+    const [conflict] = detectConflicts([
+      chunk("old", "Dog license fee $10", { date: "2018-01-01" }),
+      chunk("new", "Dog license fee $15", { date: "2025-01-01" }),
+    ]);
+    expect(conflict.newest.sourceId).toBe("new");
+  });
+
+  it("falls back to retrieval order when sources are undated", () => {
+    const [conflict] = detectConflicts([
+      chunk("first", "Dog license fee $10"),
+      chunk("second", "Dog license fee $15"),
+    ]);
+    expect(conflict.newest.sourceId).toBe("first");
+    expect(conflict.newest.date).toBeUndefined();
+  });
+
+  it("ignores values the other source also mentions", () => {
+    const conflicts = detectConflicts([
+      chunk("S1", "Dog license fee $10 spayed, $15 unspayed"),
+      chunk("S2", "Dog license fee $15"),
+    ]);
+    expect(conflicts).toEqual([]);
+  });
+
+  it("ignores facts about different subjects", () => {
+    const conflicts = detectConflicts([
+      chunk("S1", "Building Department (781) 455-7550"),
+      chunk("S2", "Library (781) 455-7559"),
+    ]);
+    expect(conflicts).toEqual([]);
+  });
+
+  it("treats chunks from the same document as one source", () => {
+    const conflicts = detectConflicts([
+      chunk("a", "Building Department (781) 455-7550", { url: "https://needhamma.gov/building" }),
+      chunk("b", "Building Department fax (781) 455-7999", { url: "https://needhamma.gov/building" }),
+    ]);
+    expect(conflicts).toEqual([]);
+  });
+
+  it("only reports subjects the question is about", () => {
+    const chunks = [
+      chunk("S1", "Building Department (781) 455-7550. Transfer station sticker $100"),
+      chunk("S2", "Building Department (781) 455-7500. Transfer station sticker $120"),
+    ];
+    const conflicts = detectConflicts(chunks, "how much is a transfer station sticker");
+    expect(conflicts.map((c) => c.kind)).toEqual(["money"]);
+  });
+});
+
+describe("formatConflictsForPrompt", () => {
+  it("lists the newest value first with source ids and dates", () => {
+    const prompt = formatConflictsForPrompt(
+      detectConflicts([
+        chunk("S1", "Building Department: (781) 455-7550", { date: "2025-03-01" }),
+        chunk("S2", "Building Department (781) 455-7500"),
+      ]),
+    );
+    expect(prompt).toContain("SOURCE CONFLICTS");
+    expect(prompt).toContain("newest says (781) 455-7550 [S1, 2025-03-01]; also stated: (781) 455-7500 [S2]");
+  });
+});
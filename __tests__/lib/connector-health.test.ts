@@ -0,0 +1,109 @@
+/**
+ * Tests for connectors/health.ts — failure backoff on top of the schedule,
+ * and health states read from source_configs rows.
+ */
+
+import {
+  MAX_BACKOFF_MS,
+  classifyConnectorHealth,
+  healthStateFromRow,
+  isConnectorDue,
+  nextRunAt,
+  retryIntervalMs,
+  type ConnectorHealthState,
+} from "@/lib/connectors/health";
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date("2026-10-19T12:00:00Z").getTime();
+
+function hoursAgo(hours: number): string {
+  return new Date(NOW - hours * HOUR).toISOString();
+}
+
+function makeState(overrides: Partial<ConnectorHealthState> = {}): ConnectorHealthState {
+  return {
+    enabled: true,
+    schedule: "hourly",
+    lastFetchedAt: hoursAgo(1),
+    lastSuccessAt: hoursAgo(1),
+    consecutiveFailures: 0,
+    disabledReason: null,
+    ...overrides,
+  };
+}
+
+describe("connector health", () => {
+  describe("retryIntervalMs", () => {
+    it("doubles the schedule with each consecutive failure", () => {
+      expect([0, 1, 2, 3].map((n) => retryIntervalMs("hourly", n) / HOUR)).toEqual([1, 2, 4, 8]);
+    });
+
+    it("caps the backoff, but never below the schedule", () => {
+      expect(retryIntervalMs("daily", 5)).toBe(MAX_BACKOFF_MS);
+      expect(retryIntervalMs("weekly", 3)).toBe(7 * 24 * HOUR);
+    });
+  });
+
+  describe("isConnectorDue", () => {
+    it("runs a healthy connector once its schedule has passed", () => {
+      expect(isConnectorDue(makeState({ lastFetchedAt: hoursAgo(1) }), NOW)).toBe(true);
+      expect(isConnectorDue(makeState({ lastFetchedAt: hoursAgo(0.5) }), NOW)).toBe(false);
+      expect(isConnectorDue(makeState({ lastFetchedAt: null }), NOW)).toBe(true);
+    });
+
+    it("holds a failing connector back until its backoff has passed", () => {
+      const failing = makeState({ lastFetchedAt: hoursAgo(3), consecutiveFailures: 2 });
+      expect(isConnectorDue(failing, NOW)).toBe(false);
+      expect(nextRunAt(failing)?.toISOString()).toBe(new Date(NOW + HOUR).toISOString());
+      expect(isConnectorDue({ ...failing, lastFetchedAt: hoursAgo(4) }, NOW)).toBe(true);
+    });
+
+    it("never runs a disabled connector", () => {
+      const disabled = makeState({ enabled: false, lastFetchedAt: hoursAgo(100) });
+      expect(nextRunAt(disabled)).toBeNull();
+      expect(isConnectorDue(disabled, NOW)).toBe(false);
+    });
+  });
+
+  describe("classifyConnectorHealth", () => {
+    it("reports states from the recorded outcomes", () => {
+      expect(classifyConnectorHealth(makeState())).toBe("healthy");
+      expect(classifyConnectorHealth(makeState({ lastFetchedAt: null, lastSuccessAt: null }))).toBe("never_run");
+      expect(classifyConnectorHealth(makeState({ consecutiveFailures: 1 }))).toBe("backing_off");
+    });
+
+    it("tells an automatic disable apart from a manual one", () => {
+      expect(classifyConnectorHealth(makeState({ enabled: false }))).toBe("disabled");
+      expect(
+        classifyConnectorHealth(
+          makeState({ enabled: false, consecutiveFailures: 6, disabledReason: "Disabled after 6 consecutive failures: 503" })
+        )
+      ).toBe("auto_disabled");
+    });
+
+    it("does not infer trouble from a stale fetch time alone", () => {
+      expect(classifyConnectorHealth(makeState({ lastFetchedAt: hoursAgo(72) }))).toBe("healthy");
+    });
+  });
+
+  it("reads the health columns from a source_configs row", () => {
+    expect(
+      healthStateFromRow({
+        id: "needham:town-rss",
+        enabled: true,
+        schedule: "daily",
+        last_fetched_at: "2026-10-18T12:00:00Z",
+        last_success_at: null,
+        consecutive_failures: null,
+        disabled_reason: null,
+      })
+    ).toEqual({
+      enabled: true,
+      schedule: "daily",
+      lastFetchedAt: "2026-10-18T12:00:00Z",
+      lastSuccessAt: null,
+      consecutiveFailures: 0,
+      disabledReason: null,
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Tests for connectors/preview.ts — validating draft configs and the
+ * warnings a dry run reports without upserting anything.
+ */
+
+import {
+  collectPreviewWarnings,
+  parseDraftConnectorConfig,
+  previewConnector,
+} from "@/lib/connectors/preview";
+import { registerConnector } from "@/lib/connectors/registry";
+import type { ContentItem, RawItem, SourceConnector } from "@/lib/connectors/types";
+
+function makeItem(overrides: Partial<ContentItem> = {}): ContentItem {
+  return {
+    source_id: "needham:preview",
+    category: "news",
+    title: "Select Board approves new sidewalks in Needham",
+    content: "The Needham Select Board voted to fund sidewalk repairs on Highland Avenue.",
+    published_at: new Date("2026-10-14T13:30:00Z"),
+    url: "https://www.needhamma.gov/news/sidewalks",
+    metadata: {},
+    content_hash: "hash-1",
+    ...overrides,
+  };
+}
+
+describe("connector preview", () => {
+  describe("parseDraftConnectorConfig", () => {
+    it("fills in defaults for a minimal draft", () => {
+      expect(
+        parseDraftConnectorConfig({ connector_type: "rss", category: "news", config: { feedUrl: "https://x.org/rss" } }, "needham")
+      ).toEqual({
+        id: "needham:preview",
+        connector_type: "rss",
+        category: "news",
+        schedule: "daily",
+        config: { feedUrl: "https://x.org/rss" },
+        enabled: true,
+        shouldEmbed: false,
+      });
+    });
+
+    it("rejects unknown types, categories, schedules and other towns' ids", () => {
+      expect(parseDraftConnectorConfig({ connector_type: "ftp", category: "news" }, "needham")).toMatch(/connector_type/);
+      expect(parseDraftConnectorConfig({ connector_type: "rss", category: "gossip" }, "needham")).toMatch(/category/);
+      expect(
+        parseDraftConnectorConfig({ connector_type: "rss", category: "news", schedule: "monthly" }, "needham")
+      ).toMatch(/schedule/);
+      expect(
+        parseDraftConnectorConfig({ id: "wellesley:news", connector_type: "rss", category: "news" }, "needham")
+      ).toMatch(/needham:/);
+    });
+  });
+
+  describe("collectPreviewWarnings", () => {
+    const from = new Date("2026-10-19T12:00:00Z").getTime();
+
+    it("passes clean items", () => {
+      expect(collectPreviewWarnings([makeItem()], "needham", from, from + 5)).toEqual([]);
+    });
+
+    it("flags dates defaulted to the fetch time, duplicates and missing fields", () => {
+      const warnings = collectPreviewWarnings(
+        [
+          makeItem(),
+          makeItem({ published_at: new Date(from + 2), content_hash: "hash-2" }),
+          makeItem({ title: "Sidewalks, again in Needham" }),
+          makeItem({ url: undefined, content_hash: "hash-3" }),
+        ],
+        "needham",
+        from,
+        from + 5
+      );
+
+      expect(warnings.map(({ code, itemIndex }) => [code, itemIndex])).toEqual([
+        ["missing_date", 1],
+        ["duplicate_hash", 2],
+        ["missing_url", 3],
+      ]);
+    });
+
+    it("reports items the geo filter would reject", () => {
+      const [warning] = collectPreviewWarnings(
+        [
+          makeItem({
+            title: "Hartford city council meets",
+            content: "The council in Hartford, CT discussed the Bridgeport budget.",
+            url: "https://example.org/hartford",
+          }),
+        ],
+        "needham",
+        from,
+        from + 5
+      );
+      expect(warning).toMatchObject({ code: "geo_rejected", itemIndex: 0 });
+    });
+  });
+
+  describe("previewConnector", () => {
+    it("runs fetch and normalize and returns the items without storing them", async () => {
+      const fetched: RawItem[] = [{ title: "One" }, { title: "Two" }];
+      registerConnector("api:preview-test", (townId, config): SourceConnector => ({
+        id: config.id,
+        type: config.connector_type,
+        category: config.category,
+        schedule: config.schedule,
+        townId,
+        shouldEmbed: false,
+        fetch: async () => fetched,
+        normalize: (raw) =>
+          raw.map((r, i) => makeItem({ title: `${r.title} in Needham`, content_hash: `hash-${i}` })),
+      }));
+
+      const config = parseDraftConnectorConfig(
+        { connector_type: "api", category: "news", config: { subtype: "preview-test" } },
+        "needham"
+      );
+      if (typeof config === "string") throw new Error(config);
+
+      const preview = await previewConnector("needham", config);
+      expect(preview).toMatchObject({ connectorId: "needham:preview", itemsFound: 2, totalItems: 2, warnings: [] });
+      expect(preview.items.map((item) => item.title)).toEqual(["One in Needham", "Two in Needham"]);
+    });
+  });
+});
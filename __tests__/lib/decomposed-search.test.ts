@@ -0,0 +1,199 @@
+/**
+ * Tests for decomposed-search.ts — sub-query routing, execution strategy,
+ * priority-based result budgets and telemetry flattening.
+ */
+
+const mockDecomposeQuery = jest.fn();
+jest.mock("@/lib/query-decomposer", () => ({
+  decomposeQuery: (...args: unknown[]) => mockDecomposeQuery(...args),
+}));
+
+const mockHybridSearch = jest.fn();
+jest.mock("@/lib/rag", () => ({
+  hybridSearch: (...args: unknown[]) => mockHybridSearch(...args),
+}));
+
+import {
+  allocateResultBudgets,
+  decompositionTelemetry,
+  mergeSubQueryResults,
+  searchWithDecomposition,
+} from "@/lib/decomposed-search";
+import type { QueryDecomposition, SubQuery } from "@/lib/query-decomposer";
+
+function result(id: string, score: number) {
+  return {
+    id,
+    chunk_text: `chunk ${id}`,
+    metadata: {},
+    source: { sourceId: "S1", citation: `[${id}]`, documentTitle: id },
+    similarity: score,
+    text_rank: 0,
+    score,
+    highlight: "",
+  };
+}
+
+function subQuery(query: string, priority: number, intent: SubQuery["intent"] = "factual"): SubQuery {
+  return { query, intent, sourceHint: ["municipal"], priority };
+}
+
+const compound: QueryDecomposition = {
+  originalQuery: "when is the transfer station open and do I need a sticker",
+  isComplex: true,
+  subQueries: [
+    subQuery("transfer station hours", 1, "factual"),
+    subQuery("transfer station sticker requirement", 2, "procedural"),
+  ],
+  strategy: "parallel",
+};
+
+describe("decomposed-search", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("allocateResultBudgets", () => {
+    it("gives higher-priority sub-queries more slots and uses the whole limit", () => {
+      const budgets = allocateResultBudgets([subQuery("a", 1), subQuery("b", 2)], 10);
+      expect(budgets[0]).toBeGreaterThan(budgets[1]);
+      expect(budgets[0] + budgets[1]).toBe(10);
+    });
+
+    it("splits evenly between equal priorities", () => {
+      expect(allocateResultBudgets([subQuery("a", 1), subQuery("b", 1)], 10)).toEqual([5, 5]);
+    });
+
+    it("guarantees at least one slot per sub-query", () => {
+      const budgets = allocateResultBudgets(
+        [subQuery("a", 1), subQuery("b", 3), subQuery("c", 3), subQuery("d", 3)],
+        4,
+      );
+      expect(budgets.every((b) => b >= 1)).toBe(true);
+    });
+  });
+
+  describe("mergeSubQueryResults", () => {
+    it("reserves budgeted slots for lower-scoring sub-queries", () => {
+      const merged = mergeSubQueryResults(
+        [
+          [result("a1", 0.9), result("a2", 0.85), result("a3", 0.8)],
+          [result("b1", 0.4)],
+        ],
+        [2, 1],
+        3,
+      );
+      expect(merged.map((r) => r.id)).toEqual(["a1", "a2", "b1"]);
+    });
+
+    it("does not duplicate chunks shared between sub-queries", () => {
+      const merged = mergeSubQueryResults(
+        [[result("a1", 0.9)], [result("a1", 0.9), result("b1", 0.5)]],
+        [1, 1],
+        5,
+      );
+      expect(merged.map((r) => r.id)).toEqual(["a1", "b1"]);
+    });
+
+    it("backfills unused budget with the best leftovers", () => {
+      const merged = mergeSubQueryResults(
+        [[result("a1", 0.9), result("a2", 0.7)], []],
+        [1, 1],
+        2,
+      );
+      expect(merged.map((r) => r.id)).toEqual(["a1", "a2"]);
+    });
+  });
+
+  describe("searchWithDecomposition", () => {
+    it("searches simple queries once with the original wording and the intent config", async () => {
+      mockDecomposeQuery.mockResolvedValue({
+        originalQuery: "what are the transfer station hours",
+        isComplex: false,
+        subQueries: [subQuery("transfer station hours", 1, "factual")],
+        strategy: "single",
+      });
+      mockHybridSearch.mockResolvedValue([result("a1", 0.8)]);
+
+      const { results } = await searchWithDecomposition("what are the transfer station hours", {
+        townId: "needham",
+        limit: 10,
+      });
+
+      expect(mockHybridSearch).toHaveBeenCalledTimes(1);
+      expect(mockHybridSearch).toHaveBeenCalledWith(
+        "what are the transfer station hours",
+        expect.objectContaining({
+          townId: "needham",
+          limit: 10,
+          config: expect.objectContaining({ resultCount: 5 }),
+        }),
+      );
+      expect(results).toHaveLength(1);
+    });
+
+    it("runs each sub-query with its own routed config", async () => {
+      mockDecomposeQuery.mockResolvedValue(compound);
+      mockHybridSearch.mockImplementation(async (q: string) =>
+        q.includes("sticker") ? [result("b1", 0.6)] : [result("a1", 0.9)],
+      );
+
+      const { results, decomposition } = await searchWithDecomposition(compound.originalQuery, {
+        townId: "needham",
+        limit: 10,
+      });
+
+      expect(mockHybridSearch).toHaveBeenCalledTimes(2);
+      expect(mockHybridSearch).toHaveBeenCalledWith(
+        "transfer station sticker requirement",
+        expect.objectContaining({ config: expect.objectContaining({ expandSiblings: true }) }),
+      );
+      expect(results.map((r) => r.id)).toEqual(["a1", "b1"]);
+      expect(decomposition.isComplex).toBe(true);
+    });
+
+    it("runs sequential sub-queries one at a time", async () => {
+      mockDecomposeQuery.mockResolvedValue({ ...compound, strategy: "sequential" });
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockHybridSearch.mockImplementation(async () => {
+        inFlight += 1;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight -= 1;
+        return [];
+      });
+
+      await searchWithDecomposition(compound.originalQuery, { townId: "needham", limit: 10 });
+
+      expect(mockHybridSearch).toHaveBeenCalledTimes(2);
+      expect(maxInFlight).toBe(1);
+    });
+
+    it("keeps results from healthy sub-queries when one fails", async () => {
+      mockDecomposeQuery.mockResolvedValue(compound);
+      mockHybridSearch.mockImplementation(async (q: string) => {
+        if (q.includes("sticker")) throw new Error("statement timeout");
+        return [result("a1", 0.9)];
+      });
+
+      const { results } = await searchWithDecomposition(compound.originalQuery, {
+        townId: "needham",
+        limit: 10,
+      });
+
+      expect(results.map((r) => r.id)).toEqual(["a1"]);
+    });
+  });
+
+  describe("decompositionTelemetry", () => {
+    it("flattens intents and source hints without duplicates", () => {
+      expect(decompositionTelemetry(compound)).toEqual({
+        wasDecomposed: true,
+        subQueryCount: 2,
+        intents: ["factual", "procedural"],
+        sourceHints: ["municipal"],
+      });
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Tests for the structured fact store — extracting hours, fees and contacts
+ * from chunks, matching a question to stored facts, answer formatting, and
+ * the TownDepartment phone check.
+ */
+
+import {
+  checkDepartmentContacts,
+  extractStructuredFacts,
+  factQueryTerms,
+  factTypesForQuery,
+  formatFactAnswer,
+  formatFactAnswerHtml,
+  selectFactAnswer,
+  type StoredFact,
+  type StructuredFact,
+} from "@/lib/fact-store";
+
+function chunk(text: string, title = "Public Works | Needham, MA", sectionTitle?: string) {
+  return { text, metadata: { document_title: title, section_title: sectionTitle, chunk_index: 0 } };
+}
+
+function stored(fact: Partial<StoredFact> & Pick<StructuredFact, "factType" | "subject" | "attribute" | "value">): StoredFact {
+  return {
+    excerpt: "",
+    chunkIndex: 0,
+    documentId: "doc-1",
+    documentUrl: "https://www.needhamma.gov/page",
+    documentTitle: "Town Page",
+    ...fact,
+  };
+}
+
+describe("extractStructuredFacts", () => {
+  it("extracts facility hours under the nearest heading", () => {
+    const facts = extractStructuredFacts([
+      chunk(
+        [
+          "## Recycling & Transfer Station",
+          "Located at 1421 Central Avenue.",
+          "### Hours of Operation",
+          "Tuesday - Saturday: 7:00 a.m. - 3:00 p.m.",
+          "Sunday, Monday: Closed",
+        ].join("\n"),
+      ),
+    ]);
+
+    const hours = facts.filter((f) => f.factType === "hours");
+    expect(hours).toEqual([
+      expect.objectContaining({
+        subject: "Recycling & Transfer Station",
+        attribute: "Tuesday - Saturday",
+        value: "7:00 a.m. – 3:00 p.m.",
+      }),
+    ]);
+    expect(facts).toContainEqual(
+      expect.objectContaining({ factType: "contact", attribute: "address", value: "1421 Central Avenue" }),
+    );
+  });
+
+  it("names each fee on a fee schedule line", () => {
+    const facts = extractStructuredFacts([
+      chunk("## Transfer Station Sticker Fees\n| Resident sticker | $150 |\n| Second vehicle | $30 |"),
+    ]);
+
+    expect(facts.filter((f) => f.factType === "fee").map((f) => [f.attribute, f.value])).toEqual([
+      ["Resident sticker", "$150"],
+      ["Second vehicle", "$30"],
+    ]);
+  });
+
+  it("attributes contacts to a label on the same line and skips fax numbers", () => {
+    const facts = extractStructuredFacts([
+      chunk(
+        "Building Department: (781) 455-7550, Fax (781) 449-9023, building@needhamma.gov",
+        "Contact Us",
+      ),
+    ]);
+
+    expect(facts).toEqual([
+      expect.objectContaining({ factType: "contact", subject: "Building Department", attribute: "phone", value: "(781) 455-7550" }),
+      expect.objectContaining({ factType: "contact", subject: "Building Department", attribute: "email", value: "building@needhamma.gov" }),
+    ]);
+  });
+
+  it("ignores dollar amounts that aren't fees", () => {
+    const facts = extractStructuredFacts([chunk("The project came in at $2,000,000 under budget.")]);
+    expect(facts.filter((f) => f.factType === "fee")).toHaveLength(0);
+  });
+});
+
+describe("factTypesForQuery", () => {
+  it("maps question wording to fact types", () => {
+    expect(factTypesForQuery("what are the transfer station hours", "factual")).toEqual(["hours"]);
+    expect(factTypesForQuery("how much is a dog license", "factual")).toEqual(["fee"]);
+    expect(factTypesForQuery("building department phone number", "factual")).toEqual(["contact"]);
+    expect(factTypesForQuery("who handles building permits", "contact")).toEqual(["contact"]);
+    expect(factTypesForQuery("what is the tax rate history", "factual")).toEqual(["fee"]);
+    expect(factTypesForQuery("what is the zoning of my lot", "factual")).toEqual([]);
+  });
+});
+
+describe("factQueryTerms", () => {
+  it("drops the active town's name, including multi-word names", () => {
+    expect(factQueryTerms("Needham building department phone number")).toEqual(["building", "department"]);
+    expect(factQueryTerms("Mock Town building department phone", "mock-town")).toEqual(["building", "department"]);
+    expect(factQueryTerms("Needham building department phone", "mock-town")).toEqual(["needham", "building", "department"]);
+  });
+});
+
+describe("selectFactAnswer", () => {
+  const facts = [
+    stored({ factType: "contact", subject: "Building Department", attribute: "phone", value: "(781) 455-7550", documentId: "building" }),
+    stored({ factType: "contact", subject: "Town Hall", attribute: "phone", value: "(781) 455-7500", documentId: "hall" }),
+    stored({ factType: "fee", subject: "Town Clerk", attribute: "Dog license (spayed/neutered)", value: "$10", documentId: "clerk", documentTitle: "Dog Licensing" }),
+    stored({ factType: "fee", subject: "Town Clerk", attribute: "Marriage license", value: "$25", documentId: "clerk", documentTitle: "Dog Licensing" }),
+  ];
+
+  it("answers when every subject word in the question matches", () => {
+    const answer = selectFactAnswer("what is the building department phone number", facts, ["contact"]);
+    expect(answer?.subject).toBe("Building Department");
+    expect(answer?.facts.map((f) => f.value)).toEqual(["(781) 455-7550"]);
+  });
+
+  it("matches fees by name and keeps only the fees asked about", () => {
+    const answer = selectFactAnswer("how much is a dog license", facts, ["fee"]);
+    expect(answer?.facts.map((f) => f.value)).toEqual(["$10"]);
+  });
+
+  it("returns null when the subject isn't fully covered", () => {
+    expect(selectFactAnswer("library phone number", facts, ["contact"])).toBeNull();
+    expect(selectFactAnswer("phone number", facts, ["contact"])).toBeNull();
+  });
+});
+
+describe("formatting", () => {
+  const answer = {
+    subject: "Building Department",
+    facts: [stored({ factType: "contact", subject: "Building Department", attribute: "phone", value: "(781) 455-7550" })],
+    source: { documentId: "doc-1", url: "https://www.needhamma.gov/building", title: "Building Department", date: "2026-01-05" },
+  };
+
+  it("cites the exact source in chat markdown", () => {
+    expect(formatFactAnswer(answer)).toBe(
+      "**Building Department**\n\n- **Phone:** (781) 455-7550\n\nSource: [Building Department](https://www.needhamma.gov/building) (2026-01-05)",
+    );
+  });
+
+  it("escapes HTML for the search card", () => {
+    const html = formatFactAnswerHtml({ ...answer, subject: "Parks & <Rec>" });
+    expect(html).toContain("Parks &amp; &lt;Rec&gt;");
+    expect(html).toContain("<li><strong>Phone:</strong> (781) 455-7550</li>");
+  });
+});
+
+describe("checkDepartmentContacts", () => {
+  it("flags departments whose configured phone differs from the extracted one", () => {
+    const departments = [
+      { name: "Building Dept.", phone: "(781) 455-7550", question: "" },
+      { name: "Town Clerk", phone: "(781) 455-7500", question: "" },
+      { name: "Library", phone: "(781) 455-7559", question: "" },
+    ];
+    const facts = [
+      stored({ factType: "contact", subject: "Building Department", attribute: "phone", value: "781-455-7550" }),
+      stored({ factType: "contact", subject: "Town Clerk", attribute: "phone", value: "(781) 455-7526", documentUrl: "https://www.needhamma.gov/clerk" }),
+    ];
+
+    expect(checkDepartmentContacts(departments, facts)).toEqual([
+      {
+        department: "Town Clerk",
+        configuredPhone: "(781) 455-7500",
+        extractedPhones: ["(781) 455-7526"],
+        sourceUrls: ["https://www.needhamma.gov/clerk"],
+      },
+    ]);
+  });
+});
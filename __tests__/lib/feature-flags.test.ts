@@ -0,0 +1,128 @@
+/**
+ * Tests for feature-flags.ts — validating admin overrides, layering them
+ * over a town's static flags, and bucketing sessions into rollouts.
+ */
+
+let mockRawConfig: Record<string, unknown> = {};
+
+jest.mock("@/lib/town-settings", () => ({
+  getTownSettings: jest.fn(async () => ({ raw: mockRawConfig })),
+}));
+
+import {
+  getRequestSessionId,
+  getTownFeatureFlags,
+  parseFeatureFlagOverrides,
+  resolveFeatureFlags,
+  rolloutBucket,
+} from "@/lib/feature-flags";
+import { getTownByIdOrDefault } from "@/lib/towns";
+
+const needham = getTownByIdOrDefault("needham");
+const defaults = { ...needham.feature_flags, uiMode: "classic" as const };
+
+describe("feature-flags", () => {
+  beforeEach(() => {
+    mockRawConfig = {};
+  });
+
+  describe("parseFeatureFlagOverrides", () => {
+    it("accepts plain values and rollouts", () => {
+      expect(
+        parseFeatureFlagOverrides({
+          enableTransit: false,
+          uiMode: { value: "search", percent: 20 },
+        })
+      ).toEqual({ enableTransit: false, uiMode: { value: "search", percent: 20 } });
+      expect(parseFeatureFlagOverrides(null)).toEqual({});
+    });
+
+    it("rejects unknown flags, wrong values and bad percentages", () => {
+      expect(parseFeatureFlagOverrides([])).toMatch(/must be an object/);
+      expect(parseFeatureFlagOverrides({ enableTeleport: true })).toMatch(/Unknown feature flag/);
+      expect(parseFeatureFlagOverrides({ enableTransit: "yes" })).toMatch(/enableTransit/);
+      expect(parseFeatureFlagOverrides({ uiMode: "fancy" })).toMatch(/classic or search/);
+      expect(parseFeatureFlagOverrides({ uiMode: { value: "search", percent: 120 } })).toMatch(/0 to 100/);
+      expect(parseFeatureFlagOverrides({ uiMode: { value: "search" } })).toMatch(/percent/);
+    });
+  });
+
+  describe("resolveFeatureFlags", () => {
+    it("applies plain overrides over the static defaults", () => {
+      const { flags, assignments } = resolveFeatureFlags("needham", defaults, { enableTransit: false });
+      expect(flags).toEqual({ ...defaults, enableTransit: false });
+      expect(assignments).toEqual({});
+    });
+
+    it("serves a rollout to roughly its percentage of sessions, consistently", () => {
+      const overrides = { uiMode: { value: "search" as const, percent: 20 } };
+      const sessions = Array.from({ length: 2000 }, (_, i) => `session-${i}`);
+
+      const served = sessions.filter(
+        (id) => resolveFeatureFlags("needham", defaults, overrides, id).flags.uiMode === "search"
+      );
+      expect(served.length / sessions.length).toBeGreaterThan(0.15);
+      expect(served.length / sessions.length).toBeLessThan(0.25);
+
+      // Same session, same variant
+      for (const id of sessions.slice(0, 50)) {
+        const first = resolveFeatureFlags("needham", defaults, overrides, id).flags.uiMode;
+        expect(resolveFeatureFlags("needham", defaults, overrides, id).flags.uiMode).toBe(first);
+      }
+    });
+
+    it("records each session's assignment for telemetry", () => {
+      const overrides = { uiMode: { value: "search" as const, percent: 20 } };
+      const { flags, assignments } = resolveFeatureFlags("needham", defaults, overrides, "abc");
+      const bucket = rolloutBucket("needham:uiMode:abc");
+
+      expect(assignments).toEqual({ uiMode: { value: flags.uiMode, percent: 20, bucket } });
+      expect(flags.uiMode).toBe(bucket < 20 ? "search" : "classic");
+    });
+
+    it("only applies finished rollouts without a session", () => {
+      const partial = resolveFeatureFlags("needham", defaults, {
+        uiMode: { value: "search", percent: 99 },
+      });
+      const complete = resolveFeatureFlags("needham", defaults, {
+        uiMode: { value: "search", percent: 100 },
+      });
+
+      expect(partial.flags.uiMode).toBe("classic");
+      expect(complete.flags.uiMode).toBe("search");
+      expect(partial.assignments).toEqual({});
+    });
+  });
+
+  describe("getTownFeatureFlags", () => {
+    it("reads overrides from the town's settings", async () => {
+      mockRawConfig = { feature_flags: { enableWeather: false } };
+      const { flags } = await getTownFeatureFlags(needham);
+      expect(flags.enableWeather).toBe(false);
+      expect(flags.enableEvents).toBe(needham.feature_flags.enableEvents);
+    });
+
+    it("ignores invalid stored overrides", async () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+      mockRawConfig = { feature_flags: { enableWeather: "nope" } };
+      const { flags } = await getTownFeatureFlags(needham);
+      expect(flags).toEqual(needham.feature_flags);
+      warn.mockRestore();
+    });
+  });
+
+  it("reads the session id from the request cookie", () => {
+    const request = new Request("https://needhamnavigator.com/api/search", {
+      headers: { cookie: "theme=dark; nn_session=1234-abcd" },
+    });
+    expect(getRequestSessionId(request)).toBe("1234-abcd");
+    expect(getRequestSessionId(new Request("https://needhamnavigator.com/"))).toBeNull();
+  });
+
+  it("treats a malformed session cookie as no session", () => {
+    const request = new Request("https://needhamnavigator.com/api/search", {
+      headers: { cookie: "nn_session=%E0%A4%A" },
+    });
+    expect(getRequestSessionId(request)).toBeNull();
+  });
+});
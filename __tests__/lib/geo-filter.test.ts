@@ -0,0 +1,119 @@
+/**
+ * Tests for geo-filter.ts — content and URL relevance driven by each
+ * town's geography profile.
+ */
+
+import {
+  checkGeographicRelevance,
+  getTownGeography,
+  isUrlGeographicallyRelevant,
+  type TownGeography,
+} from "@/lib/geo-filter";
+
+const needham = getTownGeography("needham");
+const mockTown = getTownGeography("mock-town");
+
+// A tenant outside Massachusetts, so the own-state exclusions are exercised
+const westHartford: TownGeography = {
+  core_names: ["west hartford"],
+  villages: ["elmwood", "bishops corner"],
+  neighbors: ["hartford", "farmington", "newington", "bloomfield"],
+  metro: ["new britain", "glastonbury"],
+  county: "hartford",
+  state: "connecticut",
+  state_abbrev: "CT",
+  local_domains: ["westhartfordct.gov"],
+};
+
+describe("getTownGeography", () => {
+  it("returns the profile configured for the town", () => {
+    expect(needham.core_names).toEqual(["needham"]);
+    expect(mockTown.neighbors).toContain("sampleton");
+  });
+
+  it("falls back to the default town for unknown ids", () => {
+    expect(getTownGeography("nowhere")).toEqual(needham);
+    expect(getTownGeography()).toEqual(needham);
+  });
+});
+
+describe("checkGeographicRelevance", () => {
+  const ctStory = "The Hartford Board of Education met Tuesday in Hartford, CT 06103 to vote on the budget.";
+
+  it("rejects out-of-state content for a Massachusetts town", () => {
+    const result = checkGeographicRelevance(ctStory, "School budget vote", "", "schools", needham);
+    expect(result.isRelevant).toBe(false);
+    expect(result.reason).toContain("no needham mention");
+  });
+
+  it("accepts the same content for a Connecticut town that neighbors Hartford", () => {
+    const result = checkGeographicRelevance(ctStory, "School budget vote", "", "schools", westHartford);
+    expect(result.isRelevant).toBe(true);
+    expect(result.detectedLocations).toContain("hartford");
+  });
+
+  it("treats Massachusetts as out of state for a Connecticut town", () => {
+    const result = checkGeographicRelevance(
+      "Boston, MA 02108 — the city council approved a new parking plan.",
+      "Parking plan approved",
+      "",
+      "government",
+      westHartford,
+    );
+    expect(result.isRelevant).toBe(false);
+  });
+
+  it("matches a second town's core names and villages, not Needham's", () => {
+    const text = "The East Mock library extends its summer hours starting in June.";
+    expect(checkGeographicRelevance(text, "Library hours", "", "community", mockTown).reason)
+      .toBe("Content mentions mock town");
+    expect(checkGeographicRelevance(text, "Library hours", "", "community", needham).reason)
+      .toMatch(/allowing by default/);
+  });
+
+  it("counts a town's neighbors as local area", () => {
+    const result = checkGeographicRelevance(
+      "Sampleton hosts its annual craft fair on the common.",
+      "Craft fair",
+      "",
+      "events",
+      mockTown,
+    );
+    expect(result.isRelevant).toBe(true);
+    expect(result.detectedLocations).toEqual(["sampleton"]);
+  });
+
+  it("rejects town-scoped categories with more distant than local references", () => {
+    const result = checkGeographicRelevance(
+      "Needham officials compared notes with Chicago and Denver planners, Texas and Florida too.",
+      "Zoning comparison",
+      "",
+      "government",
+      needham,
+    );
+    expect(result.isRelevant).toBe(false);
+  });
+});
+
+describe("isUrlGeographicallyRelevant", () => {
+  it("allows each town's own domains and subdomains", () => {
+    expect(isUrlGeographicallyRelevant("https://www.needhamma.gov/news", needham)).toBe(true);
+    expect(isUrlGeographicallyRelevant("https://exampletown.gov/alerts", mockTown)).toBe(true);
+  });
+
+  it("only allows Patch paths for the town's state and name", () => {
+    expect(isUrlGeographicallyRelevant("https://patch.com/massachusetts/needham/story", needham)).toBe(true);
+    expect(isUrlGeographicallyRelevant("https://patch.com/massachusetts/needham/story", westHartford)).toBe(false);
+    expect(isUrlGeographicallyRelevant("https://patch.com/connecticut/west-hartford/story", westHartford)).toBe(true);
+  });
+
+  it("does not block the town's own state path on generic sites", () => {
+    const url = "https://news.example.com/connecticut/local-story";
+    expect(isUrlGeographicallyRelevant(url, needham)).toBe(false);
+    expect(isUrlGeographicallyRelevant(url, westHartford)).toBe(true);
+  });
+
+  it("rejects malformed URLs", () => {
+    expect(isUrlGeographicallyRelevant("not a url", needham)).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for grounding.ts — splitting an answer into sentences and aligning
+ * each one with the context documents, lexically and by embedding.
+ */
+
+import { splitAnswerSentences, verifyGrounding } from "@/lib/grounding";
+
+const sources = [
+  {
+    sourceId: "S1",
+    excerpt:
+      "Recycling & Transfer Station hours: Tuesday through Saturday, 7:00 a.m. to 3:00 p.m. " +
+      "Residents need a transfer station sticker, which costs $150 per year.",
+  },
+  {
+    sourceId: "S2",
+    excerpt: "Town Clerk: dog licenses are due by March 31. Call (781) 455-7500 for questions.",
+  },
+];
+
+describe("splitAnswerSentences", () => {
+  it("splits prose and list items, drops headings and internal metadata", () => {
+    const answer = [
+      "## Transfer Station",
+      "The station opens at 7 a.m. Tuesday through Saturday. Stickers cost $150.",
+      "- Bring your **sticker** to the gate.",
+      "USED_SOURCES: S1",
+    ].join("\n");
+
+    expect(splitAnswerSentences(answer)).toEqual([
+      "The station opens at 7 a.m. Tuesday through Saturday.",
+      "Stickers cost $150.",
+      "Bring your sticker to the gate.",
+    ]);
+  });
+});
+
+describe("verifyGrounding", () => {
+  it("attaches source IDs to supported sentences", async () => {
+    const report = await verifyGrounding(
+      "The transfer station is open Tuesday through Saturday from 7:00 a.m. to 3:00 p.m. " +
+        "Dog licenses are due by March 31.",
+      sources,
+    );
+
+    expect(report.sentences.map((s) => [s.supported, s.sourceIds])).toEqual([
+      [true, ["S1"]],
+      [true, ["S2"]],
+    ]);
+    expect(report.supportedRatio).toBe(1);
+    expect(report.unsupportedCount).toBe(0);
+  });
+
+  it("marks sentences stating values no source contains", async () => {
+    const report = await verifyGrounding("A transfer station sticker costs $200 per year.", sources);
+
+    expect(report.sentences[0]).toMatchObject({ supported: false, unmatchedValues: ["$200"] });
+    expect(report.supportedRatio).toBe(0);
+  });
+
+  it("marks claims about topics missing from the sources", async () => {
+    const report = await verifyGrounding(
+      "Dog licenses are due by March 31. Leaf collection happens every November on your trash day.",
+      sources,
+    );
+
+    expect(report.sentences.map((s) => s.supported)).toEqual([true, false]);
+    expect(report.supportedRatio).toBe(0.5);
+  });
+
+  it("skips sentences too short to check", async () => {
+    const report = await verifyGrounding("Hope this helps! Let me know.", sources);
+    expect(report.sentences).toEqual([]);
+    expect(report.supportedRatio).toBe(1);
+  });
+
+  it("lets the embedding check rescue paraphrases but not invented values", async () => {
+    // Toy embedding: everything about the dump points the same way
+    const embed = jest.fn(async (texts: string[]) =>
+      texts.map((text) => (/dump|transfer station/i.test(text) ? [1, 0] : [0, 1])),
+    );
+
+    const report = await verifyGrounding(
+      "You can drop household rubbish at the dump most weekdays. The dump charges $75 per visit.",
+      sources,
+      { embed },
+    );
+
+    expect(report.embeddingChecked).toBe(true);
+    expect(report.sentences[0]).toMatchObject({ supported: true, method: "embedding", sourceIds: ["S1"] });
+    expect(report.sentences[1]).toMatchObject({ supported: false, unmatchedValues: ["$75"] });
+    // Only the sentence without an unmatched value was sent for embedding
+    expect(embed.mock.calls[0][0]).toHaveLength(sources.length + 1);
+  });
+
+  it("falls back to the lexical result when embedding fails", async () => {
+    const embed = jest.fn().mockRejectedValue(new Error("rate limited"));
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    const report = await verifyGrounding("Leaf collection happens every November on trash day.", sources, { embed });
+
+    expect(report.embeddingChecked).toBe(false);
+    expect(report.sentences[0].supported).toBe(false);
+    warn.mockRestore();
+  });
+});
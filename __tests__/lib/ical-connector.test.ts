@@ -0,0 +1,252 @@
+/**
+ * Tests for connectors/ical.ts — RFC 5545 parsing and recurrence expansion
+ * against municipal calendar exports (CivicPlus, Google Calendar, Outlook).
+ */
+
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  createICalConnector,
+  expandICalEvents,
+  parseICalComponents,
+  parseRecurrenceRule,
+  resolveTimeZone,
+  unescapeText,
+  type ICalOccurrence,
+} from "@/lib/connectors/ical";
+import type { ConnectorConfig } from "@/lib/connectors/types";
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, "..", "fixtures", "ical", name), "utf8");
+}
+
+// Monday 19 October 2026, 8 AM Eastern, with the connector's default 90-day window
+const FROM = new Date("2026-10-19T12:00:00Z");
+const TO = new Date(FROM.getTime() + 90 * 24 * 60 * 60 * 1000);
+
+function occurrencesOf(name: string): ICalOccurrence[] {
+  return expandICalEvents(fixture(name), FROM, TO);
+}
+
+function startsOf(occurrences: ICalOccurrence[], summary: string): string[] {
+  return occurrences.filter((o) => o.summary === summary).map((o) => o.start);
+}
+
+const config: ConnectorConfig = {
+  id: "needham:town-calendar",
+  connector_type: "ical",
+  category: "events",
+  schedule: "daily",
+  config: { feedUrl: "https://www.needhamma.gov/common/modules/iCalendar/iCalendar.aspx" },
+  enabled: true,
+  shouldEmbed: false,
+};
+
+describe("ical connector", () => {
+  describe("parsing", () => {
+    it("unfolds lines and keeps nested components apart", () => {
+      const [calendar] = parseICalComponents(fixture("google-select-board.ics")).components;
+      const [meeting] = calendar.components.filter((c) => c.name === "VEVENT");
+
+      const description = meeting.properties.find((p) => p.name === "DESCRIPTION")!.value;
+      expect(description).toContain("https://www.needhamma.gov/Archive.aspx?AMID=41");
+      // The alarm's DESCRIPTION stays on the VALARM, not the event
+      expect(meeting.properties.filter((p) => p.name === "DESCRIPTION")).toHaveLength(1);
+      expect(meeting.components.map((c) => c.name)).toEqual(["VALARM"]);
+    });
+
+    it("reads quoted parameters and unescapes text", () => {
+      const [calendar] = parseICalComponents(fixture("outlook-library.ics")).components;
+      const bookClub = calendar.components.find((c) => c.name === "VEVENT")!;
+      const dtstart = bookClub.properties.find((p) => p.name === "DTSTART")!;
+
+      expect(dtstart.params.TZID).toBe("Eastern Standard Time");
+      expect(dtstart.value).toBe("20260908T183000");
+      expect(unescapeText("Powers Hall\\, Town Hall\\nRoom 1\\; rear entrance")).toBe(
+        "Powers Hall, Town Hall\nRoom 1; rear entrance"
+      );
+    });
+
+    it("resolves IANA, Windows and prefixed TZIDs", () => {
+      expect(resolveTimeZone("America/Chicago")).toBe("America/Chicago");
+      expect(resolveTimeZone("Eastern Standard Time")).toBe("America/New_York");
+      expect(resolveTimeZone("/mozilla.org/20070129_1/America/New_York")).toBe("America/New_York");
+      expect(resolveTimeZone("Nowhere Standard Time")).toBeNull();
+    });
+
+    it("parses RRULE parts", () => {
+      expect(parseRecurrenceRule("FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=3", "UTC")).toMatchObject({
+        freq: "MONTHLY",
+        interval: 1,
+        count: 3,
+        byDay: [1, 2, 3, 4, 5].map((weekday) => ({ weekday, ordinal: undefined })),
+        bySetPos: [-1],
+      });
+      expect(parseRecurrenceRule("FREQ=MONTHLY;BYDAY=-1FR", "UTC")?.byDay).toEqual([{ weekday: 5, ordinal: -1 }]);
+      expect(parseRecurrenceRule("FREQ=HOURLY;INTERVAL=2", "UTC")).toBeNull();
+    });
+  });
+
+  describe("CivicPlus export", () => {
+    const occurrences = occurrencesOf("civicplus-town-calendar.ics");
+
+    it("keeps upcoming events and drops past and cancelled ones", () => {
+      expect(occurrences.map((o) => o.uid)).toEqual([
+        "civicplus-calendar-4121",
+        "civicplus-calendar-4188",
+        "civicplus-calendar-4190",
+      ]);
+    });
+
+    it("reads TZID times, escaped text and categories", () => {
+      expect(occurrences[0]).toMatchObject({
+        summary: "Planning Board Public Hearing: 1688 Central Avenue, Site Plan Review",
+        location: "Public Services Administration Building, 500 Dedham Avenue, Needham, MA 02492",
+        url: "https://www.needhamma.gov/Calendar.aspx?EID=4121&month=10&year=2026",
+        categories: ["Planning Board", "Public Hearings"],
+        start: "2026-10-21T23:00:00.000Z",
+        end: "2026-10-22T01:00:00.000Z",
+        allDay: false,
+      });
+      expect(occurrences[0].description).toContain("Section 7.4 of the Needham Zoning By-Law.\nThe hearing");
+      expect(occurrences[0].description).toContain("Charles River Room; remote");
+    });
+
+    it("treats VALUE=DATE events as all-day in the town's zone", () => {
+      expect(occurrences[1]).toMatchObject({
+        allDay: true,
+        start: "2026-11-11T05:00:00.000Z",
+        end: "2026-11-12T05:00:00.000Z",
+      });
+      // No DTEND: an all-day event lasts one day
+      expect(occurrences[2]).toMatchObject({
+        start: "2026-11-26T05:00:00.000Z",
+        end: "2026-11-27T05:00:00.000Z",
+      });
+    });
+  });
+
+  describe("Google Calendar export", () => {
+    const occurrences = occurrencesOf("google-select-board.ics");
+
+    it("expands a biweekly series across DST, honoring EXDATE and cancelled occurrences", () => {
+      expect(startsOf(occurrences, "Select Board Meeting")).toEqual([
+        // Nov 3 is an EXDATE and Dec 1 is cancelled; 7 PM stays 7 PM after DST ends
+        "2026-11-18T00:00:00.000Z",
+        "2026-12-16T00:00:00.000Z",
+        "2026-12-30T00:00:00.000Z",
+        "2027-01-13T00:00:00.000Z",
+      ]);
+    });
+
+    it("applies a RECURRENCE-ID override on top of the series", () => {
+      const joint = occurrences.find((o) => o.summary === "Select Board Meeting (Joint Session)")!;
+      expect(joint).toMatchObject({
+        start: "2026-10-20T22:00:00.000Z",
+        end: "2026-10-21T02:00:00.000Z",
+        description: "Joint meeting with the Finance Committee on the FY27 budget.",
+        // Not restated by the override, so inherited from the series
+        location: "Powers Hall, Needham Town Hall, 1471 Highland Avenue",
+        recurrenceId: "2026-10-20T23:00:00.000Z",
+      });
+    });
+
+    it("picks up an occurrence moved into the window from after it", () => {
+      const ics = [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "UID:moved@example.com",
+        "DTSTART;TZID=America/New_York:20261005T090000",
+        "RRULE:FREQ=MONTHLY",
+        "SUMMARY:Cemetery Commission",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "UID:moved@example.com",
+        "RECURRENCE-ID;TZID=America/New_York:20270405T090000",
+        "DTSTART;TZID=America/New_York:20270111T090000",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n");
+
+      expect(expandICalEvents(ics, FROM, TO).map((o) => o.start)).toEqual([
+        "2026-11-05T14:00:00.000Z",
+        "2026-12-05T14:00:00.000Z",
+        "2027-01-05T14:00:00.000Z",
+        "2027-01-11T14:00:00.000Z",
+      ]);
+    });
+
+    it("reads UTC times on single events", () => {
+      expect(startsOf(occurrences, "Household Hazardous Waste Day")).toEqual(["2026-10-24T14:00:00.000Z"]);
+    });
+  });
+
+  describe("Outlook export", () => {
+    const occurrences = occurrencesOf("outlook-library.ics");
+
+    it("expands BYDAY ordinals with COUNT and DURATION under a Windows zone name", () => {
+      const bookClub = occurrences.filter((o) => o.summary === "Second Tuesday Book Club");
+      expect(bookClub.map((o) => o.start)).toEqual([
+        "2026-11-10T23:30:00.000Z",
+        "2026-12-08T23:30:00.000Z",
+        "2027-01-12T23:30:00.000Z",
+      ]);
+      expect(bookClub[0].end).toBe("2026-11-11T01:00:00.000Z");
+      expect(bookClub[0].description).toBe(
+        "Bring a book you love and a friend! Copies of this month's title are available at the circulation desk.\n\nAll adults welcome."
+      );
+    });
+
+    it("expands BYSETPOS with UNTIL and adds RDATEs", () => {
+      expect(startsOf(occurrences, "Last Weekday Tech Help")).toEqual([
+        "2026-10-30T14:00:00.000Z",
+        "2026-11-13T15:00:00.000Z",
+        "2026-11-30T15:00:00.000Z",
+        "2026-12-31T15:00:00.000Z",
+      ]);
+    });
+
+    it("expands daily rules filtered by weekday", () => {
+      expect(startsOf(occurrences, "After-School Homework Help")).toEqual([
+        "2026-10-19T20:00:00.000Z",
+        "2026-10-21T20:00:00.000Z",
+        "2026-10-23T20:00:00.000Z",
+        "2026-10-26T20:00:00.000Z",
+        "2026-10-28T20:00:00.000Z",
+      ]);
+    });
+  });
+
+  describe("normalize", () => {
+    const connector = createICalConnector("needham", config);
+
+    it("gives each occurrence its own stable hash", () => {
+      const items = connector.normalize(occurrencesOf("google-select-board.ics").map((o) => ({ ...o })));
+      const hashes = items.map((item) => item.content_hash);
+      expect(new Set(hashes).size).toBe(items.length);
+
+      // The same occurrence hashes the same from a later window
+      const later = expandICalEvents(fixture("google-select-board.ics"), new Date("2026-12-01T00:00:00Z"), TO);
+      const laterItems = connector.normalize(later.map((o) => ({ ...o })));
+      const dec15 = (list: typeof items) =>
+        list.find((item) => item.published_at.toISOString() === "2026-12-16T00:00:00.000Z")!.content_hash;
+      expect(dec15(laterItems)).toBe(dec15(items));
+    });
+
+    it("records all-day and recurrence metadata", () => {
+      const [hearing, veteransDay] = connector.normalize(
+        occurrencesOf("civicplus-town-calendar.ics").map((o) => ({ ...o }))
+      );
+      expect(hearing.metadata).toMatchObject({
+        event_start: "2026-10-21T23:00:00.000Z",
+        event_end: "2026-10-22T01:00:00.000Z",
+        event_categories: ["Planning Board", "Public Hearings"],
+      });
+      expect(veteransDay.metadata.all_day).toBe(true);
+      expect(veteransDay.expires_at?.toISOString()).toBe("2026-11-12T05:00:00.000Z");
+
+      const [bookClub] = connector.normalize(occurrencesOf("outlook-library.ics").map((o) => ({ ...o })));
+      expect(bookClub.metadata.recurring).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Tests for lib/monitor.ts — the new-page RSS check reads each town's own
+ * site feed from its rss source_configs, never another town's.
+ */
+
+let mockRows: Array<{ config: Record<string, unknown> }> = [];
+const mockEq = jest.fn();
+
+jest.mock("@/lib/supabase", () => ({
+  getSupabaseServiceClient: () => ({
+    from: () => ({
+      select: () => {
+        const query = {
+          eq: (column: string, value: unknown) => {
+            mockEq(column, value);
+            return Object.assign(Promise.resolve({ data: mockRows, error: null }), query);
+          },
+        };
+        return query;
+      },
+    }),
+  }),
+}));
+
+jest.mock("@/lib/towns", () => ({
+  getTownById: jest.fn(async (townId: string) =>
+    townId === "wellesley" ? { town_id: "wellesley", website_url: "https://www.wellesleyma.gov" } : undefined
+  ),
+}));
+
+import { getTownSiteFeedUrls } from "@/lib/monitor";
+
+describe("getTownSiteFeedUrls", () => {
+  beforeEach(() => {
+    mockEq.mockClear();
+  });
+
+  it("returns the town's rss feeds hosted on its own website", async () => {
+    mockRows = [
+      { config: { feedUrl: "https://wellesleyma.gov/RSSFeed.aspx?ModID=1" } },
+      { config: { feedUrl: "https://www.wellesleyma.gov/RSSFeed.aspx?ModID=1" } },
+      { config: { feedUrl: "https://thewellesleyreport.com/feed/" } },
+      { config: {} },
+    ];
+
+    await expect(getTownSiteFeedUrls("wellesley")).resolves.toEqual([
+      "https://wellesleyma.gov/RSSFeed.aspx?ModID=1",
+      "https://www.wellesleyma.gov/RSSFeed.aspx?ModID=1",
+    ]);
+    expect(mockEq).toHaveBeenCalledWith("town_id", "wellesley");
+  });
+
+  it("finds no feed for a town without a site feed", async () => {
+    mockRows = [{ config: { feedUrl: "https://thewellesleyreport.com/feed/" } }];
+    await expect(getTownSiteFeedUrls("wellesley")).resolves.toEqual([]);
+    await expect(getTownSiteFeedUrls("unknown")).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for prompt-profile.ts and the prompts built from it — per-town
+ * persona, vocabulary, topics and escalation contacts.
+ */
+
+import {
+  DEFAULT_SUPPORTED_TOPICS,
+  parsePromptProfile,
+  resolvePromptProfile,
+} from "@/lib/prompt-profile";
+import { buildChatSystemPrompt, buildFallbackAnswer, formatVocabularyForPrompt } from "@/lib/prompts";
+import { TOWN_CONFIGS, type TownConfig } from "@/lib/towns";
+
+const needham = TOWN_CONFIGS.find((town) => town.town_id === "needham") as TownConfig;
+const mockTown = TOWN_CONFIGS.find((town) => town.town_id === "mock-town") as TownConfig;
+
+function chatPrompt(town: TownConfig): string {
+  const profile = resolvePromptProfile(town);
+  return buildChatSystemPrompt({
+    contextDocuments: [],
+    includeDisclaimer: true,
+    townName: town.name,
+    townHallPhone: profile.escalationContacts[0]?.phone ?? "",
+    profile,
+  });
+}
+
+describe("resolvePromptProfile", () => {
+  it("uses the town's own profile", () => {
+    const profile = resolvePromptProfile(needham);
+    expect(profile.assistantName).toBe("Needham Navigator");
+    expect(profile.vocabularyNotes.some((note) => note.includes('"The dump"'))).toBe(true);
+    expect(profile.supportedTopics).toContain("Trash & recycling (Transfer Station)");
+    expect(profile.escalationContacts[0]).toEqual({ name: "Town Hall", phone: "(781) 455-7500" });
+  });
+
+  it("falls back to town-neutral defaults", () => {
+    const profile = resolvePromptProfile(mockTown);
+    expect(profile.assistantName).toBe(mockTown.app_name);
+    expect(profile.supportedTopics).toEqual(DEFAULT_SUPPORTED_TOPICS);
+    expect(profile.vocabularyNotes.join(" ")).not.toMatch(/dump|Transfer Station/);
+    expect(profile.escalationContacts[0]?.phone).toBe(mockTown.departments.find((d) => d.phone)?.phone);
+  });
+
+  it("prefers a draft profile over the stored one", () => {
+    const profile = resolvePromptProfile(needham, { assistant_name: "Needham Helper", supported_topics: ["Beaches"] });
+    expect(profile.assistantName).toBe("Needham Helper");
+    expect(profile.supportedTopics).toEqual(["Beaches"]);
+    expect(profile.escalationContacts[0]?.name).toBe("Town Hall");
+  });
+});
+
+describe("prompts built from the profile", () => {
+  it("keeps Needham's vocabulary out of other towns' chat prompts", () => {
+    expect(chatPrompt(needham)).toContain("You are Needham Navigator");
+    expect(chatPrompt(needham)).toContain('"The dump" means the Transfer Station');
+    expect(chatPrompt(mockTown)).not.toMatch(/dump|Needham/);
+    expect(chatPrompt(mockTown)).toContain('"I just moved to Mock Town"');
+  });
+
+  it("states the town's disclaimer and escalation contacts", () => {
+    const town: TownConfig = {
+      ...mockTown,
+      prompt_profile: {
+        disclaimer: "Mock Town answers are informational only.",
+        escalation_contacts: [{ name: "Town Clerk", phone: "(555) 555-0101", handles: "records and licenses" }],
+      },
+    };
+    const prompt = chatPrompt(town);
+    expect(prompt).toContain('"Mock Town answers are informational only."');
+    expect(prompt).toContain("- Town Clerk: (555) 555-0101 — records and licenses");
+  });
+
+  it("lists the town's topics in the no-results answer", () => {
+    const answer = buildFallbackAnswer(resolvePromptProfile(needham));
+    expect(answer).toContain("call Town Hall at (781) 455-7500");
+    expect(answer).toContain("- Trash & recycling (Transfer Station)");
+
+    const generic = buildFallbackAnswer(resolvePromptProfile({ ...mockTown, departments: [] }));
+    expect(generic).toContain("call Town Hall —");
+    expect(generic).not.toContain("Transfer Station");
+  });
+
+  it("asks for side-by-side answers in regional mode", () => {
+    const prompt = buildChatSystemPrompt({
+      contextDocuments: [
+        { sourceId: "S1", citation: "[Trash Pickup]", excerpt: "Pickup is weekly.", town: "Needham, MA" },
+        { sourceId: "S2", citation: "[Trash Pickup]", excerpt: "Pickup is biweekly.", town: "Wellesley, MA" },
+      ],
+      includeDisclaimer: true,
+      townName: "Needham, MA",
+      townHallPhone: "",
+      regionalTowns: ["Needham, MA", "Wellesley, MA"],
+    });
+    expect(prompt).toContain("REGIONAL SEARCH — this question covers Needham, MA, Wellesley, MA");
+    expect(prompt).toContain("[S2] [Trash Pickup]\nTOWN: Wellesley, MA");
+  });
+
+  it("formats vocabulary notes for the article prompts", () => {
+    expect(formatVocabularyForPrompt(resolvePromptProfile(needham))).toMatch(/^LOCAL VOCABULARY/);
+    expect(formatVocabularyForPrompt(resolvePromptProfile({ ...mockTown, prompt_profile: { vocabulary_notes: [] } })))
+      .toBeNull();
+  });
+});
+
+describe("parsePromptProfile", () => {
+  it("accepts and trims a valid profile", () => {
+    expect(parsePromptProfile({
+      assistant_name: " Wellesley Guide ",
+      vocabulary_notes: ['"The Hills" means Wellesley Hills.', " "],
+      escalation_contacts: [{ name: "Town Hall", phone: "(781) 431-1019" }],
+    })).toEqual({
+      assistant_name: "Wellesley Guide",
+      vocabulary_notes: ['"The Hills" means Wellesley Hills.'],
+      escalation_contacts: [{ name: "Town Hall", phone: "(781) 431-1019" }],
+    });
+  });
+
+  it("rejects malformed fields", () => {
+    expect(parsePromptProfile([])).toMatch(/object/);
+    expect(parsePromptProfile({ persona: 5 })).toMatch(/persona/);
+    expect(parsePromptProfile({ supported_topics: "Permits" })).toMatch(/supported_topics/);
+    expect(parsePromptProfile({ escalation_contacts: [{ name: "Clerk" }] })).toMatch(/escalation_contacts\[0\]/);
+  });
+});
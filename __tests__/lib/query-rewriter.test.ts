@@ -0,0 +1,57 @@
+/**
+ * Tests for condenseQuery — turning a chat follow-up into a standalone
+ * search question from the turns before it.
+ */
+
+const mockGenerateText = jest.fn();
+jest.mock("ai", () => ({
+  generateText: (...args: unknown[]) => mockGenerateText(...args),
+}));
+jest.mock("@ai-sdk/openai", () => ({
+  openai: jest.fn(() => "mock-model"),
+}));
+
+import { CONDENSE_HISTORY_TURNS, condenseQuery } from "@/lib/query-rewriter";
+
+describe("condenseQuery", () => {
+  beforeEach(() => mockGenerateText.mockReset());
+
+  it("returns null without calling the model when there is no earlier question", async () => {
+    expect(await condenseQuery("what about for a fence?", [])).toBeNull();
+    expect(
+      await condenseQuery("what about for a fence?", [{ role: "assistant", content: "Hi! Ask me anything." }])
+    ).toBeNull();
+    expect(mockGenerateText).not.toHaveBeenCalled();
+  });
+
+  it("sends the recent turns without internal metadata and returns the standalone question", async () => {
+    mockGenerateText.mockResolvedValue({ text: '"Do I need a permit to build a fence?"' });
+    const history = [
+      ...Array.from({ length: CONDENSE_HISTORY_TURNS }, (_, i) => ({
+        role: i % 2 === 0 ? ("user" as const) : ("assistant" as const),
+        content: `older turn ${i}`,
+      })),
+      { role: "user" as const, content: "do I need a permit for a deck?" },
+      { role: "assistant" as const, content: "Yes, decks need a building permit.\nUSED_SOURCES: S1" },
+    ];
+
+    const condensed = await condenseQuery("what about for a fence?", history, "Needham");
+
+    expect(condensed).toBe("Do I need a permit to build a fence?");
+    const { prompt } = mockGenerateText.mock.calls[0][0];
+    expect(prompt).toContain("Resident: do I need a permit for a deck?");
+    expect(prompt).toContain('Follow-up: "what about for a fence?"');
+    expect(prompt).not.toContain("USED_SOURCES");
+    expect(prompt).not.toContain("older turn 0");
+  });
+
+  it("returns null when the model call fails", async () => {
+    mockGenerateText.mockRejectedValue(new Error("timeout"));
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(
+      await condenseQuery("what about for a fence?", [{ role: "user", content: "deck permit?" }])
+    ).toBeNull();
+    warn.mockRestore();
+  });
+});
@@ -2,7 +2,7 @@
  * Tests for RAG performance optimizations:
  * - Pre-computed embeddings (no duplicate API calls)
  * - Reduced match count (DEFAULT_MATCH_COUNT = 20)
- * - Upstash vector search + Supabase metadata fetch
+ * - Vector store search + Supabase metadata fetch
  */
 
 // Track calls to generateEmbedding to verify dedup
@@ -14,16 +14,21 @@ jest.mock("@/lib/embeddings", () => ({
   EMBEDDING_DIMENSIONS: 1536,
 }));
 
-// Mock Upstash Vector
-const mockQueryPinecone = jest.fn();
-jest.mock("@/lib/upstash-vector", () => ({
-  queryPinecone: (...args: unknown[]) => mockQueryPinecone(...args),
-  PINECONE_NS_CHUNKS: "chunks",
-  PINECONE_NS_CONTENT: "content",
+// Mock the vector store (filter helpers stay real)
+const mockVectorQuery = jest.fn();
+jest.mock("@/lib/vector-store", () => ({
+  ...jest.requireActual("@/lib/vector-store/filter"),
+  getVectorStore: () => ({
+    backend: "memory",
+    query: (...args: unknown[]) => mockVectorQuery(...args),
+  }),
+  VECTOR_NS_CHUNKS: "chunks",
+  VECTOR_NS_CONTENT: "content",
 }));
 
-// Mock Supabase client (used for metadata fetch after Pinecone query)
+// Mock Supabase client (used for metadata fetch after the vector query)
 const mockSelect = jest.fn();
+const mockEq = jest.fn();
 const mockIn = jest.fn();
 const mockFrom = jest.fn();
 jest.mock("@/lib/supabase", () => ({
@@ -35,10 +40,13 @@ jest.mock("@/lib/supabase", () => ({
 // Mock towns
 jest.mock("@/lib/towns", () => ({
   DEFAULT_TOWN_ID: "needham",
+  getTownByIdOrDefault: jest.requireActual("@/lib/towns").getTownByIdOrDefault,
+  getTownById: jest.fn(async () => undefined),
 }));
 
 // Mock synonyms
 jest.mock("@/lib/synonyms", () => ({
+  getSynonymDictionary: jest.fn(async () => []),
   expandQuery: (query: string) => ({
     expanded: [],
     expandedQuery: query,
@@ -69,8 +77,8 @@ describe("RAG performance optimizations", () => {
     jest.clearAllMocks();
     mockGenerateEmbedding.mockResolvedValue(fakeEmbedding);
 
-    // Default: Pinecone chunks query returns results, content query returns empty
-    mockQueryPinecone.mockImplementation((namespace: string) => {
+    // Default: chunks namespace query returns results, content query returns empty
+    mockVectorQuery.mockImplementation((namespace: string) => {
       if (namespace === "chunks") {
         return [
           { id: "chunk-1", score: 0.85 },
@@ -100,7 +108,8 @@ describe("RAG performance optimizations", () => {
       error: null,
     });
 
-    mockSelect.mockReturnValue({ in: mockIn });
+    mockSelect.mockReturnValue({ eq: mockEq });
+    mockEq.mockReturnValue({ in: mockIn });
     mockFrom.mockReturnValue({ select: mockSelect });
   });
 
@@ -113,14 +122,14 @@ describe("RAG performance optimizations", () => {
       expect(mockGenerateEmbedding).toHaveBeenCalledWith("transfer station hours");
     });
 
-    it("passes the same pre-computed embedding to both Pinecone queries", async () => {
+    it("passes the same pre-computed embedding to both vector queries", async () => {
       await retrieveRelevantChunks("building permit", { townId: "needham" });
 
       // Both chunks and content namespace queries should receive the same embedding
-      const chunksCall = mockQueryPinecone.mock.calls.find(
+      const chunksCall = mockVectorQuery.mock.calls.find(
         (call: unknown[]) => call[0] === "chunks"
       );
-      const contentCall = mockQueryPinecone.mock.calls.find(
+      const contentCall = mockVectorQuery.mock.calls.find(
         (call: unknown[]) => call[0] === "content"
       );
 
@@ -160,7 +169,7 @@ describe("RAG performance optimizations", () => {
     it("requests 20 documents by default (not 30)", async () => {
       await retrieveRelevantChunks("zoning regulations", { townId: "needham" });
 
-      const chunksCall = mockQueryPinecone.mock.calls.find(
+      const chunksCall = mockVectorQuery.mock.calls.find(
         (call: unknown[]) => call[0] === "chunks"
       );
       expect(chunksCall).toBeDefined();
@@ -171,7 +180,7 @@ describe("RAG performance optimizations", () => {
     it("requests ceil(matchCount/2) = 10 content items by default", async () => {
       await retrieveRelevantChunks("zoning regulations", { townId: "needham" });
 
-      const contentCall = mockQueryPinecone.mock.calls.find(
+      const contentCall = mockVectorQuery.mock.calls.find(
         (call: unknown[]) => call[0] === "content"
       );
       expect(contentCall).toBeDefined();
@@ -184,13 +193,22 @@ describe("RAG performance optimizations", () => {
         matchCount: 50,
       });
 
-      const chunksCall = mockQueryPinecone.mock.calls.find(
+      const chunksCall = mockVectorQuery.mock.calls.find(
         (call: unknown[]) => call[0] === "chunks"
       );
       expect(chunksCall![2]).toBe(50);
     });
   });
 
+  describe("tenant scoping", () => {
+    it("scopes the metadata fetch for vector hits to the town", async () => {
+      await retrieveRelevantChunks("transfer station hours", { townId: "needham" });
+
+      expect(mockFrom).toHaveBeenCalledWith("document_chunks");
+      expect(mockEq).toHaveBeenCalledWith("town_id", "needham");
+    });
+  });
+
   describe("empty/edge cases", () => {
     it("returns empty array for empty query", async () => {
       const result = await retrieveRelevantChunks("", { townId: "needham" });
@@ -204,8 +222,8 @@ describe("RAG performance optimizations", () => {
       expect(mockGenerateEmbedding).not.toHaveBeenCalled();
     });
 
-    it("handles Pinecone content_items failure gracefully", async () => {
-      mockQueryPinecone.mockImplementation((namespace: string) => {
+    it("handles vector store content_items failure gracefully", async () => {
+      mockVectorQuery.mockImplementation((namespace: string) => {
         if (namespace === "chunks") {
           return [{ id: "chunk-1", score: 0.8 }];
         }
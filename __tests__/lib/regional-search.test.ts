@@ -0,0 +1,138 @@
+/**
+ * Tests for regional-search.ts — neighbor resolution, per-town budgets,
+ * town labels on sources and per-town failure isolation.
+ */
+
+const mockSearchWithDecomposition = jest.fn();
+jest.mock("@/lib/decomposed-search", () => ({
+  searchWithDecomposition: (...args: unknown[]) => mockSearchWithDecomposition(...args),
+}));
+
+const mockListTowns = jest.fn();
+jest.mock("@/lib/towns", () => ({
+  listTowns: () => mockListTowns(),
+}));
+
+import type { QueryDecomposition } from "@/lib/query-decomposer";
+import {
+  allocateTownBudgets,
+  getRegionalTowns,
+  mergeTownResults,
+  regionalSearch,
+  resolveRegionalTowns,
+} from "@/lib/regional-search";
+import type { TownConfig } from "@/lib/towns";
+
+function town(townId: string, name: string, neighbors: string[], extra: Partial<TownConfig> = {}): TownConfig {
+  return {
+    town_id: townId,
+    name,
+    geography: { core_names: [townId], villages: [], neighbors, metro: [], county: "", state: "", state_abbrev: "", local_domains: [] },
+    ...extra,
+  } as TownConfig;
+}
+
+const needham = town("needham", "Needham, MA", ["wellesley", "newton", "dedham"]);
+const wellesley = town("wellesley", "Wellesley, MA", ["needham"]);
+const newton = town("newton-ma", "Newton, MA", ["needham"]);
+const boston = town("boston", "Boston, MA", []);
+
+function result(id: string, score: number) {
+  return {
+    id,
+    chunk_text: `chunk ${id}`,
+    metadata: {},
+    source: { sourceId: "S1", citation: `[${id}]`, documentTitle: id },
+    similarity: score,
+    text_rank: 0,
+    score,
+    highlight: "",
+  };
+}
+
+const comparison: QueryDecomposition = {
+  originalQuery: "Needham vs Wellesley trash pickup",
+  isComplex: false,
+  subQueries: [{ query: "Needham vs Wellesley trash pickup", intent: "comparison", sourceHint: ["municipal"], priority: 1 }],
+  strategy: "parallel",
+};
+
+describe("regional-search", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("resolveRegionalTowns", () => {
+    it("matches geography neighbors to tenants by name", () => {
+      expect(resolveRegionalTowns(needham, [needham, wellesley, newton, boston])).toEqual([
+        { townId: "wellesley", townName: "Wellesley, MA" },
+        { townId: "newton-ma", townName: "Newton, MA" },
+      ]);
+    });
+
+    it("prefers explicit regional_town_ids and skips unknown ones", () => {
+      const home = { ...needham, regional_town_ids: ["boston", "dover"] };
+      expect(resolveRegionalTowns(home, [home, wellesley, boston])).toEqual([{ townId: "boston", townName: "Boston, MA" }]);
+    });
+
+    it("puts the home town first", async () => {
+      mockListTowns.mockResolvedValue([needham, wellesley]);
+      expect((await getRegionalTowns("needham")).map((t) => t.townId)).toEqual(["needham", "wellesley"]);
+    });
+  });
+
+  describe("budgets and merging", () => {
+    it("splits slots evenly with the remainder going to the home town", () => {
+      expect(allocateTownBudgets(3, 10)).toEqual([4, 3, 3]);
+      expect(allocateTownBudgets(2, 1)).toEqual([1, 1]);
+    });
+
+    it("reserves each town's slots and renumbers source ids", () => {
+      const merged = mergeTownResults(
+        [[result("n1", 0.9), result("n2", 0.85), result("n3", 0.8)], [result("w1", 0.4)]],
+        [2, 2],
+        4,
+      );
+      expect(merged.map((r) => r.id)).toEqual(["n1", "n2", "n3", "w1"]);
+      expect(merged.map((r) => r.source.sourceId)).toEqual(["S1", "S2", "S3", "S4"]);
+
+      const tight = mergeTownResults([[result("n1", 0.9), result("n2", 0.85)], [result("w1", 0.4)]], [1, 1], 2);
+      expect(tight.map((r) => r.id)).toEqual(["n1", "w1"]);
+    });
+  });
+
+  describe("regionalSearch", () => {
+    const towns = [
+      { townId: "needham", townName: "Needham, MA" },
+      { townId: "wellesley", townName: "Wellesley, MA" },
+    ];
+
+    it("searches every town and labels sources with their town", async () => {
+      mockSearchWithDecomposition.mockImplementation(async (_query: string, { townId }: { townId: string }) => ({
+        results: [result(`${townId}-1`, townId === "needham" ? 0.9 : 0.7)],
+        decomposition: comparison,
+      }));
+
+      const { results } = await regionalSearch("trash pickup", { townId: "needham", limit: 4, decomposition: comparison, towns });
+
+      expect(mockSearchWithDecomposition.mock.calls.map((call) => call[1].townId)).toEqual(["needham", "wellesley"]);
+      expect(results.map((r) => [r.id, r.source.townId, r.source.townName])).toEqual([
+        ["needham-1", "needham", "Needham, MA"],
+        ["wellesley-1", "wellesley", "Wellesley, MA"],
+      ]);
+    });
+
+    it("keeps the other towns' results when one town fails", async () => {
+      mockSearchWithDecomposition.mockImplementation(async (_query: string, { townId }: { townId: string }) => {
+        if (townId === "wellesley") throw new Error("statement timeout");
+        return { results: [result("needham-1", 0.9)], decomposition: comparison };
+      });
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+      const { results } = await regionalSearch("trash pickup", { townId: "needham", limit: 4, decomposition: comparison, towns });
+
+      expect(results.map((r) => r.id)).toEqual(["needham-1"]);
+      warn.mockRestore();
+    });
+  });
+});
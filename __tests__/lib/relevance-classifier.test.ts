@@ -0,0 +1,130 @@
+/**
+ * Tests for relevance-classifier.ts and tier-rules.ts — per-town tier rules
+ * for document classification and search scope.
+ */
+
+import {
+  classifyDocument,
+  compileTierRules,
+  DEFAULT_SEARCH_TIERS,
+  EXPANDED_SEARCH_TIERS,
+  type TierRule,
+} from "@/lib/relevance-classifier";
+import { getSearchTiers } from "@/lib/query-tier-router";
+import { parseTierRule } from "@/lib/tier-rules";
+
+const needhamRules: TierRule[] = [
+  { rule_type: "domain", pattern: "patch.com", tier: "primary" },
+  { rule_type: "domain", pattern: "wellesleyma.gov", tier: "irrelevant" },
+  { rule_type: "domain", pattern: "westwood.ma.us", tier: "irrelevant" },
+];
+
+const wellesleyRules: TierRule[] = [
+  { rule_type: "domain", pattern: "needhamma.gov", tier: "irrelevant" },
+  { rule_type: "url_pattern", pattern: String.raw`patch\.com/massachusetts/wellesley`, tier: "primary" },
+  { rule_type: "archive_pattern", pattern: "/documentcenter/old/", tier: "archive" },
+  { rule_type: "query_pattern", pattern: String.raw`\b(comcast|eversource)\b`, tier: "supplementary" },
+];
+
+const needham = compileTierRules(
+  "needham",
+  { core_names: ["needham"], local_domains: ["needhamma.gov"], state_abbrev: "MA" },
+  needhamRules,
+);
+const wellesley = compileTierRules(
+  "wellesley",
+  { core_names: ["wellesley"], local_domains: ["wellesleyma.gov"], state_abbrev: "MA" },
+  wellesleyRules,
+);
+
+describe("classifyDocument", () => {
+  it("classifies the same domains differently per town", () => {
+    expect(classifyDocument("https://www.needhamma.gov/clerk", needham)).toBe("primary");
+    expect(classifyDocument("https://www.needhamma.gov/clerk", wellesley)).toBe("irrelevant");
+    expect(classifyDocument("https://wellesleyma.gov/parks", needham)).toBe("irrelevant");
+    expect(classifyDocument("https://wellesleyma.gov/parks", wellesley)).toBe("primary");
+  });
+
+  it("matches domain rules on subdomains", () => {
+    expect(classifyDocument("https://townhall.westwood.ma.us/page", needham)).toBe("irrelevant");
+    expect(classifyDocument("https://www.mass.gov/info-details/excise", needham)).toBe("state");
+  });
+
+  it("applies URL patterns before domain rules", () => {
+    expect(classifyDocument("https://patch.com/massachusetts/wellesley/story", wellesley)).toBe("primary");
+    expect(classifyDocument("https://patch.com/massachusetts/dedham/story", wellesley)).toBe("supplementary");
+  });
+
+  it("marks shared and town archive patterns as archive", () => {
+    expect(classifyDocument("https://needhamma.gov/Archive.aspx?AMID=12", needham)).toBe("archive");
+    expect(classifyDocument("https://wellesleyma.gov/DocumentCenter/old/1", wellesley)).toBe("archive");
+    expect(classifyDocument("https://wellesleyma.gov/DocumentCenter/old/1", needham)).toBe("irrelevant");
+    expect(classifyDocument("https://needhamma.gov/page", needham, "Archive Center")).toBe("archive");
+  });
+
+  it("treats town-named hosts and paths as primary", () => {
+    expect(classifyDocument("https://needhamrotary.org/events", needham)).toBe("primary");
+    expect(classifyDocument("https://church.org/needham/services", needham)).toBe("primary");
+    expect(classifyDocument("https://church.org/needham/services", wellesley)).toBe("supplementary");
+  });
+
+  it("keeps shared defaults and falls back to supplementary", () => {
+    expect(classifyDocument("https://www.google.com/maps", wellesley)).toBe("irrelevant");
+    expect(classifyDocument("https://example.com/", wellesley)).toBe("supplementary");
+    expect(classifyDocument("not a url", wellesley)).toBe("supplementary");
+  });
+
+  it("puts federal agencies and the town's own state portal in the state tier", () => {
+    expect(classifyDocument("https://www.irs.gov/payments", needham)).toBe("state");
+    expect(classifyDocument("https://www.irs.gov/payments", wellesley)).toBe("state");
+    expect(classifyDocument("https://www.mass.gov/info-details/excise", wellesley)).toBe("state");
+
+    const westHartford = compileTierRules(
+      "west-hartford",
+      { core_names: ["west hartford"], local_domains: ["westhartfordct.gov"], state_abbrev: "CT" },
+    );
+    expect(classifyDocument("https://portal.ct.gov/dmv", westHartford)).toBe("state");
+    expect(classifyDocument("https://www.mass.gov/info-details/excise", westHartford)).toBe("supplementary");
+  });
+
+  it("skips rules with invalid regexes", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const rules = compileTierRules("needham", { core_names: ["needham"], local_domains: [] }, [
+      { rule_type: "url_pattern", pattern: "([unclosed", tier: "irrelevant" },
+    ]);
+    expect(rules.urlPatterns).toHaveLength(0);
+    warn.mockRestore();
+  });
+});
+
+describe("getSearchTiers", () => {
+  it("expands to the state tier for state-level queries", () => {
+    expect(getSearchTiers("when is the excise tax due", wellesley)).toEqual(EXPANDED_SEARCH_TIERS);
+    expect(getSearchTiers("library hours", wellesley)).toEqual(DEFAULT_SEARCH_TIERS);
+  });
+
+  it("adds tiers from the town's query patterns", () => {
+    expect(getSearchTiers("who do I call about an Eversource outage", wellesley))
+      .toEqual(["primary", "regional", "supplementary"]);
+    expect(getSearchTiers("who do I call about an Eversource outage", needham)).toEqual(DEFAULT_SEARCH_TIERS);
+  });
+});
+
+describe("parseTierRule", () => {
+  it("normalizes domains", () => {
+    expect(parseTierRule({ rule_type: "domain", pattern: "https://www.Example.gov/path", tier: "regional" }))
+      .toEqual({ rule_type: "domain", pattern: "example.gov", tier: "regional", note: null });
+  });
+
+  it("forces archive patterns to the archive tier", () => {
+    expect(parseTierRule({ rule_type: "archive_pattern", pattern: "/old/", tier: "primary" }))
+      .toMatchObject({ tier: "archive" });
+  });
+
+  it("rejects unknown types, tiers and invalid patterns", () => {
+    expect(parseTierRule({ rule_type: "host", pattern: "a.gov", tier: "primary" })).toMatch(/rule_type/);
+    expect(parseTierRule({ rule_type: "domain", pattern: "a.gov", tier: "local" })).toMatch(/tier/);
+    expect(parseTierRule({ rule_type: "url_pattern", pattern: "(", tier: "primary" })).toMatch(/Invalid regular expression/);
+    expect(parseTierRule({ rule_type: "domain", pattern: "not a domain", tier: "primary" })).toMatch(/Invalid domain/);
+  });
+});
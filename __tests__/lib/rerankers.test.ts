@@ -0,0 +1,219 @@
+/**
+ * Tests for the reranker implementations — formula scoring, reciprocal rank
+ * fusion, LLM-judge parsing and fallback, per-town selection and the
+ * telemetry stats derived from a rerank.
+ */
+
+const mockGenerateText = jest.fn();
+jest.mock("ai", () => ({
+  generateText: (...args: unknown[]) => mockGenerateText(...args),
+}));
+
+jest.mock("@ai-sdk/openai", () => ({
+  openai: (model: string) => ({ modelId: model }),
+}));
+
+import {
+  computeRerankStats,
+  createFormulaReranker,
+  createLlmJudgeReranker,
+  createRrfReranker,
+  getReranker,
+  mergeRerankStats,
+  parseJudgeScores,
+  reciprocalRankFusion,
+  type RerankContext,
+} from "@/lib/rerankers";
+import { applyTemporalRange } from "@/lib/temporal-query";
+import { parseTownSettings } from "@/lib/town-settings";
+import type { RetrievedChunk } from "@/lib/rag";
+
+function chunk(id: string, similarity: number, text = `Needham chunk ${id}`): RetrievedChunk {
+  return {
+    id,
+    chunkText: text,
+    similarity,
+    metadata: {},
+    source: { sourceId: id, citation: `[${id}]`, documentTitle: id },
+  };
+}
+
+const context: RerankContext = { query: "transfer station hours", detectedDepartment: null };
+
+beforeEach(() => {
+  mockGenerateText.mockReset();
+});
+
+describe("formula reranker", () => {
+  it("orders by similarity when other factors are equal", async () => {
+    const { chunks, applied } = await createFormulaReranker().rerank(
+      [chunk("a", 0.5), chunk("b", 0.9), chunk("c", 0.7)],
+      context,
+    );
+    expect(applied).toBe("formula");
+    expect(chunks.map((c) => c.id)).toEqual(["b", "c", "a"]);
+    expect(chunks.every((c) => typeof c.relevanceScore === "number")).toBe(true);
+  });
+
+  it("rewards keyword overlap with the query", async () => {
+    const { chunks } = await createFormulaReranker().rerank(
+      [chunk("plain", 0.8), chunk("match", 0.78, "Needham transfer station hours are 7-3")],
+      context,
+    );
+    expect(chunks[0].id).toBe("match");
+  });
+});
+
+describe("reciprocal rank fusion", () => {
+  it("sums 1/(k + rank) across rankings", () => {
+    const scores = reciprocalRankFusion([["a", "b"], ["b", "c"]], 60);
+    expect(scores.get("a")).toBeCloseTo(1 / 61);
+    expect(scores.get("b")).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(scores.get("c")).toBeCloseTo(1 / 62);
+  });
+
+  it("promotes chunks that rank well in both semantic and text lists", async () => {
+    const { chunks, applied } = await createRrfReranker().rerank(
+      [chunk("a", 0.9), chunk("b", 0.85), chunk("c", 0.6)],
+      { ...context, textRanking: ["b", "c"] },
+    );
+    expect(applied).toBe("rrf");
+    // a is semantic-only; b and c appear in both lists
+    expect(chunks.map((c) => c.id)).toEqual(["b", "c", "a"]);
+  });
+
+  it("scores on the 0..1 similarity scale", async () => {
+    const candidates = [chunk("a", 0.9), chunk("b", 0.85), chunk("c", 0.6)];
+    const { chunks, applied } = await createRrfReranker().rerank(candidates, {
+      ...context,
+      textRanking: ["a", "c"],
+    });
+    // a is first in both lists: the best possible fused score
+    expect(chunks[0]).toMatchObject({ id: "a", relevanceScore: 1 });
+    expect(chunks.every((c) => c.relevanceScore! > 0 && c.relevanceScore! <= 1)).toBe(true);
+    expect(Math.abs(computeRerankStats(candidates, chunks, applied, 0).scoreDelta)).toBeLessThan(0.3);
+  });
+
+  it("keeps fusion order meaningful under the temporal boost", async () => {
+    const dated = (id: string, similarity: number, date: string) => ({
+      ...chunk(id, similarity),
+      metadata: { event_date: date },
+    });
+    const candidates = [
+      chunk("best-match", 0.9),
+      ...Array.from({ length: 8 }, (_, i) => chunk(`filler-${i}`, 0.8 - i * 0.01)),
+      dated("weak-this-week", 0.6, "2026-10-21"),
+      dated("good-this-week", 0.88, "2026-10-22"),
+    ];
+    const { chunks } = await createRrfReranker().rerank(candidates, {
+      ...context,
+      textRanking: ["best-match", "good-this-week"],
+    });
+
+    const range = {
+      start: new Date("2026-10-19T04:00:00Z"),
+      end: new Date("2026-10-26T04:00:00Z"),
+      direction: "upcoming" as const,
+      label: "this week",
+    };
+    const ordered = applyTemporalRange(chunks, range).map((c) => c.id);
+
+    // A strong in-range match edges out the best undated one, but the
+    // date alone doesn't lift a weak match to the top
+    expect(ordered.slice(0, 3)).toEqual(["good-this-week", "best-match", "weak-this-week"]);
+  });
+
+  it("falls back to formula order without a text ranking", async () => {
+    const { chunks, applied } = await createRrfReranker().rerank(
+      [chunk("a", 0.6), chunk("b", 0.9)],
+      context,
+    );
+    expect(applied).toBe("formula");
+    expect(chunks.map((c) => c.id)).toEqual(["b", "a"]);
+  });
+});
+
+describe("LLM judge reranker", () => {
+  it("parses one grade per passage and normalizes to 0-1", () => {
+    expect(parseJudgeScores("Scores: [10, 5, 0]", 3)).toEqual([1, 0.5, 0]);
+    expect(parseJudgeScores("[12, 4]", 2)).toEqual([1, 0.4]);
+    expect(parseJudgeScores("[3, 4]", 3)).toBeNull();
+    expect(parseJudgeScores("no idea", 1)).toBeNull();
+  });
+
+  it("reorders by the judge's grades using the configured model", async () => {
+    mockGenerateText.mockResolvedValue({ text: "[1, 10]" });
+
+    const { chunks, applied } = await createLlmJudgeReranker("gpt-5-mini").rerank(
+      [chunk("a", 0.9), chunk("b", 0.8)],
+      context,
+    );
+
+    expect(applied).toBe("llm");
+    expect(chunks.map((c) => c.id)).toEqual(["b", "a"]);
+    expect(chunks[0].rerankerScore).toBe(1);
+    expect(mockGenerateText.mock.calls[0][0].model).toEqual({ modelId: "gpt-5-mini" });
+  });
+
+  it("falls back to formula when the judge output is unusable", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    mockGenerateText.mockResolvedValue({ text: "I think the first one" });
+
+    const { chunks, applied } = await createLlmJudgeReranker("gpt-5-nano").rerank(
+      [chunk("a", 0.6), chunk("b", 0.9)],
+      context,
+    );
+
+    expect(applied).toBe("formula");
+    expect(chunks.map((c) => c.id)).toEqual(["b", "a"]);
+    warn.mockRestore();
+  });
+});
+
+describe("per-town selection", () => {
+  it("reads the reranker from towns.config and ignores unknown values", () => {
+    expect(parseTownSettings({ reranker: "rrf" }).reranker).toBe("rrf");
+    expect(parseTownSettings({ reranker: "bogus" }).reranker).toBe("formula");
+  });
+
+  it("builds the matching implementation", () => {
+    expect(getReranker("llm", { chatModel: "gpt-5-nano" }).kind).toBe("llm");
+    expect(getReranker("rrf", { chatModel: "gpt-5-nano" }).needsTextRanking).toBe(true);
+    expect(getReranker("formula", { chatModel: "gpt-5-nano" }).kind).toBe("formula");
+  });
+});
+
+describe("rerank stats", () => {
+  it("measures score delta and rank shift against similarity order", () => {
+    const candidates = [chunk("a", 0.9), chunk("b", 0.8)];
+    const kept = [
+      { ...chunk("b", 0.8), relevanceScore: 1.0 },
+      { ...chunk("a", 0.9), relevanceScore: 0.9 },
+    ];
+
+    const stats = computeRerankStats(candidates, kept, "cohere", 120);
+
+    expect(stats).toEqual({
+      reranker: "cohere",
+      usedModel: true,
+      latencyMs: 120,
+      scoreDelta: 0.1,
+      rankShift: 1,
+    });
+  });
+
+  it("merges sub-query stats by summing latency and averaging deltas", () => {
+    const merged = mergeRerankStats([
+      { reranker: "formula", usedModel: false, latencyMs: 2, scoreDelta: 0.1, rankShift: 1 },
+      { reranker: "formula", usedModel: false, latencyMs: 4, scoreDelta: 0.3, rankShift: 0 },
+    ]);
+    expect(merged).toEqual({
+      reranker: "formula",
+      usedModel: false,
+      latencyMs: 6,
+      scoreDelta: 0.2,
+      rankShift: 0.5,
+    });
+    expect(mergeRerankStats([])).toBeUndefined();
+  });
+});
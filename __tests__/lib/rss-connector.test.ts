@@ -0,0 +1,151 @@
+/**
+ * Tests for connectors/rss.ts — each feed dialect (RSS 2.0, RSS 1.0/RDF,
+ * Atom 1.0) parsed from fixtures, image extraction, and conditional GET.
+ */
+
+import { readFileSync } from "fs";
+import { join } from "path";
+import { createRssConnector, detectFeedFormat, parseRssXml } from "@/lib/connectors/rss";
+import type { ConnectorConfig } from "@/lib/connectors/types";
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, "..", "fixtures", "feeds", name), "utf8");
+}
+
+function makeConfig(overrides: Partial<ConnectorConfig> = {}): ConnectorConfig {
+  return {
+    id: "needham:town-rss",
+    connector_type: "rss",
+    category: "news",
+    schedule: "hourly",
+    config: { feedUrl: "https://www.needhamma.gov/rss.aspx", sourceName: "Town of Needham" },
+    enabled: true,
+    shouldEmbed: false,
+    ...overrides,
+  };
+}
+
+describe("rss connector", () => {
+  describe("parsing", () => {
+    it("detects each dialect", () => {
+      expect(detectFeedFormat(fixture("rss2.xml"))).toBe("rss2");
+      expect(detectFeedFormat(fixture("rss1.xml"))).toBe("rss1");
+      expect(detectFeedFormat(fixture("atom.xml"))).toBe("atom");
+    });
+
+    it("parses RSS 2.0 items with media:content and image enclosures", () => {
+      const [sidewalks, leaves, podcast] = parseRssXml(fixture("rss2.xml"));
+
+      expect(sidewalks).toEqual({
+        title: "Select Board approves & funds new sidewalks",
+        link: "https://www.needhamma.gov/news/sidewalks",
+        description: "The Select Board voted 5-0 to fund sidewalk repairs.",
+        pubDate: "Tue, 14 Oct 2026 13:30:00 GMT",
+        category: "Public Works",
+        imageUrl: "https://www.needhamma.gov/images/sidewalk.jpg",
+      });
+      // Escaped HTML is decoded and stripped; entities in URLs are decoded
+      expect(leaves.description).toBe("Curbside leaf pickup begins November 3 .");
+      expect(leaves.imageUrl).toBe("https://www.needhamma.gov/images/leaves.png?w=640&h=480");
+      // Non-image enclosures are not images
+      expect(podcast.imageUrl).toBeUndefined();
+    });
+
+    it("parses RSS 1.0 (RDF) items with Dublin Core dates and subjects", () => {
+      const entries = parseRssXml(fixture("rss1.xml"));
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({
+        title: "Finance Committee reviews FY27 budget",
+        link: "https://needhamlocal.org/stories/budget",
+        pubDate: "2026-10-08T19:30:00-04:00",
+        category: "Government",
+        imageUrl: "https://needhamlocal.org/media/budget-hearing.jpg",
+      });
+      // No <link>: falls back to rdf:about
+      expect(entries[1].link).toBe("https://needhamlocal.org/stories/rail-trail");
+    });
+
+    it("parses Atom 1.0 entries with alternate links, html text and enclosure links", () => {
+      const [library, highRock] = parseRssXml(fixture("atom.xml"));
+
+      expect(library).toEqual({
+        title: "Library & Historical Society team up",
+        link: "https://needhamobserver.com/2026/10/library-history",
+        description: "A joint exhibit opens at the Needham Free Public Library .",
+        pubDate: "2026-10-15T10:00:00Z",
+        category: "Community",
+        imageUrl: "https://needhamobserver.com/img/library.jpg",
+      });
+      expect(highRock).toMatchObject({
+        link: "https://needhamobserver.com/2026/10/high-rock",
+        description: "Enrollment rose by 40 students.",
+        pubDate: "2026-10-14T16:45:00Z",
+        imageUrl: "https://needhamobserver.com/img/high-rock-thumb.jpg",
+      });
+    });
+  });
+
+  describe("normalize", () => {
+    it.each(["rss2.xml", "rss1.xml", "atom.xml"])("normalizes %s into content items", (name) => {
+      const connector = createRssConnector("needham", makeConfig());
+      const items = connector.normalize(parseRssXml(fixture(name)).map((entry) => ({ ...entry })));
+
+      for (const item of items) {
+        expect(item.title).toBeTruthy();
+        expect(item.url).toMatch(/^https:\/\//);
+        expect(item.published_at.getUTCFullYear()).toBe(2026);
+        expect(item.content_hash).toMatch(/^[0-9a-f]{64}$/);
+      }
+      expect(items[0].image_url).toMatch(/^https:\/\/.+\.(jpg|png)/);
+    });
+  });
+
+  describe("conditional GET", () => {
+    let fetchSpy: jest.SpyInstance;
+
+    afterEach(() => {
+      fetchSpy.mockRestore();
+    });
+
+    it("sends the saved validators and returns nothing on 304", async () => {
+      fetchSpy = jest.spyOn(global, "fetch").mockResolvedValue(new Response(null, { status: 304 }));
+      const connector = createRssConnector(
+        "needham",
+        makeConfig({ httpCache: { etag: '"abc123"', lastModified: "Tue, 14 Oct 2026 13:30:00 GMT" } })
+      );
+
+      await expect(connector.fetch()).resolves.toEqual([]);
+
+      const headers = fetchSpy.mock.calls[0][1].headers as Record<string, string>;
+      expect(headers["If-None-Match"]).toBe('"abc123"');
+      expect(headers["If-Modified-Since"]).toBe("Tue, 14 Oct 2026 13:30:00 GMT");
+      expect(connector.httpCache).toEqual({
+        etag: '"abc123"',
+        lastModified: "Tue, 14 Oct 2026 13:30:00 GMT",
+        notModified: true,
+      });
+    });
+
+    it("records the new validators from a changed feed", async () => {
+      fetchSpy = jest.spyOn(global, "fetch").mockResolvedValue(
+        new Response(fixture("atom.xml"), {
+          status: 200,
+          headers: { ETag: '"def456"', "Last-Modified": "Wed, 15 Oct 2026 12:00:00 GMT" },
+        })
+      );
+      const connector = createRssConnector("needham", makeConfig());
+
+      const raw = await connector.fetch();
+
+      expect(raw).toHaveLength(2);
+      const headers = fetchSpy.mock.calls[0][1].headers as Record<string, string>;
+      expect(headers["If-None-Match"]).toBeUndefined();
+      expect(connector.httpCache).toEqual({
+        etag: '"def456"',
+        lastModified: "Wed, 15 Oct 2026 12:00:00 GMT",
+        notModified: false,
+      });
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for synonyms.ts — expansion against per-town dictionaries, admin
+ * entry validation and suggestion mining from failing searches.
+ */
+
+import {
+  expandQuery,
+  matchSynonymEntries,
+  mineSynonymCandidates,
+  parseSynonymEntry,
+  UNIVERSAL_SYNONYMS,
+  type SynonymDictionary,
+} from "@/lib/synonyms";
+
+const wellesley: SynonymDictionary = [
+  { id: "1", triggers: ["swap shop"], expansions: ["RDF Take It or Leave It", "recycling and disposal facility"] },
+  { id: "2", triggers: ["v.f.w"], expansions: ["Veterans of Foreign Wars"] },
+  ...UNIVERSAL_SYNONYMS,
+];
+
+describe("expandQuery", () => {
+  it("applies a town's own entries before the universal ones", () => {
+    const result = expandQuery("Is the swap shop open Saturday?", wellesley);
+    expect(result.expanded).toEqual(["RDF Take It or Leave It", "recycling and disposal facility"]);
+    expect(result.expandedQuery).toBe(
+      "Is the swap shop open Saturday? RDF Take It or Leave It recycling and disposal facility",
+    );
+  });
+
+  it("uses only universal synonyms by default", () => {
+    expect(expandQuery("is the swap shop open").expanded).toEqual([]);
+    expect(expandQuery("where is the dump").expanded).toContain("transfer station");
+  });
+
+  it("matches single-word triggers on word boundaries", () => {
+    expect(expandQuery("street sweeping", UNIVERSAL_SYNONYMS).expanded).not.toContain("tree warden");
+  });
+
+  it("treats regex characters in admin-entered triggers literally", () => {
+    expect(matchSynonymEntries("v.f.w hall rental", wellesley).map((e) => e.id)).toEqual(["2"]);
+    expect(matchSynonymEntries("vxfxw hall rental", wellesley)).toEqual([]);
+  });
+});
+
+describe("parseSynonymEntry", () => {
+  it("accepts comma-separated terms and lowercases triggers", () => {
+    expect(parseSynonymEntry({ triggers: "Swap Shop, swap shop ,the swap", expansions: ["Take It or Leave It"] }))
+      .toEqual({ triggers: ["swap shop", "the swap"], expansions: ["Take It or Leave It"], note: null });
+  });
+
+  it("rejects entries missing triggers or expansions", () => {
+    expect(parseSynonymEntry({ triggers: " , ", expansions: "x" })).toMatch(/trigger/);
+    expect(parseSynonymEntry({ triggers: "x", expansions: [] })).toMatch(/expansion/);
+    expect(parseSynonymEntry({ triggers: [1], expansions: "x" })).toMatch(/trigger/);
+  });
+});
+
+describe("mineSynonymCandidates", () => {
+  const failing = [
+    "where is the swap shop",
+    "swap shop hours",
+    "is the swap shop open sunday",
+    "dump sticker price",
+    "dump sticker renewal",
+    "beach parking pass",
+  ];
+  const successful = ["beach parking hours", "beach parking rules"];
+
+  it("ranks recurring phrases from failing searches", () => {
+    const candidates = mineSynonymCandidates(failing, successful, UNIVERSAL_SYNONYMS);
+    expect(candidates[0]).toMatchObject({ trigger: "swap shop", queryCount: 3 });
+    expect(candidates[0].exampleQueries).toHaveLength(3);
+  });
+
+  it("drops words inside a phrase that covers them", () => {
+    const triggers = mineSynonymCandidates(failing, successful, UNIVERSAL_SYNONYMS).map((c) => c.trigger);
+    expect(triggers).not.toContain("swap");
+    expect(triggers).not.toContain("shop");
+  });
+
+  it("skips terms the dictionary already expands or that succeed elsewhere", () => {
+    const triggers = mineSynonymCandidates(failing, successful, UNIVERSAL_SYNONYMS).map((c) => c.trigger);
+    expect(triggers).not.toContain("dump sticker");
+    expect(triggers).not.toContain("beach parking");
+    expect(mineSynonymCandidates(failing, successful, wellesley).map((c) => c.trigger)).not.toContain("swap shop");
+  });
+});
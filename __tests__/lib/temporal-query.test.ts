@@ -0,0 +1,166 @@
+/**
+ * Tests for temporal-query.ts — relative date parsing in Eastern time and
+ * date-aware reranking of retrieved chunks.
+ */
+
+import {
+  applyTemporalRange,
+  getChunkDate,
+  isStaleForRange,
+  parseTemporalExpression,
+} from "@/lib/temporal-query";
+import type { RetrievedChunk } from "@/lib/rag";
+
+// Wednesday, October 15 2025, 9:30 PM EDT (already Thursday in UTC)
+const NOW = new Date("2025-10-16T01:30:00Z");
+
+function iso(date: Date | undefined): string | undefined {
+  return date?.toISOString();
+}
+
+function chunk(id: string, similarity: number, metadata: Record<string, unknown> = {}): RetrievedChunk {
+  return {
+    id,
+    chunkText: `chunk ${id}`,
+    similarity,
+    relevanceScore: similarity,
+    metadata,
+    source: { sourceId: id, citation: `[${id}]`, documentTitle: id },
+  };
+}
+
+describe("parseTemporalExpression", () => {
+  it("returns null when the query has no time component", () => {
+    expect(parseTemporalExpression("how do I get a dog license", NOW)).toBeNull();
+  });
+
+  it("resolves today to the Eastern calendar day", () => {
+    const range = parseTemporalExpression("what's open today", NOW);
+    expect(range?.direction).toBe("window");
+    expect(iso(range?.start)).toBe("2025-10-15T04:00:00.000Z");
+    expect(iso(range?.end)).toBe("2025-10-16T04:00:00.000Z");
+  });
+
+  it("resolves this weekend to Saturday through Sunday", () => {
+    const range = parseTemporalExpression("events this weekend", NOW);
+    expect(range?.label).toBe("this weekend");
+    expect(iso(range?.start)).toBe("2025-10-18T04:00:00.000Z");
+    expect(iso(range?.end)).toBe("2025-10-20T04:00:00.000Z");
+  });
+
+  it("resolves this weekend to the remaining day on a Sunday", () => {
+    const sunday = new Date("2025-10-19T15:00:00Z");
+    const range = parseTemporalExpression("anything fun this weekend?", sunday);
+    expect(iso(range?.start)).toBe("2025-10-19T04:00:00.000Z");
+    expect(iso(range?.end)).toBe("2025-10-20T04:00:00.000Z");
+  });
+
+  it("resolves next week to the following Monday-Sunday", () => {
+    const range = parseTemporalExpression("road closures next week", NOW);
+    expect(iso(range?.start)).toBe("2025-10-20T04:00:00.000Z");
+    expect(iso(range?.end)).toBe("2025-10-27T04:00:00.000Z");
+  });
+
+  it("resolves next month across a DST change", () => {
+    const range = parseTemporalExpression("what's happening next month", NOW);
+    expect(iso(range?.start)).toBe("2025-11-01T04:00:00.000Z");
+    expect(iso(range?.end)).toBe("2025-12-01T05:00:00.000Z");
+  });
+
+  it("resolves this/next weekday to its next occurrence", () => {
+    expect(iso(parseTemporalExpression("is the library open this friday", NOW)?.start))
+      .toBe("2025-10-17T04:00:00.000Z");
+    expect(iso(parseTemporalExpression("meetings next wednesday", NOW)?.start))
+      .toBe("2025-10-22T04:00:00.000Z");
+  });
+
+  it("treats 'next' questions as upcoming from today", () => {
+    const range = parseTemporalExpression("When is the next Select Board meeting?", NOW);
+    expect(range?.direction).toBe("upcoming");
+    expect(iso(range?.start)).toBe("2025-10-15T04:00:00.000Z");
+  });
+
+  it("treats deadline questions as upcoming", () => {
+    const range = parseTemporalExpression("do I need to pay before the tax deadline", NOW);
+    expect(range?.label).toBe("deadline");
+    expect(range?.direction).toBe("upcoming");
+  });
+
+  it("resolves explicit past years", () => {
+    const range = parseTemporalExpression("town meeting votes in 2023", NOW);
+    expect(range?.direction).toBe("past");
+    expect(iso(range?.start)).toBe("2023-01-01T05:00:00.000Z");
+  });
+});
+
+describe("getChunkDate", () => {
+  it("prefers event dates and flags them as events", () => {
+    const dated = getChunkDate({ event_start: "2025-10-18T14:00:00Z", published_at: "2025-09-01" });
+    expect(dated?.isEvent).toBe(true);
+    expect(iso(dated?.date)).toBe("2025-10-18T14:00:00.000Z");
+  });
+
+  it("treats meeting documents as events", () => {
+    expect(getChunkDate({ document_type: "meeting", document_date: "2024-10-07" })?.isEvent).toBe(true);
+    expect(getChunkDate({ document_type: "bylaw", document_date: "2024-10-07" })?.isEvent).toBe(false);
+  });
+
+  it("returns null for undated or unparseable metadata", () => {
+    expect(getChunkDate({})).toBeNull();
+    expect(getChunkDate({ document_date: "sometime" })).toBeNull();
+  });
+});
+
+describe("applyTemporalRange", () => {
+  const upcoming = parseTemporalExpression("next select board meeting", NOW)!;
+
+  it("drops past meetings and boosts upcoming ones", () => {
+    const ranked = applyTemporalRange(
+      [
+        chunk("last-year", 0.9, { document_type: "meeting", document_date: "2024-10-07" }),
+        chunk("upcoming", 0.7, { event_start: "2025-10-20T23:00:00Z" }),
+        chunk("undated", 0.8),
+      ],
+      upcoming,
+    );
+    expect(ranked.map((c) => c.id)).toEqual(["upcoming", "undated"]);
+  });
+
+  it("keeps non-event documents dated outside the range", () => {
+    const ranked = applyTemporalRange(
+      [chunk("policy", 0.8, { document_type: "regulation", effective_date: "2019-01-01" })],
+      upcoming,
+    );
+    expect(ranked.map((c) => c.id)).toEqual(["policy"]);
+  });
+
+  it("falls back to stale results rather than returning nothing", () => {
+    const ranked = applyTemporalRange(
+      [chunk("last-year", 0.9, { document_type: "meeting", document_date: "2024-10-07" })],
+      upcoming,
+    );
+    expect(ranked.map((c) => c.id)).toEqual(["last-year"]);
+    expect(ranked[0].relevanceScore).toBeLessThan(0.9);
+  });
+
+  it("flags stale events for keyword-search results", () => {
+    expect(isStaleForRange({ event_start: "2024-05-01" }, upcoming)).toBe(true);
+    expect(isStaleForRange({ event_start: "2025-11-01" }, upcoming)).toBe(false);
+    expect(isStaleForRange({ document_date: "2024-05-01" }, upcoming)).toBe(false);
+  });
+
+  it("reads date-only values as the Eastern calendar day", () => {
+    expect(iso(getChunkDate({ meeting_date: "2025-10-15" })?.date)).toBe("2025-10-15T04:00:00.000Z");
+
+    const meetingToday = { document_type: "meeting", document_date: "2025-10-15" };
+    expect(isStaleForRange(meetingToday, parseTemporalExpression("what's happening today", NOW)!)).toBe(false);
+    expect(isStaleForRange(meetingToday, upcoming)).toBe(false);
+  });
+
+  it("keeps events on a range's first and last day and nothing past its end", () => {
+    const nextWeek = parseTemporalExpression("events next week", NOW)!;
+    expect(isStaleForRange({ event_date: "2025-10-20" }, nextWeek)).toBe(false);
+    expect(isStaleForRange({ event_date: "2025-10-26" }, nextWeek)).toBe(false);
+    expect(isStaleForRange({ event_date: "2025-10-27" }, nextWeek)).toBe(true);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Tests for tenant-db.ts — every query on a tenant table is bound to one
+ * town, and nothing in src/ reaches those tables around the scoped layer.
+ */
+
+import { readdirSync, readFileSync, statSync } from "fs";
+import { join, relative } from "path";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getTenantDb, TENANT_TABLES, type TenantTable } from "@/lib/tenant-db";
+
+type Row = Record<string, unknown>;
+
+const TABLES = Object.keys(TENANT_TABLES) as TenantTable[];
+
+// In-memory stand-in for the Supabase client: applies eq/in filters to the
+// rows of each table, so a missing town filter shows up as leaked rows.
+function createFakeClient(tables: Record<string, Row[]>) {
+  const from = (table: string) => {
+    const rows = tables[table];
+    const filters: ((row: Row) => boolean)[] = [];
+    let action: "select" | "update" | "delete" = "select";
+    let values: Row = {};
+
+    const run = () => {
+      const matched = rows.filter((row) => filters.every((f) => f(row)));
+      if (action === "update") matched.forEach((row) => Object.assign(row, values));
+      if (action === "delete") tables[table] = rows.filter((row) => !matched.includes(row));
+      return { data: matched, error: null };
+    };
+
+    const builder = {
+      select: () => builder,
+      order: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      in: (column: string, list: unknown[]) => {
+        filters.push((row) => list.includes(row[column]));
+        return builder;
+      },
+      update: (next: Row) => {
+        action = "update";
+        values = next;
+        return builder;
+      },
+      delete: () => {
+        action = "delete";
+        return builder;
+      },
+      insert: async (next: Row | Row[]) => {
+        rows.push(...(Array.isArray(next) ? next : [next]));
+        return { data: null, error: null };
+      },
+      upsert: (next: Row | Row[]) => builder.insert(next),
+      then: (resolve: (result: { data: Row[]; error: null }) => void) => resolve(run()),
+    };
+    return builder;
+  };
+
+  return { from } as unknown as SupabaseClient;
+}
+
+function seedTables(): Record<string, Row[]> {
+  const tables: Record<string, Row[]> = {};
+  for (const table of TABLES) {
+    const column = TENANT_TABLES[table];
+    tables[table] = ["needham", "wellesley", "dover"].flatMap((town) => [
+      { id: `${town}-1`, [column]: town, status: "published" },
+      { id: `${town}-2`, [column]: town, status: "published" },
+    ]);
+  }
+  return tables;
+}
+
+function townsOf(table: TenantTable, rows: Row[]): Set<unknown> {
+  return new Set(rows.map((row) => row[TENANT_TABLES[table]]));
+}
+
+describe("tenant-db", () => {
+  it.each(TABLES)("only reads the bound town's %s rows", async (table) => {
+    const tables = seedTables();
+    const db = getTenantDb("wellesley", { client: createFakeClient(tables) });
+
+    const { data } = await db.select(table, "*").eq("status", "published");
+    expect(data).toHaveLength(2);
+    expect(townsOf(table, data as Row[])).toEqual(new Set(["wellesley"]));
+
+    // Asking for another town's ids by primary key still returns nothing
+    const { data: byId } = await db.select(table, "id").in("id", ["needham-1", "dover-2"]);
+    expect(byId).toEqual([]);
+  });
+
+  it.each(TABLES)("updates and deletes leave other towns' %s rows alone", async (table) => {
+    const tables = seedTables();
+    const db = getTenantDb("wellesley", { client: createFakeClient(tables) });
+
+    await db.update(table, { status: "archived" }).in("id", ["needham-1", "wellesley-1"]);
+    await db.delete(table).eq("id", "dover-1");
+    await db.delete(table).eq("id", "wellesley-2");
+
+    const byId = Object.fromEntries(tables[table].map((row) => [row.id, row]));
+    expect(byId["needham-1"].status).toBe("published");
+    expect(byId["wellesley-1"].status).toBe("archived");
+    expect(byId["dover-1"]).toBeDefined();
+    expect(byId["wellesley-2"]).toBeUndefined();
+  });
+
+  it.each(TABLES)("stamps the town on %s inserts and upserts", async (table) => {
+    const tables = seedTables();
+    const column = TENANT_TABLES[table];
+    const db = getTenantDb("dover", { client: createFakeClient(tables) });
+
+    await db.insert(table, { id: "new-1" });
+    await db.upsert(table, [{ id: "new-2" }, { id: "new-3", [column]: "dover" }]);
+
+    const added = tables[table].filter((row) => String(row.id).startsWith("new-"));
+    expect(added.map((row) => row[column])).toEqual(["dover", "dover", "dover"]);
+  });
+
+  it("refuses writes that name or move to another town", () => {
+    const db = getTenantDb("dover", { client: createFakeClient(seedTables()) });
+
+    expect(() => db.insert("articles", { id: "x", town: "needham" })).toThrow(/needham/);
+    expect(() => db.upsert("cached_answers", [{ town_id: "dover" }, { town_id: "needham" }])).toThrow();
+    expect(() => db.update("documents", { town_id: "needham" })).toThrow(/dover tenant scope/);
+    expect(() => db.update("documents", { town_id: "dover", is_stale: true })).not.toThrow();
+  });
+
+  it("requires a town", () => {
+    const client = createFakeClient(seedTables());
+    expect(() => getTenantDb("", { client })).toThrow("require a townId");
+    expect(() => getTenantDb("   ", { client })).toThrow("require a townId");
+  });
+
+  describe("audit", () => {
+    const srcDir = join(__dirname, "..", "..", "src");
+    const directAccess = new RegExp(
+      `\\.from\\(\\s*["'\`](${TABLES.join("|")})["'\`]\\s*\\)`,
+      "g"
+    );
+
+    function sourceFiles(dir: string): string[] {
+      return readdirSync(dir).flatMap((name) => {
+        const path = join(dir, name);
+        if (statSync(path).isDirectory()) return sourceFiles(path);
+        return /\.tsx?$/.test(name) ? [path] : [];
+      });
+    }
+
+    it("finds no unscoped queries on tenant tables in src/", () => {
+      const offenders: string[] = [];
+
+      for (const file of sourceFiles(srcDir)) {
+        const source = readFileSync(file, "utf8");
+        for (const match of source.matchAll(directAccess)) {
+          // Deliberate cross-town queries are marked in the lines just above
+          const before = source.slice(0, match.index).split("\n").slice(-4).join("\n");
+          if (before.includes("tenant-scope: cross-town")) continue;
+
+          const line = source.slice(0, match.index).split("\n").length;
+          offenders.push(`${relative(srcDir, file)}:${line} ${match[0]}`);
+        }
+      }
+
+      expect(offenders).toEqual([]);
+    });
+  });
+});
@@ -6,6 +6,8 @@ import {
   EASTERN_TZ,
   getEasternTimeHHMM,
   formatEasternTime,
+  getEasternDateParts,
+  easternMidnight,
 } from "@/lib/timezone";
 
 describe("EASTERN_TZ constant", () => {
@@ -76,3 +78,36 @@ describe("formatEasternTime", () => {
     expect(result).toBe("12:00 PM");
   });
 });
+
+describe("getEasternDateParts", () => {
+  it("uses the Eastern calendar day, not UTC", () => {
+    // Jan 16 2025 02:00 UTC is still Jan 15 (Wednesday) at 9 PM EST
+    expect(getEasternDateParts(new Date("2025-01-16T02:00:00Z"))).toEqual({
+      year: 2025,
+      month: 1,
+      day: 15,
+      weekday: 3,
+    });
+  });
+});
+
+describe("easternMidnight", () => {
+  it("returns midnight EST in winter", () => {
+    expect(easternMidnight(2025, 1, 15).toISOString()).toBe("2025-01-15T05:00:00.000Z");
+  });
+
+  it("returns midnight EDT in summer", () => {
+    expect(easternMidnight(2025, 6, 15).toISOString()).toBe("2025-06-15T04:00:00.000Z");
+  });
+
+  it("handles the day after a DST change", () => {
+    // DST starts 2025-03-09 at 2 AM
+    expect(easternMidnight(2025, 3, 9).toISOString()).toBe("2025-03-09T05:00:00.000Z");
+    expect(easternMidnight(2025, 3, 10).toISOString()).toBe("2025-03-10T04:00:00.000Z");
+  });
+
+  it("rolls over out-of-range days and months", () => {
+    expect(easternMidnight(2025, 1, 32).toISOString()).toBe("2025-02-01T05:00:00.000Z");
+    expect(easternMidnight(2025, 13, 1).toISOString()).toBe("2026-01-01T05:00:00.000Z");
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Tests for town-host.ts — mapping Host headers to towns, canonical town
+ * URLs, and the town an API request falls back to.
+ */
+
+import {
+  DEFAULT_SITE_ORIGIN,
+  findTownIdForHost,
+  getRequestTownId,
+  normalizeHost,
+  TOWN_HEADER,
+  townHost,
+  townUrl,
+} from "@/lib/town-host";
+import { DEFAULT_TOWN_ID, TOWN_CONFIGS, type TownConfig } from "@/lib/towns";
+
+const wellesley = {
+  town_id: "wellesley",
+  name: "Wellesley, MA",
+  hostnames: ["WellesleyNavigator.com", "www.wellesleynavigator.com"],
+} as TownConfig;
+const dover = { town_id: "dover", name: "Dover, MA" } as TownConfig;
+const towns = [...TOWN_CONFIGS, wellesley, dover];
+
+describe("town-host", () => {
+  it("normalizes case, ports and trailing dots", () => {
+    expect(normalizeHost("WWW.WellesleyNavigator.com.:443")).toBe("www.wellesleynavigator.com");
+    expect(normalizeHost("localhost:3000")).toBe("localhost");
+    expect(normalizeHost(null)).toBe("");
+  });
+
+  it("resolves a town from any of its hostnames", () => {
+    expect(findTownIdForHost("needhamnavigator.com", towns)).toBe("needham");
+    expect(findTownIdForHost("www.wellesleynavigator.com:8443", towns)).toBe("wellesley");
+    expect(findTownIdForHost("wellesleynavigator.com", towns)).toBe("wellesley");
+    expect(findTownIdForHost("localhost:3000", towns)).toBeNull();
+    expect(findTownIdForHost("", towns)).toBeNull();
+  });
+
+  it("builds URLs on the town's own domain, or under /<town_id> on the shared site", () => {
+    expect(townHost(wellesley)).toBe("wellesleynavigator.com");
+    expect(townUrl(wellesley, "/chat")).toBe("https://wellesleynavigator.com/chat");
+    expect(townUrl(wellesley)).toBe("https://wellesleynavigator.com");
+    expect(townUrl(dover, "events")).toBe(`${DEFAULT_SITE_ORIGIN}/dover/events`);
+  });
+
+  it("prefers an explicit town, then the proxy's header, then the default", () => {
+    const plain = new Request("https://needhamnavigator.com/api/content");
+    const onWellesley = new Request("https://wellesleynavigator.com/api/content", {
+      headers: { [TOWN_HEADER]: "wellesley" },
+    });
+
+    expect(getRequestTownId(onWellesley, "dover")).toBe("dover");
+    expect(getRequestTownId(onWellesley, null)).toBe("wellesley");
+    expect(getRequestTownId(onWellesley, "  ")).toBe("wellesley");
+    expect(getRequestTownId(plain)).toBe(DEFAULT_TOWN_ID);
+  });
+});
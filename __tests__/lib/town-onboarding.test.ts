@@ -0,0 +1,153 @@
+/**
+ * Tests for town-onboarding.ts — config validation, website source
+ * discovery and the starter connectors seeded for a new town.
+ */
+
+import {
+  buildSourceConfigs,
+  discoverSources,
+  parseTownConfig,
+  type SourceDiscovery,
+} from "@/lib/town-onboarding";
+import type { TownConfig } from "@/lib/towns";
+
+const wellesleyInput = {
+  town_id: "wellesley",
+  name: "Wellesley, MA",
+  website_url: "https://www.wellesleyma.gov",
+  location: { lat: 42.2965, lng: -71.2926 },
+  brand_colors: { primary: "#00205B" },
+  geography: { state: "Massachusetts", state_abbrev: "ma", neighbors: ["Needham", "Natick"] },
+};
+
+function parsed(input: unknown): TownConfig {
+  const result = parseTownConfig(input);
+  if (typeof result === "string") throw new Error(result);
+  return result;
+}
+
+describe("parseTownConfig", () => {
+  it("fills new-town defaults from the minimal fields", () => {
+    const town = parsed(wellesleyInput);
+    expect(town.app_name).toBe("Wellesley Navigator");
+    expect(town.assistant_name).toBe("Wellesley AI");
+    expect(town.vector_namespace).toBe("wellesley-docs-v1");
+    expect(town.cron_enabled).toBe(true);
+    expect(town.departments).toEqual([]);
+    expect(town.feature_flags.enableNews).toBe(true);
+    expect(town.feature_flags.enableTransit).toBe(false);
+    expect(town.geography).toMatchObject({
+      core_names: ["wellesley"],
+      neighbors: ["needham", "natick"],
+      state: "massachusetts",
+      state_abbrev: "MA",
+      local_domains: ["wellesleyma.gov"],
+    });
+  });
+
+  it("derives brand shades from the primary color", () => {
+    const colors = parsed(wellesleyInput).brand_colors;
+    expect(colors.primary).toBe("#00205B");
+    expect(colors.primary_dark).toBe("#001640");
+    expect(colors.background).toBe("#FFFFFF");
+  });
+
+  it("turns transit on when a route is given", () => {
+    const town = parsed({ ...wellesleyInput, transit_route: "CR-Worcester" });
+    expect(town.transit_route).toBe("CR-Worcester");
+    expect(town.feature_flags.enableTransit).toBe(true);
+  });
+
+  it("rejects invalid fields", () => {
+    expect(parseTownConfig({ ...wellesleyInput, town_id: "Wellesley MA" })).toMatch(/town_id/);
+    expect(parseTownConfig({ ...wellesleyInput, website_url: "ftp://wellesleyma.gov" })).toMatch(/website_url/);
+    expect(parseTownConfig({ ...wellesleyInput, location: { lat: 142, lng: 0 } })).toMatch(/location/);
+    expect(parseTownConfig({ ...wellesleyInput, brand_colors: { primary: "navy" } })).toMatch(/#RRGGBB/);
+    expect(parseTownConfig({ ...wellesleyInput, feature_flags: { enableNews: "yes" } })).toMatch(/enableNews/);
+    expect(parseTownConfig({ ...wellesleyInput, feature_flags: { enableTeleport: true } })).toMatch(/Unknown/);
+    expect(parseTownConfig({ ...wellesleyInput, departments: [{ name: "Clerk" }] })).toMatch(/departments\[0\]/);
+    expect(parseTownConfig({ ...wellesleyInput, geography: { state: "Massachusetts" } })).toMatch(/state_abbrev/);
+  });
+});
+
+const HOME_PAGE = `
+<html><head>
+  <link rel="alternate" type="application/rss+xml" title="News Flash" href="/RSSFeed.aspx?ModID=1&amp;CID=All-newsflash.xml">
+  <link rel="stylesheet" href="/site.css">
+</head><body>
+  <a href="/rss.aspx">RSS feeds</a>
+  <a href="webcal://www.wellesleyma.gov/common/modules/iCalendar/iCalendar.aspx?catID=14&amp;feed=calendar">Town Calendar</a>
+  <a href="https://library.example.org/events.ics">Library Events</a>
+  <a href="/departments">Departments</a>
+  <a href="javascript:void(0)">Menu</a>
+</body></html>`;
+
+function fakeFetch(pages: Record<string, string>) {
+  return jest.fn(async (url: string) => {
+    const body = pages[url];
+    return new Response(body ?? "Not found", { status: body === undefined ? 404 : 200 });
+  });
+}
+
+describe("discoverSources", () => {
+  it("finds sitemaps from robots.txt and feeds linked from the home page", async () => {
+    const fetchImpl = fakeFetch({
+      "https://www.wellesleyma.gov/robots.txt": "User-agent: *\nSitemap: https://www.wellesleyma.gov/sitemap.xml\n",
+      "https://www.wellesleyma.gov": HOME_PAGE,
+    });
+
+    const discovery = await discoverSources("https://www.wellesleyma.gov", fetchImpl);
+
+    expect(discovery.sitemapUrls).toEqual(["https://www.wellesleyma.gov/sitemap.xml"]);
+    expect(discovery.feeds.map((f) => f.url)).toEqual([
+      "https://www.wellesleyma.gov/RSSFeed.aspx?ModID=1&CID=All-newsflash.xml",
+      "https://www.wellesleyma.gov/rss.aspx",
+    ]);
+    expect(discovery.feeds[0].title).toBe("News Flash");
+    expect(discovery.calendars).toEqual([
+      {
+        url: "https://www.wellesleyma.gov/common/modules/iCalendar/iCalendar.aspx?catID=14&feed=calendar",
+        title: "Town Calendar",
+      },
+      { url: "https://library.example.org/events.ics", title: "Library Events" },
+    ]);
+    expect(discovery.errors).toEqual([]);
+  });
+
+  it("falls back to /sitemap.xml and records failures", async () => {
+    const fetchImpl = fakeFetch({
+      "https://town.example.gov/sitemap.xml": "<?xml version=\"1.0\"?><urlset></urlset>",
+    });
+
+    const discovery = await discoverSources("https://town.example.gov", fetchImpl);
+
+    expect(discovery.sitemapUrls).toEqual(["https://town.example.gov/sitemap.xml"]);
+    expect(discovery.feeds).toEqual([]);
+    expect(discovery.errors).toHaveLength(1);
+  });
+});
+
+describe("buildSourceConfigs", () => {
+  const town = parsed(wellesleyInput);
+  const discovery: SourceDiscovery = {
+    sitemapUrls: ["https://www.wellesleyma.gov/sitemap.xml"],
+    feeds: [{ url: "https://www.wellesleyma.gov/rss.aspx", title: "" }],
+    calendars: [{ url: "https://www.wellesleyma.gov/cal.ics", title: "Town Calendar" }],
+    errors: [],
+  };
+
+  it("seeds a sitemap-driven website scrape plus one connector per feed", () => {
+    const rows = buildSourceConfigs(town, discovery);
+
+    expect(rows.map((r) => [r.id, r.connector_type, r.category])).toEqual([
+      ["wellesley:website", "scrape", "government"],
+      ["wellesley:rss-1", "rss", "news"],
+      ["wellesley:ical-1", "ical", "events"],
+    ]);
+    expect(rows[0].config.sitemapUrl).toBe("https://www.wellesleyma.gov/sitemap.xml");
+    expect(new RegExp(rows[0].config.articleUrlPattern as string).test("https://wellesleyma.gov/123/Parks")).toBe(true);
+    expect(new RegExp(rows[0].config.articleUrlPattern as string).test("https://example.com/wellesleyma.gov/")).toBe(false);
+    expect(rows[1].config.sourceName).toBe("Wellesley, MA");
+    expect(rows.every((r) => r.town_id === "wellesley" && r.enabled)).toBe(true);
+  });
+});
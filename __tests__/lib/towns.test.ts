@@ -0,0 +1,71 @@
+/**
+ * Tests for towns.ts — resolving onboarded towns by id and hostname from a
+ * cached town index rather than a query per id or Host header.
+ */
+
+const mockTownsQuery = jest.fn();
+
+jest.mock("@/lib/supabase", () => ({
+  getSupabaseClient: jest.fn(),
+  getSupabaseServiceClient: () => ({
+    from: () => ({
+      select: () => ({
+        not: mockTownsQuery,
+      }),
+    }),
+  }),
+}));
+
+import { clearTownCache, getTownById, getTownByIdOrDefault, getTownIdForHost } from "@/lib/towns";
+
+beforeEach(() => {
+  clearTownCache();
+  mockTownsQuery.mockReset().mockResolvedValue({
+    data: [
+      {
+        id: "wellesley",
+        town_config: { town_id: "wellesley", name: "Wellesley, MA", hostnames: ["WellesleyNavigator.com"] },
+      },
+    ],
+    error: null,
+  });
+});
+
+describe("getTownIdForHost", () => {
+  it("resolves static towns without querying", async () => {
+    await expect(getTownIdForHost("needhamnavigator.com")).resolves.toBe("needham");
+    expect(mockTownsQuery).not.toHaveBeenCalled();
+  });
+
+  it("resolves onboarded towns' hosts from one cached load", async () => {
+    await expect(getTownIdForHost("wellesleynavigator.com:443")).resolves.toBe("wellesley");
+
+    const unknownHosts = Array.from({ length: 50 }, (_, i) => `random-${i}.example.com`);
+    const results = await Promise.all(unknownHosts.map((host) => getTownIdForHost(host)));
+
+    expect(results.every((townId) => townId === null)).toBe(true);
+    expect(mockTownsQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it("shares one load between concurrent lookups", async () => {
+    await Promise.all([getTownIdForHost("a.example.com"), getTownIdForHost("b.example.com")]);
+    expect(mockTownsQuery).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("getTownById", () => {
+  it("resolves onboarded and static towns from one cached load", async () => {
+    await expect(getTownById("wellesley")).resolves.toMatchObject({ name: "Wellesley, MA" });
+    await expect(getTownById("needham")).resolves.toMatchObject({ town_id: "needham" });
+    expect(getTownByIdOrDefault("wellesley").name).toBe("Wellesley, MA");
+    expect(mockTownsQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it("answers unknown ids without a query each", async () => {
+    const unknownIds = Array.from({ length: 50 }, (_, i) => `favicon-${i}.ico`);
+    const towns = await Promise.all(unknownIds.map((townId) => getTownById(townId)));
+
+    expect(towns.every((town) => town === undefined)).toBe(true);
+    expect(mockTownsQuery).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for the vector store abstraction — filter AST translation and the
+ * in-memory / file-backed backend.
+ */
+
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import {
+  cosineSimilarity,
+  createMemoryVectorStore,
+  filterAnd,
+  filterEq,
+  filterIn,
+  filterNe,
+  getVectorStore,
+  matchesFilter,
+  setVectorStore,
+  toPgContainment,
+  toUpstashFilter,
+} from "@/lib/vector-store";
+
+describe("vector-store", () => {
+  describe("filter translation", () => {
+    const filter = filterAnd(
+      filterEq("town_id", "needham"),
+      filterIn("relevance_tier", ["primary", "regional"]),
+    );
+
+    it("translates to Upstash filter syntax", () => {
+      expect(toUpstashFilter(filter)).toBe(
+        "town_id = 'needham' AND relevance_tier IN ('primary', 'regional')",
+      );
+    });
+
+    it("escapes quotes in Upstash string literals", () => {
+      expect(toUpstashFilter(filterEq("title", "O'Brien"))).toBe("title = 'O\\'Brien'");
+    });
+
+    it("returns undefined for empty filters", () => {
+      expect(toUpstashFilter(undefined)).toBeUndefined();
+      expect(toUpstashFilter(filterAnd())).toBeUndefined();
+    });
+
+    it("pushes equality down to pgvector containment and keeps the rest as residual", () => {
+      const { containment, residual } = toPgContainment(filter);
+      expect(containment).toEqual({ town_id: "needham" });
+      expect(residual).toEqual(filterAnd(filterIn("relevance_tier", ["primary", "regional"])));
+    });
+
+    it("evaluates filters against metadata", () => {
+      expect(matchesFilter(filter, { town_id: "needham", relevance_tier: "primary" })).toBe(true);
+      expect(matchesFilter(filter, { town_id: "needham", relevance_tier: "archive" })).toBe(false);
+      expect(matchesFilter(filter, { town_id: "wellesley", relevance_tier: "primary" })).toBe(false);
+      expect(matchesFilter(filterNe("town_id", "needham"), {})).toBe(true);
+      expect(matchesFilter(undefined, undefined)).toBe(true);
+    });
+  });
+
+  describe("cosineSimilarity", () => {
+    it("scores identical vectors 1 and orthogonal vectors 0", () => {
+      expect(cosineSimilarity([1, 2, 3], [1, 2, 3])).toBeCloseTo(1);
+      expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+      expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+    });
+  });
+
+  describe("memory store", () => {
+    it("returns the closest vectors first, honoring filters and topK", async () => {
+      const store = createMemoryVectorStore();
+      await store.upsert("chunks", [
+        { id: "a", values: [1, 0, 0], metadata: { town_id: "needham" } },
+        { id: "b", values: [0.9, 0.1, 0], metadata: { town_id: "needham" } },
+        { id: "c", values: [1, 0, 0], metadata: { town_id: "wellesley" } },
+        { id: "d", values: [0, 1, 0], metadata: { town_id: "needham" } },
+      ]);
+
+      const results = await store.query("chunks", [1, 0, 0], 2, filterEq("town_id", "needham"));
+      expect(results.map((r) => r.id)).toEqual(["a", "b"]);
+      expect(results[0].score).toBeCloseTo(1);
+    });
+
+    it("keeps namespaces separate and supports delete", async () => {
+      const store = createMemoryVectorStore();
+      await store.upsert("chunks", [{ id: "a", values: [1, 0] }]);
+      await store.upsert("content", [{ id: "b", values: [1, 0] }]);
+
+      expect((await store.query("chunks", [1, 0], 10)).map((r) => r.id)).toEqual(["a"]);
+
+      await store.delete("chunks", ["a", "missing"]);
+      expect(await store.query("chunks", [1, 0], 10)).toEqual([]);
+      expect((await store.query("content", [1, 0], 10)).map((r) => r.id)).toEqual(["b"]);
+    });
+
+    it("persists to and reloads from a file", async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), "vector-store-"));
+      const filePath = path.join(dir, "vectors.json");
+      try {
+        const writer = createMemoryVectorStore({ filePath });
+        await writer.upsert("chunks", [{ id: "a", values: [0, 1], metadata: { town_id: "needham" } }]);
+
+        const reader = createMemoryVectorStore({ filePath });
+        const results = await reader.query("chunks", [0, 1], 5);
+        expect(results).toEqual([{ id: "a", score: expect.any(Number), metadata: { town_id: "needham" } }]);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("getVectorStore", () => {
+    const originalBackend = process.env.VECTOR_STORE_BACKEND;
+
+    afterEach(() => {
+      setVectorStore(null);
+      process.env.VECTOR_STORE_BACKEND = originalBackend;
+    });
+
+    it("selects the backend from VECTOR_STORE_BACKEND", () => {
+      process.env.VECTOR_STORE_BACKEND = "memory";
+      expect(getVectorStore().backend).toBe("memory");
+    });
+
+    it("rejects unknown backends", () => {
+      process.env.VECTOR_STORE_BACKEND = "pinecone";
+      expect(() => getVectorStore()).toThrow(/Unknown VECTOR_STORE_BACKEND/);
+    });
+
+    it("returns an overridden store", () => {
+      const store = createMemoryVectorStore();
+      setVectorStore(store);
+      expect(getVectorStore()).toBe(store);
+    });
+  });
+});
@@ -1,14 +1,11 @@
 import { embedAndStoreChunks } from "../../scripts/embed";
 import type { Chunk } from "../../scripts/chunk";
-
-// Mock Upstash Vector
-const mockUpsertToPinecone = jest.fn().mockResolvedValue(undefined);
-const mockDeleteFromPinecone = jest.fn().mockResolvedValue(undefined);
-jest.mock("@/lib/upstash-vector", () => ({
-  upsertToPinecone: (...args: unknown[]) => mockUpsertToPinecone(...args),
-  deleteFromPinecone: (...args: unknown[]) => mockDeleteFromPinecone(...args),
-  PINECONE_NS_CHUNKS: "chunks",
-}));
+import {
+  createMemoryVectorStore,
+  filterEq,
+  setVectorStore,
+  type VectorStore,
+} from "@/lib/vector-store";
 
 // Mock Supabase dependencies
 const mockSelectId = jest.fn();
@@ -44,9 +41,14 @@ jest.mock("@/lib/embeddings", () => ({
 }));
 
 describe("embed", () => {
+  let vectorStore: VectorStore;
+
   beforeEach(() => {
     jest.clearAllMocks();
-    // Default: no existing chunks to delete from Pinecone
+    // Fresh in-memory vector store per test
+    vectorStore = createMemoryVectorStore();
+    setVectorStore(vectorStore);
+    // Default: no existing chunks to delete from the vector store
     mockSelectId.mockReturnValue({
       eq: jest.fn().mockResolvedValue({ data: [], error: null }),
     });
@@ -108,7 +110,11 @@ describe("embed", () => {
     });
   });
 
-  it("upserts vectors to Pinecone after inserting to Supabase", async () => {
+  afterAll(() => {
+    setVectorStore(null);
+  });
+
+  it("upserts vectors to the vector store after inserting to Supabase", async () => {
     const chunks = createTestChunks(2);
     const fakeEmbeddings = chunks.map(() => new Array(1536).fill(0.1));
     mockGenerateEmbeddings.mockResolvedValueOnce(fakeEmbeddings);
@@ -119,16 +125,34 @@ describe("embed", () => {
 
     await embedAndStoreChunks(chunks, "test-doc-id");
 
-    expect(mockUpsertToPinecone).toHaveBeenCalledWith(
+    const stored = await vectorStore.query(
       "chunks",
-      expect.arrayContaining([
-        expect.objectContaining({
-          id: "uuid-1",
-          values: expect.any(Array),
-          metadata: { town_id: "needham", document_id: "test-doc-id", relevance_tier: "supplementary" },
-        }),
-      ])
+      fakeEmbeddings[0],
+      10,
+      filterEq("document_id", "test-doc-id"),
     );
+    expect(stored.map((v) => v.id).sort()).toEqual(["uuid-1", "uuid-2"]);
+    expect(stored[0].metadata).toEqual({
+      town_id: "needham",
+      document_id: "test-doc-id",
+      relevance_tier: "supplementary",
+    });
+  });
+
+  it("removes the document's old vectors before re-embedding", async () => {
+    await vectorStore.upsert("chunks", [
+      { id: "old-1", values: new Array(1536).fill(0.1), metadata: { document_id: "test-doc-id" } },
+    ]);
+    mockSelectId.mockReturnValue({
+      eq: jest.fn().mockResolvedValue({ data: [{ id: "old-1" }], error: null }),
+    });
+    mockGenerateEmbeddings.mockResolvedValueOnce([new Array(1536).fill(0.1)]);
+    mockInsertSelect.mockResolvedValueOnce({ data: [{ id: "uuid-1" }], error: null });
+
+    await embedAndStoreChunks(createTestChunks(1), "test-doc-id");
+
+    const stored = await vectorStore.query("chunks", new Array(1536).fill(0.1), 10);
+    expect(stored.map((v) => v.id)).toEqual(["uuid-1"]);
   });
 
   it("stores null embedding in Supabase", async () => {
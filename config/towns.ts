@@ -15,6 +15,7 @@ export type TownBrandColors = {
   warning: string;
 };
 
+/** Phone numbers are checked against contacts extracted at ingest: `npm run check:departments` */
 export type TownDepartment = {
   name: string;
   phone: string;
@@ -24,6 +25,7 @@ export type TownDepartment = {
   address?: string;
 };
 
+/** Static defaults; per-town overrides and rollouts are resolved in src/lib/feature-flags.ts */
 export type TownFeatureFlags = {
   enableZoningMap: boolean;
   enablePermitWizard: boolean;
@@ -47,6 +49,59 @@ export type TownLocation = {
   lng: number;
 };
 
+/**
+ * Place names that decide whether content is local to a town. Drives the
+ * geo filter (src/lib/geo-filter.ts) for content, articles and the daily
+ * brief. Names are matched case-insensitively as substrings.
+ */
+export type TownGeography = {
+  /** The town itself, e.g. ["needham"] — always local */
+  core_names: string[];
+  /** Villages and neighborhoods inside the town, also always local */
+  villages: string[];
+  /** Abutting towns — local enough for community, events and dining */
+  neighbors: string[];
+  /** Nearby cities in the wider metro area, treated like neighbors */
+  metro: string[];
+  county: string;
+  /** Full state name, e.g. "massachusetts" — never counted as out-of-area */
+  state: string;
+  /** Two-letter state code, e.g. "MA" */
+  state_abbrev: string;
+  /** Hosts that only publish about this town (subdomains included) */
+  local_domains: string[];
+};
+
+/** Someone the assistant sends residents to when the documents don't answer */
+export type TownEscalationContact = {
+  name: string;
+  phone: string;
+  /** When to send residents here, e.g. "permits and inspections" */
+  handles?: string;
+};
+
+/**
+ * How the assistant talks about a town. Drives the chat, search answer and
+ * article generator prompts (src/lib/prompt-profile.ts). Every field is
+ * optional — missing ones fall back to generic, town-neutral defaults.
+ */
+export type TownPromptProfile = {
+  /** Name the assistant introduces itself with — defaults to app_name */
+  assistant_name?: string;
+  /** Extra persona guidance, appended to the PERSONALITY & TONE section */
+  persona?: string;
+  /** Local slang and nicknames, e.g. '"The dump" means the Transfer Station.' */
+  vocabulary_notes?: string[];
+  /** Topics the assistant can help with, listed when it has no answer */
+  supported_topics?: string[];
+  /** What a new resident should hear about first, most important first */
+  new_resident_topics?: string[];
+  /** Reference-only disclaimer the assistant states for legal questions */
+  disclaimer?: string;
+  /** Who to call when the documents don't answer — first one is the default */
+  escalation_contacts?: TownEscalationContact[];
+};
+
 export type TownAboutContent = {
   mission: string;
   how_it_works: string;
@@ -65,6 +120,20 @@ export type TownConfig = {
   feature_flags: TownFeatureFlags;
   /** Geographic center for weather/geo queries */
   location: TownLocation;
+  /** What counts as local when filtering news, events and articles */
+  geography: TownGeography;
+  /**
+   * Other towns (town_ids) searched alongside this one in regional mode.
+   * Defaults to the towns named in geography.neighbors that are also tenants.
+   */
+  regional_town_ids?: string[];
+  /** Run the daily cron pipeline (monitor, ingest, generate) for this town. Defaults to true */
+  cron_enabled?: boolean;
+  /**
+   * Domains this town is served on, canonical first (e.g. "needhamnavigator.com").
+   * Requests to these hosts resolve to the town without a /<town_id> path.
+   */
+  hostnames?: string[];
   /** MBTA route ID (e.g. "CR-Needham") */
   transit_route?: string;
   /** Display name for the app (e.g., "Needham Navigator", "Boston Hub") */
@@ -79,6 +148,8 @@ export type TownConfig = {
   about?: TownAboutContent;
   /** Fun facts about the town — shown during search loading */
   fun_facts?: string[];
+  /** Persona, local vocabulary and escalation contacts for the AI prompts */
+  prompt_profile?: TownPromptProfile;
 };
 
 export const TOWNS: TownConfig[] = [
@@ -86,6 +157,7 @@ export const TOWNS: TownConfig[] = [
     town_id: "needham",
     name: "Needham, MA",
     website_url: "https://www.needhamma.gov",
+    hostnames: ["needhamnavigator.com", "www.needhamnavigator.com", "staging.needhamnavigator.com"],
     vector_namespace: "needham-docs-v1",
     brand_colors: {
       primary: "#003F87",
@@ -158,6 +230,25 @@ export const TOWNS: TownConfig[] = [
       enableAnswerCache: true,
     },
     location: { lat: 42.2828, lng: -71.2337 },
+    geography: {
+      core_names: ["needham"],
+      villages: ["needham heights", "highlandville", "birds hill"],
+      neighbors: [
+        "wellesley", "newton", "dedham", "dover", "westwood",
+        "natick", "norwood", "brookline", "waltham", "framingham",
+      ],
+      metro: [
+        "boston", "cambridge", "somerville", "quincy", "medford",
+        "arlington", "watertown", "lexington", "concord",
+      ],
+      county: "norfolk",
+      state: "massachusetts",
+      state_abbrev: "MA",
+      local_domains: [
+        "needhamma.gov", "needham.k12.ma.us", "needhamobserver.com",
+        "needhamlocal.org", "needhamchannel.org",
+      ],
+    },
     transit_route: "CR-Needham",
     app_name: "Needham Navigator",
     app_tagline: "Your AI Town Guide",
@@ -206,6 +297,38 @@ export const TOWNS: TownConfig[] = [
       "Needham's Transfer Station accepts electronics for recycling year-round — no fee for residents.",
       "The Needham Free Public Library was established in 1888 and moved to its current location on Highland Avenue in 1915.",
     ],
+    prompt_profile: {
+      assistant_name: "Needham Navigator",
+      vocabulary_notes: [
+        '"The dump" means the Transfer Station — say "the Transfer Station (that\'s what most folks call \'the dump\')".',
+        '"Cops" means the Police Department.',
+        '"Can I build a deck" is a zoning/permit question.',
+        '"Who do I call about a rat" is a Board of Health question.',
+      ],
+      supported_topics: [
+        "Permits and building requirements",
+        "Trash & recycling (Transfer Station)",
+        "Property taxes and payments",
+        "Zoning regulations",
+        "Schools and enrollment",
+        "Town meetings and elections",
+        "Recreation programs",
+        "Department contact information",
+      ],
+      new_resident_topics: [
+        "Trash & recycling (Transfer Station hours, sticker requirements)",
+        "Voter registration",
+        "School enrollment",
+        "Property taxes and payment schedules",
+        "Parking permits and regulations",
+        "Town Hall contact information and hours",
+        "Library card and services",
+        "Recreation programs and facilities",
+      ],
+      escalation_contacts: [
+        { name: "Town Hall", phone: "(781) 455-7500" },
+      ],
+    },
   },
   // Remove before production deployment — used for multi-tenant testing only
   {
@@ -262,6 +385,17 @@ export const TOWNS: TownConfig[] = [
       enableAnswerCache: true,
     },
     location: { lat: 42.0, lng: -71.0 },
+    cron_enabled: false,
+    geography: {
+      core_names: ["mock town", "exampletown"],
+      villages: ["mock town center", "east mock"],
+      neighbors: ["sampleton", "testville", "fixture falls"],
+      metro: ["worcester"],
+      county: "worcester",
+      state: "massachusetts",
+      state_abbrev: "MA",
+      local_domains: ["exampletown.gov"],
+    },
     app_name: "Mock Town Navigator",
     app_tagline: "Your AI Town Guide",
     assistant_name: "Town AI",
@@ -1,10 +1,11 @@
 /** @type {import('next').NextConfig} */
 
-// Hostnames where root paths (/, /chat, /permits, /news, /search) serve Needham
-// content directly via rewrite. On unrecognized hosts the filesystem
+// Production domains are mapped to towns by TownConfig.hostnames in
+// src/proxy.ts. Local dev and preview deployments have no town of their own,
+// so their root paths (/, /chat, /permits, /news, /search) serve Needham
+// content directly via rewrite. On other unrecognized hosts the filesystem
 // page.tsx redirect to /{DEFAULT_TOWN_ID} kicks in as a fallback.
-const NEEDHAM_HOSTS =
-  "(?:needhamnavigator\\.com|www\\.needhamnavigator\\.com|staging\\.needhamnavigator\\.com|localhost(?::\\d+)?|.*\\.vercel\\.app)";
+const NEEDHAM_HOSTS = "(?:localhost(?::\\d+)?|.*\\.vercel\\.app)";
 
 const nextConfig = {
   turbopack: {
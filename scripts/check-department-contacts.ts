@@ -0,0 +1,55 @@
+/**
+ * scripts/check-department-contacts.ts — Check TownDepartment phones against the fact store
+ *
+ * The departments listed in config/towns.ts are maintained by hand. This
+ * compares each department's phone number with the contact facts extracted
+ * at ingest and reports departments whose official pages list a different
+ * number. Exits non-zero when any mismatch is found.
+ *
+ * Usage:
+ *   npx tsx scripts/check-department-contacts.ts              # all towns
+ *   npx tsx scripts/check-department-contacts.ts --town=needham
+ */
+
+import { TOWNS } from "../config/towns";
+import { checkDepartmentContacts, listTownFacts } from "../src/lib/fact-store";
+
+async function main() {
+  const townArg = process.argv.find((arg) => arg.startsWith("--town="))?.split("=")[1];
+  const towns = townArg ? TOWNS.filter((town) => town.town_id === townArg) : TOWNS;
+
+  if (towns.length === 0) {
+    console.error(`Unknown town: ${townArg}`);
+    process.exit(1);
+  }
+
+  let mismatchCount = 0;
+
+  for (const town of towns) {
+    const facts = await listTownFacts(town.town_id, "contact");
+    const mismatches = checkDepartmentContacts(town.departments, facts);
+    mismatchCount += mismatches.length;
+
+    console.log(`\n${town.name} — ${town.departments.length} departments, ${facts.length} contact facts`);
+    if (mismatches.length === 0) {
+      console.log("  All departments match the extracted contacts (or have none extracted).");
+      continue;
+    }
+    for (const mismatch of mismatches) {
+      console.log(`  ✗ ${mismatch.department}: config has ${mismatch.configuredPhone}, pages list ${mismatch.extractedPhones.join(", ")}`);
+      for (const url of mismatch.sourceUrls) {
+        console.log(`      ${url}`);
+      }
+    }
+  }
+
+  if (mismatchCount > 0) {
+    console.log(`\n${mismatchCount} department phone number(s) differ from the fact store.`);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error("Department contact check failed:", err);
+  process.exit(1);
+});
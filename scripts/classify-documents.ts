@@ -6,7 +6,7 @@
  *   npx tsx --env-file=.env.local scripts/classify-documents.ts --execute      # Apply to Supabase
  *
  * Steps:
- * 1. Classify all documents by domain rules
+ * 1. Classify all documents by their town's tier rules (relevance_tier_rules)
  * 2. Update documents.relevance_tier in Supabase
  *
  * Note: To update vector metadata in Upstash after classifying, re-run re-embed.ts.
@@ -14,7 +14,8 @@
 
 import { getSupabaseServiceClient } from "../src/lib/supabase";
 import { classifyDocument } from "../src/lib/relevance-classifier";
-import type { RelevanceTier } from "../src/lib/relevance-classifier";
+import type { RelevanceTier, TownTierRules } from "../src/lib/relevance-classifier";
+import { getTierRules } from "../src/lib/tier-rules";
 
 const PAGE_SIZE = 500;
 
@@ -36,9 +37,10 @@ async function classifyAllDocuments(
   const tierCounts: Record<string, number> = {};
   let classified = 0;
   let cursor: string | null = null;
+  const rulesByTown = new Map<string, TownTierRules>();
 
   while (true) {
-    let query = supabase.from("documents").select("id, url, title").order("id").limit(PAGE_SIZE);
+    let query = supabase.from("documents").select("id, town_id, url, title").order("id").limit(PAGE_SIZE);
     if (cursor) query = query.gt("id", cursor);
 
     const { data, error } = await query;
@@ -51,7 +53,12 @@ async function classifyAllDocuments(
     // Classify and group by tier
     const byTier = new Map<RelevanceTier, string[]>();
     for (const doc of data) {
-      const tier = classifyDocument(doc.url, doc.title ?? undefined);
+      let rules = rulesByTown.get(doc.town_id);
+      if (!rules) {
+        rules = await getTierRules(doc.town_id);
+        rulesByTown.set(doc.town_id, rules);
+      }
+      const tier = classifyDocument(doc.url, rules, doc.title ?? undefined);
       tierCounts[tier] = (tierCounts[tier] ?? 0) + 1;
       const ids = byTier.get(tier) ?? [];
       ids.push(doc.id);
@@ -95,7 +102,7 @@ async function main() {
 
   const supabase = getSupabaseServiceClient();
 
-  console.log("[classify] Classifying documents by domain rules...");
+  console.log("[classify] Classifying documents by town tier rules...");
   const { tierCounts, classified } = await classifyAllDocuments(supabase, dryRun);
 
   console.log(`\n[classify] Classification results (${classified} documents):`);
@@ -9,13 +9,13 @@
  * 1. Backfills canonical_url for all documents
  * 2. Finds duplicate groups (same town_id + canonical_url) using service client
  * 3. Keeps the document with the most chunks (tiebreak: most recent last_ingested_at)
- * 4. Deletes loser documents' chunks from Supabase and Pinecone
+ * 4. Deletes loser documents' chunks from Supabase and the vector store
  * 5. Deletes the loser document rows
  */
 
 import { getSupabaseServiceClient } from "../src/lib/supabase";
 import { canonicalizeUrl } from "../src/lib/url-canonicalize";
-import { deleteFromPinecone, PINECONE_NS_CHUNKS } from "../src/lib/upstash-vector";
+import { getVectorStore, VECTOR_NS_CHUNKS } from "../src/lib/vector-store";
 
 const PAGE_SIZE = 500;
 
@@ -184,16 +184,16 @@ async function deleteLoserDoc(
     chunkCursor = chunks[chunks.length - 1].id;
   }
 
-  // Delete from Pinecone
+  // Delete from the vector store
   let vectorsDeleted = 0;
   if (chunkIds.length > 0) {
     try {
       for (let i = 0; i < chunkIds.length; i += 1000) {
-        await deleteFromPinecone(PINECONE_NS_CHUNKS, chunkIds.slice(i, i + 1000));
+        await getVectorStore().delete(VECTOR_NS_CHUNKS, chunkIds.slice(i, i + 1000));
       }
       vectorsDeleted = chunkIds.length;
     } catch (err) {
-      console.error(`[cleanup] Pinecone delete error for doc ${loserId}:`, err); // nosemgrep: unsafe-formatstring
+      console.error(`[cleanup] Vector delete error for doc ${loserId}:`, err); // nosemgrep: unsafe-formatstring
     }
   }
 
@@ -280,7 +280,7 @@ async function main() {
   console.log(`\n[cleanup] ${dryRun ? "Would delete" : "Deleted"}:`);
   console.log(`  ${totalDocsDeleted} duplicate documents`);
   console.log(`  ${totalChunksDeleted} orphaned chunks`);
-  console.log(`  ${totalVectorsDeleted} Pinecone vectors`);
+  console.log(`  ${totalVectorsDeleted} vectors`);
 }
 
 main().catch((err) => {
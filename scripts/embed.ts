@@ -1,18 +1,19 @@
 /**
- * scripts/embed.ts — Embedding generation + Pinecone vector upsert + Supabase metadata storage
+ * scripts/embed.ts — Embedding generation + vector store upsert + Supabase metadata storage
  *
  * Takes chunked documents and:
  * 1. Generates embeddings via OpenAI text-embedding-3-large
- * 2. Upserts vectors to Pinecone (vector search)
+ * 2. Upserts vectors to the vector store (Upstash, pgvector or in-memory)
  * 3. Stores chunk text + metadata in Supabase document_chunks table (no embedding column)
  * 4. Updates the parent document record with chunk count and timestamps
  */
 
 import { getSupabaseServiceClient } from "../src/lib/supabase";
 import { generateEmbeddings } from "../src/lib/embeddings";
-import { upsertToPinecone, deleteFromPinecone, PINECONE_NS_CHUNKS } from "../src/lib/upstash-vector";
-import type { PineconeVector } from "../src/lib/upstash-vector";
+import { getVectorStore, VECTOR_NS_CHUNKS } from "../src/lib/vector-store";
+import type { VectorRecord } from "../src/lib/vector-store";
 import { classifyDocument } from "../src/lib/relevance-classifier";
+import { getTierRules } from "../src/lib/tier-rules";
 import { Chunk } from "./chunk";
 
 // ---------------------------------------------------------------------------
@@ -100,10 +101,10 @@ export async function embedAndStoreChunks(
   const firstChunkMeta = chunks[0]?.metadata;
   const docUrl = firstChunkMeta?.document_url ?? "";
   const docTitle = firstChunkMeta?.document_title;
-  const relevanceTier = docUrl ? classifyDocument(docUrl, docTitle) : "primary";
+  const relevanceTier = docUrl ? classifyDocument(docUrl, await getTierRules(townId), docTitle) : "primary";
 
   // Delete existing chunks for this document (replace strategy)
-  // First, get IDs of existing chunks to delete from Pinecone
+  // First, get IDs of existing chunks to delete from the vector store
   const { data: existingChunks } = await supabase
     .from("document_chunks")
     .select("id")
@@ -112,9 +113,9 @@ export async function embedAndStoreChunks(
   if (existingChunks && existingChunks.length > 0) {
     const existingIds = existingChunks.map((c: { id: string }) => c.id);
     try {
-      await deleteFromPinecone(PINECONE_NS_CHUNKS, existingIds);
+      await getVectorStore().delete(VECTOR_NS_CHUNKS, existingIds);
     } catch (err) {
-      console.warn(`[embed] Failed to delete old vectors from Pinecone: ${err}`);
+      console.warn(`[embed] Failed to delete old vectors from vector store: ${err}`);
     }
   }
 
@@ -149,7 +150,7 @@ export async function embedAndStoreChunks(
 
       const embeddings = await generateEmbeddings(textsForEmbedding);
 
-      // Prepare Supabase rows (no embedding — vectors go to Pinecone)
+      // Prepare Supabase rows (no embedding — vectors go to the vector store)
       const rows = batch.map((chunk, idx) => ({
         document_id: documentId,
         town_id: townId,
@@ -170,18 +171,18 @@ export async function embedAndStoreChunks(
         );
         errors += batch.length;
       } else {
-        // Upsert vectors to Pinecone using the Supabase-generated IDs
+        // Upsert vectors to the vector store using the Supabase-generated IDs
         const inserted = insertedRows as Array<{ id: string }>;
-        const pineconeVectors: PineconeVector[] = inserted.map((row, idx) => ({
+        const vectors: VectorRecord[] = inserted.map((row, idx) => ({
           id: row.id,
           values: embeddings[idx],
           metadata: { town_id: townId, document_id: documentId, relevance_tier: relevanceTier },
         }));
 
         try {
-          await upsertToPinecone(PINECONE_NS_CHUNKS, pineconeVectors);
-        } catch (pineconeErr) {
-          console.error(`[embed] Pinecone upsert failed:`, pineconeErr);
+          await getVectorStore().upsert(VECTOR_NS_CHUNKS, vectors);
+        } catch (vectorErr) {
+          console.error(`[embed] Vector upsert failed:`, vectorErr);
           errors += batch.length;
         }
 
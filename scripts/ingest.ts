@@ -5,8 +5,9 @@
  * 1. Scrape needhamma.gov with custom scraper -> clean markdown pages
  * 2. Download & extract discovered PDFs -> text
  * 3. Chunk all content by document type (Section 4)
- * 4. Generate embeddings & upsert into Supabase pgvector
- * 5. Log the ingestion run with structured success/failure counts
+ * 4. Extract structured facts (hours, fees, contacts) from the chunks
+ * 5. Generate embeddings & upsert into Supabase pgvector
+ * 6. Log the ingestion run with structured success/failure counts
  *
  * Usage:
  *   npx tsx scripts/ingest.ts                    # Full ingestion
@@ -25,6 +26,7 @@ import { embedAndStoreChunks } from "./embed";
 import { IngestionLogger, StageTimer } from "./logger";
 import { getScraperConfig } from "./scraper-config";
 import { enrichDocument } from "./enrich";
+import { extractStructuredFacts, saveDocumentFacts } from "../src/lib/fact-store";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -51,6 +53,26 @@ interface IngestOptions {
 // Pipeline
 // ---------------------------------------------------------------------------
 
+/**
+ * Replace a document's structured facts (hours, fees, contacts) with the ones
+ * found in its fresh chunks. Failures are logged but never fail the document.
+ */
+async function storeDocumentFacts(
+  chunks: Chunk[],
+  documentId: string,
+  townId: string,
+  source: { url: string; title: string }
+): Promise<void> {
+  try {
+    const facts = extractStructuredFacts(chunks);
+    const date = chunks.find((chunk) => chunk.metadata.document_date)?.metadata.document_date;
+    const stored = await saveDocumentFacts(townId, documentId, facts, { ...source, date });
+    if (stored > 0) console.log(`[ingest] Stored ${stored} facts for ${source.url}`);
+  } catch (err) {
+    console.warn(`[ingest] Fact extraction failed for ${source.url}, continuing without facts:`, err);
+  }
+}
+
 async function ingestCrawledPages(
   pages: CrawlResult[],
   townId: string,
@@ -120,6 +142,8 @@ async function ingestCrawledPages(
         }
       }
 
+      await storeDocumentFacts(chunks, doc.id, townId, { url: page.url, title: page.title });
+
       const result = await embedAndStoreChunks(chunks, doc.id, { townId });
       totalChunks += result.chunksEmbedded;
       errors += result.errors;
@@ -207,6 +231,8 @@ async function ingestPdfs(
             chunk.metadata.content_type = enrichment.content_type;
           }
         }
+        await storeDocumentFacts(chunks, newDoc.id, townId, { url: pdf.url, title: pdf.title });
+
         const result = await embedAndStoreChunks(chunks, newDoc.id, { townId });
         totalChunks += result.chunksEmbedded;
         errors += result.errors;
@@ -249,6 +275,8 @@ async function ingestPdfs(
           }
         }
 
+        await storeDocumentFacts(chunks, doc.id, townId, { url: pdf.url, title: pdf.title });
+
         const result = await embedAndStoreChunks(chunks, doc.id, { townId });
         totalChunks += result.chunksEmbedded;
         errors += result.errors;
@@ -1,17 +1,17 @@
 /**
- * scripts/re-embed-content.ts — Re-embed content_items to Upstash Vector
+ * scripts/re-embed-content.ts — Re-embed content_items to the vector store
  *
  * Usage:
  *   npx tsx --env-file=.env.local scripts/re-embed-content.ts
  *
- * Reads all content_items, generates embeddings, upserts to Upstash Vector
- * in the "content" namespace.
+ * Reads all content_items, generates embeddings, upserts to the configured
+ * vector store (VECTOR_STORE_BACKEND) in the "content" namespace.
  */
 
 import { getSupabaseServiceClient } from "../src/lib/supabase";
 import { generateEmbeddings } from "../src/lib/embeddings";
-import { upsertToPinecone, PINECONE_NS_CONTENT } from "../src/lib/upstash-vector";
-import type { PineconeVector } from "../src/lib/upstash-vector";
+import { getVectorStore, VECTOR_NS_CONTENT } from "../src/lib/vector-store";
+import type { VectorRecord } from "../src/lib/vector-store";
 
 async function main() {
   const supabase = getSupabaseServiceClient();
@@ -50,8 +50,8 @@ async function main() {
 
     const embeddings = await generateEmbeddings(texts);
 
-    // Upsert to Upstash Vector
-    const vectors: PineconeVector[] = batch.map((item, j) => ({
+    // Upsert to the vector store
+    const vectors: VectorRecord[] = batch.map((item, j) => ({
       id: item.id,
       values: embeddings[j],
       metadata: {
@@ -60,13 +60,13 @@ async function main() {
       },
     }));
 
-    await upsertToPinecone(PINECONE_NS_CONTENT, vectors);
+    await getVectorStore().upsert(VECTOR_NS_CONTENT, vectors);
     upserted += batch.length;
 
     console.log(`[re-embed-content] Embedded ${Math.min(i + BATCH_SIZE, items.length)}/${items.length}`);
   }
 
-  console.log(`[re-embed-content] Done! Upserted ${upserted} content item vectors to Upstash.`);
+  console.log(`[re-embed-content] Done! Upserted ${upserted} content item vectors to ${getVectorStore().backend}.`);
 }
 
 main().catch((err) => {
@@ -14,9 +14,10 @@
 
 import { getSupabaseServiceClient } from "../src/lib/supabase";
 import { generateEmbeddings } from "../src/lib/embeddings";
-import { upsertToPinecone, PINECONE_NS_CHUNKS } from "../src/lib/upstash-vector";
-import type { PineconeVector } from "../src/lib/upstash-vector";
+import { getVectorStore, VECTOR_NS_CHUNKS } from "../src/lib/vector-store";
+import type { VectorRecord } from "../src/lib/vector-store";
 import { classifyDocument } from "../src/lib/relevance-classifier";
+import { getTierRules } from "../src/lib/tier-rules";
 
 // ---------------------------------------------------------------------------
 // Contextual Chunk Header Builder (same as in embed.ts)
@@ -95,6 +96,7 @@ async function reEmbed(options: ReEmbedOptions = {}): Promise<void> {
   }
 
   console.log(`[re-embed] Found ${chunks.length} chunks to re-embed`);
+  const tierRules = await getTierRules(townId);
 
   // Process in batches
   const totalBatches = Math.ceil(chunks.length / batchSize);
@@ -129,12 +131,12 @@ async function reEmbed(options: ReEmbedOptions = {}): Promise<void> {
       // Generate new embeddings
       const embeddings = await generateEmbeddings(textsForEmbedding);
 
-      // Upsert vectors to Pinecone (include relevance_tier from document URL)
-      const pineconeVectors: PineconeVector[] = batch.map((chunk, j) => {
+      // Upsert vectors to the vector store (include relevance_tier from document URL)
+      const vectors: VectorRecord[] = batch.map((chunk, j) => {
         const meta = (chunk.metadata ?? {}) as Record<string, unknown>;
         const url = typeof meta.document_url === "string" ? meta.document_url : "";
         const title = typeof meta.document_title === "string" ? meta.document_title : undefined;
-        const tier = url ? classifyDocument(url, title) : "primary";
+        const tier = url ? classifyDocument(url, tierRules, title) : "primary";
         return {
           id: chunk.id,
           values: embeddings[j],
@@ -142,7 +144,7 @@ async function reEmbed(options: ReEmbedOptions = {}): Promise<void> {
         };
       });
 
-      await upsertToPinecone(PINECONE_NS_CHUNKS, pineconeVectors);
+      await getVectorStore().upsert(VECTOR_NS_CHUNKS, vectors);
       reEmbedded += batch.length;
 
       console.log(`[re-embed] ✓ Batch ${batchNum}/${totalBatches} complete (${reEmbedded}/${chunks.length} total)`);
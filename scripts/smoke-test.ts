@@ -6,7 +6,7 @@
 
 import { getSupabaseServiceClient } from "../src/lib/supabase";
 import { generateEmbeddings } from "../src/lib/embeddings";
-import { queryPinecone, PINECONE_NS_CHUNKS } from "../src/lib/upstash-vector";
+import { getVectorStore, filterEq, VECTOR_NS_CHUNKS } from "../src/lib/vector-store";
 
 const QUERIES = [
   "when is the dump open?",
@@ -31,7 +31,7 @@ async function main() {
   const supabase = getSupabaseServiceClient();
 
   console.log("=".repeat(60));
-  console.log("SMOKE TEST — 5 Queries Against Clean Data (Pinecone)");
+  console.log(`SMOKE TEST — 5 Queries Against Clean Data (${getVectorStore().backend})`);
   console.log("=".repeat(60));
 
   for (const query of QUERIES) {
@@ -40,14 +40,14 @@ async function main() {
     // Generate embedding for the query
     const [queryEmbedding] = await generateEmbeddings([query]);
 
-    // Semantic search via Pinecone
-    let pineconeResults;
+    // Semantic search via the vector store
+    let vectorResults;
     try {
-      pineconeResults = await queryPinecone(
-        PINECONE_NS_CHUNKS,
+      vectorResults = await getVectorStore().query(
+        VECTOR_NS_CHUNKS,
         queryEmbedding,
         5,
-        { town_id: { $eq: "needham" } },
+        filterEq("town_id", "needham"),
       );
     } catch (err) {
       console.error(`  ERROR: ${err}`);
@@ -55,7 +55,7 @@ async function main() {
     }
 
     // Filter by threshold
-    const filtered = pineconeResults.filter((r) => r.score >= 0.3);
+    const filtered = vectorResults.filter((r) => r.score >= 0.3);
     if (filtered.length === 0) {
       console.log("  No matches found");
       continue;
@@ -55,7 +55,7 @@ export default function ArticleDetailPage() {
   useEffect(() => {
     async function fetchArticle() {
       try {
-        const res = await fetch(`/api/articles/${id}`);
+        const res = await fetch(`/api/articles/${id}?town=${town.town_id}`);
         if (!res.ok) {
           throw new Error("Article not found");
         }
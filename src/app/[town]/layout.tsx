@@ -1,9 +1,12 @@
 import type { Metadata } from "next";
+import { cookies } from "next/headers";
 import { notFound } from "next/navigation";
+import { FLAG_SESSION_COOKIE, getTownFeatureFlags } from "@/lib/feature-flags";
 import { I18nProvider } from "@/lib/i18n";
 import { TownProvider } from "@/lib/town-context";
 import { ChatProvider } from "@/lib/chat-context";
 import { getTownThemeStyle } from "@/lib/town-theme";
+import { townOrigin } from "@/lib/town-host";
 import { getTownById, getTownIds, type TownConfig } from "@/lib/towns";
 import { PendoProvider } from "@/components/PendoProvider";
 import { FloatingChatWrapper } from "@/components/FloatingChatWrapper";
@@ -20,8 +23,8 @@ function normalizeTownId(townId: string): string {
   return townId.trim().toLowerCase();
 }
 
-function getTownOr404(rawTownId: string): TownConfig {
-  const town = getTownById(normalizeTownId(rawTownId));
+async function getTownOr404(rawTownId: string): Promise<TownConfig> {
+  const town = await getTownById(normalizeTownId(rawTownId));
   if (!town) {
     notFound();
   }
@@ -29,6 +32,7 @@ function getTownOr404(rawTownId: string): TownConfig {
   return town;
 }
 
+// Towns onboarded into the database after the build render on first request
 export function generateStaticParams(): Array<{ town: string }> {
   return getTownIds().map((townId) => ({ town: townId }));
 }
@@ -37,7 +41,7 @@ export async function generateMetadata({
   params,
 }: Pick<TownLayoutProps, "params">): Promise<Metadata> {
   const resolvedParams = await params;
-  const town = getTownById(normalizeTownId(resolvedParams.town));
+  const town = await getTownById(normalizeTownId(resolvedParams.town));
   if (!town) {
     return {
       title: "Town Not Found",
@@ -48,12 +52,19 @@ export async function generateMetadata({
   return {
     title: `${town.name} Navigator`,
     description: `AI-powered municipal information hub for ${town.name}.`,
+    // Relative canonical/OG URLs resolve against the town's own domain
+    metadataBase: new URL(townOrigin(town)),
   };
 }
 
 export default async function TownLayout({ children, params }: TownLayoutProps) {
   const resolvedParams = await params;
-  const town = getTownOr404(resolvedParams.town);
+  const staticTown = await getTownOr404(resolvedParams.town);
+
+  // Admin overrides and rollouts layered over the static flags for this session
+  const sessionId = (await cookies()).get(FLAG_SESSION_COOKIE)?.value;
+  const { flags } = await getTownFeatureFlags(staticTown, sessionId);
+  const town = { ...staticTown, feature_flags: flags };
 
   return (
     <TownProvider town={town}>
@@ -1,4 +1,5 @@
-import { getTownById } from "@/lib/towns";
+import { cookies } from "next/headers";
+import { FLAG_SESSION_COOKIE, getTownFeatureFlags } from "@/lib/feature-flags";
 import { HomePage } from "@/components/HomePage";
 import { SearchHomePage } from "@/components/SearchHomePage";
 
@@ -8,17 +9,10 @@ interface TownHomePageProps {
 
 export default async function TownHomePage({ params }: TownHomePageProps) {
   const { town } = await params;
-  const townConfig = getTownById(town);
 
-  // Check if search skin is enabled via uiMode flag
-  // If the flag doesn't exist yet (parallel backend PR), default to classic
-  if (townConfig?.feature_flags && "uiMode" in townConfig.feature_flags) {
-    const flags = townConfig.feature_flags as Record<string, unknown>;
-    if (flags.uiMode === "search") {
-      return <SearchHomePage />;
-    }
-  }
+  // uiMode may be overridden or rolled out per session from the admin Settings tab
+  const sessionId = (await cookies()).get(FLAG_SESSION_COOKIE)?.value;
+  const { flags } = await getTownFeatureFlags(town.trim().toLowerCase(), sessionId);
 
-  // Default to classic skin
-  return <HomePage />;
+  return flags.uiMode === "search" ? <SearchHomePage /> : <HomePage />;
 }
@@ -1,6 +1,7 @@
 import { SearchHomePage } from "@/components/SearchHomePage";
 import { Metadata } from "next";
-import { getTownById } from "@/lib/towns";
+import { townUrl } from "@/lib/town-host";
+import { getTownById, getTownByIdOrDefault } from "@/lib/towns";
 
 interface SearchPageProps {
   params: Promise<{ town: string }>;
@@ -11,7 +12,7 @@ export async function generateMetadata(props: SearchPageProps): Promise<Metadata
   const params = await props.params;
   const searchParams = await props.searchParams;
 
-  const townConfig = getTownById(params.town);
+  const townConfig = await getTownById(params.town);
   const townName = townConfig?.name ?? "Your Town";
   const query = searchParams.q || "";
 
@@ -23,9 +24,8 @@ export async function generateMetadata(props: SearchPageProps): Promise<Metadata
     ? `Search results for "${query}" in ${townName}, MA. Find municipal information, permits, regulations, and community services.`
     : `Search ${townName} municipal information. Find answers about permits, regulations, town services, and community resources.`;
 
-  const url = query
-    ? `https://needhamnavigator.com/${params.town}/search?q=${encodeURIComponent(query)}`
-    : `https://needhamnavigator.com/${params.town}/search`;
+  const searchUrl = townUrl(townConfig ?? getTownByIdOrDefault(params.town), "/search");
+  const url = query ? `${searchUrl}?q=${encodeURIComponent(query)}` : searchUrl;
 
   return {
     title,
@@ -37,13 +37,16 @@ import {
   Zap,
   Newspaper,
   Play,
+  ArrowUpDown,
+  MapPin,
+  Flag,
 } from "lucide-react";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-type Tab = "documents" | "analytics" | "search-analytics" | "content-quality" | "costs" | "logs" | "settings" | "sources" | "pipeline";
+type Tab = "documents" | "analytics" | "search-analytics" | "content-quality" | "costs" | "logs" | "settings" | "sources" | "towns" | "pipeline";
 
 interface AdminDocument {
   id: string;
@@ -1022,9 +1025,19 @@ interface AvailableModel {
   outputPrice: number;
 }
 
+interface AvailableReranker {
+  id: string;
+  label: string;
+  description: string;
+}
+
 function SettingsTab({ password }: { password: string }) {
   const [chatModel, setChatModel] = useState("");
   const [availableModels, setAvailableModels] = useState<AvailableModel[]>([]);
+  const [reranker, setReranker] = useState("");
+  const [availableRerankers, setAvailableRerankers] = useState<AvailableReranker[]>([]);
+  const [semanticThreshold, setSemanticThreshold] = useState(0.92);
+  const [thresholdRange, setThresholdRange] = useState({ min: 0.8, max: 1 });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
@@ -1037,6 +1050,10 @@ function SettingsTab({ password }: { password: string }) {
         const data = await res.json();
         setChatModel(data.chat_model || "");
         setAvailableModels(data.available_models || []);
+        setReranker(data.reranker || "");
+        setAvailableRerankers(data.available_rerankers || []);
+        if (typeof data.semantic_cache_threshold === "number") setSemanticThreshold(data.semantic_cache_threshold);
+        if (data.semantic_cache_threshold_range) setThresholdRange(data.semantic_cache_threshold_range);
       }
       setLoading(false);
     })();
@@ -1049,7 +1066,7 @@ function SettingsTab({ password }: { password: string }) {
 
     const res = await adminFetch("/api/admin/settings", password, {
       method: "PUT",
-      body: JSON.stringify({ chat_model: chatModel }),
+      body: JSON.stringify({ chat_model: chatModel, reranker, semantic_cache_threshold: semanticThreshold }),
     });
 
     if (res.ok) {
@@ -1120,6 +1137,67 @@ function SettingsTab({ password }: { password: string }) {
           </div>
         )}
 
+        <h3 className="text-sm font-semibold text-text-primary mb-1 mt-6 flex items-center gap-2">
+          <ArrowUpDown size={15} className="text-primary" />
+          Reranker
+        </h3>
+        <p className="text-xs text-text-muted mb-4">
+          How search results are reordered before they reach the chat model. Falls back to Formula if the selected reranker fails.
+        </p>
+
+        <div className="space-y-2 mb-4">
+          {availableRerankers.map((option) => (
+            <label
+              key={option.id}
+              className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                reranker === option.id
+                  ? "border-primary bg-primary/5"
+                  : "border-border-default hover:border-primary/30"
+              }`}
+            >
+              <input
+                type="radio"
+                name="reranker"
+                value={option.id}
+                checked={reranker === option.id}
+                onChange={() => setReranker(option.id)}
+                className="accent-primary"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-text-primary">{option.label}</span>
+                  <code className="text-[11px] text-text-muted bg-surface px-1.5 py-0.5 rounded">{option.id}</code>
+                </div>
+                <span className="text-xs text-text-secondary">{option.description}</span>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <h3 className="text-sm font-semibold text-text-primary mb-1 mt-6 flex items-center gap-2">
+          <Zap size={15} className="text-primary" />
+          Semantic Answer Cache
+        </h3>
+        <p className="text-xs text-text-muted mb-4">
+          How similar a question must be to a cached question to reuse its answer. Higher is stricter; {thresholdRange.max.toFixed(2)} turns paraphrase matching off.
+        </p>
+
+        <div className="flex items-center gap-3 mb-6">
+          <input
+            type="range"
+            min={thresholdRange.min}
+            max={thresholdRange.max}
+            step={0.01}
+            value={semanticThreshold}
+            onChange={(e) => setSemanticThreshold(Number(e.target.value))}
+            className="flex-1 accent-primary"
+            aria-label="Semantic cache similarity cutoff"
+          />
+          <code className="text-xs text-text-primary bg-surface px-2 py-1 rounded w-12 text-center">
+            {semanticThreshold.toFixed(2)}
+          </code>
+        </div>
+
         <div className="flex items-center gap-3">
           <button
             onClick={handleSave}
@@ -1147,6 +1225,616 @@ function SettingsTab({ password }: { password: string }) {
           )}
         </div>
       </div>
+
+      <FeatureFlagsPanel password={password} />
+      <CacheParaphrasesPanel password={password} />
+      <SynonymsPanel password={password} />
+      <PromptPreviewPanel password={password} />
+    </div>
+  );
+}
+
+type FeatureFlagValue = boolean | string;
+type FeatureFlagOverride = FeatureFlagValue | { value: FeatureFlagValue; percent: number };
+
+/** One row of the flags form: "" keeps the static default; percent < 100 is a rollout */
+interface FeatureFlagDraft {
+  value: string;
+  percent: number;
+}
+
+function toFlagDraft(override: FeatureFlagOverride | undefined): FeatureFlagDraft {
+  if (override === undefined) return { value: "", percent: 100 };
+  if (typeof override === "object") return { value: String(override.value), percent: override.percent };
+  return { value: String(override), percent: 100 };
+}
+
+function FeatureFlagsPanel({ password }: { password: string }) {
+  const [defaults, setDefaults] = useState<Record<string, FeatureFlagValue>>({});
+  const [allowedValues, setAllowedValues] = useState<Record<string, FeatureFlagValue[]>>({});
+  const [drafts, setDrafts] = useState<Record<string, FeatureFlagDraft>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      const res = await adminFetch("/api/admin/settings", password);
+      if (res.ok) {
+        const data = await res.json();
+        const values: Record<string, FeatureFlagValue[]> = data.feature_flag_values || {};
+        const overrides: Record<string, FeatureFlagOverride> = data.feature_flags || {};
+        setDefaults(data.feature_flag_defaults || {});
+        setAllowedValues(values);
+        setDrafts(Object.fromEntries(Object.keys(values).map((flag) => [flag, toFlagDraft(overrides[flag])])));
+      }
+      setLoading(false);
+    })();
+  }, [password]);
+
+  const updateDraft = (flag: string, patch: Partial<FeatureFlagDraft>) => {
+    setDrafts((current) => ({ ...current, [flag]: { ...current[flag], ...patch } }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaved(false);
+    setError(null);
+
+    const featureFlags: Record<string, FeatureFlagOverride> = {};
+    for (const [flag, draft] of Object.entries(drafts)) {
+      const value = allowedValues[flag]?.find((v) => String(v) === draft.value);
+      if (value === undefined) continue;
+      featureFlags[flag] = draft.percent >= 100 ? value : { value, percent: draft.percent };
+    }
+
+    const res = await adminFetch("/api/admin/settings", password, {
+      method: "PUT",
+      body: JSON.stringify({ feature_flags: featureFlags }),
+    });
+
+    if (res.ok) {
+      setSaved(true);
+      setTimeout(() => setSaved(false), 3000);
+    } else {
+      const data = await res.json().catch(() => ({}));
+      setError(data.error || "Failed to save feature flags");
+    }
+    setSaving(false);
+  };
+
+  if (loading) return null;
+
+  return (
+    <div className="bg-white border border-border-default rounded-lg p-6 mt-4">
+      <h3 className="text-sm font-semibold text-text-primary mb-1 flex items-center gap-2">
+        <Flag size={15} className="text-primary" />
+        Feature Flags
+      </h3>
+      <p className="text-xs text-text-muted mb-4">
+        Override this town&apos;s built-in flags without a redeploy. Below 100%, the override is rolled out to that share of
+        visitor sessions and the rest keep the default; each session&apos;s variant is recorded in search telemetry.
+      </p>
+
+      <div className="divide-y divide-border-light mb-4">
+        {Object.entries(drafts).map(([flag, draft]) => (
+          <div key={flag} className="flex items-center gap-3 py-2">
+            <code className="text-xs text-text-primary flex-1 min-w-0 truncate">{flag}</code>
+            <select
+              value={draft.value}
+              onChange={(e) => updateDraft(flag, { value: e.target.value })}
+              className="text-sm border border-border-default rounded-lg px-2 py-1 bg-white"
+              aria-label={`${flag} override`}
+            >
+              <option value="">Default ({String(defaults[flag])})</option>
+              {(allowedValues[flag] || []).map((value) => (
+                <option key={String(value)} value={String(value)}>
+                  {String(value)}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={draft.percent}
+              disabled={draft.value === ""}
+              onChange={(e) => updateDraft(flag, { percent: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+              className="w-16 text-sm border border-border-default rounded-lg px-2 py-1 disabled:opacity-40"
+              aria-label={`${flag} rollout percent`}
+            />
+            <span className="text-xs text-text-muted">%</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg text-sm font-medium hover:bg-primary-dark transition-colors disabled:opacity-50"
+        >
+          {saving ? <RefreshCw size={14} className="animate-spin" /> : <Save size={14} />}
+          Save Flags
+        </button>
+        {saved && (
+          <span className="inline-flex items-center gap-1 text-sm text-green-600">
+            <CheckCircle2 size={14} />
+            Saved
+          </span>
+        )}
+        {error && (
+          <span className="inline-flex items-center gap-1 text-sm text-red-600">
+            <XCircle size={14} />
+            {error}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface CacheParaphrase {
+  id: string;
+  query: string;
+  cached_query?: string;
+  similarity: number;
+  served: boolean;
+  hit_count: number;
+}
+
+function CacheParaphrasesPanel({ password }: { password: string }) {
+  const [paraphrases, setParaphrases] = useState<CacheParaphrase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [promoting, setPromoting] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const res = await adminFetch("/api/admin/cache-paraphrases", password);
+    if (res.ok) {
+      const data = await res.json();
+      setParaphrases(data.paraphrases || []);
+    }
+    setLoading(false);
+  }, [password]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handlePromote = async (id: string) => {
+    setPromoting(id);
+    const res = await adminFetch("/api/admin/cache-paraphrases", password, {
+      method: "POST",
+      body: JSON.stringify({ id }),
+    });
+    if (res.ok) {
+      setParaphrases((current) => current.filter((p) => p.id !== id));
+    }
+    setPromoting(null);
+  };
+
+  return (
+    <div className="bg-white border border-border-default rounded-lg p-6 mt-4">
+      <h3 className="text-sm font-semibold text-text-primary mb-1 flex items-center gap-2">
+        <MessageSquare size={15} className="text-primary" />
+        Cache Paraphrases
+      </h3>
+      <p className="text-xs text-text-muted mb-4">
+        Questions that matched (or nearly matched) a cached question. Promote one to give it its own exact cache key.
+      </p>
+
+      {loading ? (
+        <RefreshCw size={16} className="animate-spin text-primary" />
+      ) : paraphrases.length === 0 ? (
+        <p className="text-xs text-text-muted">No paraphrases recorded yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {paraphrases.map((p) => (
+            <div key={p.id} className="flex items-center gap-3 p-3 rounded-lg border border-border-default">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-text-primary truncate">{p.query}</div>
+                <div className="text-xs text-text-muted truncate">
+                  matched &ldquo;{p.cached_query ?? "?"}&rdquo; &middot; {p.similarity.toFixed(2)} &middot; {p.hit_count}×
+                  {p.served ? " · served" : " · near miss"}
+                </div>
+              </div>
+              <button
+                onClick={() => handlePromote(p.id)}
+                disabled={promoting === p.id}
+                className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-primary border border-primary/30 rounded-lg hover:bg-primary/5 transition-colors disabled:opacity-50"
+              >
+                <Plus size={12} />
+                Promote
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface SynonymEntry {
+  id?: string;
+  triggers: string[];
+  expansions: string[];
+  note?: string | null;
+}
+
+interface SynonymPreview {
+  expanded: string[];
+  expandedQuery: string;
+  matches: (SynonymEntry & { source: "town" | "universal" })[];
+}
+
+interface SynonymSuggestion {
+  trigger: string;
+  expansions: string[];
+  queryCount: number;
+  exampleQueries: string[];
+}
+
+function SynonymsPanel({ password }: { password: string }) {
+  const [entries, setEntries] = useState<SynonymEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [triggers, setTriggers] = useState("");
+  const [expansions, setExpansions] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [previewQuery, setPreviewQuery] = useState("");
+  const [preview, setPreview] = useState<SynonymPreview | null>(null);
+  const [suggestions, setSuggestions] = useState<SynonymSuggestion[] | null>(null);
+  const [suggesting, setSuggesting] = useState(false);
+
+  const load = useCallback(async () => {
+    const res = await adminFetch("/api/admin/synonyms", password);
+    if (res.ok) {
+      const data = await res.json();
+      setEntries(data.entries || []);
+    }
+    setLoading(false);
+  }, [password]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleAdd = async () => {
+    setSaving(true);
+    setError(null);
+    const res = await adminFetch("/api/admin/synonyms", password, {
+      method: "POST",
+      body: JSON.stringify({ triggers, expansions }),
+    });
+    if (res.ok) {
+      setTriggers("");
+      setExpansions("");
+      const added = triggers.toLowerCase().split(",").map((t) => t.trim());
+      setSuggestions((current) => current?.filter((s) => !added.includes(s.trigger)) ?? null);
+      await load();
+    } else {
+      const data = await res.json().catch(() => ({}));
+      setError(data.error || "Failed to save entry");
+    }
+    setSaving(false);
+  };
+
+  const handleDelete = async (id: string) => {
+    const res = await adminFetch(`/api/admin/synonyms?id=${encodeURIComponent(id)}`, password, {
+      method: "DELETE",
+    });
+    if (res.ok) {
+      setEntries((current) => current.filter((e) => e.id !== id));
+    }
+  };
+
+  const handlePreview = async () => {
+    const res = await adminFetch(`/api/admin/synonyms/preview?q=${encodeURIComponent(previewQuery)}`, password);
+    if (res.ok) {
+      setPreview(await res.json());
+    }
+  };
+
+  const handleSuggest = async () => {
+    setSuggesting(true);
+    const res = await adminFetch("/api/admin/synonyms/suggestions", password);
+    if (res.ok) {
+      const data = await res.json();
+      setSuggestions(data.suggestions || []);
+    }
+    setSuggesting(false);
+  };
+
+  const applySuggestion = (suggestion: SynonymSuggestion) => {
+    setTriggers(suggestion.trigger);
+    setExpansions(suggestion.expansions.join(", "));
+  };
+
+  return (
+    <div className="bg-white border border-border-default rounded-lg p-6 mt-4">
+      <h3 className="text-sm font-semibold text-text-primary mb-1 flex items-center gap-2">
+        <ArrowUpDown size={15} className="text-primary" />
+        Synonyms
+      </h3>
+      <p className="text-xs text-text-muted mb-4">
+        When a search contains a trigger, its expansions are added to the query. This town&apos;s entries apply before the
+        universal municipal ones. Separate terms with commas.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <input
+          type="text"
+          value={triggers}
+          onChange={(e) => setTriggers(e.target.value)}
+          placeholder="Triggers, e.g. swap shop, the dump"
+          className="flex-1 min-w-[180px] px-3 py-2 rounded-lg border border-border-default text-sm focus:outline-none focus:ring-2 focus:ring-primary/30"
+          aria-label="Triggers"
+        />
+        <input
+          type="text"
+          value={expansions}
+          onChange={(e) => setExpansions(e.target.value)}
+          placeholder="Expansions, e.g. Transfer Station, reuse area"
+          className="flex-1 min-w-[180px] px-3 py-2 rounded-lg border border-border-default text-sm focus:outline-none focus:ring-2 focus:ring-primary/30"
+          aria-label="Expansions"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={saving || !triggers.trim() || !expansions.trim()}
+          className="flex items-center gap-1.5 px-3 py-2 bg-primary text-white rounded-lg text-sm font-medium hover:bg-primary-dark transition-colors disabled:opacity-50"
+        >
+          <Plus size={14} /> Add
+        </button>
+      </div>
+      {error && (
+        <p className="inline-flex items-center gap-1 text-xs text-red-600 mb-3">
+          <XCircle size={12} />
+          {error}
+        </p>
+      )}
+
+      {loading ? (
+        <RefreshCw size={16} className="animate-spin text-primary" />
+      ) : entries.length === 0 ? (
+        <p className="text-xs text-text-muted mt-2">No town-specific synonyms yet — only the universal ones apply.</p>
+      ) : (
+        <div className="space-y-2 mt-2">
+          {entries.map((entry) => (
+            <div key={entry.id} className="flex items-center gap-3 p-3 rounded-lg border border-border-default">
+              <span className="flex-1 min-w-0 truncate text-sm text-text-primary">{entry.triggers.join(", ")}</span>
+              <span className="text-text-muted text-xs">&rarr;</span>
+              <span className="flex-1 min-w-0 truncate text-xs text-text-secondary">{entry.expansions.join(", ")}</span>
+              <button
+                onClick={() => entry.id && handleDelete(entry.id)}
+                className="p-1.5 rounded hover:bg-red-50 text-text-muted hover:text-red-600 transition-colors"
+                title="Delete entry"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-5 pt-4 border-t border-border-light">
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={previewQuery}
+            onChange={(e) => setPreviewQuery(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && previewQuery.trim() && handlePreview()}
+            placeholder="Preview a query, e.g. when is the dump open"
+            className="flex-1 px-3 py-2 rounded-lg border border-border-default text-sm focus:outline-none focus:ring-2 focus:ring-primary/30"
+            aria-label="Preview query"
+          />
+          <button
+            onClick={handlePreview}
+            disabled={!previewQuery.trim()}
+            className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-primary border border-primary/30 rounded-lg hover:bg-primary/5 transition-colors disabled:opacity-50"
+          >
+            <Eye size={14} /> Preview
+          </button>
+        </div>
+        {preview && (
+          <div className="mt-3 p-3 rounded-lg bg-surface text-xs space-y-1">
+            <div>
+              <span className="text-text-muted">Expanded query: </span>
+              <code className="text-text-primary">{preview.expandedQuery}</code>
+            </div>
+            {preview.matches.length === 0 ? (
+              <div className="text-text-muted">No synonyms matched.</div>
+            ) : (
+              preview.matches.map((match, i) => (
+                <div key={match.id ?? `universal-${i}`} className="text-text-secondary">
+                  {match.source === "town" ? "Town" : "Universal"}: {match.triggers.join(", ")} &rarr; {match.expansions.join(", ")}
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="mt-5 pt-4 border-t border-border-light">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs text-text-muted">Suggestions from zero-result and low-confidence searches (last 30 days)</span>
+          <button
+            onClick={handleSuggest}
+            disabled={suggesting}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-primary border border-primary/30 rounded-lg hover:bg-primary/5 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw size={12} className={suggesting ? "animate-spin" : ""} /> Suggest
+          </button>
+        </div>
+        {suggestions && suggestions.length === 0 && (
+          <p className="text-xs text-text-muted">No recurring terms in failing searches.</p>
+        )}
+        {suggestions && suggestions.length > 0 && (
+          <div className="space-y-2">
+            {suggestions.map((suggestion) => (
+              <div key={suggestion.trigger} className="flex items-center gap-3 p-3 rounded-lg border border-border-default">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-text-primary">
+                    {suggestion.trigger}
+                    {suggestion.expansions.length > 0 && (
+                      <span className="text-text-secondary"> &rarr; {suggestion.expansions.join(", ")}</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-text-muted truncate">
+                    {suggestion.queryCount} searches, e.g. &ldquo;{suggestion.exampleQueries[0]}&rdquo;
+                  </div>
+                </div>
+                <button
+                  onClick={() => applySuggestion(suggestion)}
+                  className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-primary border border-primary/30 rounded-lg hover:bg-primary/5 transition-colors"
+                >
+                  <Edit3 size={12} />
+                  Use
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface PromptPreview {
+  town_id: string;
+  stored_profile: Record<string, unknown> | null;
+  profile: {
+    assistantName: string;
+    vocabularyNotes: string[];
+    supportedTopics: string[];
+    escalationContacts: { name: string; phone: string }[];
+  };
+  system_prompt: string;
+  fallback_answer: string;
+}
+
+function PromptPreviewPanel({ password }: { password: string }) {
+  const [preview, setPreview] = useState<PromptPreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState("");
+  const [previewing, setPreviewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const res = await adminFetch("/api/admin/prompt-preview", password);
+    if (res.ok) {
+      const data: PromptPreview = await res.json();
+      setPreview(data);
+      setDraft(JSON.stringify(data.stored_profile ?? {}, null, 2));
+    }
+    setLoading(false);
+  }, [password]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handlePreviewDraft = async () => {
+    setError(null);
+    let promptProfile: unknown;
+    try {
+      promptProfile = JSON.parse(draft);
+    } catch {
+      setError("Draft profile is not valid JSON");
+      return;
+    }
+    setPreviewing(true);
+    const res = await adminFetch("/api/admin/prompt-preview", password, {
+      method: "POST",
+      body: JSON.stringify({ prompt_profile: promptProfile }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (res.ok) {
+      setPreview(data);
+    } else {
+      setError(data.error || "Failed to render preview");
+    }
+    setPreviewing(false);
+  };
+
+  return (
+    <div className="bg-white border border-border-default rounded-lg p-6 mt-4">
+      <h3 className="text-sm font-semibold text-text-primary mb-1 flex items-center gap-2">
+        <MessageSquare size={15} className="text-primary" />
+        Prompt Profile
+      </h3>
+      <p className="text-xs text-text-muted mb-4">
+        The assistant persona, local vocabulary, supported topics, disclaimer and escalation contacts that the chat,
+        search answer and article prompts are built from. Edit the JSON to preview a draft — nothing is saved.
+      </p>
+
+      {loading ? (
+        <RefreshCw size={16} className="animate-spin text-primary" />
+      ) : !preview ? (
+        <p className="text-xs text-text-muted">Could not load the prompt preview.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4 text-xs">
+            <div className="p-3 rounded-lg bg-surface">
+              <div className="text-text-muted">Assistant</div>
+              <div className="text-text-primary font-medium">{preview.profile.assistantName}</div>
+            </div>
+            <div className="p-3 rounded-lg bg-surface">
+              <div className="text-text-muted">Escalation</div>
+              <div className="text-text-primary font-medium">
+                {preview.profile.escalationContacts.map((c) => `${c.name} ${c.phone}`).join(", ") || "None"}
+              </div>
+            </div>
+            <div className="p-3 rounded-lg bg-surface">
+              <div className="text-text-muted">Vocabulary / topics</div>
+              <div className="text-text-primary font-medium">
+                {preview.profile.vocabularyNotes.length} notes, {preview.profile.supportedTopics.length} topics
+              </div>
+            </div>
+          </div>
+
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={8}
+            spellCheck={false}
+            className="w-full px-3 py-2 rounded-lg border border-border-default font-mono text-xs focus:outline-none focus:ring-2 focus:ring-primary/30"
+            aria-label="Draft prompt profile"
+          />
+          <div className="flex items-center gap-3 mt-2">
+            <button
+              onClick={handlePreviewDraft}
+              disabled={previewing}
+              className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-primary border border-primary/30 rounded-lg hover:bg-primary/5 transition-colors disabled:opacity-50"
+            >
+              <Eye size={14} /> Preview draft
+            </button>
+            <button
+              onClick={load}
+              className="flex items-center gap-1.5 px-3 py-2 text-sm text-text-secondary hover:text-text-primary transition-colors"
+            >
+              <RotateCcw size={14} /> Reset
+            </button>
+            {error && (
+              <span className="inline-flex items-center gap-1 text-xs text-red-600">
+                <XCircle size={12} />
+                {error}
+              </span>
+            )}
+          </div>
+
+          <div className="mt-5 pt-4 border-t border-border-light">
+            <div className="text-xs text-text-muted mb-2">Final system prompt (as sent with no context documents)</div>
+            <pre className="max-h-96 overflow-auto whitespace-pre-wrap p-3 rounded-lg bg-surface text-xs text-text-secondary">
+              {preview.system_prompt}
+            </pre>
+            <div className="text-xs text-text-muted mt-4 mb-2">No-results answer</div>
+            <pre className="whitespace-pre-wrap p-3 rounded-lg bg-surface text-xs text-text-secondary">
+              {preview.fallback_answer}
+            </pre>
+          </div>
+        </>
+      )}
     </div>
   );
 }
@@ -1179,6 +1867,242 @@ const SOURCE_CATEGORIES = [
   "community", "news", "utilities", "regional", "social_media", "business_reviews",
 ];
 
+// ---------------------------------------------------------------------------
+// Connector preview (Sources tab)
+// ---------------------------------------------------------------------------
+
+interface PreviewItem {
+  title: string;
+  url?: string;
+  published_at: string;
+  content_hash: string;
+}
+
+interface PreviewWarning {
+  code: string;
+  message: string;
+  itemIndex?: number;
+}
+
+interface ConnectorPreviewData {
+  itemsFound: number;
+  items: PreviewItem[];
+  totalItems: number;
+  warnings: PreviewWarning[];
+  durationMs: number;
+}
+
+const CONNECTOR_TYPES = ["rss", "ical", "scrape", "api", "pdf"];
+const CONNECTOR_CATEGORIES = ["news", "events", "government", "community", "dining", "safety", "transit", "weather", "sports"];
+const CONNECTOR_SCHEDULES = ["5min", "15min", "hourly", "daily", "weekly"];
+
+function ConnectorPreviewForm({ password, onClose }: { password: string; onClose: () => void }) {
+  const [connectorId, setConnectorId] = useState("");
+  const [connectorType, setConnectorType] = useState("rss");
+  const [category, setCategory] = useState("news");
+  const [schedule, setSchedule] = useState("daily");
+  const [configJson, setConfigJson] = useState('{\n  "feedUrl": ""\n}');
+  const [preview, setPreview] = useState<ConnectorPreviewData | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const buildDraft = () => {
+    let config: unknown;
+    try {
+      config = JSON.parse(configJson);
+    } catch {
+      setMessage("Error: config is not valid JSON");
+      return null;
+    }
+    return {
+      ...(connectorId.trim() && { id: connectorId.trim() }),
+      connector_type: connectorType,
+      category,
+      schedule,
+      config,
+    };
+  };
+
+  // Any edit invalidates the preview, so what gets saved is what was previewed
+  const edit = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    const draft = buildDraft();
+    if (!draft) return;
+    setPreviewing(true);
+    setMessage(null);
+    setPreview(null);
+    const res = await adminFetch("/api/admin/sources/preview", password, {
+      method: "POST",
+      body: JSON.stringify({ config: draft }),
+    });
+    const data = await res.json();
+    if (res.ok) {
+      setPreview(data);
+    } else {
+      setMessage(`Error: ${data.details ?? data.error}`);
+    }
+    setPreviewing(false);
+  };
+
+  const handleSave = async () => {
+    const draft = buildDraft();
+    if (!draft) return;
+    const res = await adminFetch("/api/admin/source-configs", password, {
+      method: "POST",
+      body: JSON.stringify({ config: draft }),
+    });
+    const data = await res.json();
+    setMessage(res.ok ? `Saved ${data.source_config.id}; it runs on the next cron` : `Error: ${data.error}`);
+  };
+
+  const warningsByItem = new Map<number, PreviewWarning[]>();
+  for (const w of preview?.warnings ?? []) {
+    if (w.itemIndex === undefined) continue;
+    warningsByItem.set(w.itemIndex, [...(warningsByItem.get(w.itemIndex) ?? []), w]);
+  }
+  const warningCounts = (preview?.warnings ?? []).reduce<Record<string, number>>((counts, w) => {
+    counts[w.code] = (counts[w.code] ?? 0) + 1;
+    return counts;
+  }, {});
+
+  const inputClass =
+    "w-full px-3 py-2 rounded-lg border border-border-default text-sm focus:outline-none focus:ring-2 focus:ring-primary/30";
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-bold text-text-primary">Add Connector</h2>
+        <button onClick={onClose} className="text-text-secondary hover:text-text-primary">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg border border-border-default p-6 space-y-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-text-primary mb-1">Connector ID</label>
+          <input
+            type="text"
+            value={connectorId}
+            onChange={(e) => edit(setConnectorId)(e.target.value)}
+            placeholder="needham:library-news"
+            className={inputClass}
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-1">Type</label>
+            <select value={connectorType} onChange={(e) => edit(setConnectorType)(e.target.value)} className={inputClass}>
+              {CONNECTOR_TYPES.map((t) => <option key={t} value={t}>{t}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-1">Category</label>
+            <select value={category} onChange={(e) => edit(setCategory)(e.target.value)} className={inputClass}>
+              {CONNECTOR_CATEGORIES.map((c) => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-1">Schedule</label>
+            <select value={schedule} onChange={(e) => edit(setSchedule)(e.target.value)} className={inputClass}>
+              {CONNECTOR_SCHEDULES.map((f) => <option key={f} value={f}>{f}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-text-primary mb-1">Config (JSON)</label>
+          <textarea
+            value={configJson}
+            onChange={(e) => edit(setConfigJson)(e.target.value)}
+            rows={6}
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+
+        {message && (
+          <p className={`text-sm ${message.startsWith("Error") ? "text-red-600" : "text-green-600"}`}>{message}</p>
+        )}
+
+        <div className="flex gap-3 pt-4 border-t border-border-light">
+          <button
+            onClick={handlePreview}
+            disabled={previewing}
+            className="flex items-center gap-1.5 px-4 py-2 bg-white border border-border-default rounded-lg text-sm font-medium text-text-secondary hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            {previewing ? <RefreshCw size={14} className="animate-spin" /> : <Eye size={14} />}
+            Preview
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!preview || !connectorId.trim()}
+            title={preview ? "" : "Preview the connector before saving"}
+            className="px-4 py-2 bg-primary text-white rounded-lg text-sm font-medium hover:bg-primary-dark transition-colors disabled:opacity-50"
+          >
+            Save Connector
+          </button>
+        </div>
+      </div>
+
+      {preview && (
+        <div className="bg-white rounded-lg border border-border-default p-5">
+          <h3 className="text-sm font-semibold text-text-primary mb-2">
+            Preview: {preview.totalItems} items from {preview.itemsFound} fetched ({formatDuration(preview.durationMs)})
+          </h3>
+          {Object.keys(warningCounts).length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-3">
+              {Object.entries(warningCounts).map(([code, count]) => (
+                <span key={code} className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-yellow-50 text-yellow-800 border border-yellow-200">
+                  <AlertTriangle size={12} />
+                  {code.replaceAll("_", " ")}: {count}
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border-default">
+                  <th className="py-2 pr-4 text-left font-medium text-text-secondary">Title</th>
+                  <th className="py-2 px-3 text-left font-medium text-text-secondary">Published</th>
+                  <th className="py-2 pl-3 text-left font-medium text-text-secondary">Warnings</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border-light">
+                {preview.items.map((item, i) => (
+                  <tr key={`${item.content_hash}-${i}`} className="align-top">
+                    <td className="py-2 pr-4">
+                      <div className="font-medium text-text-primary text-xs">{item.title || "(untitled)"}</div>
+                      {item.url && (
+                        <a href={item.url} target="_blank" rel="noopener noreferrer" className="text-[11px] text-primary hover:underline break-all">
+                          {item.url}
+                        </a>
+                      )}
+                    </td>
+                    <td className="py-2 px-3 text-text-secondary text-xs whitespace-nowrap">{formatDate(item.published_at)}</td>
+                    <td className="py-2 pl-3 text-xs text-yellow-800">
+                      {(warningsByItem.get(i) ?? []).map((w) => (
+                        <div key={w.code}>{w.message}</div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {preview.totalItems > preview.items.length && (
+            <p className="mt-2 text-xs text-text-muted">Showing the first {preview.items.length} items.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Sources Tab
 // ---------------------------------------------------------------------------
@@ -1194,6 +2118,7 @@ function SourcesTab({ password }: { password: string }) {
   const [testingUrl, setTestingUrl] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [showImport, setShowImport] = useState(false);
+  const [showConnectorForm, setShowConnectorForm] = useState(false);
   const [csvText, setCsvText] = useState("");
   const [importResult, setImportResult] = useState<string | null>(null);
 
@@ -1535,6 +2460,10 @@ function SourcesTab({ password }: { password: string }) {
     );
   }
 
+  if (showConnectorForm) {
+    return <ConnectorPreviewForm password={password} onClose={() => setShowConnectorForm(false)} />;
+  }
+
   // Render import form
   if (showImport) {
     return (
@@ -1620,6 +2549,13 @@ function SourcesTab({ password }: { password: string }) {
           <Plus size={14} /> Add Source
         </button>
 
+        <button
+          onClick={() => setShowConnectorForm(true)}
+          className="flex items-center gap-1.5 px-3 py-2 bg-white border border-border-default rounded-lg text-sm font-medium text-text-secondary hover:bg-gray-50 transition-colors"
+        >
+          <Zap size={14} /> Add Connector
+        </button>
+
         <button
           onClick={() => setShowImport(true)}
           className="flex items-center gap-1.5 px-3 py-2 bg-white border border-border-default rounded-lg text-sm font-medium text-text-secondary hover:bg-gray-50 transition-colors"
@@ -1766,6 +2702,359 @@ function SourcesTab({ password }: { password: string }) {
           </div>
         )}
       </div>
+
+      <TierRulesPanel password={password} />
+    </div>
+  );
+}
+
+interface TierRule {
+  id: string;
+  rule_type: string;
+  pattern: string;
+  tier: string;
+  note: string | null;
+}
+
+const TIER_RULE_LABELS: Record<string, string> = {
+  domain: "Domain",
+  url_pattern: "URL pattern",
+  archive_pattern: "Archive pattern",
+  query_pattern: "Query pattern",
+};
+
+function TierRulesPanel({ password }: { password: string }) {
+  const [rules, setRules] = useState<TierRule[]>([]);
+  const [ruleTypes, setRuleTypes] = useState<string[]>([]);
+  const [tiers, setTiers] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [ruleType, setRuleType] = useState("domain");
+  const [pattern, setPattern] = useState("");
+  const [tier, setTier] = useState("primary");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const res = await adminFetch("/api/admin/tier-rules", password);
+    if (res.ok) {
+      const data = await res.json();
+      setRules(data.rules || []);
+      setRuleTypes(data.rule_types || []);
+      setTiers(data.tiers || []);
+    }
+    setLoading(false);
+  }, [password]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleAdd = async () => {
+    setSaving(true);
+    setError(null);
+    const res = await adminFetch("/api/admin/tier-rules", password, {
+      method: "POST",
+      body: JSON.stringify({ rule_type: ruleType, pattern, tier }),
+    });
+    if (res.ok) {
+      setPattern("");
+      await load();
+    } else {
+      const data = await res.json().catch(() => ({}));
+      setError(data.error || "Failed to save rule");
+    }
+    setSaving(false);
+  };
+
+  const handleDelete = async (id: string) => {
+    const res = await adminFetch(`/api/admin/tier-rules?id=${encodeURIComponent(id)}`, password, {
+      method: "DELETE",
+    });
+    if (res.ok) {
+      setRules((current) => current.filter((r) => r.id !== id));
+    }
+  };
+
+  return (
+    <div className="bg-white border border-border-default rounded-lg p-6 mt-4">
+      <h3 className="text-sm font-semibold text-text-primary mb-1 flex items-center gap-2">
+        <Layers size={15} className="text-primary" />
+        Relevance Tier Rules
+      </h3>
+      <p className="text-xs text-text-muted mb-4">
+        How this town&apos;s documents are tiered at ingest. Domains include their subdomains; patterns are case-insensitive regular expressions.
+        Query patterns add their tier to the search scope. Re-run the classify script to apply changes to existing documents.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <select
+          value={ruleType}
+          onChange={(e) => setRuleType(e.target.value)}
+          className="px-3 py-2 rounded-lg border border-border-default text-sm"
+          aria-label="Rule type"
+        >
+          {ruleTypes.map((t) => (
+            <option key={t} value={t}>{TIER_RULE_LABELS[t] ?? t}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={pattern}
+          onChange={(e) => setPattern(e.target.value)}
+          placeholder={ruleType === "domain" ? "example.gov" : String.raw`/agendacenter/|\bminutes\b`}
+          className="flex-1 min-w-[200px] px-3 py-2 rounded-lg border border-border-default text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary/30"
+          aria-label="Pattern"
+        />
+        <select
+          value={ruleType === "archive_pattern" ? "archive" : tier}
+          onChange={(e) => setTier(e.target.value)}
+          disabled={ruleType === "archive_pattern"}
+          className="px-3 py-2 rounded-lg border border-border-default text-sm disabled:opacity-50"
+          aria-label="Tier"
+        >
+          {tiers.map((t) => (
+            <option key={t} value={t}>{t}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleAdd}
+          disabled={saving || !pattern.trim()}
+          className="flex items-center gap-1.5 px-3 py-2 bg-primary text-white rounded-lg text-sm font-medium hover:bg-primary-dark transition-colors disabled:opacity-50"
+        >
+          <Plus size={14} /> Add Rule
+        </button>
+      </div>
+      {error && (
+        <p className="inline-flex items-center gap-1 text-xs text-red-600 mb-3">
+          <XCircle size={12} />
+          {error}
+        </p>
+      )}
+
+      {loading ? (
+        <RefreshCw size={16} className="animate-spin text-primary" />
+      ) : rules.length === 0 ? (
+        <p className="text-xs text-text-muted">No rules yet — only the shared defaults and the town&apos;s own domains apply.</p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center gap-3 p-3 rounded-lg border border-border-default">
+              <span className="w-28 shrink-0 text-xs text-text-muted">{TIER_RULE_LABELS[rule.rule_type] ?? rule.rule_type}</span>
+              <code className="flex-1 min-w-0 truncate text-xs text-text-primary">{rule.pattern}</code>
+              <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700">
+                {rule.tier}
+              </span>
+              <button
+                onClick={() => handleDelete(rule.id)}
+                className="p-1.5 rounded hover:bg-red-50 text-text-muted hover:text-red-600 transition-colors"
+                title="Delete rule"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Towns Tab
+// ---------------------------------------------------------------------------
+
+interface AdminTown {
+  town_id: string;
+  name: string;
+  website_url: string;
+  cron_enabled: boolean;
+  onboarded: boolean;
+}
+
+interface OnboardedSource {
+  id: string;
+  connector_type: string;
+  category: string;
+  config: Record<string, unknown>;
+}
+
+interface OnboardingResponse {
+  town: { town_id: string; name: string };
+  sources: OnboardedSource[];
+  discovery: { sitemapUrls: string[]; errors: string[] };
+}
+
+const EMPTY_TOWN_FORM = {
+  town_id: "",
+  name: "",
+  website_url: "",
+  state: "",
+  state_abbrev: "",
+  lat: "",
+  lng: "",
+  primary: "#1F4E79",
+  accent: "#D4AF37",
+  neighbors: "",
+  hostnames: "",
+  transit_route: "",
+};
+
+function TownsTab({ password }: { password: string }) {
+  const [towns, setTowns] = useState<AdminTown[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState(EMPTY_TOWN_FORM);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<OnboardingResponse | null>(null);
+
+  const load = useCallback(async () => {
+    const res = await adminFetch("/api/admin/towns", password);
+    if (res.ok) {
+      const data = await res.json();
+      setTowns(data.towns || []);
+    }
+    setLoading(false);
+  }, [password]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const setField = (field: keyof typeof EMPTY_TOWN_FORM) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm((current) => ({ ...current, [field]: e.target.value }));
+
+  const handleCreate = async () => {
+    setSaving(true);
+    setError(null);
+    setResult(null);
+    const res = await adminFetch("/api/admin/towns", password, {
+      method: "POST",
+      body: JSON.stringify({
+        town_id: form.town_id,
+        name: form.name,
+        website_url: form.website_url,
+        location: { lat: Number.parseFloat(form.lat), lng: Number.parseFloat(form.lng) },
+        brand_colors: { primary: form.primary, accent: form.accent },
+        geography: {
+          state: form.state,
+          state_abbrev: form.state_abbrev,
+          neighbors: form.neighbors.split(",").map((n) => n.trim()).filter(Boolean),
+        },
+        hostnames: form.hostnames.split(",").map((h) => h.trim()).filter(Boolean),
+        transit_route: form.transit_route || undefined,
+      }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (res.ok) {
+      setResult(data as OnboardingResponse);
+      setForm(EMPTY_TOWN_FORM);
+      await load();
+    } else {
+      setError(data.error || "Failed to create town");
+    }
+    setSaving(false);
+  };
+
+  const inputClass =
+    "px-3 py-2 rounded-lg border border-border-default text-sm focus:outline-none focus:ring-2 focus:ring-primary/30";
+  const canSubmit = form.town_id.trim() && form.name.trim() && form.website_url.trim() && form.lat && form.lng;
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white border border-border-default rounded-lg p-6">
+        <h3 className="text-sm font-semibold text-text-primary mb-4 flex items-center gap-2">
+          <MapPin size={15} className="text-primary" />
+          Towns
+        </h3>
+        {loading ? (
+          <RefreshCw size={16} className="animate-spin text-primary" />
+        ) : (
+          <div className="space-y-2">
+            {towns.map((town) => (
+              <div key={town.town_id} className="flex items-center gap-3 p-3 rounded-lg border border-border-default">
+                <code className="w-32 shrink-0 text-xs text-text-muted">{town.town_id}</code>
+                <span className="flex-1 min-w-0 truncate text-sm text-text-primary">{town.name}</span>
+                <a href={town.website_url} target="_blank" rel="noopener noreferrer" className="text-text-muted hover:text-primary">
+                  <ExternalLink size={14} />
+                </a>
+                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700">
+                  {town.onboarded ? "database" : "config file"}
+                </span>
+                {!town.cron_enabled && <span className="text-xs text-text-muted">cron off</span>}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white border border-border-default rounded-lg p-6">
+        <h3 className="text-sm font-semibold text-text-primary mb-1 flex items-center gap-2">
+          <Plus size={15} className="text-primary" />
+          Add a Town
+        </h3>
+        <p className="text-xs text-text-muted mb-4">
+          Creates the town with new-town defaults, seeds connectors from its website&apos;s sitemap, RSS/Atom and iCal feeds,
+          and starts a first crawl. Departments, feature flags and the about page can be refined afterwards.
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+          <input value={form.town_id} onChange={setField("town_id")} placeholder="Town ID (e.g. wellesley)" className={inputClass} aria-label="Town ID" />
+          <input value={form.name} onChange={setField("name")} placeholder="Name (e.g. Wellesley, MA)" className={inputClass} aria-label="Name" />
+          <input value={form.website_url} onChange={setField("website_url")} placeholder="https://www.wellesleyma.gov" className={`${inputClass} sm:col-span-2`} aria-label="Website URL" />
+          <input value={form.state} onChange={setField("state")} placeholder="State (e.g. Massachusetts)" className={inputClass} aria-label="State" />
+          <input value={form.state_abbrev} onChange={setField("state_abbrev")} placeholder="State code (e.g. MA)" maxLength={2} className={inputClass} aria-label="State code" />
+          <input value={form.lat} onChange={setField("lat")} placeholder="Latitude" inputMode="decimal" className={inputClass} aria-label="Latitude" />
+          <input value={form.lng} onChange={setField("lng")} placeholder="Longitude" inputMode="decimal" className={inputClass} aria-label="Longitude" />
+          <input value={form.neighbors} onChange={setField("neighbors")} placeholder="Neighboring towns, comma-separated" className={`${inputClass} sm:col-span-2`} aria-label="Neighboring towns" />
+          <input value={form.hostnames} onChange={setField("hostnames")} placeholder="Own domains, comma-separated (optional, e.g. wellesleynavigator.com)" className={`${inputClass} sm:col-span-2`} aria-label="Hostnames" />
+          <input value={form.transit_route} onChange={setField("transit_route")} placeholder="MBTA route ID (optional)" className={inputClass} aria-label="Transit route" />
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-1.5 text-xs text-text-secondary">
+              Primary
+              <input type="color" value={form.primary} onChange={setField("primary")} aria-label="Primary color" />
+            </label>
+            <label className="flex items-center gap-1.5 text-xs text-text-secondary">
+              Accent
+              <input type="color" value={form.accent} onChange={setField("accent")} aria-label="Accent color" />
+            </label>
+          </div>
+        </div>
+
+        <button
+          onClick={handleCreate}
+          disabled={saving || !canSubmit}
+          className="flex items-center gap-1.5 px-3 py-2 bg-primary text-white rounded-lg text-sm font-medium hover:bg-primary-dark transition-colors disabled:opacity-50"
+        >
+          {saving ? <RefreshCw size={14} className="animate-spin" /> : <Plus size={14} />}
+          {saving ? "Discovering sources..." : "Create Town"}
+        </button>
+        {error && (
+          <p className="inline-flex items-center gap-1 text-xs text-red-600 mt-3">
+            <XCircle size={12} />
+            {error}
+          </p>
+        )}
+
+        {result && (
+          <div className="mt-4 p-4 rounded-lg bg-green-50 border border-green-200">
+            <p className="text-sm text-green-800 flex items-center gap-1.5 mb-2">
+              <CheckCircle2 size={14} />
+              {result.town.name} created with {result.sources.length} connector{result.sources.length === 1 ? "" : "s"}; first crawl started.
+            </p>
+            <ul className="space-y-1">
+              {result.sources.map((source) => (
+                <li key={source.id} className="text-xs text-green-900">
+                  <code>{source.id}</code> &middot; {source.connector_type} &middot;{" "}
+                  {String(source.config.feedUrl ?? source.config.sitemapUrl ?? source.config.url ?? "")}
+                </li>
+              ))}
+            </ul>
+            {result.discovery.errors.length > 0 && (
+              <p className="text-xs text-yellow-700 mt-2">Discovery issues: {result.discovery.errors.join("; ")}</p>
+            )}
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -1781,9 +3070,13 @@ interface PipelineConnector {
   enabled: boolean;
   schedule: string;
   last_fetched_at: string | null;
+  last_success_at: string | null;
   error_count: number;
+  consecutive_failures: number;
   last_error: string | null;
-  health: "healthy" | "warning" | "error" | "disabled" | "never_run";
+  disabled_reason: string | null;
+  next_run_at: string | null;
+  health: "healthy" | "backing_off" | "auto_disabled" | "disabled" | "never_run";
 }
 
 interface PipelineData {
@@ -1795,14 +3088,14 @@ interface PipelineData {
 
 const HEALTH_CONFIG: Record<string, { label: string; className: string; icon: typeof CheckCircle2 }> = {
   healthy: { label: "Healthy", className: "bg-green-50 text-green-700 border-green-200", icon: CheckCircle2 },
-  warning: { label: "Warning", className: "bg-yellow-50 text-yellow-700 border-yellow-200", icon: AlertTriangle },
-  error: { label: "Error", className: "bg-red-50 text-red-700 border-red-200", icon: XCircle },
+  backing_off: { label: "Backing Off", className: "bg-yellow-50 text-yellow-700 border-yellow-200", icon: AlertTriangle },
+  auto_disabled: { label: "Auto-Disabled", className: "bg-red-50 text-red-700 border-red-200", icon: XCircle },
   disabled: { label: "Disabled", className: "bg-gray-50 text-gray-500 border-gray-200", icon: XCircle },
   never_run: { label: "Never Run", className: "bg-blue-50 text-blue-600 border-blue-200", icon: Clock },
 };
 
 function healthBadge(health: string) {
-  const c = HEALTH_CONFIG[health] ?? HEALTH_CONFIG.error;
+  const c = HEALTH_CONFIG[health] ?? HEALTH_CONFIG.auto_disabled;
   const Icon = c.icon;
   return (
     <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border ${c.className}`}>
@@ -1830,6 +3123,7 @@ function PipelineTab({ password }: { password: string }) {
   const [error, setError] = useState(false);
   const [triggeringCron, setTriggeringCron] = useState(false);
   const [cronResult, setCronResult] = useState<string | null>(null);
+  const [reenabling, setReenabling] = useState<string | null>(null);
 
   const fetchData = useCallback(async () => {
     setLoading(true);
@@ -1871,6 +3165,16 @@ function PipelineTab({ password }: { password: string }) {
     setTriggeringCron(false);
   };
 
+  const handleReenable = async (connectorId: string) => {
+    setReenabling(connectorId);
+    const res = await adminFetch("/api/admin/pipeline-status", password, {
+      method: "POST",
+      body: JSON.stringify({ connectorId }),
+    });
+    setReenabling(null);
+    if (res.ok) fetchData();
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-20">
@@ -1885,11 +3189,11 @@ function PipelineTab({ password }: { password: string }) {
 
   const enabledConnectors = data.connectors.filter((c) => c.enabled);
   const healthyCount = enabledConnectors.filter((c) => c.health === "healthy").length;
-  const warningCount = enabledConnectors.filter((c) => c.health === "warning").length;
-  const errorCount = enabledConnectors.filter((c) => c.health === "error").length;
+  const backingOffCount = data.connectors.filter((c) => c.health === "backing_off").length;
+  const autoDisabledCount = data.connectors.filter((c) => c.health === "auto_disabled").length;
 
   const overallHealth: string =
-    errorCount > 0 ? "error" : warningCount > 0 ? "warning" : enabledConnectors.length === 0 ? "never_run" : "healthy";
+    autoDisabledCount > 0 ? "error" : backingOffCount > 0 ? "warning" : enabledConnectors.length === 0 ? "never_run" : "healthy";
 
   return (
     <div>
@@ -2009,16 +3313,16 @@ function PipelineTab({ password }: { password: string }) {
           Connector Health ({data.connectors.length} total, {enabledConnectors.length} enabled)
         </h3>
 
-        {warningCount > 0 && (
+        {backingOffCount > 0 && (
           <div className="flex items-center gap-2 mb-3 px-3 py-2 bg-yellow-50 border border-yellow-200 rounded-lg text-xs text-yellow-800">
             <AlertTriangle size={14} />
-            {warningCount} connector{warningCount > 1 ? "s" : ""} with warnings
+            {backingOffCount} connector{backingOffCount > 1 ? "s" : ""} failing and backing off
           </div>
         )}
-        {errorCount > 0 && (
+        {autoDisabledCount > 0 && (
           <div className="flex items-center gap-2 mb-3 px-3 py-2 bg-red-50 border border-red-200 rounded-lg text-xs text-red-800">
             <XCircle size={14} />
-            {errorCount} connector{errorCount > 1 ? "s" : ""} in error state
+            {autoDisabledCount} connector{autoDisabledCount > 1 ? "s" : ""} disabled after repeated failures
           </div>
         )}
 
@@ -2030,7 +3334,8 @@ function PipelineTab({ password }: { password: string }) {
                 <th className="py-2 px-3 text-left font-medium text-text-secondary">Category</th>
                 <th className="py-2 px-3 text-left font-medium text-text-secondary">Schedule</th>
                 <th className="py-2 px-3 text-left font-medium text-text-secondary">Last Fetched</th>
-                <th className="py-2 px-3 text-center font-medium text-text-secondary">Errors</th>
+                <th className="py-2 px-3 text-left font-medium text-text-secondary">Last Success</th>
+                <th className="py-2 px-3 text-center font-medium text-text-secondary">Failures</th>
                 <th className="py-2 pl-3 text-right font-medium text-text-secondary">Health</th>
               </tr>
             </thead>
@@ -2048,16 +3353,37 @@ function PipelineTab({ password }: { password: string }) {
                   </td>
                   <td className="py-2.5 px-3 text-text-secondary text-xs">{c.schedule}</td>
                   <td className="py-2.5 px-3 text-text-secondary text-xs">{relativeTime(c.last_fetched_at)}</td>
+                  <td className="py-2.5 px-3 text-text-secondary text-xs">{relativeTime(c.last_success_at)}</td>
                   <td className="py-2.5 px-3 text-center">
-                    {c.error_count > 0 ? (
-                      <span className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-red-50 text-red-700" title={c.last_error ?? ""}>
-                        {c.error_count}
+                    {c.consecutive_failures > 0 ? (
+                      <span
+                        className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-red-50 text-red-700"
+                        title={`${c.last_error ?? ""}\n${c.error_count} failures in total`}
+                      >
+                        {c.consecutive_failures}
                       </span>
                     ) : (
                       <span className="text-xs text-text-muted">0</span>
                     )}
                   </td>
-                  <td className="py-2.5 pl-3 text-right">{healthBadge(c.health)}</td>
+                  <td className="py-2.5 pl-3 text-right">
+                    <div className="flex items-center justify-end gap-2">
+                      {c.health === "auto_disabled" && (
+                        <button
+                          onClick={() => handleReenable(c.id)}
+                          disabled={reenabling === c.id}
+                          className="text-xs text-primary hover:underline disabled:opacity-50"
+                          title={c.disabled_reason ?? ""}
+                        >
+                          Re-enable
+                        </button>
+                      )}
+                      {healthBadge(c.health)}
+                    </div>
+                    {c.health === "backing_off" && c.next_run_at && (
+                      <div className="text-[11px] text-text-muted mt-0.5">Retry {formatDate(c.next_run_at)}</div>
+                    )}
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -2097,6 +3423,7 @@ export default function AdminPage() {
     { id: "logs", label: "Ingestion Logs", icon: Activity },
     { id: "settings", label: "Settings", icon: Settings },
     { id: "sources", label: "Sources", icon: Globe },
+    { id: "towns", label: "Towns", icon: MapPin },
     { id: "pipeline", label: "Pipeline", icon: Zap },
   ];
 
@@ -2152,6 +3479,7 @@ export default function AdminPage() {
         {activeTab === "logs" && <LogsTab password={password} />}
         {activeTab === "settings" && <SettingsTab password={password} />}
         {activeTab === "sources" && <SourcesTab password={password} />}
+        {activeTab === "towns" && <TownsTab password={password} />}
         {activeTab === "pipeline" && <PipelineTab password={password} />}
       </main>
     </div>
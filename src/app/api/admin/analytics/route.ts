@@ -1,6 +1,7 @@
 import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
-import { DEFAULT_TOWN_ID } from "@/lib/rag";
+import { getRequestTownId } from "@/lib/town-host";
 import { getSupabaseServiceClient } from "@/lib/supabase";
+import { getTenantDb } from "@/lib/tenant-db";
 
 type ConversationRow = { id: string; session_id: string };
 type FeedbackRow = { helpful: boolean | null; comment: string | null };
@@ -68,13 +69,14 @@ export async function GET(request: Request): Promise<Response> {
   if (!isAdminAuthorized(request)) return unauthorizedAdminResponse();
 
   const { searchParams } = new URL(request.url);
-  const townId = searchParams.get("town")?.trim() || DEFAULT_TOWN_ID;
+  const townId = getRequestTownId(request, searchParams.get("town"));
   const supabase = getSupabaseServiceClient();
+  const db = getTenantDb(townId);
 
   try {
     const [documentsCountResult, chunksCountResult, conversations] = await Promise.all([
-      supabase.from("documents").select("id", { head: true, count: "exact" }).eq("town_id", townId),
-      supabase.from("document_chunks").select("id", { head: true, count: "exact" }).eq("town_id", townId),
+      db.select("documents", "id", { head: true, count: "exact" }),
+      db.select("document_chunks", "id", { head: true, count: "exact" }),
       fetchAllConversations(townId),
     ]);
 
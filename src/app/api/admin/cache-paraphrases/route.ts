@@ -0,0 +1,61 @@
+import { NextRequest } from "next/server";
+import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
+import { listCacheParaphrases, promoteCacheParaphrase } from "@/lib/answer-cache";
+import { getRequestTownId } from "@/lib/town-host";
+
+/**
+ * GET — paraphrases the semantic answer cache matched or nearly matched,
+ * most frequent first.
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  if (!isAdminAuthorized(request)) {
+    return unauthorizedAdminResponse();
+  }
+
+  const townId =
+    getRequestTownId(request, request.nextUrl.searchParams.get("town"));
+
+  try {
+    const paraphrases = await listCacheParaphrases(townId);
+    return Response.json({ paraphrases });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unexpected error";
+    console.error("[api/admin/cache-paraphrases] GET error:", message);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST { id, town? } — promote a paraphrase to a canonical cache key.
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  if (!isAdminAuthorized(request)) {
+    return unauthorizedAdminResponse();
+  }
+
+  let body: { id?: unknown; town?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  if (typeof body.id !== "string" || !body.id.trim()) {
+    return Response.json({ error: "id is required" }, { status: 400 });
+  }
+
+  const townId =
+    getRequestTownId(request, typeof body.town === "string" ? body.town : null);
+
+  try {
+    const promoted = await promoteCacheParaphrase(townId, body.id.trim());
+    if (!promoted) {
+      return Response.json({ error: "Paraphrase or its cached answer no longer exists" }, { status: 404 });
+    }
+    return Response.json({ promoted: true });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unexpected error";
+    console.error("[api/admin/cache-paraphrases] POST error:", message);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
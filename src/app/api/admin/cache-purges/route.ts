@@ -0,0 +1,32 @@
+import { NextRequest } from "next/server";
+import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
+import { listCachePurges } from "@/lib/answer-cache";
+import { getRequestTownId } from "@/lib/town-host";
+
+const MAX_LIMIT = 500;
+
+/**
+ * GET ?town=&limit= — cached answers purged because a cited source changed,
+ * newest first, with the matched URL and what triggered the purge.
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  if (!isAdminAuthorized(request)) {
+    return unauthorizedAdminResponse();
+  }
+
+  const params = request.nextUrl.searchParams;
+  const townId = getRequestTownId(request, params.get("town"));
+  const requestedLimit = Number.parseInt(params.get("limit") ?? "", 10);
+  const limit = Number.isFinite(requestedLimit) && requestedLimit > 0
+    ? Math.min(requestedLimit, MAX_LIMIT)
+    : 100;
+
+  try {
+    const purges = await listCachePurges(townId, limit);
+    return Response.json({ purges });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unexpected error";
+    console.error("[api/admin/cache-purges] GET error:", message);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,11 +1,12 @@
 import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
 import { getCostSummary } from "@/lib/cost-tracker";
+import { getRequestTownId } from "@/lib/town-host";
 
 export async function GET(request: Request): Promise<Response> {
   if (!isAdminAuthorized(request)) return unauthorizedAdminResponse();
 
   const { searchParams } = new URL(request.url);
-  const townId = searchParams.get("town")?.trim() || "needham";
+  const townId = getRequestTownId(request, searchParams.get("town"));
 
   try {
     const summary = await getCostSummary(townId);
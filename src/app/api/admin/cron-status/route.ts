@@ -5,15 +5,17 @@
  * - Whether CRON_SECRET is configured
  * - Number of source_configs in the database
  * - Recent ingestion_log entries
- * - Recent article generation activity
+ * - Recent article generation activity (for the request's town)
  */
 
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { getSupabaseClient } from "@/lib/supabase";
+import { getTenantDb } from "@/lib/tenant-db";
+import { getRequestTownId } from "@/lib/town-host";
 
 export const dynamic = "force-dynamic";
 
-export async function GET(): Promise<Response> {
+export async function GET(request: NextRequest): Promise<Response> {
   const diagnostics: Record<string, unknown> = {
     timestamp: new Date().toISOString(),
   };
@@ -71,9 +73,9 @@ export async function GET(): Promise<Response> {
     }
 
     // 4. Recent articles (last 5)
-    const { data: articles, error: artError } = await supabase
-      .from("articles")
-      .select("id, title, content_type, published_at, is_daily_brief")
+    const townId = getRequestTownId(request, request.nextUrl.searchParams.get("town"));
+    const { data: articles, error: artError } = await getTenantDb(townId, { rls: true })
+      .select("articles", "id, title, content_type, published_at, is_daily_brief")
       .order("published_at", { ascending: false })
       .limit(5);
 
@@ -1,6 +1,6 @@
 import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
-import { DEFAULT_TOWN_ID } from "@/lib/rag";
-import { getSupabaseServiceClient } from "@/lib/supabase";
+import { getRequestTownId } from "@/lib/town-host";
+import { getTenantDb } from "@/lib/tenant-db";
 
 type DocumentRow = {
   id: string;
@@ -45,16 +45,14 @@ export async function GET(request: Request): Promise<Response> {
   }
 
   const { searchParams } = new URL(request.url);
-  const townId = searchParams.get("town")?.trim() || DEFAULT_TOWN_ID;
+  const townId = getRequestTownId(request, searchParams.get("town"));
 
   try {
-    const supabase = getSupabaseServiceClient();
-    const { data, error } = await supabase
-      .from("documents")
+    const { data, error } = await getTenantDb(townId)
       .select(
+        "documents",
         "id, town_id, url, title, source_type, is_stale, chunk_count, last_ingested_at, last_verified_at, metadata"
       )
-      .eq("town_id", townId)
       .order("last_ingested_at", { ascending: false });
 
     if (error) {
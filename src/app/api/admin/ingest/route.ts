@@ -1,5 +1,5 @@
 import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
-import { DEFAULT_TOWN_ID } from "@/lib/rag";
+import { getRequestTownId } from "@/lib/town-host";
 import { getSupabaseServiceClient } from "@/lib/supabase";
 
 type IngestRequestBody = {
@@ -36,7 +36,7 @@ export async function POST(request: Request): Promise<Response> {
   const sourceUrl =
     typeof body.source_url === "string" ? body.source_url.trim() : "";
   const townId =
-    (typeof body.town_id === "string" && body.town_id.trim()) || DEFAULT_TOWN_ID;
+    getRequestTownId(request, typeof body.town_id === "string" ? body.town_id : null);
 
   if (sourceUrl && !isValidUrl(sourceUrl)) {
     return Response.json(
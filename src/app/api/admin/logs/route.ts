@@ -1,12 +1,12 @@
 import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
-import { DEFAULT_TOWN_ID } from "@/lib/rag";
+import { getRequestTownId } from "@/lib/town-host";
 import { getSupabaseServiceClient } from "@/lib/supabase";
 
 export async function GET(request: Request): Promise<Response> {
   if (!isAdminAuthorized(request)) return unauthorizedAdminResponse();
 
   const { searchParams } = new URL(request.url);
-  const townId = searchParams.get("town")?.trim() || DEFAULT_TOWN_ID;
+  const townId = getRequestTownId(request, searchParams.get("town"));
   const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "50", 10) || 50, 1), 200);
 
   try {
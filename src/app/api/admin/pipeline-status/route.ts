@@ -1,10 +1,16 @@
 import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
+import {
+  classifyConnectorHealth,
+  healthStateFromRow,
+  nextRunAt,
+  type ConnectorHealth,
+} from "@/lib/connectors/health";
 import { getSupabaseServiceClient } from "@/lib/supabase";
+import { getTenantDb } from "@/lib/tenant-db";
+import { getRequestTownId } from "@/lib/town-host";
 
 export const dynamic = "force-dynamic";
 
-type ConnectorHealth = "healthy" | "warning" | "error" | "disabled" | "never_run";
-
 interface ConnectorStatus {
   id: string;
   connector_type: string;
@@ -12,38 +18,22 @@ interface ConnectorStatus {
   enabled: boolean;
   schedule: string;
   last_fetched_at: string | null;
+  last_success_at: string | null;
   error_count: number;
+  consecutive_failures: number;
   last_error: string | null;
+  disabled_reason: string | null;
+  /** Next attempt, including failure backoff; null when disabled */
+  next_run_at: string | null;
   health: ConnectorHealth;
 }
 
-function classifyHealth(
-  enabled: boolean,
-  lastFetched: string | null,
-  errorCount: number,
-  schedule: string,
-): ConnectorHealth {
-  if (!enabled) return "disabled";
-  if (!lastFetched) return "never_run";
-
-  const ageMs = Date.now() - new Date(lastFetched).getTime();
-  const scheduleMs: Record<string, number> = {
-    hourly: 60 * 60 * 1000,
-    daily: 24 * 60 * 60 * 1000,
-    weekly: 7 * 24 * 60 * 60 * 1000,
-  };
-  const expectedInterval = scheduleMs[schedule] ?? scheduleMs.daily;
-
-  if (errorCount >= 4 || ageMs > expectedInterval * 3) return "error";
-  if (errorCount >= 1 || ageMs > expectedInterval * 2) return "warning";
-  return "healthy";
-}
-
 export async function GET(request: Request): Promise<Response> {
   if (!isAdminAuthorized(request)) return unauthorizedAdminResponse();
 
   try {
     const supabase = getSupabaseServiceClient();
+    const db = getTenantDb(getRequestTownId(request, new URL(request.url).searchParams.get("town")));
 
     // Parallel queries for all pipeline data
     const [
@@ -59,7 +49,7 @@ export async function GET(request: Request): Promise<Response> {
       // 1. Connector statuses
       supabase
         .from("source_configs")
-        .select("id, connector_type, category, enabled, schedule, last_fetched_at, error_count, last_error")
+        .select("id, connector_type, category, enabled, schedule, last_fetched_at, last_success_at, error_count, consecutive_failures, last_error, disabled_reason")
         .order("category")
         .order("id"),
 
@@ -72,55 +62,56 @@ export async function GET(request: Request): Promise<Response> {
         .limit(1),
 
       // 3. Articles generated today
-      supabase
-        .from("articles")
-        .select("id", { head: true, count: "exact" })
+      db
+        .select("articles", "id", { head: true, count: "exact" })
         .gte("published_at", new Date(new Date().setHours(0, 0, 0, 0)).toISOString()),
 
       // 4. Articles generated this week
-      supabase
-        .from("articles")
-        .select("id", { head: true, count: "exact" })
+      db
+        .select("articles", "id", { head: true, count: "exact" })
         .gte("published_at", new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString()),
 
       // 5. Last daily brief
-      supabase
-        .from("articles")
-        .select("published_at")
+      db
+        .select("articles", "published_at")
         .eq("is_daily_brief", true)
         .order("published_at", { ascending: false })
         .limit(1),
 
       // 6. Total content items
-      supabase
-        .from("content_items")
-        .select("id", { head: true, count: "exact" }),
+      db
+        .select("content_items", "id", { head: true, count: "exact" }),
 
       // 7. Content items last 24h
-      supabase
-        .from("content_items")
-        .select("id", { head: true, count: "exact" })
+      db
+        .select("content_items", "id", { head: true, count: "exact" })
         .gte("published_at", new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()),
 
       // 8. Content items last 7 days
-      supabase
-        .from("content_items")
-        .select("id", { head: true, count: "exact" })
+      db
+        .select("content_items", "id", { head: true, count: "exact" })
         .gte("published_at", new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString()),
     ]);
 
     // Build connector statuses
-    const connectors: ConnectorStatus[] = (connectorsResult.data ?? []).map((c) => ({
-      id: c.id,
-      connector_type: c.connector_type,
-      category: c.category,
-      enabled: c.enabled,
-      schedule: c.schedule,
-      last_fetched_at: c.last_fetched_at,
-      error_count: c.error_count ?? 0,
-      last_error: c.last_error,
-      health: classifyHealth(c.enabled, c.last_fetched_at, c.error_count ?? 0, c.schedule),
-    }));
+    const connectors: ConnectorStatus[] = (connectorsResult.data ?? []).map((c) => {
+      const state = healthStateFromRow(c);
+      return {
+        id: c.id,
+        connector_type: c.connector_type,
+        category: c.category,
+        enabled: c.enabled,
+        schedule: c.schedule,
+        last_fetched_at: c.last_fetched_at,
+        last_success_at: state.lastSuccessAt,
+        error_count: c.error_count ?? 0,
+        consecutive_failures: state.consecutiveFailures,
+        last_error: c.last_error,
+        disabled_reason: state.disabledReason,
+        next_run_at: nextRunAt(state)?.toISOString() ?? null,
+        health: classifyConnectorHealth(state),
+      };
+    });
 
     // Last cron run
     const lastCronEntry = lastCronResult.data?.[0];
@@ -160,3 +151,41 @@ export async function GET(request: Request): Promise<Response> {
     );
   }
 }
+
+/**
+ * Re-enable a connector the runner disabled. Clears its failure streak so
+ * the next run isn't backed off.
+ */
+export async function POST(request: Request): Promise<Response> {
+  if (!isAdminAuthorized(request)) return unauthorizedAdminResponse();
+
+  let body: { connectorId?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  if (typeof body.connectorId !== "string" || !body.connectorId) {
+    return Response.json({ error: "connectorId is required" }, { status: 400 });
+  }
+
+  try {
+    const { data, error } = await getSupabaseServiceClient()
+      .from("source_configs")
+      .update({ enabled: true, consecutive_failures: 0, disabled_reason: null })
+      .eq("id", body.connectorId)
+      .select("id");
+
+    if (error) throw new Error(error.message);
+    if (!data?.length) {
+      return Response.json({ error: "Connector not found" }, { status: 404 });
+    }
+    return Response.json({ success: true });
+  } catch (error) {
+    const details = error instanceof Error ? error.message : "Unexpected pipeline status error.";
+    return Response.json(
+      { error: "Unable to re-enable connector.", details },
+      { status: 500 },
+    );
+  }
+}
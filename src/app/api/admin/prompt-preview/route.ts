@@ -0,0 +1,71 @@
+import { NextRequest } from "next/server";
+import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
+import { parsePromptProfile, resolvePromptProfile, type TownPromptProfile } from "@/lib/prompt-profile";
+import { buildChatSystemPrompt, buildFallbackAnswer } from "@/lib/prompts";
+import { clearTownCache, getTownById } from "@/lib/towns";
+import { getRequestTownId } from "@/lib/town-host";
+
+/**
+ * Render the final chat system prompt (with no context documents) and the
+ * no-results answer for a town, from its stored profile or a draft one.
+ */
+async function renderPreview(townId: string, draft?: TownPromptProfile): Promise<Response> {
+  // Preview the stored config, not a cached copy from before an edit
+  clearTownCache();
+  const town = await getTownById(townId);
+  if (!town) {
+    return Response.json({ error: `Unknown town "${townId}"` }, { status: 404 });
+  }
+
+  const profile = resolvePromptProfile(town, draft);
+  const townHallPhone = profile.escalationContacts[0]?.phone ?? "";
+  return Response.json({
+    town_id: town.town_id,
+    stored_profile: town.prompt_profile ?? null,
+    profile,
+    system_prompt: buildChatSystemPrompt({
+      contextDocuments: [],
+      includeDisclaimer: true,
+      townName: town.name,
+      townHallPhone,
+      profile,
+    }),
+    fallback_answer: buildFallbackAnswer(profile),
+  });
+}
+
+/**
+ * GET ?town= — the town's system prompt as built from its stored prompt profile.
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  if (!isAdminAuthorized(request)) {
+    return unauthorizedAdminResponse();
+  }
+
+  const townId = getRequestTownId(request, request.nextUrl.searchParams.get("town"));
+  return renderPreview(townId);
+}
+
+/**
+ * POST { town, prompt_profile } — the same preview for an unsaved draft profile.
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  if (!isAdminAuthorized(request)) {
+    return unauthorizedAdminResponse();
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const draft = parsePromptProfile(body.prompt_profile);
+  if (typeof draft === "string") {
+    return Response.json({ error: draft }, { status: 400 });
+  }
+
+  const townId = getRequestTownId(request, typeof body.town === "string" ? body.town : null);
+  return renderPreview(townId, draft);
+}
@@ -11,8 +11,8 @@
  */
 
 import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
-import { DEFAULT_TOWN_ID } from "@/lib/rag";
-import { getSupabaseServiceClient } from "@/lib/supabase";
+import { getRequestTownId } from "@/lib/town-host";
+import { getTenantDb } from "@/lib/tenant-db";
 
 type TelemetryRow = {
   was_decomposed: boolean;
@@ -31,18 +31,16 @@ export async function GET(request: Request): Promise<Response> {
   if (!isAdminAuthorized(request)) return unauthorizedAdminResponse();
 
   const { searchParams } = new URL(request.url);
-  const townId = searchParams.get("town")?.trim() || DEFAULT_TOWN_ID;
-  const supabase = getSupabaseServiceClient();
+  const townId = getRequestTownId(request, searchParams.get("town"));
+  const db = getTenantDb(townId);
 
   try {
     // Fetch all telemetry rows (last 30 days is enough for stats)
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
-    const { data, error } = await supabase
-      .from("search_telemetry")
-      .select("*")
-      .eq("town", townId)
+    const { data, error } = await db
+      .select("search_telemetry")
       .gte("created_at", thirtyDaysAgo.toISOString())
       .order("created_at", { ascending: false });
 
@@ -1,7 +1,21 @@
 import { NextRequest } from "next/server";
 import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
+import {
+  FEATURE_FLAG_VALUES,
+  parseFeatureFlagOverrides,
+  type FeatureFlagOverrides,
+} from "@/lib/feature-flags";
 import { getSupabaseServiceClient } from "@/lib/supabase";
-import { DEFAULT_TOWN_ID } from "@/lib/towns";
+import { getRequestTownId } from "@/lib/town-host";
+import { getTownById, getTownByIdOrDefault } from "@/lib/towns";
+import {
+  clearTownSettingsCache,
+  DEFAULT_SEMANTIC_CACHE_THRESHOLD,
+  getDefaultReranker,
+  parseTownSettings,
+  RERANKER_KINDS,
+  SEMANTIC_CACHE_THRESHOLD_RANGE,
+} from "@/lib/town-settings";
 
 const AVAILABLE_MODELS = [
   { id: "gpt-5-nano", label: "GPT-5 Nano", inputPrice: 0.05, outputPrice: 0.40 },
@@ -10,7 +24,15 @@ const AVAILABLE_MODELS = [
   { id: "gpt-4.1-mini", label: "GPT-4.1 Mini", inputPrice: 0.40, outputPrice: 1.60 },
 ];
 
+const AVAILABLE_RERANKERS = [
+  { id: "formula", label: "Formula", description: "Similarity, keywords, recency, authority and locality" },
+  { id: "cohere", label: "Cohere Rerank", description: "Cohere cross-encoder blended with the formula" },
+  { id: "llm", label: "LLM Judge", description: "Chat model grades each passage" },
+  { id: "rrf", label: "Rank Fusion", description: "Fuses semantic and keyword search rankings" },
+];
+
 const VALID_MODEL_IDS = new Set(AVAILABLE_MODELS.map((m) => m.id));
+const VALID_RERANKERS = new Set<string>(RERANKER_KINDS);
 const DEFAULT_MODEL = "gpt-5-nano";
 
 export async function GET(request: NextRequest): Promise<Response> {
@@ -19,7 +41,14 @@ export async function GET(request: NextRequest): Promise<Response> {
   }
 
   const townId =
-    request.nextUrl.searchParams.get("town")?.trim() || DEFAULT_TOWN_ID;
+    getRequestTownId(request, request.nextUrl.searchParams.get("town"));
+
+  // Overrides are edited against the town's static flags
+  const town = (await getTownById(townId)) ?? getTownByIdOrDefault(townId);
+  const featureFlagFields = {
+    feature_flag_defaults: town.feature_flags,
+    feature_flag_values: FEATURE_FLAG_VALUES,
+  };
 
   try {
     const supabase = getSupabaseServiceClient();
@@ -33,21 +62,31 @@ export async function GET(request: NextRequest): Promise<Response> {
       console.error("[api/admin/settings] GET error:", error.message);
     }
 
-    const config = (data?.config as Record<string, unknown>) ?? {};
-    const chatModel =
-      typeof config.chat_model === "string" && VALID_MODEL_IDS.has(config.chat_model)
-        ? config.chat_model
-        : DEFAULT_MODEL;
+    const settings = parseTownSettings(data?.config as Record<string, unknown> | undefined);
+    const featureFlags = parseFeatureFlagOverrides(settings.raw.feature_flags);
 
     return Response.json({
-      chat_model: chatModel,
+      chat_model: settings.chatModel,
       available_models: AVAILABLE_MODELS,
+      reranker: settings.reranker,
+      available_rerankers: AVAILABLE_RERANKERS,
+      semantic_cache_threshold: settings.semanticCacheThreshold,
+      semantic_cache_threshold_range: SEMANTIC_CACHE_THRESHOLD_RANGE,
+      feature_flags: typeof featureFlags === "string" ? {} : featureFlags,
+      ...featureFlagFields,
     });
   } catch (err) {
     console.error("[api/admin/settings] GET error:", err);
-    return Response.json(
-      { chat_model: DEFAULT_MODEL, available_models: AVAILABLE_MODELS },
-    );
+    return Response.json({
+      chat_model: DEFAULT_MODEL,
+      available_models: AVAILABLE_MODELS,
+      reranker: getDefaultReranker(),
+      available_rerankers: AVAILABLE_RERANKERS,
+      semantic_cache_threshold: DEFAULT_SEMANTIC_CACHE_THRESHOLD,
+      semantic_cache_threshold_range: SEMANTIC_CACHE_THRESHOLD_RANGE,
+      feature_flags: {},
+      ...featureFlagFields,
+    });
   }
 }
 
@@ -56,23 +95,74 @@ export async function PUT(request: NextRequest): Promise<Response> {
     return unauthorizedAdminResponse();
   }
 
-  let body: { chat_model?: unknown; town?: unknown };
+  let body: {
+    chat_model?: unknown;
+    reranker?: unknown;
+    semantic_cache_threshold?: unknown;
+    feature_flags?: unknown;
+    town?: unknown;
+  };
   try {
     body = await request.json();
   } catch {
     return Response.json({ error: "Invalid JSON" }, { status: 400 });
   }
 
-  const chatModel = typeof body.chat_model === "string" ? body.chat_model.trim() : "";
-  if (!VALID_MODEL_IDS.has(chatModel)) {
+  // Each setting is optional, but at least one must be provided
+  const updates: Record<string, string | number | FeatureFlagOverrides> = {};
+
+  if (body.chat_model !== undefined) {
+    const chatModel = typeof body.chat_model === "string" ? body.chat_model.trim() : "";
+    if (!VALID_MODEL_IDS.has(chatModel)) {
+      return Response.json(
+        { error: `Invalid model. Must be one of: ${Array.from(VALID_MODEL_IDS).join(", ")}` },
+        { status: 400 },
+      );
+    }
+    updates.chat_model = chatModel;
+  }
+
+  if (body.reranker !== undefined) {
+    const reranker = typeof body.reranker === "string" ? body.reranker.trim() : "";
+    if (!VALID_RERANKERS.has(reranker)) {
+      return Response.json(
+        { error: `Invalid reranker. Must be one of: ${RERANKER_KINDS.join(", ")}` },
+        { status: 400 },
+      );
+    }
+    updates.reranker = reranker;
+  }
+
+  if (body.semantic_cache_threshold !== undefined) {
+    const threshold = body.semantic_cache_threshold;
+    const { min, max } = SEMANTIC_CACHE_THRESHOLD_RANGE;
+    if (typeof threshold !== "number" || !(threshold >= min && threshold <= max)) {
+      return Response.json(
+        { error: `Invalid semantic_cache_threshold. Must be a number from ${min} to ${max}` },
+        { status: 400 },
+      );
+    }
+    updates.semantic_cache_threshold = threshold;
+  }
+
+  // Replaces the town's whole override map; null clears every override
+  if (body.feature_flags !== undefined) {
+    const featureFlags = parseFeatureFlagOverrides(body.feature_flags);
+    if (typeof featureFlags === "string") {
+      return Response.json({ error: featureFlags }, { status: 400 });
+    }
+    updates.feature_flags = featureFlags;
+  }
+
+  if (Object.keys(updates).length === 0) {
     return Response.json(
-      { error: `Invalid model. Must be one of: ${Array.from(VALID_MODEL_IDS).join(", ")}` },
+      { error: "Provide chat_model, reranker, semantic_cache_threshold and/or feature_flags" },
       { status: 400 },
     );
   }
 
   const townId =
-    (typeof body.town === "string" && body.town.trim()) || DEFAULT_TOWN_ID;
+    getRequestTownId(request, typeof body.town === "string" ? body.town : null);
 
   try {
     const supabase = getSupabaseServiceClient();
@@ -85,7 +175,7 @@ export async function PUT(request: NextRequest): Promise<Response> {
       .single();
 
     const currentConfig = (existing?.config as Record<string, unknown>) ?? {};
-    const updatedConfig = { ...currentConfig, chat_model: chatModel };
+    const updatedConfig = { ...currentConfig, ...updates };
 
     const { error } = await supabase
       .from("towns")
@@ -97,7 +187,10 @@ export async function PUT(request: NextRequest): Promise<Response> {
       return Response.json({ error: error.message }, { status: 500 });
     }
 
-    return Response.json({ chat_model: chatModel, updated: true });
+    // Retrieval and feature flags read settings through a short-lived cache; drop it so the change applies now
+    clearTownSettingsCache(townId);
+
+    return Response.json({ ...updates, updated: true });
   } catch (err) {
     const message = err instanceof Error ? err.message : "Unexpected error";
     console.error("[api/admin/settings] PUT error:", message);
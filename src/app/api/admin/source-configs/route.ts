@@ -0,0 +1,62 @@
+import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
+import { parseDraftConnectorConfig } from "@/lib/connectors/preview";
+import { getSupabaseServiceClient } from "@/lib/supabase";
+import { getRequestTownId } from "@/lib/town-host";
+
+/**
+ * POST { town, config } — save a connector config (usually after previewing
+ * it via /api/admin/sources/preview). The next cron run picks it up.
+ */
+export async function POST(request: Request): Promise<Response> {
+  if (!isAdminAuthorized(request)) {
+    return unauthorizedAdminResponse();
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const townId = getRequestTownId(request, typeof body.town === "string" ? body.town : null);
+  const config = parseDraftConnectorConfig(body.config, townId);
+  if (typeof config === "string") {
+    return Response.json({ error: config }, { status: 400 });
+  }
+  if (config.id === `${townId}:preview`) {
+    return Response.json({ error: `id is required, e.g. "${townId}:library-news"` }, { status: 400 });
+  }
+
+  try {
+    const { data, error } = await getSupabaseServiceClient()
+      .from("source_configs")
+      .insert({
+        id: config.id,
+        town_id: townId,
+        connector_type: config.connector_type,
+        category: config.category,
+        schedule: config.schedule,
+        config: config.config,
+        enabled: true,
+        should_embed: config.shouldEmbed,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      const status = error.code === "23505" ? 409 : 500;
+      return Response.json(
+        { error: status === 409 ? `Connector "${config.id}" already exists` : error.message },
+        { status }
+      );
+    }
+
+    return Response.json({ source_config: data }, { status: 201 });
+  } catch (err) {
+    return Response.json(
+      { error: "Failed to save connector", details: String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
 import { getSupabaseServiceClient } from "@/lib/supabase";
-import { DEFAULT_TOWN_ID } from "@/../config/towns";
+import { getRequestTownId } from "@/lib/town-host";
 
 export async function GET(request: Request): Promise<Response> {
   if (!isAdminAuthorized(request)) {
@@ -9,7 +9,7 @@ export async function GET(request: Request): Promise<Response> {
 
   try {
     const { searchParams } = new URL(request.url);
-    const townId = searchParams.get("town") || DEFAULT_TOWN_ID;
+    const townId = getRequestTownId(request, searchParams.get("town"));
 
     const supabase = getSupabaseServiceClient();
     const { data, error } = await supabase
@@ -1,6 +1,6 @@
 import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
 import { getSupabaseServiceClient } from "@/lib/supabase";
-import { DEFAULT_TOWN_ID } from "@/../config/towns";
+import { getRequestTownId } from "@/lib/town-host";
 
 interface CsvRow {
   url: string;
@@ -45,7 +45,7 @@ export async function POST(request: Request): Promise<Response> {
   }
 
   try {
-    const { csv, town_id: townId = DEFAULT_TOWN_ID } = (await request.json()) as {
+    const { csv, town_id: townId = getRequestTownId(request) } = (await request.json()) as {
       csv?: string;
       town_id?: string;
     };
@@ -0,0 +1,40 @@
+import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
+import { parseDraftConnectorConfig, previewConnector } from "@/lib/connectors/preview";
+import { getRequestTownId } from "@/lib/town-host";
+// Register all connector factories so the draft can be instantiated
+import "@/lib/connectors/register-all";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST { town, config } — dry-run a draft source_configs row: fetch and
+ * normalize its items without upserting, and report warnings per item.
+ */
+export async function POST(request: Request): Promise<Response> {
+  if (!isAdminAuthorized(request)) {
+    return unauthorizedAdminResponse();
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const townId = getRequestTownId(request, typeof body.town === "string" ? body.town : null);
+  const config = parseDraftConnectorConfig(body.config, townId);
+  if (typeof config === "string") {
+    return Response.json({ error: config }, { status: 400 });
+  }
+
+  try {
+    return Response.json(await previewConnector(townId, config));
+  } catch (err) {
+    // A failing fetch is a normal preview outcome, not a server error
+    return Response.json(
+      { error: "Connector preview failed", details: err instanceof Error ? err.message : String(err) },
+      { status: 422 }
+    );
+  }
+}
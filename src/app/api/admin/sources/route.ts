@@ -1,6 +1,6 @@
 import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
 import { getSupabaseServiceClient } from "@/lib/supabase";
-import { DEFAULT_TOWN_ID } from "@/../config/towns";
+import { getRequestTownId } from "@/lib/town-host";
 
 export async function GET(request: Request): Promise<Response> {
   if (!isAdminAuthorized(request)) {
@@ -8,7 +8,7 @@ export async function GET(request: Request): Promise<Response> {
   }
 
   const { searchParams } = new URL(request.url);
-  const townId = searchParams.get("town") || DEFAULT_TOWN_ID;
+  const townId = getRequestTownId(request, searchParams.get("town"));
   const search = searchParams.get("search") || "";
   const category = searchParams.get("category") || "";
   const activeOnly = searchParams.get("active") === "true";
@@ -66,7 +66,7 @@ export async function POST(request: Request): Promise<Response> {
       max_depth = 2,
       max_pages = 10,
       is_active = true,
-      town_id = DEFAULT_TOWN_ID,
+      town_id = getRequestTownId(request),
     } = body as Record<string, unknown>;
 
     if (!url || !name) {
@@ -10,8 +10,8 @@
  */
 
 import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
-import { DEFAULT_TOWN_ID } from "@/lib/rag";
-import { getSupabaseServiceClient } from "@/lib/supabase";
+import { getRequestTownId } from "@/lib/town-host";
+import { getTenantDb } from "@/lib/tenant-db";
 
 interface TelemetryRow {
   query: string;
@@ -186,39 +186,35 @@ export async function GET(request: Request): Promise<Response> {
   if (!isAdminAuthorized(request)) return unauthorizedAdminResponse();
 
   const { searchParams } = new URL(request.url);
-  const townId = searchParams.get("town")?.trim() || DEFAULT_TOWN_ID;
-  const supabase = getSupabaseServiceClient();
+  const townId = getRequestTownId(request, searchParams.get("town"));
+  const db = getTenantDb(townId);
 
   try {
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
-    const { data: telemetryData, error: telemetryError } = await supabase
-      .from("search_telemetry")
-      .select("query, result_count, top_similarity, avg_similarity, total_latency_ms, confidence, had_ai_answer")
-      .eq("town", townId)
+    const { data: telemetryData, error: telemetryError } = await db
+      .select<TelemetryRow>("search_telemetry", "query, result_count, top_similarity, avg_similarity, total_latency_ms, confidence, had_ai_answer")
       .gte("created_at", thirtyDaysAgo.toISOString())
       .order("created_at", { ascending: false })
       .limit(5000);
 
     if (telemetryError) throw new Error(telemetryError.message);
 
-    const telemetry = (telemetryData ?? []) as TelemetryRow[];
+    const telemetry = telemetryData ?? [];
 
     const searchStats = computeSearchKPIs(telemetry);
     const topQueries = computeTopQueries(telemetry);
     const zeroResultQueries = computeZeroResultQueries(telemetry);
 
-    const { data: documentsData, error: documentsError } = await supabase
-      .from("documents")
-      .select("id, url, title, is_stale, chunk_count, created_at, updated_at")
-      .eq("town_id", townId)
+    const { data: documentsData, error: documentsError } = await db
+      .select<DocumentRow>("documents", "id, url, title, is_stale, chunk_count, created_at, updated_at")
       .order("updated_at", { ascending: false })
       .limit(5000);
 
     if (documentsError) throw new Error(documentsError.message);
 
-    const documents = (documentsData ?? []) as DocumentRow[];
+    const documents = documentsData ?? [];
     const contentStats = computeContentStats(documents);
 
     return Response.json({
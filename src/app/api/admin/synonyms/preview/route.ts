@@ -0,0 +1,31 @@
+import { NextRequest } from "next/server";
+import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
+import { clearSynonymCache, expandQuery, getSynonymDictionary, matchSynonymEntries } from "@/lib/synonyms";
+import { getRequestTownId } from "@/lib/town-host";
+
+/**
+ * GET ?q=&town= — how expandQuery expands a sample query for the town, and
+ * which entries (town or universal) fired.
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  if (!isAdminAuthorized(request)) {
+    return unauthorizedAdminResponse();
+  }
+
+  const { searchParams } = request.nextUrl;
+  const query = searchParams.get("q")?.trim();
+  if (!query) {
+    return Response.json({ error: "q is required" }, { status: 400 });
+  }
+  const townId = getRequestTownId(request, searchParams.get("town"));
+
+  // Preview against the stored entries, not a cached copy from before an edit
+  clearSynonymCache(townId);
+  const dictionary = await getSynonymDictionary(townId);
+  const matches = matchSynonymEntries(query, dictionary).map((entry) => ({
+    ...entry,
+    source: entry.id ? "town" : "universal",
+  }));
+
+  return Response.json({ ...expandQuery(query, dictionary), matches });
+}
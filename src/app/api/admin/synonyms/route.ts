@@ -0,0 +1,96 @@
+import { NextRequest } from "next/server";
+import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
+import {
+  deleteTownSynonym,
+  listTownSynonyms,
+  parseSynonymEntry,
+  saveTownSynonym,
+  UNIVERSAL_SYNONYMS,
+} from "@/lib/synonyms";
+import { getRequestTownId } from "@/lib/town-host";
+
+/**
+ * GET — the town's synonym entries, plus the universal ones for reference.
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  if (!isAdminAuthorized(request)) {
+    return unauthorizedAdminResponse();
+  }
+
+  const townId =
+    getRequestTownId(request, request.nextUrl.searchParams.get("town"));
+
+  try {
+    const entries = await listTownSynonyms(townId);
+    return Response.json({ entries, universal: UNIVERSAL_SYNONYMS });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unexpected error";
+    console.error("[api/admin/synonyms] GET error:", message);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST { id?, triggers, expansions, note?, town? } — create an entry, or
+ * update the entry with the given id. Terms may be arrays or comma-separated.
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  if (!isAdminAuthorized(request)) {
+    return unauthorizedAdminResponse();
+  }
+
+  let body: { id?: unknown; triggers?: unknown; expansions?: unknown; note?: unknown; town?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const entry = parseSynonymEntry(body);
+  if (typeof entry === "string") {
+    return Response.json({ error: entry }, { status: 400 });
+  }
+
+  const townId =
+    getRequestTownId(request, typeof body.town === "string" ? body.town : null);
+
+  try {
+    const saved = await saveTownSynonym(townId, entry);
+    if (!saved) {
+      return Response.json({ error: "Entry not found" }, { status: 404 });
+    }
+    return Response.json({ entry: saved });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unexpected error";
+    console.error("[api/admin/synonyms] POST error:", message);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE ?id=&town= — remove an entry.
+ */
+export async function DELETE(request: NextRequest): Promise<Response> {
+  if (!isAdminAuthorized(request)) {
+    return unauthorizedAdminResponse();
+  }
+
+  const { searchParams } = request.nextUrl;
+  const id = searchParams.get("id")?.trim();
+  if (!id) {
+    return Response.json({ error: "id is required" }, { status: 400 });
+  }
+  const townId = getRequestTownId(request, searchParams.get("town"));
+
+  try {
+    const deleted = await deleteTownSynonym(townId, id);
+    if (!deleted) {
+      return Response.json({ error: "Entry not found" }, { status: 404 });
+    }
+    return Response.json({ deleted: true });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unexpected error";
+    console.error("[api/admin/synonyms] DELETE error:", message);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
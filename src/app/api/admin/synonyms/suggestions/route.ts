@@ -0,0 +1,28 @@
+import { NextRequest } from "next/server";
+import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
+import { suggestSynonyms } from "@/lib/synonyms";
+import { getTownById, getTownByIdOrDefault } from "@/lib/towns";
+import { getRequestTownId } from "@/lib/town-host";
+
+/**
+ * GET ?town= — trigger → expansion pairs suggested from the town's recent
+ * zero-result and low-confidence searches.
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  if (!isAdminAuthorized(request)) {
+    return unauthorizedAdminResponse();
+  }
+
+  const townId =
+    getRequestTownId(request, request.nextUrl.searchParams.get("town"));
+  const town = (await getTownById(townId)) ?? getTownByIdOrDefault(townId);
+
+  try {
+    const suggestions = await suggestSynonyms(townId, town.name);
+    return Response.json({ suggestions });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unexpected error";
+    console.error("[api/admin/synonyms/suggestions] GET error:", message);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
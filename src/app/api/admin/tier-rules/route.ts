@@ -0,0 +1,88 @@
+import { NextRequest } from "next/server";
+import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
+import { RELEVANCE_TIERS, TIER_RULE_TYPES } from "@/lib/relevance-classifier";
+import { deleteTierRule, listTierRules, parseTierRule, saveTierRule } from "@/lib/tier-rules";
+import { getRequestTownId } from "@/lib/town-host";
+
+/**
+ * GET — the town's relevance tier rules (domains, URL, archive and query patterns).
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  if (!isAdminAuthorized(request)) {
+    return unauthorizedAdminResponse();
+  }
+
+  const townId =
+    getRequestTownId(request, request.nextUrl.searchParams.get("town"));
+
+  try {
+    const rules = await listTierRules(townId);
+    return Response.json({ rules, rule_types: TIER_RULE_TYPES, tiers: RELEVANCE_TIERS });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unexpected error";
+    console.error("[api/admin/tier-rules] GET error:", message);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST { rule_type, pattern, tier, note?, town? } — create a rule, or update
+ * the tier of an existing rule with the same type and pattern.
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  if (!isAdminAuthorized(request)) {
+    return unauthorizedAdminResponse();
+  }
+
+  let body: { rule_type?: unknown; pattern?: unknown; tier?: unknown; note?: unknown; town?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const rule = parseTierRule(body);
+  if (typeof rule === "string") {
+    return Response.json({ error: rule }, { status: 400 });
+  }
+
+  const townId =
+    getRequestTownId(request, typeof body.town === "string" ? body.town : null);
+
+  try {
+    const saved = await saveTierRule(townId, rule);
+    return Response.json({ rule: saved });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unexpected error";
+    console.error("[api/admin/tier-rules] POST error:", message);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE ?id=&town= — remove a rule.
+ */
+export async function DELETE(request: NextRequest): Promise<Response> {
+  if (!isAdminAuthorized(request)) {
+    return unauthorizedAdminResponse();
+  }
+
+  const { searchParams } = request.nextUrl;
+  const id = searchParams.get("id")?.trim();
+  if (!id) {
+    return Response.json({ error: "id is required" }, { status: 400 });
+  }
+  const townId = getRequestTownId(request, searchParams.get("town"));
+
+  try {
+    const deleted = await deleteTierRule(townId, id);
+    if (!deleted) {
+      return Response.json({ error: "Rule not found" }, { status: 404 });
+    }
+    return Response.json({ deleted: true });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unexpected error";
+    console.error("[api/admin/tier-rules] DELETE error:", message);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+import { after, NextRequest } from "next/server";
+import { isAdminAuthorized, unauthorizedAdminResponse } from "@/lib/admin-auth";
+import { runConnectors } from "@/lib/connectors/runner";
+import { getSupabaseServiceClient } from "@/lib/supabase";
+import { onboardTown, parseTownConfig } from "@/lib/town-onboarding";
+import { getTownById, getTownIdForHost, getTownIds, listTowns } from "@/lib/towns";
+
+// Register all connector factories so the first crawl can instantiate them
+import "@/lib/connectors/register-all";
+
+export const runtime = "nodejs";
+export const maxDuration = 300; // the first crawl runs after the response
+
+/**
+ * GET — every town, marking the ones onboarded into the database.
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  if (!isAdminAuthorized(request)) {
+    return unauthorizedAdminResponse();
+  }
+
+  const staticIds = new Set(getTownIds());
+  const towns = await listTowns();
+  return Response.json({
+    towns: towns.map((town) => ({
+      town_id: town.town_id,
+      name: town.name,
+      website_url: town.website_url,
+      cron_enabled: town.cron_enabled !== false,
+      onboarded: !staticIds.has(town.town_id),
+    })),
+  });
+}
+
+/** Run a new town's connectors once and record it as a crawl in ingestion_log. */
+async function runFirstCrawl(townId: string): Promise<void> {
+  const start = Date.now();
+  try {
+    const results = await runConnectors({ townId, force: true });
+    const supabase = getSupabaseServiceClient();
+    await supabase.from("ingestion_log").insert({
+      town_id: townId,
+      action: "crawl",
+      documents_processed: results.reduce((s, r) => s + r.itemsUpserted, 0),
+      errors: results.reduce((s, r) => s + r.errors.length, 0),
+      duration_ms: Date.now() - start,
+      details: {
+        mode: "first-crawl",
+        triggered_by: "admin-onboarding",
+        connectors: results.map((r) => ({ id: r.connectorId, upserted: r.itemsUpserted, errors: r.errors })),
+      },
+    });
+  } catch (err) {
+    console.error(`[api/admin/towns] First crawl failed for ${townId}:`, err instanceof Error ? err.message : err);
+  }
+}
+
+/**
+ * POST <TownConfig> — validate the config, create the town, seed its
+ * source_configs from the website (sitemap, RSS/Atom and iCal discovery)
+ * and start its first crawl once the response is sent.
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  if (!isAdminAuthorized(request)) {
+    return unauthorizedAdminResponse();
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const town = parseTownConfig(body);
+  if (typeof town === "string") {
+    return Response.json({ error: town }, { status: 400 });
+  }
+
+  if (await getTownById(town.town_id)) {
+    return Response.json({ error: `Town "${town.town_id}" already exists` }, { status: 409 });
+  }
+  for (const host of town.hostnames ?? []) {
+    const owner = await getTownIdForHost(host);
+    if (owner) {
+      return Response.json({ error: `Hostname "${host}" is already used by "${owner}"` }, { status: 409 });
+    }
+  }
+
+  try {
+    const result = await onboardTown(town);
+    after(() => runFirstCrawl(town.town_id));
+    return Response.json({ ...result, first_crawl: "started" }, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unexpected error";
+    console.error("[api/admin/towns] POST error:", message);
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
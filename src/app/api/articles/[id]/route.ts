@@ -1,10 +1,12 @@
 import { NextResponse } from 'next/server';
-import { getSupabaseClient } from '@/lib/supabase';
+import { getTenantDb } from '@/lib/tenant-db';
+import { getRequestTownId } from '@/lib/town-host';
 import type { Article } from '@/types/article';
 
 /**
  * GET /api/articles/[id]
- * Fetch a single article by ID
+ * Fetch a single article by ID, within the requested town
+ * Query params: town
  */
 export async function GET(
   request: Request,
@@ -20,11 +22,10 @@ export async function GET(
   }
 
   try {
-    const supabase = getSupabaseClient();
+    const town = getRequestTownId(request, new URL(request.url).searchParams.get('town'));
 
-    const { data, error } = await supabase
-      .from('articles')
-      .select('*')
+    const { data, error } = await getTenantDb(town, { rls: true })
+      .select<Article>('articles')
       .eq('id', id)
       .eq('status', 'published')
       .single();
@@ -48,7 +49,7 @@ export async function GET(
     // For now, we'll skip auto-increment to keep the API simple
     // View count can be incremented via a separate PATCH endpoint if needed
 
-    return NextResponse.json(data as Article);
+    return NextResponse.json(data);
   } catch (error) {
     console.error('[api/articles/[id]] Unexpected error:', error);
     return NextResponse.json(
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
-import { getSupabaseClient } from '@/lib/supabase';
+import { getTenantDb } from '@/lib/tenant-db';
 import type { Article } from '@/types/article';
+import { getRequestTownId } from '@/lib/town-host';
 
 /**
  * GET /api/articles/daily-brief
@@ -8,22 +9,18 @@ import type { Article } from '@/types/article';
  */
 export async function GET(request: Request): Promise<Response> {
   const { searchParams } = new URL(request.url);
-  const town = searchParams.get('town') || 'needham';
+  const town = getRequestTownId(request, searchParams.get('town'));
 
   try {
-    const supabase = getSupabaseClient({ townId: town });
-
     // Get today's date range (midnight to midnight)
     const now = new Date();
     const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
     const endOfDay = new Date(startOfDay);
     endOfDay.setDate(endOfDay.getDate() + 1);
 
-    const { data, error } = await supabase
-      .from('articles')
-      .select('*')
+    const { data, error } = await getTenantDb(town, { rls: true })
+      .select<Article>('articles')
       .eq('status', 'published')
-      .eq('town', town)
       .eq('is_daily_brief', true)
       .gte('published_at', startOfDay.toISOString())
       .lt('published_at', endOfDay.toISOString())
@@ -38,7 +35,7 @@ export async function GET(request: Request): Promise<Response> {
     }
 
     // Return the most recent daily brief, or null if none today
-    const article = data && data.length > 0 ? (data[0] as Article) : null;
+    const article = data && data.length > 0 ? data[0] : null;
 
     return NextResponse.json({ article });
   } catch (error) {
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
-import { getSupabaseClient } from '@/lib/supabase';
+import { getTenantDb } from '@/lib/tenant-db';
 import type { Article } from '@/types/article';
+import { getRequestTownId } from '@/lib/town-host';
 
 /**
  * GET /api/articles/featured
@@ -8,17 +9,13 @@ import type { Article } from '@/types/article';
  */
 export async function GET(request: Request): Promise<Response> {
   const { searchParams } = new URL(request.url);
-  const town = searchParams.get('town') || 'needham';
+  const town = getRequestTownId(request, searchParams.get('town'));
   const limit = Math.min(parseInt(searchParams.get('limit') || '3', 10), 10);
 
   try {
-    const supabase = getSupabaseClient({ townId: town });
-
-    const { data, error } = await supabase
-      .from('articles')
-      .select('*')
+    const { data, error } = await getTenantDb(town, { rls: true })
+      .select<Article>('articles')
       .eq('status', 'published')
-      .eq('town', town)
       .eq('is_featured', true)
       .order('published_at', { ascending: false })
       .limit(limit);
@@ -31,7 +28,7 @@ export async function GET(request: Request): Promise<Response> {
       );
     }
 
-    return NextResponse.json({ articles: (data as Article[]) || [] });
+    return NextResponse.json({ articles: data || [] });
   } catch (error) {
     console.error('[api/articles/featured] Unexpected error:', error);
     return NextResponse.json(
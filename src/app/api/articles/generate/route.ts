@@ -20,9 +20,9 @@ export async function POST(request: Request): Promise<Response> {
     return unauthorizedAdminResponse();
   }
 
-  let body: { type?: unknown } = {};
+  let body: { type?: unknown; town?: unknown } = {};
   try {
-    body = (await request.json()) as { type?: unknown };
+    body = (await request.json()) as { type?: unknown; town?: unknown };
   } catch {
     body = {};
   }
@@ -36,28 +36,30 @@ export async function POST(request: Request): Promise<Response> {
     );
   }
 
+  const townId = typeof body.town === 'string' && body.town.trim() ? body.town.trim() : undefined;
+
   let generated = 0;
   let skipped = 0;
   const errors: string[] = [];
 
   try {
     if (type === 'meeting_minutes' || type === 'all') {
-      const articles = await generateFromMeetingMinutes();
+      const articles = await generateFromMeetingMinutes({ townId });
       generated += articles.length;
     }
 
     if (type === 'public_record' || type === 'all') {
-      const articles = await generateFromPublicRecord();
+      const articles = await generateFromPublicRecord({ townId });
       generated += articles.length;
     }
 
     if (type === 'external' || type === 'all') {
-      const articles = await summarizeExternalArticle();
+      const articles = await summarizeExternalArticle({ townId });
       generated += articles.length;
     }
 
     if (type === 'daily_brief' || type === 'all') {
-      const brief = await generateDailyBrief();
+      const brief = await generateDailyBrief({ townId });
       if (brief) {
         generated += 1;
       } else {
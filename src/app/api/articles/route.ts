@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
-import { getSupabaseClient, getSupabaseServiceClient } from '@/lib/supabase';
-import { checkGeographicRelevance } from '@/lib/geo-filter';
+import { getTenantDb } from '@/lib/tenant-db';
+import { checkGeographicRelevance, getTownGeography } from '@/lib/geo-filter';
 import type { Article, ArticleListResponse, CreateArticleInput } from '@/types/article';
+import { getRequestTownId } from '@/lib/town-host';
 
 /**
  * GET /api/articles
@@ -15,18 +16,14 @@ export async function GET(request: Request): Promise<Response> {
   const contentType = searchParams.get('content_type');
   const tag = searchParams.get('tag');
   const featured = searchParams.get('featured');
-  const town = searchParams.get('town') || 'needham';
+  const town = getRequestTownId(request, searchParams.get('town'));
   const limit = Math.min(parseInt(searchParams.get('limit') || '20', 10), 100);
   const offset = parseInt(searchParams.get('offset') || '0', 10);
 
   try {
-    const supabase = getSupabaseClient({ townId: town });
-
-    let query = supabase
-      .from('articles')
-      .select('*', { count: 'exact' })
+    let query = getTenantDb(town, { rls: true })
+      .select<Article>('articles', '*', { count: 'exact' })
       .eq('status', 'published')
-      .eq('town', town)
       .order('published_at', { ascending: false });
 
     if (category) {
@@ -58,10 +55,11 @@ export async function GET(request: Request): Promise<Response> {
     }
 
     // Post-filter: remove geographically irrelevant articles (e.g., Connecticut content)
-    const articles = ((data as Article[]) || []).filter((article) => {
+    const geography = getTownGeography(town);
+    const articles = (data || []).filter((article) => {
       const text = article.summary || article.body?.slice(0, 2000) || '';
       const sourceUrl = article.source_urls?.[0] ?? '';
-      const geo = checkGeographicRelevance(text, article.title, sourceUrl, article.category);
+      const geo = checkGeographicRelevance(text, article.title, sourceUrl, article.category, geography);
       if (!geo.isRelevant) {
         console.log(`[api/articles] Geo-filtered: "${article.title}" — ${geo.reason}`);
       }
@@ -87,7 +85,8 @@ export async function GET(request: Request): Promise<Response> {
 
 /**
  * POST /api/articles
- * Create a new article (for AI generation pipeline)
+ * Create a new article (for AI generation pipeline) in the body's town,
+ * or the request's town when the body names none
  */
 export async function POST(request: Request): Promise<Response> {
   let body: CreateArticleInput;
@@ -109,11 +108,10 @@ export async function POST(request: Request): Promise<Response> {
   }
 
   try {
-    const supabase = getSupabaseServiceClient();
+    const town = getRequestTownId(request, body.town);
 
-    const { data, error } = await supabase
-      .from('articles')
-      .insert([body])
+    const { data, error } = await getTenantDb(town)
+      .insert('articles', [body])
       .select()
       .single();
 
@@ -1,5 +1,5 @@
-import { DEFAULT_TOWN_ID } from "@/lib/rag";
-import { getSupabaseClient } from "@/lib/supabase";
+import { getRequestTownId } from "@/lib/town-host";
+import { getTenantDb } from "@/lib/tenant-db";
 
 type CategoryCount = {
   name: string;
@@ -41,18 +41,16 @@ function getDocumentType(metadata: unknown): string {
 
 export async function GET(request: Request): Promise<Response> {
   const { searchParams } = new URL(request.url);
-  const townId = searchParams.get("town")?.trim() || DEFAULT_TOWN_ID;
+  const townId = getRequestTownId(request, searchParams.get("town"));
   try {
-    const supabase = getSupabaseClient({ townId });
+    const db = getTenantDb(townId, { rls: true });
     const pageSize = 1000;
     let start = 0;
     const countsByType = new Map<string, number>();
 
     while (true) {
-      const { data, error } = await supabase
-        .from("document_chunks")
-        .select("metadata")
-        .eq("town_id", townId)
+      const { data, error } = await db
+        .select("document_chunks", "metadata")
         .range(start, start + pageSize - 1);
 
       if (error) {
@@ -2,24 +2,35 @@ import { randomUUID } from "crypto";
 import { openai } from "@ai-sdk/openai";
 import { createUIMessageStream, createUIMessageStreamResponse, streamText } from "ai";
 import { scoreConfidenceFromChunks } from "@/lib/confidence";
+import { detectConflicts } from "@/lib/conflict-detector";
 import { trackCost } from "@/lib/cost-tracker";
-import { buildChatSystemPrompt } from "@/lib/prompts";
+import { generateEmbeddings } from "@/lib/embeddings";
+import { findFactAnswer, formatFactAnswer } from "@/lib/fact-store";
+import { verifyGrounding } from "@/lib/grounding";
+import { buildChatSystemPrompt, buildFallbackAnswer } from "@/lib/prompts";
+import { basicPromptProfile, resolvePromptProfile } from "@/lib/prompt-profile";
 import {
   buildContextDocuments,
   dedupeSources,
-  DEFAULT_TOWN_ID,
-  hybridSearch,
   type RetrievedChunk,
 } from "@/lib/rag";
-import { getSupabaseClient } from "@/lib/supabase";
+import {
+  searchWithDecomposition,
+  decompositionTelemetry,
+  rerankTelemetry,
+  type DecomposedSearchResult,
+} from "@/lib/decomposed-search";
+import { regionalSearch, type RegionalTown } from "@/lib/regional-search";
+import { decomposeQuery, type QueryDecomposition } from "@/lib/query-decomposer";
+import { condenseQuery, type ConversationTurn } from "@/lib/query-rewriter";
+import type { RerankStats } from "@/lib/rerankers";
+import { logSearchTelemetry } from "@/lib/telemetry";
+import { getRequestSessionId, getTownFeatureFlags } from "@/lib/feature-flags";
 import { getTownById } from "@/lib/towns";
+import { getRequestTownId } from "@/lib/town-host";
+import { getTownSettings } from "@/lib/town-settings";
 import { getCachedAnswer, setCachedAnswer, invalidateCachedAnswer } from "@/lib/answer-cache";
 
-const DEFAULT_CHAT_MODEL = "gpt-5-nano";
-const ALLOWED_MODELS = new Set([
-  "gpt-5-nano", "gpt-5-mini", "gpt-4o-mini", "gpt-4.1-mini",
-]);
-
 type IncomingMessage = {
   role: "user" | "assistant" | "system";
   content: string;
@@ -29,6 +40,8 @@ type ChatRequestBody = {
   messages?: unknown;
   town_id?: unknown;
   townId?: unknown;
+  /** Opt in to regional mode: also search the town's neighboring tenants */
+  regional?: unknown;
 };
 
 function normalizeMessages(value: unknown): IncomingMessage[] {
@@ -69,6 +82,8 @@ function staticStreamResponse(options: {
     section?: string;
     date?: string;
     page_number?: number;
+    town_id?: string;
+    town_name?: string;
   }>;
   responseId: string;
   status?: number;
@@ -108,6 +123,7 @@ function staticStreamResponse(options: {
 export const maxDuration = 60;
 
 export async function POST(request: Request): Promise<Response> {
+  const start = performance.now();
   let body: ChatRequestBody;
 
   try {
@@ -135,20 +151,42 @@ export async function POST(request: Request): Promise<Response> {
   const townId =
     (typeof body.town_id === "string" && body.town_id.trim()) ||
     (typeof body.townId === "string" && body.townId.trim()) ||
-    DEFAULT_TOWN_ID;
+    getRequestTownId(request);
 
-  const townConfig = getTownById(townId);
+  const townConfig = await getTownById(townId);
   const townName = townConfig?.name ?? "Your Town";
   const townHallPhone =
     townConfig?.departments.find((d) => d.name === "Town Hall")?.phone ?? "";
+  const promptProfile = townConfig
+    ? resolvePromptProfile(townConfig)
+    : basicPromptProfile(townName, townHallPhone);
 
   const includeDisclaimer = messages.every((message) => message.role !== "assistant");
   const responseId = randomUUID();
 
+  // Follow-ups like "what about for a fence?" are searched as the standalone
+  // question they stand for, condensed from the turns before them
+  const history = messages
+    .slice(0, messages.lastIndexOf(latestUserMessage))
+    .filter((message): message is IncomingMessage & ConversationTurn => message.role !== "system");
+  const hasHistory = history.some((message) => message.role === "user");
+  const condensedQuery = hasHistory
+    ? await condenseQuery(latestUserMessage.content, history, townName)
+    : null;
+  const searchQuery = condensedQuery ?? latestUserMessage.content;
+  const regional = body.regional === true;
+  const { flags, assignments } = await getTownFeatureFlags(townConfig ?? townId, getRequestSessionId(request));
+  // With history, only a condensed question is a safe cache key: the same
+  // follow-up means something different in every conversation. Regional
+  // answers mix towns, so they never share the single-town cache.
+  const cacheQuery = regional || !flags.enableAnswerCache
+    ? null
+    : hasHistory ? condensedQuery : latestUserMessage.content;
+
   try {
     // Check answer cache first — skip entire RAG pipeline for cache hits
     try {
-      const cached = await getCachedAnswer(latestUserMessage.content, townId);
+      const cached = cacheQuery ? await getCachedAnswer(cacheQuery, townId) : null;
       if (cached) {
         // Reconstruct source references from cached data
         const cachedSources = (cached.sources ?? []).map((s, i) => ({
@@ -161,7 +199,7 @@ export async function POST(request: Request): Promise<Response> {
         // Skip cache entries with no sources — likely stale from a pipeline bug.
         // Invalidate the entry and fall through to the full RAG pipeline.
         if (cachedSources.length === 0) {
-          invalidateCachedAnswer(latestUserMessage.content, townId).catch(() => {});
+          invalidateCachedAnswer(searchQuery, townId).catch(() => {});
         } else {
           return staticStreamResponse({
             text: cached.answer_html,
@@ -186,11 +224,67 @@ export async function POST(request: Request): Promise<Response> {
     // Wrap retrieval in its own try/catch so embedding/Supabase failures
     // degrade gracefully to the "call Town Hall" fallback instead of a 500
     let chunks: RetrievedChunk[] = [];
+    let decomposition: QueryDecomposition | null = null;
+    let rerank: RerankStats | undefined;
+    let regionalTowns: RegionalTown[] = [];
     try {
-      const hybridResults = await hybridSearch(latestUserMessage.content, {
-        townId,
-        limit: 10,
-      });
+      decomposition = await decomposeQuery(searchQuery);
+
+      // Hours, fees and contacts: answer from the fact store when it has an exact match
+      // (single-town only — a regional question needs every town's answer)
+      const factAnswer = regional
+        ? null
+        : await findFactAnswer(searchQuery, { townId, decomposition }).catch((err) => {
+            console.warn("[api/chat] Fact store lookup failed:", err);
+            return null;
+          });
+      if (factAnswer) {
+        logSearchTelemetry({
+          query: searchQuery,
+          ...decompositionTelemetry(decomposition),
+          resultCount: factAnswer.facts.length,
+          totalLatencyMs: Math.round(performance.now() - start),
+          hadAiAnswer: true,
+          confidence: "high",
+          town: townId,
+          flagAssignments: assignments,
+        }).catch((err) => console.warn("[api/chat] Telemetry logging failed:", err));
+
+        return staticStreamResponse({
+          text: formatFactAnswer(factAnswer),
+          confidence: {
+            level: "high" as const,
+            label: "Verified from official sources",
+            color: "green" as const,
+            averageSimilarity: 1,
+            topSimilarity: 1,
+            supportingChunks: factAnswer.facts.length,
+            reason: "Answered from facts extracted from an official page",
+          },
+          sources: [
+            {
+              source_id: "S1",
+              citation: `[${factAnswer.source.title}]`,
+              document_title: factAnswer.source.title,
+              document_url: factAnswer.source.url,
+              date: factAnswer.source.date,
+            },
+          ],
+          responseId,
+        });
+      }
+
+      let searchResult: DecomposedSearchResult;
+      if (regional) {
+        const regionalResult = await regionalSearch(searchQuery, { townId, limit: 10, decomposition });
+        regionalTowns = regionalResult.towns;
+        searchResult = regionalResult;
+      } else {
+        searchResult = await searchWithDecomposition(searchQuery, { townId, limit: 10, decomposition });
+      }
+      decomposition = searchResult.decomposition;
+      rerank = searchResult.rerank;
+      const hybridResults = searchResult.results;
       chunks = hybridResults.map((r, i) => ({
         id: r.id,
         chunkText: r.chunk_text,
@@ -202,7 +296,22 @@ export async function POST(request: Request): Promise<Response> {
       console.error("[api/chat] Retrieval failed, returning fallback:", retrievalError);
     }
 
-    const confidence = scoreConfidenceFromChunks(chunks, latestUserMessage.content);
+    const confidence = scoreConfidenceFromChunks(chunks, searchQuery);
+
+    // Fire-and-forget: record retrieval quality and how the question was decomposed
+    logSearchTelemetry({
+      query: searchQuery,
+      ...(decomposition ? decompositionTelemetry(decomposition) : {}),
+      ...rerankTelemetry(rerank),
+      resultCount: chunks.length,
+      topSimilarity: confidence.topSimilarity,
+      avgSimilarity: confidence.averageSimilarity,
+      totalLatencyMs: Math.round(performance.now() - start),
+      hadAiAnswer: chunks.length > 0,
+      confidence: confidence.level,
+      town: townId,
+      flagAssignments: assignments,
+    }).catch((err) => console.warn("[api/chat] Telemetry logging failed:", err));
     const sources = dedupeSources(chunks).map((source) => ({
       source_id: source.sourceId,
       citation: source.citation,
@@ -211,24 +320,13 @@ export async function POST(request: Request): Promise<Response> {
       section: source.section,
       date: source.date,
       page_number: source.pageNumber,
+      town_id: source.townId,
+      town_name: source.townName,
     }));
 
     if (chunks.length === 0) {
-      const fallbackPhone = townHallPhone ? ` at ${townHallPhone}` : "";
       return staticStreamResponse({
-        text: [
-          `I don't have specific information about that topic in my indexed documents.`,
-          `Your best bet is to call Town Hall${fallbackPhone} — they'll know right away or can point you to the right department.`,
-          "I can help with questions about:",
-          "- Permits and building requirements",
-          "- Trash & recycling (Transfer Station)",
-          "- Property taxes and payments",
-          "- Zoning regulations",
-          "- Schools and enrollment",
-          "- Town meetings and elections",
-          "- Recreation programs",
-          "- Department contact information",
-        ].join("\n\n"),
+        text: buildFallbackAnswer(promptProfile),
         confidence,
         sources: [], // No sources when no relevant chunks found
         responseId,
@@ -236,27 +334,25 @@ export async function POST(request: Request): Promise<Response> {
     }
 
     // Read configured chat model from town config
-    let chatModel = DEFAULT_CHAT_MODEL;
-    try {
-      const supabase = getSupabaseClient({ townId });
-      const { data } = await supabase
-        .from("towns")
-        .select("config")
-        .eq("id", townId)
-        .single();
-      const config = (data?.config as Record<string, unknown>) ?? {};
-      if (typeof config.chat_model === "string" && ALLOWED_MODELS.has(config.chat_model)) {
-        chatModel = config.chat_model;
-      }
-    } catch {
-      // Fall through to default model
-    }
+    const { chatModel } = await getTownSettings(townId);
+
+    // Flag sources that disagree on fees, hours, phone numbers or dates
+    // (within each town — towns are expected to differ from one another)
+    const conflicts = regionalTowns.length > 1
+      ? regionalTowns.flatMap((town) =>
+          detectConflicts(chunks.filter((chunk) => chunk.source.townId === town.townId), searchQuery, town.townId)
+        )
+      : detectConflicts(chunks, searchQuery, townId);
 
+    const contextDocuments = buildContextDocuments(chunks);
     const systemPrompt = buildChatSystemPrompt({
-      contextDocuments: buildContextDocuments(chunks),
+      contextDocuments,
       includeDisclaimer,
       townName,
       townHallPhone,
+      profile: promptProfile,
+      conflicts,
+      regionalTowns: regionalTowns.map((town) => town.townName),
     });
 
     const result = streamText({
@@ -287,6 +383,13 @@ export async function POST(request: Request): Promise<Response> {
           data: responseId,
           transient: true,
         });
+        if (conflicts.length > 0) {
+          writer.write({
+            type: "data-conflicts",
+            data: conflicts,
+            transient: true,
+          });
+        }
 
         // Stream LLM text in real-time
         const textPartId = randomUUID();
@@ -347,6 +450,34 @@ export async function POST(request: Request): Promise<Response> {
           .replaceAll(/FOLLOW_UPS:\s*.+?(?:\n|$)/gi, "")
           .trim();
 
+        // Post-stream: check each sentence against the context documents and
+        // let unsupported claims pull the confidence down
+        let finalConfidence = confidence;
+        try {
+          const grounding = await verifyGrounding(cleanedText, contextDocuments, {
+            embed: process.env.GROUNDING_EMBEDDING_CHECK === "true" ? generateEmbeddings : undefined,
+          });
+          writer.write({
+            type: "data-grounding",
+            data: grounding,
+            transient: true,
+          });
+          finalConfidence = scoreConfidenceFromChunks(
+            chunks,
+            searchQuery,
+            grounding.supportedRatio
+          );
+          if (finalConfidence.level !== confidence.level) {
+            writer.write({
+              type: "data-confidence",
+              data: finalConfidence,
+              transient: true,
+            });
+          }
+        } catch (err) {
+          console.warn("[api/chat] Grounding check failed:", err);
+        }
+
         // Fire-and-forget: log token usage and cost
         Promise.resolve(result.usage).then((usage) => {
           const prompt = usage.inputTokens ?? 0;
@@ -362,7 +493,7 @@ export async function POST(request: Request): Promise<Response> {
             metadata: {
               question_length: latestUserMessage.content.length,
               source_count: filteredSources.length,
-              confidence_level: confidence.level,
+              confidence_level: finalConfidence.level,
             },
           }).catch((err) => console.error("[api/chat] cost tracking error:", err));
         }).catch((err) => console.error("[api/chat] usage retrieval error:", err));
@@ -370,10 +501,11 @@ export async function POST(request: Request): Promise<Response> {
         // Fire-and-forget: cache this answer for future requests.
         // Prefer filtered sources; fall back to all sources if USED_SOURCES
         // parsing yielded empty. Never cache with 0 sources when we had some.
+        // Follow-ups are cached under their condensed question, or not at all.
         const sourcesToCache = filteredSources.length > 0 ? filteredSources : sources;
-        if (sourcesToCache.length > 0) {
+        if (cacheQuery && sourcesToCache.length > 0) {
           setCachedAnswer(
-            latestUserMessage.content,
+            cacheQuery,
             townId,
             cleanedText,
             sourcesToCache.map(s => ({ title: s.document_title, url: s.document_url ?? '' }))
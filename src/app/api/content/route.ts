@@ -8,25 +8,21 @@
  */
 
 import { NextRequest } from "next/server";
-import { getSupabaseClient } from "@/lib/supabase";
-import { DEFAULT_TOWN_ID } from "@/lib/towns";
-import { checkGeographicRelevance } from "@/lib/geo-filter";
+import { getTenantDb } from "@/lib/tenant-db";
+import { getRequestTownId } from "@/lib/town-host";
+import { checkGeographicRelevance, getTownGeography } from "@/lib/geo-filter";
 
 export async function GET(request: NextRequest): Promise<Response> {
   const { searchParams } = request.nextUrl;
-  const townId = searchParams.get("town")?.trim() || DEFAULT_TOWN_ID;
+  const townId = getRequestTownId(request, searchParams.get("town"));
   const category = searchParams.get("category")?.trim() || null;
   const sourceId = searchParams.get("source")?.trim() || null;
   const limit = Math.min(parseInt(searchParams.get("limit") || "20", 10), 100);
   const offset = parseInt(searchParams.get("offset") || "0", 10);
 
   try {
-    const supabase = getSupabaseClient({ townId });
-
-    let query = supabase
-      .from("content_items")
-      .select("id, source_id, category, title, content, summary, published_at, expires_at, url, image_url, metadata, created_at", { count: "exact" })
-      .eq("town_id", townId)
+    let query = getTenantDb(townId, { rls: true })
+      .select("content_items", "id, source_id, category, title, content, summary, published_at, expires_at, url, image_url, metadata, created_at", { count: "exact" })
       .order("published_at", { ascending: false })
       .range(offset, offset + limit - 1);
 
@@ -47,11 +43,12 @@ export async function GET(request: NextRequest): Promise<Response> {
       throw new Error(error.message);
     }
 
-    // Post-filter: remove geographically irrelevant content
+    // Post-filter: remove content that isn't about this town or its area
+    const geography = getTownGeography(townId);
     type ContentRow = { title?: string; content?: string; summary?: string; url?: string; category?: string };
     const filtered = (data ?? []).filter((item: ContentRow) => {
       const text = (item.summary || item.content?.slice(0, 2000)) ?? "";
-      const geo = checkGeographicRelevance(text, item.title ?? "", item.url ?? "", item.category ?? "news");
+      const geo = checkGeographicRelevance(text, item.title ?? "", item.url ?? "", item.category ?? "news", geography);
       return geo.isRelevant;
     });
 
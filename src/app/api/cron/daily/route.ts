@@ -4,11 +4,16 @@
  * Consolidates monitor, ingest, and generate into a single endpoint
  * to stay within Vercel Hobby plan limits (1 daily cron job).
  *
- * Runs at 6:00 AM UTC (1:00 AM Eastern) and executes in order:
+ * Runs at 6:00 AM UTC (1:00 AM Eastern) and, for every cron-enabled town in
+ * config/towns.ts, executes in order:
  * 1. Monitor — change detection on tracked pages
  * 2. Ingest — run all due connectors
  * 3. Generate — create articles from new content
  *
+ * Towns run one after another, each with its own share of the time budget
+ * and its own ingestion_log summary row; one town failing or running long
+ * doesn't stop the others.
+ *
  * The individual /api/cron/monitor, /api/cron/ingest, and /api/cron/generate
  * endpoints remain available for manual or on-demand use.
  *
@@ -24,7 +29,9 @@ import {
   summarizeExternalArticle,
   generateDailyBrief,
 } from "@/lib/article-generator";
-import { getSupabaseClient } from "@/lib/supabase";
+import { getSupabaseClient, getSupabaseServiceClient } from "@/lib/supabase";
+import { getCronTownIds } from "@/lib/towns";
+import type { Article } from "@/types/article";
 
 // Register all connector factories so the runner can instantiate them
 import "@/lib/connectors/register-all";
@@ -44,12 +51,34 @@ function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise
 /** Small delay to spread disk IO between cron steps. */
 const IO_COOLDOWN_MS = 3_000;
 
-async function runMonitorStep(): Promise<Record<string, unknown>> {
+/** Time all towns share — under maxDuration, with room left to respond. */
+const PIPELINE_BUDGET_MS = 270_000;
+const MONITOR_TIMEOUT_MS = 90_000;
+const INGEST_TIMEOUT_MS = 120_000;
+
+type StepResult = Record<string, unknown>;
+
+const budgetExhausted = (): StepResult => ({ status: "skipped", reason: "town time budget exhausted" });
+
+/** A step's timeout: its own cap, clipped to what is left of the town's budget. */
+function stepTimeout(capMs: number, deadline: number): number {
+  return Math.min(capMs, deadline - Date.now());
+}
+
+async function cooldown(deadline: number): Promise<void> {
+  if (deadline - Date.now() > IO_COOLDOWN_MS) {
+    await new Promise((r) => setTimeout(r, IO_COOLDOWN_MS));
+  }
+}
+
+async function runMonitorStep(townId: string, deadline: number): Promise<StepResult> {
+  const timeoutMs = stepTimeout(MONITOR_TIMEOUT_MS, deadline);
+  if (timeoutMs <= 0) return budgetExhausted();
   try {
     const monitor = await withTimeout(
-      runChangeDetection("needham", "vercel-cron"),
-      90_000,
-      "Monitor",
+      runChangeDetection(townId, "vercel-cron"),
+      timeoutMs,
+      `Monitor (${townId})`,
     );
     return {
       status: "ok",
@@ -57,25 +86,28 @@ async function runMonitorStep(): Promise<Record<string, unknown>> {
       changed: monitor.changedUrls.length,
       changedUrls: monitor.changedUrls,
       newUrls: monitor.newUrls,
+      purgedCachedAnswers: monitor.purgedCachedAnswers,
       errors: monitor.errors,
       durationMs: monitor.durationMs,
     };
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
-    console.error("[cron/daily] Monitor error:", message);
+    console.error(`[cron/daily] Monitor error (${townId}):`, message);
     return { status: "error", error: message };
   }
 }
 
-async function runIngestStep(): Promise<Record<string, unknown>> {
+async function runIngestStep(townId: string, deadline: number): Promise<StepResult> {
+  const timeoutMs = stepTimeout(INGEST_TIMEOUT_MS, deadline);
+  if (timeoutMs <= 0) return budgetExhausted();
   try {
     const connectorResults = await withTimeout(
-      runConnectors({ townId: "needham" }),
-      120_000,
-      "Ingest",
+      runConnectors({ townId }),
+      timeoutMs,
+      `Ingest (${townId})`,
     );
     if (connectorResults.length === 0) {
-      console.warn("[cron/daily] No connectors executed — source_configs may be empty or none are due");
+      console.warn(`[cron/daily] No connectors executed for ${townId} — source_configs may be empty or none are due`);
     }
     return {
       status: "ok",
@@ -86,6 +118,7 @@ async function runIngestStep(): Promise<Record<string, unknown>> {
         upserted: r.itemsUpserted,
         skipped: r.itemsSkipped,
         errors: r.errors,
+        ...(r.autoDisabled && { autoDisabled: true }),
         durationMs: r.durationMs,
       })),
       totalItemsUpserted: connectorResults.reduce((s, r) => s + r.itemsUpserted, 0),
@@ -94,40 +127,42 @@ async function runIngestStep(): Promise<Record<string, unknown>> {
     };
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
-    console.error("[cron/daily] Ingest error:", message);
+    console.error(`[cron/daily] Ingest error (${townId}):`, message);
     return { status: "error", error: message };
   }
 }
 
-async function runGenerateStep(): Promise<Record<string, unknown>> {
-  try {
-    let generated = 0;
-    const genErrors: string[] = [];
-    const genDetails: Record<string, unknown> = {};
+const ARTICLE_GENERATORS: { key: string; run: (townId: string) => Promise<Article[]> }[] = [
+  { key: "meeting_minutes", run: (townId) => generateFromMeetingMinutes({ townId }) },
+  { key: "public_record", run: (townId) => generateFromPublicRecord({ townId }) },
+  { key: "external", run: (townId) => summarizeExternalArticle({ townId }) },
+];
 
-    try {
-      const meetingArticles = await generateFromMeetingMinutes();
-      generated += meetingArticles.length;
-      genDetails.meeting_minutes = { count: meetingArticles.length, titles: meetingArticles.map(a => a.title) };
-    }
-    catch (e) { genErrors.push(`meeting_minutes: ${e instanceof Error ? e.message : String(e)}`); }
+async function runGenerateStep(townId: string, deadline: number): Promise<StepResult> {
+  let generated = 0;
+  const genErrors: string[] = [];
+  const genDetails: Record<string, unknown> = {};
 
-    try {
-      const recordArticles = await generateFromPublicRecord();
-      generated += recordArticles.length;
-      genDetails.public_record = { count: recordArticles.length, titles: recordArticles.map(a => a.title) };
+  for (const generator of ARTICLE_GENERATORS) {
+    const timeoutMs = deadline - Date.now();
+    if (timeoutMs <= 0) {
+      genDetails[generator.key] = budgetExhausted();
+      continue;
     }
-    catch (e) { genErrors.push(`public_record: ${e instanceof Error ? e.message : String(e)}`); }
-
     try {
-      const externalArticles = await summarizeExternalArticle();
-      generated += externalArticles.length;
-      genDetails.external = { count: externalArticles.length, titles: externalArticles.map(a => a.title) };
+      const articles = await withTimeout(generator.run(townId), timeoutMs, `${generator.key} (${townId})`);
+      generated += articles.length;
+      genDetails[generator.key] = { count: articles.length, titles: articles.map(a => a.title) };
     }
-    catch (e) { genErrors.push(`external: ${e instanceof Error ? e.message : String(e)}`); }
+    catch (e) { genErrors.push(`${generator.key}: ${e instanceof Error ? e.message : String(e)}`); }
+  }
 
+  const briefTimeoutMs = deadline - Date.now();
+  if (briefTimeoutMs <= 0) {
+    genDetails.daily_brief = budgetExhausted();
+  } else {
     try {
-      const brief = await generateDailyBrief();
+      const brief = await withTimeout(generateDailyBrief({ townId }), briefTimeoutMs, `daily_brief (${townId})`);
       if (brief) {
         generated += 1;
         genDetails.daily_brief = { generated: true, title: brief.title };
@@ -136,18 +171,78 @@ async function runGenerateStep(): Promise<Record<string, unknown>> {
       }
     }
     catch (e) { genErrors.push(`daily_brief: ${e instanceof Error ? e.message : String(e)}`); }
+  }
 
-    return {
-      status: genErrors.length === 0 ? "ok" : "partial",
-      articlesGenerated: generated,
-      details: genDetails,
-      errors: genErrors,
-    };
+  return {
+    status: genErrors.length === 0 ? "ok" : "partial",
+    articlesGenerated: generated,
+    details: genDetails,
+    errors: genErrors,
+  };
+}
+
+interface TownRun {
+  budgetMs: number;
+  monitor?: StepResult;
+  ingest?: StepResult;
+  generate?: StepResult;
+  durationMs?: number;
+  error?: string;
+}
+
+/** One ingestion_log row per town summarizing its run. Non-fatal. */
+async function logTownRun(townId: string, run: TownRun): Promise<void> {
+  const statusOf = (step?: StepResult) => step?.status ?? "not_run";
+  const failedSteps = [run.monitor, run.ingest, run.generate]
+    .filter((step) => statusOf(step) === "error" || statusOf(step) === "partial").length;
+  try {
+    const supabase = getSupabaseServiceClient();
+    await supabase.from("ingestion_log").insert({
+      town_id: townId,
+      action: "daily",
+      documents_processed: run.ingest?.totalItemsUpserted ?? 0,
+      errors: failedSteps + (run.error ? 1 : 0),
+      duration_ms: run.durationMs,
+      details: {
+        triggered_by: "vercel-cron",
+        budget_ms: run.budgetMs,
+        monitor: statusOf(run.monitor),
+        ingest: statusOf(run.ingest),
+        generate: statusOf(run.generate),
+        articles_generated: run.generate?.articlesGenerated ?? 0,
+        error: run.error ?? null,
+      },
+    });
+  } catch (err) {
+    console.warn(`[cron/daily] Failed to log run for ${townId}:`, err);
+  }
+}
+
+/**
+ * Monitor → ingest → generate for one town within its time budget. Steps
+ * that would start after the budget is spent are reported as skipped, and
+ * nothing one town does can fail another town's run.
+ */
+async function runTownPipeline(townId: string, budgetMs: number): Promise<TownRun> {
+  const start = Date.now();
+  const deadline = start + budgetMs;
+  const run: TownRun = { budgetMs };
+
+  try {
+    run.monitor = await runMonitorStep(townId, deadline);
+    await cooldown(deadline);
+    run.ingest = await runIngestStep(townId, deadline);
+    await cooldown(deadline);
+    run.generate = await runGenerateStep(townId, deadline);
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
-    console.error("[cron/daily] Generate error:", message);
-    return { status: "error", error: message };
+    console.error(`[cron/daily] Pipeline error (${townId}):`, message);
+    run.error = message;
   }
+
+  run.durationMs = Date.now() - start;
+  await logTownRun(townId, run);
+  return run;
 }
 
 export const runtime = "nodejs";
@@ -177,15 +272,16 @@ export async function GET(request: NextRequest) {
     console.warn("[cron/daily] Keep-alive ping failed:", e);
   }
 
-  results.monitor = await runMonitorStep();
-
-  await new Promise((r) => setTimeout(r, IO_COOLDOWN_MS));
-
-  results.ingest = await runIngestStep();
-
-  await new Promise((r) => setTimeout(r, IO_COOLDOWN_MS));
-
-  results.generate = await runGenerateStep();
+  // Each town gets an equal share of the time left, so time a town
+  // doesn't use rolls over to the towns after it
+  const townIds = await getCronTownIds();
+  const towns: Record<string, TownRun> = {};
+  for (const [index, townId] of townIds.entries()) {
+    const remainingMs = PIPELINE_BUDGET_MS - (Date.now() - startTime);
+    const budgetMs = Math.floor(remainingMs / (townIds.length - index));
+    towns[townId] = await runTownPipeline(townId, budgetMs);
+  }
+  results.towns = towns;
 
   results.totalDurationMs = Date.now() - startTime;
 
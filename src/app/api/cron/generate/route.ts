@@ -10,6 +10,9 @@
  * 3. Summarize external news (from content_items ingested by RSS/scrape)
  * 4. Generate daily brief from today's articles
  *
+ * Query params:
+ *   ?town=needham        — generate for this town (default town otherwise)
+ *
  * Security: Protected by CRON_SECRET Bearer token.
  */
 
@@ -35,6 +38,7 @@ export async function GET(request: NextRequest) {
     }
   }
 
+  const townId = request.nextUrl.searchParams.get("town") ?? undefined;
   const startTime = Date.now();
   let generated = 0;
   let skipped = 0;
@@ -42,7 +46,7 @@ export async function GET(request: NextRequest) {
 
   // Step 1: Meeting minutes
   try {
-    const articles = await generateFromMeetingMinutes();
+    const articles = await generateFromMeetingMinutes({ townId });
     generated += articles.length;
   } catch (err) {
     errors.push(`meeting_minutes: ${err instanceof Error ? err.message : String(err)}`);
@@ -50,7 +54,7 @@ export async function GET(request: NextRequest) {
 
   // Step 2: Public records
   try {
-    const articles = await generateFromPublicRecord();
+    const articles = await generateFromPublicRecord({ townId });
     generated += articles.length;
   } catch (err) {
     errors.push(`public_record: ${err instanceof Error ? err.message : String(err)}`);
@@ -58,7 +62,7 @@ export async function GET(request: NextRequest) {
 
   // Step 3: External article summaries
   try {
-    const articles = await summarizeExternalArticle();
+    const articles = await summarizeExternalArticle({ townId });
     generated += articles.length;
   } catch (err) {
     errors.push(`external: ${err instanceof Error ? err.message : String(err)}`);
@@ -66,7 +70,7 @@ export async function GET(request: NextRequest) {
 
   // Step 4: Daily brief
   try {
-    const brief = await generateDailyBrief();
+    const brief = await generateDailyBrief({ townId });
     if (brief) {
       generated += 1;
     } else {
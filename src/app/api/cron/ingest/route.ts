@@ -71,17 +71,17 @@ export async function GET(request: NextRequest) {
       let generated = 0;
       const genErrors: string[] = [];
 
-      try { generated += (await generateFromMeetingMinutes()).length; }
+      try { generated += (await generateFromMeetingMinutes({ townId })).length; }
       catch (e) { genErrors.push(`meeting_minutes: ${e instanceof Error ? e.message : String(e)}`); }
 
-      try { generated += (await generateFromPublicRecord()).length; }
+      try { generated += (await generateFromPublicRecord({ townId })).length; }
       catch (e) { genErrors.push(`public_record: ${e instanceof Error ? e.message : String(e)}`); }
 
-      try { generated += (await summarizeExternalArticle()).length; }
+      try { generated += (await summarizeExternalArticle({ townId })).length; }
       catch (e) { genErrors.push(`external: ${e instanceof Error ? e.message : String(e)}`); }
 
       try {
-        const brief = await generateDailyBrief();
+        const brief = await generateDailyBrief({ townId });
         if (brief) generated += 1;
       }
       catch (e) { genErrors.push(`daily_brief: ${e instanceof Error ? e.message : String(e)}`); }
@@ -2,14 +2,19 @@
  * /api/cron/monitor — Daily content change detection
  *
  * Triggered by Vercel Cron (daily at 6:00 AM UTC / 1:00 AM Eastern).
- * Checks tracked needhamma.gov pages for content changes via hash
- * comparison, monitors RSS for new pages, and flags stale documents.
+ * Checks a town's tracked pages for content changes via hash
+ * comparison, purges cached answers citing changed pages, monitors RSS
+ * for new pages, and flags stale documents.
+ *
+ * Query params:
+ *   ?town=needham        — town to check (default town otherwise)
  *
  * Security: Protected by CRON_SECRET Bearer token.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { runChangeDetection } from "@/lib/monitor";
+import { DEFAULT_TOWN_ID } from "@/lib/towns";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -25,8 +30,10 @@ export async function GET(request: NextRequest) {
     }
   }
 
+  const townId = request.nextUrl.searchParams.get("town")?.trim() || DEFAULT_TOWN_ID;
+
   try {
-    const result = await runChangeDetection("needham", "vercel-cron");
+    const result = await runChangeDetection(townId, "vercel-cron");
 
     return NextResponse.json({
       status: "completed",
@@ -35,6 +42,7 @@ export async function GET(request: NextRequest) {
       changed: result.changedUrls.length,
       changedUrls: result.changedUrls,
       newUrls: result.newUrls,
+      purgedCachedAnswers: result.purgedCachedAnswers,
       errors: result.errors,
       durationMs: result.durationMs,
     });
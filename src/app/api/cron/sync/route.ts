@@ -5,12 +5,16 @@
  * Runs change detection: HTTP HEAD checks on tracked URLs,
  * RSS feed check for new content, staleness flagging.
  *
+ * Query params:
+ *   ?town=needham        — town to check (the request's town otherwise)
+ *
  * Protected by CRON_SECRET or ADMIN_PASSWORD.
  */
 
+import { getTownSiteFeedUrls } from "@/lib/monitor";
 import { getSupabaseServiceClient } from "@/lib/supabase";
-
-const DEFAULT_TOWN_ID = "needham";
+import { getTenantDb } from "@/lib/tenant-db";
+import { getRequestTownId } from "@/lib/town-host";
 
 function isAuthorized(request: Request): boolean {
   const cronSecret = process.env.CRON_SECRET;
@@ -34,12 +38,11 @@ function isAuthorized(request: Request): boolean {
 async function runChangeDetection(townId: string) {
   const startTime = Date.now();
   const supabase = getSupabaseServiceClient();
+  const db = getTenantDb(townId);
   let errors = 0;
 
-  const { data: documents, error: fetchError } = await supabase
-    .from("documents")
-    .select("id, url, content_hash, metadata")
-    .eq("town_id", townId);
+  const { data: documents, error: fetchError } = await db
+    .select("documents", "id, url, content_hash, metadata");
 
   if (fetchError) throw new Error(`Failed to fetch documents: ${fetchError.message}`);
 
@@ -71,7 +74,7 @@ async function runChangeDetection(townId: string) {
 
       if (changed) changedUrls.push(doc.url);
 
-      await supabase.from("documents").update({
+      await db.update("documents", {
         metadata: { ...stored, last_modified: lastModified, content_length: contentLength, etag, last_checked: new Date().toISOString() },
       }).eq("id", doc.id);
     } catch {
@@ -79,26 +82,28 @@ async function runChangeDetection(townId: string) {
     }
   }
 
-  // Check RSS feed for new URLs
+  // Check the town website's RSS feeds for new URLs (none configured: skip)
   const newUrls: string[] = [];
-  try {
-    const rssResponse = await fetch("https://www.needhamma.gov/rss.aspx");
-    if (rssResponse.ok) {
-      const xml = await rssResponse.text();
-      const linkRegex = /<link>([^<]+)<\/link>/g;
-      const existingUrls = new Set(tracked.map((d) => d.url));
-      let match;
-      while ((match = linkRegex.exec(xml)) !== null) {
-        const url = match[1].trim();
-        if (url.startsWith("http") && !existingUrls.has(url)) newUrls.push(url);
+  const existingUrls = new Set(tracked.map((d) => d.url));
+  for (const feedUrl of await getTownSiteFeedUrls(townId)) {
+    try {
+      const rssResponse = await fetch(feedUrl);
+      if (rssResponse.ok) {
+        const xml = await rssResponse.text();
+        const linkRegex = /<link>([^<]+)<\/link>/g;
+        let match;
+        while ((match = linkRegex.exec(xml)) !== null) {
+          const url = match[1].trim();
+          if (url.startsWith("http") && !existingUrls.has(url) && !newUrls.includes(url)) newUrls.push(url);
+        }
       }
-    }
-  } catch { errors++; }
+    } catch { errors++; }
+  }
 
   // Flag stale documents (not verified in 90 days)
   const ninetyDaysAgo = new Date();
   ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - 90);
-  await supabase.from("documents").update({ is_stale: true }).eq("town_id", townId).lt("last_verified_at", ninetyDaysAgo.toISOString());
+  await db.update("documents", { is_stale: true }).lt("last_verified_at", ninetyDaysAgo.toISOString());
 
   const durationMs = Date.now() - startTime;
 
@@ -118,7 +123,8 @@ export async function POST(request: Request): Promise<Response> {
   if (!isAuthorized(request)) return Response.json({ error: "Unauthorized" }, { status: 401 });
 
   try {
-    const result = await runChangeDetection(DEFAULT_TOWN_ID);
+    const townId = getRequestTownId(request, new URL(request.url).searchParams.get("town"));
+    const result = await runChangeDetection(townId);
     return Response.json({
       status: "completed",
       checked: result.checkedUrls,
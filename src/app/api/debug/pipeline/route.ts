@@ -12,6 +12,7 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { getSupabaseServiceClient } from "@/lib/supabase";
+import { getTenantDb, type TenantDb } from "@/lib/tenant-db";
 
 type SupabaseClient = ReturnType<typeof getSupabaseServiceClient>;
 
@@ -41,12 +42,9 @@ async function checkSourceConfigs(supabase: SupabaseClient): Promise<Record<stri
   }
 }
 
-async function checkContentItems(supabase: SupabaseClient): Promise<Record<string, unknown>> {
+async function checkContentItems(db: TenantDb): Promise<Record<string, unknown>> {
   try {
-    const { data: items } = await supabase
-      .from("content_items")
-      .select("source_id, id")
-      .eq("town_id", "needham");
+    const { data: items } = await db.select<{ source_id: string; id: string }>("content_items", "source_id, id");
 
     const bySource: Record<string, number> = {};
     for (const item of items ?? []) {
@@ -62,12 +60,12 @@ async function checkContentItems(supabase: SupabaseClient): Promise<Record<strin
   }
 }
 
-async function checkArticles(supabase: SupabaseClient): Promise<Record<string, unknown>> {
+async function checkArticles(db: TenantDb): Promise<Record<string, unknown>> {
   try {
-    const { data: articles } = await supabase
-      .from("articles")
-      .select("content_type, id, is_daily_brief")
-      .eq("town", "needham");
+    const { data: articles } = await db.select<{ content_type: string; id: string; is_daily_brief: boolean }>(
+      "articles",
+      "content_type, id, is_daily_brief"
+    );
 
     const byType: Record<string, number> = {};
     let dailyBriefCount = 0;
@@ -86,12 +84,10 @@ async function checkArticles(supabase: SupabaseClient): Promise<Record<string, u
   }
 }
 
-async function checkLastDailyBrief(supabase: SupabaseClient): Promise<Record<string, unknown> | null> {
+async function checkLastDailyBrief(db: TenantDb): Promise<Record<string, unknown> | null> {
   try {
-    const { data: lastBrief } = await supabase
-      .from("articles")
-      .select("id, title, published_at")
-      .eq("town", "needham")
+    const { data: lastBrief } = await db
+      .select("articles", "id, title, published_at")
       .eq("is_daily_brief", true)
       .order("published_at", { ascending: false })
       .limit(1)
@@ -118,14 +114,15 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
   }
 
   const supabase = getSupabaseServiceClient();
+  const db = getTenantDb("needham");
   const results: Record<string, unknown> = {
     timestamp: new Date().toISOString(),
   };
 
   results.source_configs = await checkSourceConfigs(supabase);
-  results.content_items = await checkContentItems(supabase);
-  results.articles = await checkArticles(supabase);
-  results.last_daily_brief = await checkLastDailyBrief(supabase);
+  results.content_items = await checkContentItems(db);
+  results.articles = await checkArticles(db);
+  results.last_daily_brief = await checkLastDailyBrief(db);
 
   return NextResponse.json(results);
 }
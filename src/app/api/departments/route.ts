@@ -1,9 +1,9 @@
-import { DEFAULT_TOWN_ID } from "@/lib/rag";
+import { getRequestTownId } from "@/lib/town-host";
 import { getSupabaseClient } from "@/lib/supabase";
 
 export async function GET(request: Request): Promise<Response> {
   const { searchParams } = new URL(request.url);
-  const townId = searchParams.get("town")?.trim() || DEFAULT_TOWN_ID;
+  const townId = getRequestTownId(request, searchParams.get("town"));
   try {
     const supabase = getSupabaseClient({ townId });
     const { data, error } = await supabase
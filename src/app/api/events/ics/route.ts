@@ -3,14 +3,16 @@
  *
  * Returns a VCALENDAR with all events for the next 90 days.
  * Residents can add this URL to Google Calendar, Apple Calendar,
- * or Outlook for live-syncing Needham events.
+ * or Outlook for live-syncing town events. PRODID and UIDs use the town's
+ * own domain, so each town's feed is distinct to calendar clients.
  *
- * GET /api/events/ics?town=needham
+ * GET /api/events/ics?town=needham (town defaults to the request's host)
  */
 
 import { NextRequest } from "next/server";
-import { getSupabaseClient } from "@/lib/supabase";
-import { DEFAULT_TOWN_ID } from "@/lib/towns";
+import { getTenantDb } from "@/lib/tenant-db";
+import { getRequestTownId, townHost } from "@/lib/town-host";
+import { getTownById, getTownByIdOrDefault, type TownConfig } from "@/lib/towns";
 
 export const dynamic = "force-dynamic";
 
@@ -44,14 +46,15 @@ function toICalDate(dateStr: string): string {
   return d.toISOString().replaceAll(/[-:]/g, "").replace(/\.\d{3}/, "");
 }
 
-function generateVCalendar(events: EventRow[]): string {
+function generateVCalendar(events: EventRow[], town: TownConfig): string {
+  const host = townHost(town);
   const lines = [
     "BEGIN:VCALENDAR",
     "VERSION:2.0",
-    "PRODID:-//NeedhamNavigator//Events//EN",
+    `PRODID:-//${host}//Events//EN`,
     "CALSCALE:GREGORIAN",
     "METHOD:PUBLISH",
-    "X-WR-CALNAME:Needham Navigator Events",
+    `X-WR-CALNAME:${escapeICalText(`${town.app_name} Events`)}`,
     "X-WR-TIMEZONE:America/New_York",
   ];
 
@@ -65,7 +68,7 @@ function generateVCalendar(events: EventRow[]): string {
 
     lines.push(
       "BEGIN:VEVENT",
-      `UID:${event.id}@needhamnavigator.com`,
+      `UID:${event.id}@${host}`,
       `DTSTART:${toICalDate(start)}`,
       `DTEND:${toICalDate(end)}`,
       `SUMMARY:${escapeICalText(event.title)}`,
@@ -96,18 +99,14 @@ function generateVCalendar(events: EventRow[]): string {
 }
 
 export async function GET(request: NextRequest): Promise<Response> {
-  const townId = request.nextUrl.searchParams.get("town")?.trim() || DEFAULT_TOWN_ID;
+  const townId = getRequestTownId(request, request.nextUrl.searchParams.get("town"));
 
   try {
-    const supabase = getSupabaseClient({ townId });
-
     // Fetch events for the next 90 days + past 7 days (for recently added events)
     const pastCutoff = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
 
-    const { data, error } = await supabase
-      .from("content_items")
-      .select("id, title, content, summary, url, published_at, metadata")
-      .eq("town_id", townId)
+    const { data, error } = await getTenantDb(townId, { rls: true })
+      .select<EventRow>("content_items", "id, title, content, summary, url, published_at, metadata")
       .eq("category", "events")
       .gte("published_at", pastCutoff)
       .order("published_at", { ascending: true })
@@ -115,12 +114,13 @@ export async function GET(request: NextRequest): Promise<Response> {
 
     if (error) throw new Error(error.message);
 
-    const ics = generateVCalendar((data ?? []) as EventRow[]);
+    const town = (await getTownById(townId)) ?? getTownByIdOrDefault(townId);
+    const ics = generateVCalendar(data ?? [], town);
 
     return new Response(ics, {
       headers: {
         "Content-Type": "text/calendar; charset=utf-8",
-        "Content-Disposition": 'attachment; filename="needham-events.ics"',
+        "Content-Disposition": `attachment; filename="${town.town_id}-events.ics"`,
         "Cache-Control": "public, max-age=3600, s-maxage=3600",
       },
     });
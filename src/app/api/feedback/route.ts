@@ -1,5 +1,5 @@
 import { createHash } from "crypto";
-import { DEFAULT_TOWN_ID } from "@/lib/rag";
+import { getRequestTownId } from "@/lib/town-host";
 import { getSupabaseClient } from "@/lib/supabase";
 
 type FeedbackRequestBody = {
@@ -73,7 +73,7 @@ export async function POST(request: Request): Promise<Response> {
   }
 
   const townId =
-    (typeof body.town_id === "string" && body.town_id.trim()) || DEFAULT_TOWN_ID;
+    getRequestTownId(request, typeof body.town_id === "string" ? body.town_id : null);
   const responseId =
     typeof body.response_id === "string" ? body.response_id.trim() : "";
   const sessionId = typeof body.session_id === "string" ? body.session_id.trim() : "";
@@ -1,22 +1,23 @@
 import { NextResponse } from "next/server";
-import { getSupabaseClient } from "@/lib/supabase";
+import { getTenantDb } from "@/lib/tenant-db";
+import { getRequestTownId } from "@/lib/town-host";
 
 /**
  * GET /api/health — Lightweight health check that also warms up
  * the serverless function so the search/chat API routes stay responsive.
  *
  * Called by Vercel cron to prevent cold starts, and also used by
- * CI health-check workflows.
+ * CI health-check workflows. Counts the chunks of the request's town
+ * (?town=, else the town resolved from the Host header).
  */
-export async function GET(): Promise<Response> {
+export async function GET(request: Request): Promise<Response> {
   const start = performance.now();
+  const townId = getRequestTownId(request, new URL(request.url).searchParams.get("town"));
 
   try {
     // Warm up the Supabase connection (shared across API routes)
-    const supabase = getSupabaseClient({});
-    const { count, error } = await supabase
-      .from("document_chunks")
-      .select("id", { count: "exact", head: true });
+    const { count, error } = await getTenantDb(townId, { rls: true })
+      .select("document_chunks", "id", { count: "exact", head: true });
 
     const durationMs = Math.round(performance.now() - start);
 
@@ -29,6 +30,7 @@ export async function GET(): Promise<Response> {
 
     return NextResponse.json({
       status: "ok",
+      town_id: townId,
       chunk_count: count,
       duration_ms: durationMs,
     });
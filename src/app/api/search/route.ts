@@ -1,7 +1,12 @@
 import { NextResponse } from 'next/server';
-import { hybridSearch, type HybridSearchResult, cleanDocumentTitle } from '@/lib/rag';
+import { type HybridSearchResult, cleanDocumentTitle } from '@/lib/rag';
+import { searchWithDecomposition, decompositionTelemetry, rerankTelemetry } from '@/lib/decomposed-search';
+import { regionalSearch } from '@/lib/regional-search';
 import { getCachedAnswer } from '@/lib/answer-cache';
-import { DEFAULT_TOWN_ID } from '@/lib/towns';
+import { getRequestSessionId, getTownFeatureFlags } from '@/lib/feature-flags';
+import { findFactAnswer, formatFactAnswerHtml } from '@/lib/fact-store';
+import { decomposeQuery } from '@/lib/query-decomposer';
+import { getRequestTownId } from '@/lib/town-host';
 import { stripMarkdown } from '@/lib/utils';
 import { logSearchTelemetry } from '@/lib/telemetry';
 import { canonicalizeUrl } from '@/lib/url-canonicalize';
@@ -24,6 +29,9 @@ interface SearchResult {
   ai_title?: string;
   ai_tags?: string[];
   content_type?: string;
+  // Regional mode: which town the result belongs to
+  town_id?: string;
+  town_name?: string;
 }
 
 type SearchRequestBody = {
@@ -31,6 +39,8 @@ type SearchRequestBody = {
   town_id?: unknown;
   townId?: unknown;
   limit?: unknown;
+  /** Opt in to regional mode: also search the town's neighboring tenants */
+  regional?: unknown;
 };
 
 function truncateSnippet(text: string, maxLength: number = 300): string {
@@ -91,6 +101,8 @@ function toSearchResult(result: HybridSearchResult): SearchResult {
     ai_title: aiTitle,
     ai_tags: aiTags,
     content_type: contentType,
+    town_id: result.source.townId,
+    town_name: result.source.townName,
   };
 }
 
@@ -145,6 +157,8 @@ function deduplicateByTitle(results: SearchResult[]): SearchResult[] {
     const normalized = stripTownSuffix(result.title.toLowerCase())
       .replaceAll(/\s+/g, ' ')
       .trim();
+    // Same-titled pages from different towns (regional mode) are different pages
+    const key = result.town_id ? `${result.town_id}:${normalized}` : normalized;
 
     // Skip very short or generic titles to avoid false merges
     if (normalized.length < 10) {
@@ -152,9 +166,9 @@ function deduplicateByTitle(results: SearchResult[]): SearchResult[] {
       continue;
     }
 
-    const existing = bestByTitle.get(normalized);
+    const existing = bestByTitle.get(key);
     if (!existing || result.similarity > existing.similarity) {
-      bestByTitle.set(normalized, result);
+      bestByTitle.set(key, result);
     }
   }
 
@@ -196,18 +210,32 @@ export async function POST(request: Request): Promise<Response> {
   const townId =
     (typeof body.town_id === 'string' && body.town_id.trim()) ||
     (typeof body.townId === 'string' && body.townId.trim()) ||
-    DEFAULT_TOWN_ID;
+    getRequestTownId(request);
 
   let limit = 10;
   if (typeof body.limit === 'number' && Number.isInteger(body.limit) && body.limit > 0) {
     limit = Math.min(body.limit, 20); // Cap at 20
   }
 
+  const regional = body.regional === true;
+  const { flags, assignments } = await getTownFeatureFlags(townId, getRequestSessionId(request));
+  const useAnswerCache = !regional && flags.enableAnswerCache;
+
   try {
-    // Run hybrid search and cache lookup in parallel
-    const [hybridResults, cachedAnswer] = await Promise.all([
-      hybridSearch(query, { townId, limit: limit * 3 }), // Over-fetch 3x for document-level dedup headroom
-      getCachedAnswer(query, townId),
+    // Decompose once, then run hybrid search, cache lookup and fact lookup in parallel.
+    // Cached and fact answers cover a single town, so regional mode skips them.
+    const decomposition = await decomposeQuery(query);
+    const [{ results: hybridResults, rerank }, cachedAnswer, factAnswer] = await Promise.all([
+      regional // Over-fetch 3x for document-level dedup headroom
+        ? regionalSearch(query, { townId, limit: limit * 3, decomposition })
+        : searchWithDecomposition(query, { townId, limit: limit * 3, decomposition }),
+      useAnswerCache ? getCachedAnswer(query, townId) : null,
+      regional
+        ? null
+        : findFactAnswer(query, { townId, decomposition }).catch((error) => {
+            console.warn('[api/search] Fact store lookup failed:', error);
+            return null;
+          }),
     ]);
 
     // Convert to search results
@@ -234,12 +262,15 @@ export async function POST(request: Request): Promise<Response> {
 
     logSearchTelemetry({
       query,
+      ...decompositionTelemetry(decomposition),
+      ...rerankTelemetry(rerank),
       resultCount: results.length,
       topSimilarity,
       avgSimilarity,
       totalLatencyMs: timingMs,
-      hadAiAnswer: !!cachedAnswer,
+      hadAiAnswer: !!cachedAnswer || !!factAnswer,
       town: townId,
+      flagAssignments: assignments,
     }).catch((error) => {
       // Non-critical — log but don't fail the request
       console.warn('[api/search] Telemetry logging failed:', error);
@@ -248,6 +279,13 @@ export async function POST(request: Request): Promise<Response> {
     return NextResponse.json({
       results,
       cached_answer: cachedAnswer,
+      fact_answer: factAnswer
+        ? {
+            answer_html: formatFactAnswerHtml(factAnswer),
+            sources: [{ title: factAnswer.source.title, url: factAnswer.source.url, date: factAnswer.source.date }],
+            fact_types: Array.from(new Set(factAnswer.facts.map((fact) => fact.factType))),
+          }
+        : null,
       timing_ms: timingMs,
     });
   } catch (error) {
@@ -1,6 +1,9 @@
 import type { MetadataRoute } from "next";
+import { headers } from "next/headers";
+import { getOriginForHost } from "@/lib/towns";
 
-export default function robots(): MetadataRoute.Robots {
+export default async function robots(): Promise<MetadataRoute.Robots> {
+  const origin = await getOriginForHost((await headers()).get("host"));
   return {
     rules: [
       {
@@ -9,6 +12,6 @@ export default function robots(): MetadataRoute.Robots {
         disallow: ["/admin", "/api/"],
       },
     ],
-    sitemap: "https://needhamnavigator.com/sitemap.xml",
+    sitemap: `${origin}/sitemap.xml`,
   };
 }
@@ -1,66 +1,51 @@
 import type { MetadataRoute } from "next";
-import { TOWN_CONFIGS } from "@/lib/towns";
+import { headers } from "next/headers";
+import { getTownFeatureFlags } from "@/lib/feature-flags";
+import { townOrigin, townUrl } from "@/lib/town-host";
+import { getOriginForHost, listTowns } from "@/lib/towns";
 
-export default function sitemap(): MetadataRoute.Sitemap {
-  const baseUrl = "https://needhamnavigator.com";
+type SitemapEntry = MetadataRoute.Sitemap[number];
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  // Each domain lists only the towns served on it: a town's own domain lists
+  // that town, the shared site lists the towns without a domain of their own
+  const baseUrl = await getOriginForHost((await headers()).get("host"));
   const now = new Date();
 
+  // Keyed by URL — a town on its own domain has its homepage at the root
+  const urls = new Map<string, SitemapEntry>();
+  const add = (url: string, changeFrequency: SitemapEntry["changeFrequency"], priority: number) => {
+    if (!urls.has(url)) {
+      urls.set(url, { url, lastModified: now, changeFrequency, priority });
+    }
+  };
+
   // Root URL
-  const urls: MetadataRoute.Sitemap = [
-    {
-      url: baseUrl,
-      lastModified: now,
-      changeFrequency: "daily",
-      priority: 1.0,
-    },
-  ];
+  add(baseUrl, "daily", 1.0);
 
-  for (const town of TOWN_CONFIGS) {
+  for (const town of await listTowns()) {
     // Skip test towns
     if (town.town_id === "mock-town") continue;
+    if (townOrigin(town) !== baseUrl) continue;
 
     // Town homepage
-    urls.push({
-      url: `${baseUrl}/${town.town_id}`,
-      lastModified: now,
-      changeFrequency: "daily",
-      priority: 1.0,
-    });
+    add(townUrl(town), "daily", 1.0);
 
     // Chat — always available
-    urls.push({
-      url: `${baseUrl}/${town.town_id}/chat`,
-      lastModified: now,
-      changeFrequency: "weekly",
-      priority: 0.8,
-    });
+    add(townUrl(town, "/chat"), "weekly", 0.8);
 
     // Permits — always available
-    urls.push({
-      url: `${baseUrl}/${town.town_id}/permits`,
-      lastModified: now,
-      changeFrequency: "weekly",
-      priority: 0.7,
-    });
+    add(townUrl(town, "/permits"), "weekly", 0.7);
 
-    // Feature-flagged routes
-    if (town.feature_flags.enableNews) {
-      urls.push({
-        url: `${baseUrl}/${town.town_id}/news`,
-        lastModified: now,
-        changeFrequency: "daily",
-        priority: 0.6,
-      });
+    // Feature-flagged routes (no session, so only fully rolled-out overrides apply)
+    const { flags } = await getTownFeatureFlags(town);
+    if (flags.enableNews) {
+      add(townUrl(town, "/news"), "daily", 0.6);
     }
-    if (town.feature_flags.enableEvents) {
-      urls.push({
-        url: `${baseUrl}/${town.town_id}/events`,
-        lastModified: now,
-        changeFrequency: "daily",
-        priority: 0.6,
-      });
+    if (flags.enableEvents) {
+      add(townUrl(town, "/events"), "daily", 0.6);
     }
   }
 
-  return urls;
+  return [...urls.values()];
 }
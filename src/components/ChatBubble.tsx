@@ -3,7 +3,11 @@
 import { SourceChip } from "./SourceChip";
 import { ConfidenceBadge } from "./ConfidenceBadge";
 import { FeedbackButtons } from "./FeedbackButtons";
+import { ConflictNotice } from "./ConflictNotice";
+import { GroundingNotice } from "./GroundingNotice";
 import type { MockSource } from "@/lib/mock-data";
+import type { SourceConflict } from "@/lib/conflict-detector";
+import type { GroundingReport } from "@/lib/grounding";
 
 export interface ChatMessage {
   id: string;
@@ -12,6 +16,8 @@ export interface ChatMessage {
   sources?: MockSource[];
   confidence?: "high" | "medium" | "low";
   followups?: string[];
+  conflicts?: SourceConflict[];
+  grounding?: GroundingReport;
 }
 
 interface ChatBubbleProps {
@@ -75,6 +81,14 @@ export function ChatBubble({ message, onFollowupClick, sessionId, isFirstAiMessa
             dangerouslySetInnerHTML={{ __html: formatMarkdown(message.text) }}
           />
 
+          {/* Sources disagree notice */}
+          {message.conflicts && message.conflicts.length > 0 && (
+            <ConflictNotice conflicts={message.conflicts} />
+          )}
+
+          {/* Claims the sources don't support */}
+          {message.grounding && <GroundingNotice grounding={message.grounding} />}
+
           {/* Source chips */}
           {message.sources && message.sources.length > 0 && (
             <div className="flex flex-wrap gap-1.5 mt-3 sm:flex-wrap overflow-x-auto scrollbar-hide">
@@ -0,0 +1,60 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import { useI18n } from "@/lib/i18n";
+import type { ConflictingValue, SourceConflict } from "@/lib/conflict-detector";
+
+interface ConflictNoticeProps {
+  conflicts: SourceConflict[];
+}
+
+function formatSourceDate(date: string | undefined): string | null {
+  if (!date) return null;
+  const parsed = new Date(`${date}T12:00:00`);
+  if (Number.isNaN(parsed.getTime())) return null;
+  return parsed.toLocaleDateString("en-US", { month: "short", year: "numeric" });
+}
+
+function describeSource(value: ConflictingValue): string {
+  const date = formatSourceDate(value.date);
+  return date ? `${value.documentTitle}, ${date}` : value.documentTitle;
+}
+
+/**
+ * "Sources disagree — newest says X" notice, shown when retrieved documents
+ * state different fees, hours, phone numbers or dates for the same thing.
+ */
+export function ConflictNotice({ conflicts }: ConflictNoticeProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="mt-3 px-3 py-2.5 bg-[#FFFBEB] border border-[#FDE68A] rounded-lg text-[12.5px] text-text-primary space-y-2">
+      {conflicts.map((conflict) => {
+        const headline = conflict.newest.date
+          ? t("conflicts.newest_says", { value: conflict.newest.value })
+          : t("conflicts.top_says", { value: conflict.newest.value });
+
+        return (
+          <div key={`${conflict.kind}:${conflict.subject}`} className="flex items-start gap-2">
+            <AlertTriangle size={14} className="text-warning shrink-0 mt-0.5" />
+            <div className="min-w-0">
+              <span className="font-semibold">{t("conflicts.title")}</span>
+              {" — "}
+              {headline}
+              <span className="text-text-muted"> ({describeSource(conflict.newest)})</span>
+              {conflict.others.length > 0 && (
+                <div className="text-text-muted text-[11.5px] mt-0.5">
+                  {t("conflicts.also_stated", {
+                    values: conflict.others
+                      .map((other) => `${other.value} (${describeSource(other)})`)
+                      .join("; "),
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
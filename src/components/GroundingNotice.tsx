@@ -0,0 +1,53 @@
+"use client";
+
+import { HelpCircle } from "lucide-react";
+import { useI18n } from "@/lib/i18n";
+import type { GroundingReport } from "@/lib/grounding";
+
+interface GroundingNoticeProps {
+  grounding: GroundingReport;
+}
+
+const MAX_LISTED_SENTENCES = 3;
+const MAX_SENTENCE_CHARS = 140;
+
+function shorten(text: string): string {
+  return text.length > MAX_SENTENCE_CHARS ? `${text.slice(0, MAX_SENTENCE_CHARS - 1).trimEnd()}…` : text;
+}
+
+/**
+ * Lists the answer sentences the grounding check couldn't match to any
+ * source, so residents know which claims to verify. Renders nothing when
+ * every checked sentence is supported.
+ */
+export function GroundingNotice({ grounding }: GroundingNoticeProps) {
+  const { t } = useI18n();
+  const unsupported = grounding.sentences.filter((sentence) => !sentence.supported);
+  if (unsupported.length === 0) return null;
+
+  const listed = unsupported.slice(0, MAX_LISTED_SENTENCES);
+  const remaining = unsupported.length - listed.length;
+
+  return (
+    <div className="mt-3 px-3 py-2.5 bg-[#F8FAFC] border border-border-default rounded-lg text-[12.5px] text-text-primary">
+      <div className="flex items-start gap-2">
+        <HelpCircle size={14} className="text-text-muted shrink-0 mt-0.5" />
+        <div className="min-w-0">
+          <span className="font-semibold">{t("grounding.title")}</span>
+          {" — "}
+          <span className="text-text-muted">{t("grounding.hint")}</span>
+          <ul className="mt-1 space-y-0.5 text-text-muted text-[11.5px] list-disc pl-4">
+            {listed.map((sentence) => (
+              <li key={sentence.text}>“{shorten(sentence.text)}”</li>
+            ))}
+          </ul>
+          {remaining > 0 && (
+            <div className="text-text-muted text-[11.5px] mt-0.5">
+              {t("grounding.more", { count: String(remaining) })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
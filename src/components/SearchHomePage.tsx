@@ -16,6 +16,8 @@ import { ArticleSkeleton } from "@/components/ArticleSkeleton";
 import { useTown, useTownHref } from "@/lib/town-context";
 import { useChatWidget } from "@/lib/chat-context";
 import type { SearchResponse, CachedAnswer } from "@/types/search";
+import type { SourceConflict } from "@/lib/conflict-detector";
+import type { GroundingReport } from "@/lib/grounding";
 import type { Article, ArticleListResponse } from "@/types/article";
 import { trackEvent } from "@/lib/pendo";
 import { stripInternalMetadata, formatRelativeTime, extractPreviewText } from "@/lib/text-utils";
@@ -147,7 +149,7 @@ type AIAnswerState =
   | { type: "idle" }
   | { type: "loading" }
   | { type: "cached"; answer: CachedAnswer }
-  | { type: "loaded"; html: string; sources: { title: string; url: string; date?: string }[]; followUps?: string[] }
+  | { type: "loaded"; html: string; sources: { title: string; url: string; date?: string }[]; followUps?: string[]; conflicts?: SourceConflict[]; grounding?: GroundingReport }
   | { type: "error"; message: string };
 
 function normalizeQuery(value: string | null): string {
@@ -255,13 +257,19 @@ export function SearchHomePage({ initialQuery = "" }: Readonly<SearchHomePagePro
           town_id: town.town_id,
         });
 
-        // 2. Check for cached answer
+        // 2. Exact answer from the fact store (hours, fees, contacts) wins over cached prose
+        if (data.fact_answer) {
+          setAiAnswer({ type: "loaded", html: data.fact_answer.answer_html, sources: data.fact_answer.sources });
+          return;
+        }
+
+        // 3. Check for cached answer
         if (data.cached_answer) {
           setAiAnswer({ type: "cached", answer: data.cached_answer });
           return;
         }
 
-        // 3. Always generate AI answer for uncached queries
+        // 4. Always generate AI answer for uncached queries
         if (data.results.length > 0) {
           // Only generate if we have results
           setAiAnswer({ type: "loading" });
@@ -301,6 +309,8 @@ export function SearchHomePage({ initialQuery = "" }: Readonly<SearchHomePagePro
             let answerHtml = "";
             let sources: { title: string; url: string; date?: string }[] = [];
             let followUps: string[] = [];
+            let conflicts: SourceConflict[] = [];
+            let grounding: GroundingReport | undefined;
             const decoder = new TextDecoder();
 
             while (true) {
@@ -336,6 +346,16 @@ export function SearchHomePage({ initialQuery = "" }: Readonly<SearchHomePagePro
                   if (parsed.type === "data-followups") {
                     followUps = (parsed.data ?? []) as string[];
                   }
+
+                  // Handle sources that disagree with each other
+                  if (parsed.type === "data-conflicts") {
+                    conflicts = (parsed.data ?? []) as SourceConflict[];
+                  }
+
+                  // Handle answer sentences the sources don't support
+                  if (parsed.type === "data-grounding") {
+                    grounding = parsed.data as GroundingReport;
+                  }
                 } catch {
                   // Skip malformed JSON
                 }
@@ -344,7 +364,7 @@ export function SearchHomePage({ initialQuery = "" }: Readonly<SearchHomePagePro
 
             const cleanedHtml = stripInternalMetadata(answerHtml);
             if (cleanedHtml) {
-              setAiAnswer({ type: "loaded", html: cleanedHtml, sources, followUps });
+              setAiAnswer({ type: "loaded", html: cleanedHtml, sources, followUps, conflicts, grounding });
             } else {
               setAiAnswer({ type: "error", message: "No answer generated" });
             }
@@ -796,6 +816,8 @@ export function SearchHomePage({ initialQuery = "" }: Readonly<SearchHomePagePro
                 answerHtml={aiAnswer.html}
                 sources={aiAnswer.sources}
                 followUps={aiAnswer.followUps}
+                conflicts={aiAnswer.conflicts}
+                grounding={aiAnswer.grounding}
                 onFollowUp={handleFollowUp}
               />
             )}
@@ -346,6 +346,8 @@ function ChatContent() {
         let confidence: "high" | "medium" | "low" | undefined;
         let sources: NonNullable<ChatMessage["sources"]> = [];
         let followUps: string[] = [];
+        let conflicts: NonNullable<ChatMessage["conflicts"]> = [];
+        let grounding: ChatMessage["grounding"];
 
         await parseStreamResponse(response, {
           onText: () => {
@@ -361,9 +363,15 @@ function ChatContent() {
           onFollowUps: (fups) => {
             followUps = fups;
           },
+          onConflicts: (found) => {
+            conflicts = found;
+          },
+          onGrounding: (report) => {
+            grounding = report;
+          },
           onDone: (cleanedText) => {
             completeResponse(
-              { id: `ai-${crypto.randomUUID().slice(0, 8)}`, role: "ai", text: cleanedText || "No response received.", sources, confidence, followups: followUps },
+              { id: `ai-${crypto.randomUUID().slice(0, 8)}`, role: "ai", text: cleanedText || "No response received.", sources, confidence, followups: followUps, conflicts, grounding },
               startTime
             );
           },
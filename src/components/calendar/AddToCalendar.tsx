@@ -2,6 +2,8 @@
 
 import { useState, useRef, useEffect } from "react";
 import { CalendarPlus, ChevronDown } from "lucide-react";
+import { useTown } from "@/lib/town-context";
+import { townHost } from "@/lib/town-host";
 import type { EventItem } from "./CalendarView";
 
 function formatGCalDate(dateStr: string): string {
@@ -39,7 +41,8 @@ function escapeICalText(text: string): string {
     .replaceAll("\n", "\\n");
 }
 
-function generateIcsContent(event: EventItem): string {
+/** `host` is the town's canonical domain, used for PRODID and the event UID */
+function generateIcsContent(event: EventItem, host: string): string {
   const start = event.metadata?.event_start || event.published_at;
   const end = event.metadata?.event_end || start;
   const description = escapeICalText(event.summary || event.content?.slice(0, 500) || "");
@@ -47,7 +50,7 @@ function generateIcsContent(event: EventItem): string {
   const lines = [
     "BEGIN:VCALENDAR",
     "VERSION:2.0",
-    "PRODID:-//NeedhamNavigator//EN",
+    `PRODID:-//${host}//EN`,
     "CALSCALE:GREGORIAN",
     "BEGIN:VEVENT",
     `DTSTART:${formatICalDate(start)}`,
@@ -62,7 +65,7 @@ function generateIcsContent(event: EventItem): string {
   }
 
   lines.push(
-    `UID:${event.id}@needhamnavigator.com`,
+    `UID:${event.id}@${host}`,
     "END:VEVENT",
     "END:VCALENDAR",
   );
@@ -70,8 +73,8 @@ function generateIcsContent(event: EventItem): string {
   return lines.join("\r\n");
 }
 
-function downloadIcs(event: EventItem) {
-  const content = generateIcsContent(event);
+function downloadIcs(event: EventItem, host: string) {
+  const content = generateIcsContent(event, host);
   const blob = new Blob([content], { type: "text/calendar;charset=utf-8" });
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
@@ -88,6 +91,7 @@ interface AddToCalendarProps {
 }
 
 export function AddToCalendar({ event }: Readonly<AddToCalendarProps>) {
+  const town = useTown();
   const [open, setOpen] = useState(false);
   const ref = useRef<HTMLDivElement>(null);
 
@@ -127,7 +131,7 @@ export function AddToCalendar({ event }: Readonly<AddToCalendarProps>) {
           </a>
           <button
             onClick={() => {
-              downloadIcs(event);
+              downloadIcs(event, townHost(town));
               setOpen(false);
             }}
             className="block w-full text-left px-3 py-2 text-sm text-text-primary hover:bg-gray-50 transition-colors"
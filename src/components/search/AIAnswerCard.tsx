@@ -3,6 +3,10 @@
 import { useState } from "react";
 import { Bot, Check, MessageCircle, Send, Sparkles } from "lucide-react";
 import { SourceChip } from "@/components/SourceChip";
+import { ConflictNotice } from "@/components/ConflictNotice";
+import { GroundingNotice } from "@/components/GroundingNotice";
+import type { SourceConflict } from "@/lib/conflict-detector";
+import type { GroundingReport } from "@/lib/grounding";
 import type { CachedAnswer } from "@/types/search";
 
 type AIAnswerCardProps =
@@ -19,6 +23,8 @@ type AIAnswerCardProps =
       answerHtml: string;
       sources: { title: string; url: string; date?: string }[];
       followUps?: string[];
+      conflicts?: SourceConflict[];
+      grounding?: GroundingReport;
       onFollowUp: (question: string) => void;
     }
   | {
@@ -73,12 +79,16 @@ function AnswerBody({
   html,
   sources,
   followUps,
+  conflicts,
+  grounding,
   onFollowUp,
   badge,
 }: Readonly<{
   html: string;
   sources: { title: string; url: string; date?: string }[];
   followUps?: string[];
+  conflicts?: SourceConflict[];
+  grounding?: GroundingReport;
   onFollowUp: (question: string) => void;
   badge?: React.ReactNode;
 }>) {
@@ -102,6 +112,18 @@ function AnswerBody({
         AI answers may not be current — always verify with official sources for critical decisions.
       </p>
 
+      {conflicts && conflicts.length > 0 && (
+        <div className="mb-3">
+          <ConflictNotice conflicts={conflicts} />
+        </div>
+      )}
+
+      {grounding && grounding.unsupportedCount > 0 && (
+        <div className="mb-3">
+          <GroundingNotice grounding={grounding} />
+        </div>
+      )}
+
       {sources.length > 0 && (
         <div className="flex flex-wrap gap-1.5 mb-3">
           {sources.map((source) => (
@@ -199,6 +221,8 @@ export function AIAnswerCard(props: AIAnswerCardProps) {
       html={props.answerHtml}
       sources={props.sources}
       followUps={props.followUps}
+      conflicts={props.conflicts}
+      grounding={props.grounding}
       onFollowUp={props.onFollowUp}
     />
   );
@@ -120,6 +120,8 @@ export const FloatingChat = forwardRef<FloatingChatHandle, FloatingChatProps>(
 
           let confidence: "high" | "medium" | "low" | undefined;
           let sources: MockSource[] = [];
+          let conflicts: NonNullable<ChatMessage["conflicts"]> = [];
+          let grounding: ChatMessage["grounding"];
 
           await parseStreamResponse(response, {
             onText: () => {
@@ -132,6 +134,12 @@ export const FloatingChat = forwardRef<FloatingChatHandle, FloatingChatProps>(
             onSources: (srcs) => {
               sources = srcs;
             },
+            onConflicts: (found) => {
+              conflicts = found;
+            },
+            onGrounding: (report) => {
+              grounding = report;
+            },
             onDone: (cleanedText) => {
               const aiMessageId = `ai-${crypto.randomUUID().slice(0, 8)}`;
               const aiMessage: ChatMessage = {
@@ -141,6 +149,8 @@ export const FloatingChat = forwardRef<FloatingChatHandle, FloatingChatProps>(
                 sources,
                 confidence,
                 followups: [],
+                conflicts,
+                grounding,
               };
               latestAiMessageIdRef.current = aiMessageId;
               setMessages((prev) => [...prev, aiMessage]);
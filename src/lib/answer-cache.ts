@@ -1,12 +1,69 @@
 import { getSupabaseServiceClient } from './supabase';
+import { getTenantDb } from './tenant-db';
+import { generateEmbedding } from './embeddings';
+import { expandQuery, getSynonymDictionary } from './synonyms';
+import { getTownSettings } from './town-settings';
+import { canonicalizeUrl } from './url-canonicalize';
+import { filterEq, getVectorStore, VECTOR_NS_ANSWERS } from './vector-store';
 
 export interface CachedAnswer {
   answer_html: string;
   sources: { title: string; url: string }[];
   created_at: string;
   is_cached: true;
+  /** How the entry was found: exact normalized key, or a similar cached question */
+  match?: { tier: 'exact' } | { tier: 'semantic'; similarity: number; cachedQuery: string };
 }
 
+/** A paraphrase that landed near a cached question (served or not) */
+export interface CacheParaphrase {
+  id: string;
+  cached_answer_id: string;
+  query: string;
+  normalized_query: string;
+  similarity: number;
+  served: boolean;
+  hit_count: number;
+  last_seen_at: string;
+  cached_query?: string;
+}
+
+/** A cached answer removed because one of its sources changed */
+export interface CachePurge {
+  id: string;
+  cached_answer_id: string;
+  original_query: string | null;
+  normalized_query: string;
+  matched_url: string;
+  reason: string;
+  triggered_by: string;
+  purged_at: string;
+}
+
+/** Why a source-driven purge happened, recorded alongside each purge */
+export interface CachePurgeCause {
+  /** e.g. 'source_changed' (monitor) or 'content_item_updated' (connector) */
+  reason: string;
+  /** e.g. 'monitor:vercel-cron' or 'connector:<source_config id>' */
+  triggeredBy: string;
+}
+
+/** A cached_answers row, as read back for lookups and purges */
+interface CachedAnswerRow {
+  id: string;
+  normalized_query: string;
+  original_query: string | null;
+  answer_html: string;
+  sources: { title: string; url: string }[] | null;
+  created_at: string;
+}
+
+// Cached answers scanned per page when matching changed source URLs
+const PURGE_SCAN_PAGE_SIZE = 1000;
+
+// Similarities this far below a town's cutoff are recorded as near misses
+const NEAR_MISS_MARGIN = 0.07;
+
 const STOPWORDS = new Set([
   'what', 'where', 'when', 'how', 'who', 'which',
   'is', 'are', 'was', 'were', 'be', 'been',
@@ -34,8 +91,18 @@ export function normalizeQuery(query: string): string {
     .join(' ');
 }
 
+/**
+ * Text embedded for the semantic tier. Synonym expansion puts "when is the
+ * dump open" and "transfer station hours" close together in vector space.
+ */
+export async function cacheKeyText(query: string, townId: string): Promise<string> {
+  const dictionary = await getSynonymDictionary(townId);
+  return expandQuery(query.trim().toLowerCase(), dictionary).expandedQuery;
+}
+
 /**
  * Look up a cached answer. Returns null on miss.
+ * Tries the exact normalized key first, then the semantic tier.
  * Checks expiry — stale entries return null.
  */
 export async function getCachedAnswer(
@@ -43,28 +110,122 @@ export async function getCachedAnswer(
   townId: string
 ): Promise<CachedAnswer | null> {
   const normalized = normalizeQuery(query);
-  const supabase = getSupabaseServiceClient();
+  const db = getTenantDb(townId);
 
-  const { data, error } = await supabase
-    .from('cached_answers')
-    .select('answer_html, sources, created_at')
-    .eq('town_id', townId)
+  const { data, error } = await db
+    .select<CachedAnswerRow>('cached_answers', 'answer_html, sources, created_at')
     .eq('normalized_query', normalized)
     .gt('expires_at', new Date().toISOString())
     .order('created_at', { ascending: false })
     .limit(1)
     .single();
 
-  if (error || !data) return null;
+  if (!error && data) {
+    return {
+      answer_html: data.answer_html,
+      sources: data.sources as { title: string; url: string }[],
+      created_at: data.created_at,
+      is_cached: true,
+      match: { tier: 'exact' },
+    };
+  }
+
+  try {
+    return await getSemanticCachedAnswer(query, townId);
+  } catch (err) {
+    console.warn('[answer-cache] Semantic lookup failed:', err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+/**
+ * Second tier: find the closest cached question by embedding. Serves it when
+ * the similarity clears the town's cutoff; records both hits and near misses
+ * so admins can promote paraphrases to canonical cache keys.
+ */
+async function getSemanticCachedAnswer(
+  query: string,
+  townId: string
+): Promise<CachedAnswer | null> {
+  const normalized = normalizeQuery(query);
+  if (!normalized) return null;
+
+  const { semanticCacheThreshold } = await getTownSettings(townId);
+  if (semanticCacheThreshold >= 1) return null;
+
+  const embedding = await generateEmbedding(await cacheKeyText(query, townId));
+  const [best] = await getVectorStore().query(
+    VECTOR_NS_ANSWERS,
+    embedding,
+    1,
+    filterEq('town_id', townId)
+  );
+  if (!best || best.score < semanticCacheThreshold - NEAR_MISS_MARGIN) return null;
+
+  const { data, error } = await getTenantDb(townId)
+    .select<CachedAnswerRow>('cached_answers', 'id, normalized_query, answer_html, sources, created_at')
+    .eq('id', best.id)
+    .gt('expires_at', new Date().toISOString())
+    .single();
+
+  if (error || !data) {
+    // Entry expired or was deleted by retention — drop its orphaned vector
+    getVectorStore().delete(VECTOR_NS_ANSWERS, [best.id]).catch(() => {});
+    return null;
+  }
+
+  const served = best.score >= semanticCacheThreshold;
+  recordParaphrase(townId, data.id, query, normalized, best.score, served).catch((err) =>
+    console.warn('[answer-cache] Failed to record paraphrase:', err)
+  );
+  if (!served) return null;
 
   return {
     answer_html: data.answer_html,
     sources: data.sources as { title: string; url: string }[],
     created_at: data.created_at,
     is_cached: true,
+    match: { tier: 'semantic', similarity: best.score, cachedQuery: data.normalized_query },
   };
 }
 
+async function recordParaphrase(
+  townId: string,
+  cachedAnswerId: string,
+  query: string,
+  normalized: string,
+  similarity: number,
+  served: boolean
+): Promise<void> {
+  const supabase = getSupabaseServiceClient();
+  const { error } = await supabase.rpc('record_cache_paraphrase', {
+    p_town_id: townId,
+    p_cached_answer_id: cachedAnswerId,
+    p_query: query.trim(),
+    p_normalized_query: normalized,
+    p_similarity: similarity,
+    p_served: served,
+  });
+  if (error) throw new Error(error.message);
+}
+
+/** Index a cached question in the semantic tier. Failures are non-fatal. */
+async function indexCachedQuestion(
+  id: string,
+  query: string,
+  townId: string,
+  normalized: string
+): Promise<void> {
+  try {
+    const embedding = await generateEmbedding(await cacheKeyText(query, townId));
+    await getVectorStore().upsert(VECTOR_NS_ANSWERS, [
+      { id, values: embedding, metadata: { town_id: townId, normalized_query: normalized } },
+    ]);
+  } catch (err) {
+    console.warn('[answer-cache] Failed to index cached question:', err instanceof Error ? err.message : err);
+  }
+}
+
 /**
  * Store an answer in the cache.
  * Default TTL: 30 days.
@@ -80,19 +241,24 @@ export async function setCachedAnswer(
   const expiresAt = new Date();
   expiresAt.setDate(expiresAt.getDate() + ttlDays);
 
-  const supabase = getSupabaseServiceClient();
+  const { data } = await getTenantDb(townId)
+    .upsert(
+      'cached_answers',
+      {
+        normalized_query: normalized,
+        original_query: query.trim(),
+        answer_html: answerHtml,
+        sources,
+        expires_at: expiresAt.toISOString(),
+      },
+      { onConflict: 'town_id,normalized_query' }
+    )
+    .select('id')
+    .single();
 
-  await supabase.from('cached_answers').upsert(
-    {
-      town_id: townId,
-      normalized_query: normalized,
-      original_query: query.trim(),
-      answer_html: answerHtml,
-      sources,
-      expires_at: expiresAt.toISOString(),
-    },
-    { onConflict: 'town_id,normalized_query' }
-  );
+  if (data?.id) {
+    await indexCachedQuestion(data.id, query, townId, normalized);
+  }
 }
 
 /**
@@ -103,13 +269,20 @@ export async function invalidateCachedAnswer(
   townId: string,
 ): Promise<void> {
   const normalized = normalizeQuery(query);
-  const supabase = getSupabaseServiceClient();
 
-  await supabase
-    .from('cached_answers')
-    .delete()
-    .eq('town_id', townId)
-    .eq('normalized_query', normalized);
+  const { data } = await getTenantDb(townId)
+    .delete('cached_answers')
+    .eq('normalized_query', normalized)
+    .select('id');
+
+  await removeCachedQuestions((data ?? []).map((row) => row.id as string));
+}
+
+async function removeCachedQuestions(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  await getVectorStore()
+    .delete(VECTOR_NS_ANSWERS, ids)
+    .catch((err) => console.warn('[answer-cache] Failed to remove cached question vectors:', err));
 }
 
 /**
@@ -118,6 +291,7 @@ export async function invalidateCachedAnswer(
  */
 export async function cleanupExpiredCache(): Promise<number> {
   const supabase = getSupabaseServiceClient();
+  // tenant-scope: cross-town — the retention sweep covers every town
   const { data, error } = await supabase
     .from('cached_answers')
     .delete()
@@ -128,5 +302,179 @@ export async function cleanupExpiredCache(): Promise<number> {
     console.warn('[answer-cache] Cleanup failed:', error.message);
     return 0;
   }
+  await removeCachedQuestions((data ?? []).map((row) => row.id as string));
   return data?.length ?? 0;
 }
+
+// ---------------------------------------------------------------------------
+// Source-driven invalidation
+// ---------------------------------------------------------------------------
+
+/**
+ * Delete every cached answer in a town that cites one of the given URLs
+ * (compared after canonicalizeUrl), and record each purge with its cause.
+ * Called by the monitor for changed pages and by the connector runner for
+ * new content. Returns the number of cached answers removed.
+ */
+export async function invalidateCachedAnswersForUrls(
+  townId: string,
+  urls: string[],
+  cause: CachePurgeCause
+): Promise<number> {
+  const changed = new Set(urls.filter(Boolean).map(canonicalizeUrl));
+  if (changed.size === 0) return 0;
+
+  const db = getTenantDb(townId);
+  const matches: { id: string; normalized_query: string; original_query: string | null; matched_url: string }[] = [];
+
+  for (let offset = 0; ; offset += PURGE_SCAN_PAGE_SIZE) {
+    const { data, error } = await db
+      .select<CachedAnswerRow>('cached_answers', 'id, normalized_query, original_query, sources')
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PURGE_SCAN_PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Failed to scan cached answers: ${error.message}`);
+
+    for (const row of data ?? []) {
+      const sources = row.sources ?? [];
+      const hit = sources.find((source) => source.url && changed.has(canonicalizeUrl(source.url)));
+      if (hit) {
+        matches.push({
+          id: row.id,
+          normalized_query: row.normalized_query,
+          original_query: row.original_query ?? null,
+          matched_url: hit.url,
+        });
+      }
+    }
+
+    if (!data || data.length < PURGE_SCAN_PAGE_SIZE) break;
+  }
+
+  if (matches.length === 0) return 0;
+
+  const { data: deleted, error: deleteError } = await db
+    .delete('cached_answers')
+    .in('id', matches.map((match) => match.id))
+    .select('id');
+
+  if (deleteError) throw new Error(`Failed to purge cached answers: ${deleteError.message}`);
+
+  const deletedIds = new Set((deleted ?? []).map((row) => row.id as string));
+  await removeCachedQuestions([...deletedIds]);
+
+  const purges = matches
+    .filter((match) => deletedIds.has(match.id))
+    .map((match) => ({
+      town_id: townId,
+      cached_answer_id: match.id,
+      normalized_query: match.normalized_query,
+      original_query: match.original_query,
+      matched_url: match.matched_url,
+      reason: cause.reason,
+      triggered_by: cause.triggeredBy,
+    }));
+
+  if (purges.length > 0) {
+    const { error: logError } = await getSupabaseServiceClient().from('cached_answer_purges').insert(purges);
+    if (logError) console.warn('[answer-cache] Failed to record cache purges:', logError.message);
+  }
+
+  return deletedIds.size;
+}
+
+/**
+ * Recent source-driven purges, newest first.
+ */
+export async function listCachePurges(
+  townId: string,
+  limit: number = 100
+): Promise<CachePurge[]> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('cached_answer_purges')
+    .select('id, cached_answer_id, original_query, normalized_query, matched_url, reason, triggered_by, purged_at')
+    .eq('town_id', townId)
+    .order('purged_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw new Error(`Failed to list cache purges: ${error.message}`);
+  return (data ?? []) as CachePurge[];
+}
+
+// ---------------------------------------------------------------------------
+// Paraphrases (admin)
+// ---------------------------------------------------------------------------
+
+/**
+ * Paraphrases recorded by the semantic tier, most frequent first.
+ */
+export async function listCacheParaphrases(
+  townId: string,
+  limit: number = 50
+): Promise<CacheParaphrase[]> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('cached_answer_paraphrases')
+    .select('id, cached_answer_id, query, normalized_query, similarity, served, hit_count, last_seen_at, cached_answers(normalized_query)')
+    .eq('town_id', townId)
+    .order('hit_count', { ascending: false })
+    .order('last_seen_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw new Error(`Failed to list paraphrases: ${error.message}`);
+
+  return (data ?? []).map(({ cached_answers: cached, ...row }) => ({
+    ...row,
+    // The embedded parent comes back as an object or a one-element array
+    cached_query: (Array.isArray(cached) ? cached[0] : cached)?.normalized_query,
+  }));
+}
+
+/**
+ * Promote a recorded paraphrase to a canonical cache key: copy the cached
+ * answer it matched under the paraphrase's own normalized query, so future
+ * askers hit the exact tier. Returns false if the paraphrase or its cached
+ * answer no longer exists.
+ */
+export async function promoteCacheParaphrase(
+  townId: string,
+  paraphraseId: string
+): Promise<boolean> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data: paraphrase } = await supabase
+    .from('cached_answer_paraphrases')
+    .select('id, cached_answer_id, query, normalized_query')
+    .eq('id', paraphraseId)
+    .eq('town_id', townId)
+    .single();
+  if (!paraphrase) return false;
+
+  const db = getTenantDb(townId);
+  const { data: source } = await db
+    .select('cached_answers', 'answer_html, sources, expires_at')
+    .eq('id', paraphrase.cached_answer_id)
+    .single();
+  if (!source) return false;
+
+  const { data: promoted, error } = await db
+    .upsert(
+      'cached_answers',
+      {
+        normalized_query: paraphrase.normalized_query,
+        original_query: paraphrase.query,
+        answer_html: source.answer_html,
+        sources: source.sources,
+        expires_at: source.expires_at,
+      },
+      { onConflict: 'town_id,normalized_query' }
+    )
+    .select('id')
+    .single();
+  if (error || !promoted) throw new Error(`Failed to promote paraphrase: ${error?.message ?? 'no row'}`);
+
+  await indexCachedQuestion(promoted.id, paraphrase.query, townId, paraphrase.normalized_query);
+  await supabase.from('cached_answer_paraphrases').delete().eq('id', paraphraseId);
+  return true;
+}
@@ -7,13 +7,18 @@
  */
 
 import OpenAI from 'openai';
-import { getSupabaseServiceClient } from '@/lib/supabase';
-import { checkGeographicRelevance, isUrlGeographicallyRelevant } from '@/lib/geo-filter';
+import { getTenantDb } from '@/lib/tenant-db';
+import { DEFAULT_TOWN_ID, getTownById, getTownByIdOrDefault } from '@/lib/towns';
+import { resolvePromptProfile } from '@/lib/prompt-profile';
+import { formatVocabularyForPrompt } from '@/lib/prompts';
+import {
+  checkGeographicRelevance,
+  isUrlGeographicallyRelevant,
+  type TownGeography,
+} from '@/lib/geo-filter';
 import type { Article, CreateArticleInput, ArticleCategory, SourceType } from '@/types/article';
 
 const MODEL = 'gpt-4o-mini';
-const TOWN_ID = 'needham';
-const TOWN_NAME = 'Needham, MA';
 const DEFAULT_DAYS_BACK = 30;
 const MIN_CONTENT_LENGTH = 500;
 const MIN_CONFIDENCE = 0.7;
@@ -29,8 +34,47 @@ function getOpenAI(): OpenAI {
   return openaiClient;
 }
 
+async function resolveTown(townId: string = DEFAULT_TOWN_ID): Promise<GeneratorTown> {
+  const town = (await getTownById(townId)) ?? getTownByIdOrDefault(townId);
+  let websiteHost = '';
+  try {
+    websiteHost = new URL(town.website_url).hostname.replace(/^www\./, '').toLowerCase();
+  } catch {
+    // Leave empty — the town-site rule in categorizeDocument just won't match
+  }
+  return {
+    id: town.town_id,
+    name: town.name,
+    author: `${town.app_name} AI`,
+    websiteHost,
+    geography: town.geography,
+    newsSources: town.news_sources ?? {},
+    vocabulary: formatVocabularyForPrompt(resolvePromptProfile(town)),
+  };
+}
+
 // ─── Types ────────────────────────────────────────────────────────────────────
 
+/** The town articles are generated for, resolved once per public call */
+interface GeneratorTown {
+  id: string;
+  /** Display name used in prompts and brief titles, e.g. "Needham, MA" */
+  name: string;
+  author: string;
+  websiteHost: string;
+  geography: TownGeography;
+  newsSources: Record<string, string>;
+  /** LOCAL VOCABULARY prompt section from the town's prompt profile, if any */
+  vocabulary: string | null;
+}
+
+/** Options shared by the public generators */
+export interface GenerateOptions {
+  /** Town to generate for (defaults to DEFAULT_TOWN_ID) */
+  townId?: string;
+  daysBack?: number;
+}
+
 interface SourceDocument {
   document_id: string;
   url: string;
@@ -59,7 +103,10 @@ interface DocumentRow {
  * Derive article category and source type from a document URL.
  * Returns null if the document doesn't fit a known category (skip it).
  */
-function categorizeDocument(url: string): { category: ArticleCategory; sourceType: SourceType } | null {
+function categorizeDocument(
+  url: string,
+  town: GeneratorTown,
+): { category: ArticleCategory; sourceType: SourceType } | null {
   const u = url.toLowerCase();
 
   // Meeting minutes / board proceedings
@@ -184,7 +231,7 @@ function categorizeDocument(url: string): { category: ArticleCategory; sourceTyp
     u.includes('faq') ||
     u.includes('holiday') ||
     u.includes('registrar') ||
-    u.includes('needhamma.gov')
+    (town.websiteHost !== '' && u.includes(town.websiteHost))
   ) {
     return { category: 'government', sourceType: 'public_record' };
   }
@@ -227,7 +274,8 @@ function isArticleUrl(url: string): boolean {
 }
 
 /**
- * Map common source IDs to human-readable display names.
+ * Map common source IDs to human-readable display names, for sources the
+ * town's news_sources config doesn't name.
  */
 const SOURCE_DISPLAY_NAMES: Record<string, string> = {
   'needham:observer-news': 'Needham Observer',
@@ -237,6 +285,25 @@ const SOURCE_DISPLAY_NAMES: Record<string, string> = {
   'needham:wickedlocal': 'Wicked Local Needham',
 };
 
+const titleCase = (name: string) => name.replaceAll(/\b\w/g, (c) => c.toUpperCase());
+
+/**
+ * Describe the town's local area for GPT prompts, from its geography profile:
+ * "Wellesley, Newton, Dedham, Dover, Westwood, Boston metro".
+ */
+function describeNearbyArea(geography: TownGeography): string {
+  const places = geography.neighbors.slice(0, 5).map(titleCase);
+  places.push(geography.metro.length > 0
+    ? `${titleCase(geography.metro[0])} metro`
+    : `${titleCase(geography.county)} County`);
+  return places.join(', ');
+}
+
+/** The town's LOCAL VOCABULARY notes as a prompt section, or nothing */
+function vocabularySection(town: GeneratorTown): string {
+  return town.vocabulary ? `${town.vocabulary}\n\n` : '';
+}
+
 /**
  * Check whether a source URL is publicly accessible.
  * Uses a browser User-Agent to avoid bot-blocking (e.g. k12.ma.us returns 403 to bare requests).
@@ -279,18 +346,16 @@ async function isUrlAccessible(url: string): Promise<boolean> {
 /**
  * Query recent documents from Supabase, concatenating their chunks into full text.
  */
-async function getRecentDocuments(options: {
+async function getRecentDocuments(town: GeneratorTown, options: {
   daysBack?: number;
   minContentLength?: number;
 }): Promise<SourceDocument[]> {
   const { daysBack = DEFAULT_DAYS_BACK, minContentLength = MIN_CONTENT_LENGTH } = options;
 
-  const supabase = getSupabaseServiceClient();
   const since = new Date(Date.now() - daysBack * 24 * 60 * 60 * 1000).toISOString();
 
-  const { data, error } = await supabase
-    .from('documents')
-    .select(`
+  const { data, error } = await getTenantDb(town.id)
+    .select<DocumentRow>('documents', `
       id,
       url,
       title,
@@ -298,7 +363,6 @@ async function getRecentDocuments(options: {
       created_at,
       document_chunks(chunk_text, chunk_index)
     `)
-    .eq('town_id', TOWN_ID)
     .gte('last_ingested_at', since)
     .order('last_ingested_at', { ascending: false })
     .limit(500);
@@ -308,7 +372,7 @@ async function getRecentDocuments(options: {
     return [];
   }
 
-  const docs = (data as DocumentRow[]) ?? [];
+  const docs = data ?? [];
 
   const result: SourceDocument[] = [];
   for (const doc of docs) {
@@ -334,12 +398,9 @@ async function getRecentDocuments(options: {
  * Check whether an article sourced from this URL already exists.
  * Prevents duplicate articles on repeated runs.
  */
-async function articleExistsForSource(url: string): Promise<boolean> {
-  const supabase = getSupabaseServiceClient();
-  const { data } = await supabase
-    .from('articles')
-    .select('id')
-    .eq('town', TOWN_ID)
+async function articleExistsForSource(town: GeneratorTown, url: string): Promise<boolean> {
+  const { data } = await getTenantDb(town.id)
+    .select('articles', 'id')
     .contains('source_urls', [url])
     .limit(1);
 
@@ -352,14 +413,14 @@ async function articleExistsForSource(url: string): Promise<boolean> {
  * Generate a single article from a source document.
  * Returns null if the document is skipped (low confidence, already exists, etc.)
  */
-async function generateArticleFromDocument(doc: SourceDocument): Promise<Article | null> {
-  const classification = categorizeDocument(doc.url);
+async function generateArticleFromDocument(town: GeneratorTown, doc: SourceDocument): Promise<Article | null> {
+  const classification = categorizeDocument(doc.url, town);
   if (!classification) return null;
 
   const { category, sourceType } = classification;
 
   // Skip if we already generated an article from this exact source
-  if (await articleExistsForSource(doc.url)) {
+  if (await articleExistsForSource(town, doc.url)) {
     return null;
   }
 
@@ -377,7 +438,7 @@ async function generateArticleFromDocument(doc: SourceDocument): Promise<Article
   const isMeetingMinutes = sourceType === 'meeting_minutes';
 
   const systemPrompt = isMeetingMinutes
-    ? `You are a local government reporter for ${TOWN_NAME}. Your job is to write factual news articles from official town documents.
+    ? `You are a local government reporter for ${town.name}. Your job is to write factual news articles from official town documents.
 
 CRITICAL RULES — NEVER VIOLATE:
 - ONLY include facts explicitly stated in the source text
@@ -385,9 +446,9 @@ CRITICAL RULES — NEVER VIOLATE:
 - Do NOT speculate or fill gaps with assumptions
 - If the content is too vague or lacks substantive facts, respond with exactly: {"skip": true}
 - Include specific dates, meeting dates, or decision dates if mentioned in the source
-- GEOGRAPHIC SCOPE: Only write about ${TOWN_NAME} content. If this document is primarily about another municipality or state, respond with {"skip": true}
+- GEOGRAPHIC SCOPE: Only write about ${town.name} content. If this document is primarily about another municipality or state, respond with {"skip": true}
 
-Respond with valid JSON in exactly this format:
+${vocabularySection(town)}Respond with valid JSON in exactly this format:
 {
   "title": "Clear, factual news headline (not a question, not clickbait)",
   "subtitle": "One sentence expanding on the headline",
@@ -396,16 +457,16 @@ Respond with valid JSON in exactly this format:
   "confidence_score": 0.0
 }
 Set confidence_score between 0.7 and 1.0 based on: how much the article is directly supported by clear, specific facts in the source. Set lower if the source is vague.`
-    : `You are a local government reporter for ${TOWN_NAME}. Your job is to write factual news articles from official town documents.
+    : `You are a local government reporter for ${town.name}. Your job is to write factual news articles from official town documents.
 
 CRITICAL RULES — NEVER VIOLATE:
 - ONLY include facts explicitly stated in the source text
 - Do NOT invent names, dates, dollar amounts, or details not in the source
 - Do NOT speculate or fill gaps with assumptions
 - If the content is too vague or lacks substantive facts, respond with exactly: {"skip": true}
-- GEOGRAPHIC SCOPE: Only write about ${TOWN_NAME} content. If this document is primarily about another municipality or state, respond with {"skip": true}
+- GEOGRAPHIC SCOPE: Only write about ${town.name} content. If this document is primarily about another municipality or state, respond with {"skip": true}
 
-Respond with valid JSON in exactly this format:
+${vocabularySection(town)}Respond with valid JSON in exactly this format:
 {
   "title": "Clear, factual news headline",
   "subtitle": "One sentence expanding on the headline",
@@ -473,6 +534,7 @@ ${truncatedContent}`;
       parsed.title,
       doc.url,
       category,
+      town.geography,
     );
     if (!geoResult.isRelevant) {
       console.log(`[article-generator] Output geo-filtered: "${parsed.title}" — ${geoResult.reason}`);
@@ -493,18 +555,16 @@ ${truncatedContent}`;
       source_urls: [doc.url],
       source_type: sourceType,
       source_names: [sourceName],
-      town: TOWN_ID,
-      author: 'Needham Navigator AI',
+      town: town.id,
+      author: town.author,
       model_used: MODEL,
       generation_prompt: systemPrompt.slice(0, 500), // store truncated prompt for reproducibility
       confidence_score: confidence,
       status: 'published',
     };
 
-    const supabase = getSupabaseServiceClient();
-    const { data, error } = await supabase
-      .from('articles')
-      .insert(articleInput)
+    const { data, error } = await getTenantDb(town.id)
+      .insert('articles', articleInput)
       .select()
       .single();
 
@@ -526,8 +586,9 @@ ${truncatedContent}`;
 /**
  * Generate articles from recent meeting minutes (planning board, select board, etc.)
  */
-export async function generateFromMeetingMinutes(options?: { daysBack?: number }): Promise<Article[]> {
-  const docs = await getRecentDocuments({ daysBack: options?.daysBack ?? DEFAULT_DAYS_BACK });
+export async function generateFromMeetingMinutes(options?: GenerateOptions): Promise<Article[]> {
+  const town = await resolveTown(options?.townId);
+  const docs = await getRecentDocuments(town, { daysBack: options?.daysBack ?? DEFAULT_DAYS_BACK });
 
   const minutesDocs = docs.filter((doc) => {
     const u = doc.url.toLowerCase();
@@ -547,7 +608,7 @@ export async function generateFromMeetingMinutes(options?: { daysBack?: number }
 
   const articles: Article[] = [];
   for (const doc of minutesDocs) {
-    const article = await generateArticleFromDocument(doc);
+    const article = await generateArticleFromDocument(town, doc);
     if (article) articles.push(article);
   }
   return articles;
@@ -556,8 +617,9 @@ export async function generateFromMeetingMinutes(options?: { daysBack?: number }
 /**
  * Generate articles from recent public records (permits, DPW notices, health, conservation).
  */
-export async function generateFromPublicRecord(options?: { daysBack?: number }): Promise<Article[]> {
-  const docs = await getRecentDocuments({ daysBack: options?.daysBack ?? DEFAULT_DAYS_BACK });
+export async function generateFromPublicRecord(options?: GenerateOptions): Promise<Article[]> {
+  const town = await resolveTown(options?.townId);
+  const docs = await getRecentDocuments(town, { daysBack: options?.daysBack ?? DEFAULT_DAYS_BACK });
 
   const recordDocs = docs.filter((doc) => {
     const u = doc.url.toLowerCase();
@@ -578,7 +640,7 @@ export async function generateFromPublicRecord(options?: { daysBack?: number }):
 
   const articles: Article[] = [];
   for (const doc of recordDocs) {
-    const article = await generateArticleFromDocument(doc);
+    const article = await generateArticleFromDocument(town, doc);
     if (article) articles.push(article);
   }
   return articles;
@@ -589,16 +651,17 @@ export async function generateFromPublicRecord(options?: { daysBack?: number }):
  * Unlike the specific functions above, this doesn't apply an additional URL filter —
  * any document that passes categorizeDocument() is eligible.
  */
-export async function generateFromAllDocuments(options?: { daysBack?: number }): Promise<Article[]> {
-  const docs = await getRecentDocuments({ daysBack: options?.daysBack ?? DEFAULT_DAYS_BACK });
+export async function generateFromAllDocuments(options?: GenerateOptions): Promise<Article[]> {
+  const town = await resolveTown(options?.townId);
+  const docs = await getRecentDocuments(town, { daysBack: options?.daysBack ?? DEFAULT_DAYS_BACK });
 
   // Only keep documents that categorizeDocument() can classify
-  const categorizable = docs.filter((doc) => categorizeDocument(doc.url) !== null);
+  const categorizable = docs.filter((doc) => categorizeDocument(doc.url, town) !== null);
   console.log(`[article-generator] ${docs.length} docs fetched, ${categorizable.length} categorizable`);
 
   const articles: Article[] = [];
   for (const doc of categorizable) {
-    const article = await generateArticleFromDocument(doc);
+    const article = await generateArticleFromDocument(town, doc);
     if (article) articles.push(article);
   }
   return articles;
@@ -609,21 +672,31 @@ export async function generateFromAllDocuments(options?: { daysBack?: number }):
  * Queries recent news items ingested by RSS/scrape connectors, generates
  * AI summaries, and inserts them as `ai_summary` articles.
  */
-export async function summarizeExternalArticle(options?: {
-  daysBack?: number;
+export async function summarizeExternalArticle(options?: GenerateOptions & {
   limit?: number;
 }): Promise<Article[]> {
+  const town = await resolveTown(options?.townId);
   const daysBack = options?.daysBack ?? 2;
   const limit = options?.limit ?? 20;
-  const supabase = getSupabaseServiceClient();
+  const db = getTenantDb(town.id);
 
   const since = new Date(Date.now() - daysBack * 24 * 60 * 60 * 1000).toISOString();
 
+  type ContentItemRow = {
+    id: string;
+    source_id: string;
+    title: string;
+    content: string | null;
+    summary: string | null;
+    url: string | null;
+    published_at: string;
+    category: string | null;
+    metadata: Record<string, unknown> | null;
+  };
+
   // Fetch recent news content_items
-  const { data: items, error: fetchError } = await supabase
-    .from('content_items')
-    .select('id, source_id, title, content, summary, url, published_at, category, metadata')
-    .eq('town_id', TOWN_ID)
+  const { data: items, error: fetchError } = await db
+    .select<ContentItemRow>('content_items', 'id, source_id, title, content, summary, url, published_at, category, metadata')
     .eq('category', 'news')
     .gte('published_at', since)
     .order('published_at', { ascending: false })
@@ -651,7 +724,7 @@ export async function summarizeExternalArticle(options?: {
     }
 
     // Skip if article already exists for this source
-    if (await articleExistsForSource(normalizedUrl)) continue;
+    if (await articleExistsForSource(town, normalizedUrl)) continue;
 
     // Skip items with too little content
     const content = item.content ?? '';
@@ -661,7 +734,7 @@ export async function summarizeExternalArticle(options?: {
     }
 
     // Geographic relevance pre-filter (URL-level)
-    if (!isUrlGeographicallyRelevant(normalizedUrl)) {
+    if (!isUrlGeographicallyRelevant(normalizedUrl, town.geography)) {
       console.log(`[article-generator] URL geo-filtered: ${normalizedUrl}`);
       continue;
     }
@@ -672,6 +745,7 @@ export async function summarizeExternalArticle(options?: {
       item.title ?? '',
       normalizedUrl,
       item.category ?? 'news',
+      town.geography,
     );
     if (!geoResult.isRelevant) {
       console.log(`[article-generator] Geo-filtered: "${item.title}" — ${geoResult.reason}`);
@@ -687,15 +761,15 @@ export async function summarizeExternalArticle(options?: {
         messages: [
           {
             role: 'system',
-            content: `You are a local news editor for ${TOWN_NAME}. Summarize this external news article for residents.
+            content: `You are a local news editor for ${town.name}. Summarize this external news article for residents.
 
 RULES:
 - Write a clear, factual summary — no speculation
 - If the content is too short or vague, respond with {"skip": true}
 - Include key facts, names, and dates from the article
-- GEOGRAPHIC FILTER: This article MUST be relevant to Needham, MA or the immediate Boston metro area (neighboring towns like Wellesley, Newton, Dedham, Dover, Westwood are acceptable). If the article is primarily about another state (Connecticut, New York, etc.) or a distant city with no connection to Needham residents, respond with {"skip": true}
+- GEOGRAPHIC FILTER: This article MUST be relevant to ${town.name} or its immediate area (${describeNearbyArea(town.geography)} are acceptable). If the article is primarily about another state or a distant city with no connection to ${town.name} residents, respond with {"skip": true}
 
-Output valid JSON:
+${vocabularySection(town)}Output valid JSON:
 {
   "title": "Clear headline (not clickbait)",
   "summary": "2-3 sentence summary",
@@ -740,6 +814,7 @@ Output valid JSON:
         parsed.title,
         normalizedUrl,
         item.category ?? 'news',
+        town.geography,
       );
       if (!outputGeo.isRelevant) {
         console.log(`[article-generator] Output geo-filtered: "${parsed.title}" — ${outputGeo.reason}`);
@@ -751,6 +826,7 @@ Output valid JSON:
 
       const sourceName =
         ((item.metadata as Record<string, unknown>)?.sourceName as string) ||
+        town.newsSources[item.source_id] ||
         SOURCE_DISPLAY_NAMES[item.source_id] ||
         item.source_id;
 
@@ -763,16 +839,15 @@ Output valid JSON:
         source_urls: [normalizedUrl],
         source_type: 'news_article',
         source_names: [sourceName],
-        town: TOWN_ID,
-        author: 'Needham Navigator AI',
+        town: town.id,
+        author: town.author,
         model_used: MODEL,
         confidence_score: confidence,
         status: 'published',
       };
 
-      const { data, error } = await supabase
-        .from('articles')
-        .insert(articleInput)
+      const { data, error } = await db
+        .insert('articles', articleInput)
         .select()
         .single();
 
@@ -801,8 +876,9 @@ Output valid JSON:
  * source_url copied from our input — it never invents URLs. We then build
  * the markdown body ourselves so citations are always correct.
  */
-export async function generateDailyBrief(): Promise<Article | null> {
-  const supabase = getSupabaseServiceClient();
+export async function generateDailyBrief(options?: Pick<GenerateOptions, 'townId'>): Promise<Article | null> {
+  const town = await resolveTown(options?.townId);
+  const db = getTenantDb(town.id);
 
   // Check if today's brief already exists
   const todayStart = new Date();
@@ -810,10 +886,8 @@ export async function generateDailyBrief(): Promise<Article | null> {
   const todayEnd = new Date();
   todayEnd.setHours(23, 59, 59, 999);
 
-  const { data: existing } = await supabase
-    .from('articles')
-    .select('id')
-    .eq('town', TOWN_ID)
+  const { data: existing } = await db
+    .select('articles', 'id')
     .eq('is_daily_brief', true)
     .gte('published_at', todayStart.toISOString())
     .lte('published_at', todayEnd.toISOString())
@@ -826,10 +900,8 @@ export async function generateDailyBrief(): Promise<Article | null> {
 
   // Only use articles that were generated today (last 24h), not raw documents.
   // Each article already has a verified, topic-specific source_url.
-  const { data: recentArticles } = await supabase
-    .from('articles')
-    .select('title, summary, body, source_urls, source_names, category')
-    .eq('town', TOWN_ID)
+  const { data: recentArticles } = await db
+    .select('articles', 'title, summary, body, source_urls, source_names, category')
     .eq('is_daily_brief', false)
     .gte('published_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString())
     .order('published_at', { ascending: false })
@@ -862,6 +934,13 @@ export async function generateDailyBrief(): Promise<Article | null> {
   const sourceItems = recentArticles
     .map((a) => a as ArticleRow)
     .filter((a) => a.source_urls && a.source_urls.length > 0)
+    .filter((a) => {
+      const geo = checkGeographicRelevance(a.summary || a.body.slice(0, 2000), a.title, a.source_urls![0], a.category, town.geography);
+      if (!geo.isRelevant) {
+        console.log(`[article-generator] Brief geo-filtered: "${a.title}" — ${geo.reason}`);
+      }
+      return geo.isRelevant;
+    })
     .map((a) => ({
       title: a.title,
       summary: a.summary || a.body.slice(0, 250),
@@ -878,7 +957,7 @@ export async function generateDailyBrief(): Promise<Article | null> {
     .map((s, i) => `${i + 1}. source_url: "${s.source_url}"\n   title: ${s.title}\n   summary: ${s.summary}`)
     .join('\n\n');
 
-  const systemPrompt = `You are a factual daily news editor for ${TOWN_NAME}.
+  const systemPrompt = `You are a factual daily news editor for ${town.name}.
 Output ONLY valid JSON. Do NOT output markdown or prose outside the JSON.
 
 Rules:
@@ -887,9 +966,9 @@ Rules:
 - "heading" is a short topic label (3-6 words, no trailing colon)
 - "detail" is one factual sentence from the source
 - Include 3-5 topics, one per source (skip a source if its content is too vague)
-- GEOGRAPHIC FILTER: Only include topics relevant to Needham, MA residents. Skip any topic about other states or distant locations. Neighboring town content (Wellesley, Newton, Dedham, Dover, Westwood, Boston metro) is acceptable for events and community topics.
+- GEOGRAPHIC FILTER: Only include topics relevant to ${town.name} residents. Skip any topic about other states or distant locations. Neighboring town content (${describeNearbyArea(town.geography)}) is acceptable for events and community topics.
 
-Output format:
+${vocabularySection(town)}Output format:
 {"topics": [{"heading": "...", "detail": "...", "source_url": "..."}]}`;
 
   const userPrompt = `Sources for today's brief:\n\n${sourceList}`;
@@ -974,7 +1053,7 @@ Output format:
   });
 
   const articleInput: CreateArticleInput = {
-    title: `${TOWN_NAME} Daily Brief — ${today}`,
+    title: `${town.name} Daily Brief — ${today}`,
     body: briefContent,
     summary: topics.map((t) => t.heading).join(' · '),
     content_type: 'ai_generated',
@@ -982,8 +1061,8 @@ Output format:
     source_urls: finalSourceUrls,
     source_names: finalSourceNames,
     source_type: 'public_record',
-    town: TOWN_ID,
-    author: 'Needham Navigator AI',
+    town: town.id,
+    author: town.author,
     is_daily_brief: true,
     is_featured: true,
     model_used: MODEL,
@@ -991,9 +1070,8 @@ Output format:
     status: 'published',
   };
 
-  const { data, error } = await supabase
-    .from('articles')
-    .insert(articleInput)
+  const { data, error } = await db
+    .insert('articles', articleInput)
     .select()
     .single();
 
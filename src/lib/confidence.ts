@@ -8,6 +8,8 @@ export type ConfidenceScore = {
   averageSimilarity: number;
   topSimilarity: number;
   supportingChunks: number;
+  /** Share of answer sentences supported by the sources, once the answer is verified */
+  groundedRatio?: number;
   reason: string;
 };
 
@@ -22,6 +24,10 @@ const HIGH_MIN_CHUNKS = 2;
 const KEYWORD_OVERLAP_HIGH_FLOOR = 0.2;  // At least 20% of terms for HIGH
 const KEYWORD_OVERLAP_LOW_FLOOR = 0.1;   // Below 10% → downgrade MEDIUM to LOW
 
+// Grounding floors — share of answer sentences the sources actually support
+const GROUNDING_HIGH_FLOOR = 0.8;  // Below 80% → downgrade HIGH to MEDIUM
+const GROUNDING_LOW_FLOOR = 0.5;   // Below 50% → downgrade to LOW
+
 const OVERLAP_STOPWORDS = new Set([
   "what", "where", "when", "how", "who", "which", "why",
   "is", "are", "was", "were", "be", "been", "being",
@@ -63,9 +69,46 @@ export function computeKeywordOverlap(
   return matched.length / queryTerms.length;
 }
 
+/**
+ * Score retrieval confidence. When the generated answer has been verified
+ * (see grounding.ts), groundedRatio caps the level: an answer the sources
+ * only partly support can't be "Verified from official sources".
+ */
 export function scoreConfidence(
   similarities: number[],
   keywordOverlap?: number,
+  groundedRatio?: number,
+): ConfidenceScore {
+  const score = scoreRetrieval(similarities, keywordOverlap);
+  if (groundedRatio === undefined || score.supportingChunks === 0) return score;
+
+  const percent = Math.round(groundedRatio * 100);
+  if (groundedRatio < GROUNDING_LOW_FLOOR && score.level !== "low") {
+    return {
+      ...score,
+      level: "low",
+      label: "Limited information — contact the department directly",
+      color: "orange",
+      groundedRatio,
+      reason: `${score.reason} Only ${percent}% of answer sentences are supported by the sources.`,
+    };
+  }
+  if (groundedRatio < GROUNDING_HIGH_FLOOR && score.level === "high") {
+    return {
+      ...score,
+      level: "medium",
+      label: "Based on town documents — verify for important decisions",
+      color: "yellow",
+      groundedRatio,
+      reason: `${score.reason} ${percent}% of answer sentences are supported by the sources. Downgraded from high.`,
+    };
+  }
+  return { ...score, groundedRatio };
+}
+
+function scoreRetrieval(
+  similarities: number[],
+  keywordOverlap?: number,
 ): ConfidenceScore {
   if (similarities.length === 0) {
     return {
@@ -167,6 +210,7 @@ export function scoreConfidence(
 export function scoreConfidenceFromChunks(
   chunks: Array<{ similarity?: number | null; chunkText?: string }>,
   query?: string,
+  groundedRatio?: number,
 ): ConfidenceScore {
   const similarities = chunks
     .map((chunk) => (typeof chunk.similarity === "number" ? chunk.similarity : -1))
@@ -180,5 +224,5 @@ export function scoreConfidenceFromChunks(
     keywordOverlap = computeKeywordOverlap(query, chunkTexts);
   }
 
-  return scoreConfidence(similarities, keywordOverlap);
+  return scoreConfidence(similarities, keywordOverlap, groundedRatio);
 }
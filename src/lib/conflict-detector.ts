@@ -0,0 +1,290 @@
+/**
+ * src/lib/conflict-detector.ts — Conflicting-source detection
+ *
+ * Retrieved chunks sometimes disagree: the Building Department page lists
+ * (781) 455-7550 while an archived page lists an older number. Left alone,
+ * the model silently picks one. This module extracts comparable facts
+ * (money, times, phone numbers, dates) from each chunk, pairs facts about
+ * the same subject across different documents, and flags the ones that
+ * disagree, along with each source's date so the newest can win.
+ */
+
+import { getTownGeography } from "@/lib/geo-filter";
+import { getChunkDate } from "@/lib/temporal-query";
+import type { RetrievedChunk } from "@/lib/rag";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type FactKind = "money" | "time" | "phone" | "date";
+
+export interface ExtractedFact {
+  kind: FactKind;
+  /** Normalized value used for comparison, e.g. "7814557550" */
+  value: string;
+  /** The value as written in the source, e.g. "(781) 455-7550" */
+  display: string;
+  /** Content words that appear just before the fact ("building", "permit") */
+  subjectTerms: string[];
+}
+
+export interface ConflictingValue {
+  value: string;
+  sourceId: string;
+  documentTitle: string;
+  documentUrl?: string;
+  /** Source date (YYYY-MM-DD), when known */
+  date?: string;
+}
+
+export interface SourceConflict {
+  kind: FactKind;
+  /** What the values are about, e.g. "building department" */
+  subject: string;
+  /** Value from the most recently dated source (or the top-ranked one if undated) */
+  newest: ConflictingValue;
+  others: ConflictingValue[];
+}
+
+// ---------------------------------------------------------------------------
+// Fact extraction
+// ---------------------------------------------------------------------------
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+const FACT_PATTERNS: Record<FactKind, RegExp> = {
+  phone: /\(?\b(\d{3})\)?[\s.-]?(\d{3})[\s.-](\d{4})\b/g,
+  // eslint-disable-next-line security/detect-unsafe-regex -- fixed-width optional cents, no nested repetition
+  money: /\$\s?(\d[\d,]*)(\.\d{2})?/g,
+  // eslint-disable-next-line security/detect-unsafe-regex -- fixed-width optional minutes, no nested repetition
+  time: /\b(\d{1,2})(:\d{2})?\s?([ap])\.?\s?m\b\.?/gi,
+  date: new RegExp(
+    `\\b(${MONTHS.join("|")})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(20\\d{2})\\b|\\b(\\d{1,2})/(\\d{1,2})/(20\\d{2})\\b`,
+    "gi",
+  ),
+};
+
+function normalizeFact(kind: FactKind, match: RegExpExecArray): string | null {
+  switch (kind) {
+    case "phone":
+      return `${match[1]}${match[2]}${match[3]}`;
+    case "money": {
+      const dollars = match[1].replaceAll(",", "");
+      return `${parseInt(dollars, 10)}${match[2] ?? ".00"}`;
+    }
+    case "time": {
+      let hour = parseInt(match[1], 10);
+      if (hour < 1 || hour > 12) return null;
+      const isPm = match[3].toLowerCase() === "p";
+      if (isPm && hour !== 12) hour += 12;
+      if (!isPm && hour === 12) hour = 0;
+      return `${String(hour).padStart(2, "0")}${match[2] ?? ":00"}`;
+    }
+    case "date": {
+      const [month, day, year] = match[1]
+        ? [MONTHS.indexOf(match[1].toLowerCase()) + 1, parseInt(match[2], 10), match[3]]
+        : [parseInt(match[4], 10), parseInt(match[5], 10), match[6]];
+      if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+      return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+    }
+  }
+}
+
+// Words that say what kind of fact it is, not what it's about
+const GENERIC_TERMS = new Set([
+  "the", "and", "for", "from", "with", "our", "your", "are", "is", "at", "to", "of", "or", "by",
+  "call", "phone", "tel", "telephone", "contact", "number", "fax", "office", "main", "line",
+  "fee", "fees", "cost", "costs", "price", "charge", "payable", "pay", "total", "each", "per",
+  "open", "opens", "close", "closes", "closed", "hours", "until", "through",
+  "date", "dates", "day", "days", "on", "due", "before", "after",
+  "town", "please", "will", "be", "this", "that", "a", "an", "am", "pm",
+  "what", "when", "where", "how", "who", "much", "many", "does", "can", "get", "need",
+]);
+
+/** Words of the town's own name — every local page mentions them, so they say nothing about the subject */
+function townNameTerms(townId?: string | null): Set<string> {
+  return new Set(getTownGeography(townId).core_names.flatMap((name) => name.toLowerCase().split(/[^a-z]+/)));
+}
+
+const TERM_ALIASES: Record<string, string> = {
+  dept: "department",
+  bldg: "building",
+  rec: "recreation",
+  lic: "license",
+};
+
+/**
+ * Tokenize into comparable content words (lowercased, de-pluralized, aliased),
+ * leaving out the town's own name (the default town when none is given).
+ */
+export function subjectTerms(text: string, townId?: string | null): string[] {
+  const townTerms = townNameTerms(townId);
+  return text
+    .toLowerCase()
+    .replaceAll(/['’]s\b/g, "")
+    .split(/[^a-z]+/)
+    .map((word) => TERM_ALIASES[word] ?? word)
+    .map((word) => (word.length > 4 && word.endsWith("s") ? word.slice(0, -1) : word))
+    .filter((word) => word.length >= 3 && !GENERIC_TERMS.has(word) && !townTerms.has(word));
+}
+
+// How far back from a fact to look for its subject
+const SUBJECT_WINDOW_CHARS = 60;
+
+/**
+ * Extract money, time, phone and date facts from a passage, each tagged
+ * with the content words that precede it on the same line.
+ */
+export function extractFacts(text: string, townId?: string | null): ExtractedFact[] {
+  const facts: ExtractedFact[] = [];
+
+  for (const kind of Object.keys(FACT_PATTERNS) as FactKind[]) {
+    const pattern = new RegExp(FACT_PATTERNS[kind].source, FACT_PATTERNS[kind].flags);
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const value = normalizeFact(kind, match);
+      if (!value) continue;
+
+      const lineStart = text.lastIndexOf("\n", match.index) + 1;
+      const windowStart = Math.max(lineStart, match.index - SUBJECT_WINDOW_CHARS);
+      facts.push({
+        kind,
+        value,
+        display: match[0].trim(),
+        subjectTerms: subjectTerms(text.slice(windowStart, match.index), townId),
+      });
+    }
+  }
+
+  return facts;
+}
+
+// ---------------------------------------------------------------------------
+// Conflict detection
+// ---------------------------------------------------------------------------
+
+const MAX_CONFLICTS = 3;
+
+interface DocumentFacts {
+  key: string;
+  chunk: RetrievedChunk;
+  date?: Date;
+  facts: ExtractedFact[];
+  /** All normalized values per kind, for "does this source mention it at all" checks */
+  values: Record<FactKind, Set<string>>;
+}
+
+function toConflictingValue(doc: DocumentFacts, fact: ExtractedFact): ConflictingValue {
+  return {
+    value: fact.display,
+    sourceId: doc.chunk.source.sourceId,
+    documentTitle: doc.chunk.source.documentTitle,
+    documentUrl: doc.chunk.source.documentUrl,
+    date: doc.date?.toISOString().slice(0, 10),
+  };
+}
+
+function groupByDocument(chunks: RetrievedChunk[], townId?: string): DocumentFacts[] {
+  const byKey = new Map<string, DocumentFacts>();
+
+  for (const chunk of chunks) {
+    const key = chunk.source.documentUrl || chunk.source.documentTitle || chunk.id;
+    const facts = extractFacts(chunk.chunkText, chunk.source.townId ?? townId);
+    if (facts.length === 0) continue;
+
+    let doc = byKey.get(key);
+    if (!doc) {
+      const dated = getChunkDate(chunk.metadata);
+      const fallback = chunk.source.date ? new Date(chunk.source.date) : undefined;
+      doc = {
+        key,
+        chunk,
+        date: dated?.date ?? (fallback && !Number.isNaN(fallback.getTime()) ? fallback : undefined),
+        facts: [],
+        values: { money: new Set(), time: new Set(), phone: new Set(), date: new Set() },
+      };
+      byKey.set(key, doc);
+    }
+
+    for (const fact of facts) {
+      doc.facts.push(fact);
+      doc.values[fact.kind].add(fact.value);
+    }
+  }
+
+  return Array.from(byKey.values());
+}
+
+/**
+ * Find facts that different sources state differently. Two facts conflict
+ * when they're the same kind, share a subject word, and neither source
+ * mentions the other's value anywhere (a page listing both an old and new
+ * fee isn't a disagreement). When a query is given, only subjects the
+ * question is about are reported. The town's name is never a shared subject.
+ */
+export function detectConflicts(chunks: RetrievedChunk[], query?: string, townId?: string): SourceConflict[] {
+  const docs = groupByDocument(chunks, townId);
+  const queryTerms = query ? new Set(subjectTerms(query, townId)) : null;
+  const conflicts = new Map<string, { kind: FactKind; subject: string; values: Map<string, [DocumentFacts, ExtractedFact]> }>();
+
+  for (let i = 0; i < docs.length; i++) {
+    for (let j = i + 1; j < docs.length; j++) {
+      const a = docs[i];
+      const b = docs[j];
+
+      for (const factA of a.facts) {
+        if (b.values[factA.kind].has(factA.value)) continue;
+
+        for (const factB of b.facts) {
+          if (factB.kind !== factA.kind || a.values[factB.kind].has(factB.value)) continue;
+
+          const shared = factA.subjectTerms.filter((term) => factB.subjectTerms.includes(term));
+          if (shared.length === 0) continue;
+          if (queryTerms && !shared.some((term) => queryTerms.has(term))) continue;
+
+          const subject = Array.from(new Set(shared)).join(" ");
+          const key = `${factA.kind}:${subject}`;
+          const conflict = conflicts.get(key) ?? { kind: factA.kind, subject, values: new Map() };
+          if (!conflict.values.has(factA.value)) conflict.values.set(factA.value, [a, factA]);
+          if (!conflict.values.has(factB.value)) conflict.values.set(factB.value, [b, factB]);
+          conflicts.set(key, conflict);
+        }
+      }
+    }
+  }
+
+  return Array.from(conflicts.values())
+    .slice(0, MAX_CONFLICTS)
+    .map(({ kind, subject, values }) => {
+      // Newest dated source first; undated sources keep retrieval order after them
+      const ranked = Array.from(values.values()).sort(([docA], [docB]) => {
+        const timeA = docA.date?.getTime() ?? -Infinity;
+        const timeB = docB.date?.getTime() ?? -Infinity;
+        if (timeA !== timeB) return timeB - timeA;
+        return chunks.indexOf(docA.chunk) - chunks.indexOf(docB.chunk);
+      });
+      const [newest, ...others] = ranked.map(([doc, fact]) => toConflictingValue(doc, fact));
+      return { kind, subject, newest, others };
+    });
+}
+
+/**
+ * Prompt section telling the model which sources disagree, so it discloses
+ * the disagreement instead of silently picking one value.
+ */
+export function formatConflictsForPrompt(conflicts: SourceConflict[]): string {
+  const lines = [
+    "SOURCE CONFLICTS (these context documents disagree — tell the resident the sources disagree, give the newest value, and suggest confirming with the department):",
+  ];
+  for (const conflict of conflicts) {
+    const describe = (v: ConflictingValue) => `${v.value} [${v.sourceId}${v.date ? `, ${v.date}` : ""}]`;
+    lines.push(
+      `- ${conflict.subject} (${conflict.kind}): newest says ${describe(conflict.newest)}; also stated: ${conflict.others.map(describe).join(", ")}`,
+    );
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,466 @@
+/**
+ * src/lib/connectors/api.ts — Generic JSON API connector
+ *
+ * Config-driven: a URL template, optional headers, a pagination style, a
+ * JSONPath-style selector for the items and a mapping from item fields onto
+ * ContentItem. A new structured source is a source_configs row, not code.
+ *
+ * Config shape:
+ *   {
+ *     url: string,                      // "https://api.example.org/v1/events?town={town}&key={env.CONNECTOR_EXAMPLE_KEY}"
+ *     headers?: Record<string, string>, // values are templates too
+ *     sourceName?: string,
+ *     itemsPath: string,                // "$.data.events[*]"
+ *     pagination?: {
+ *       style: "cursor" | "offset" | "link",
+ *       cursorPath?: string,            // cursor: next cursor in the response ("$.meta.next_cursor")
+ *       cursorParam?: string,           // cursor: query parameter to send it in (default "cursor")
+ *       offsetParam?: string,           // offset: default "offset"
+ *       limitParam?: string,            // offset: default "limit"
+ *       pageSize?: number,              // offset: default 100
+ *       maxPages?: number,              // all styles: default 10
+ *     },
+ *     fields: {                         // paths are relative to each item ("$" is the item)
+ *       title: string | string[],       // a list is tried in order
+ *       content?, published_at?, expires_at?, url?, image_url?, id?: string | string[],
+ *       metadata?: Record<string, string | string[]>,
+ *     },
+ *   }
+ *
+ * Templates substitute {town} with the town id and {env.NAME} with an
+ * environment variable, so API keys stay out of source_configs. Only
+ * CONNECTOR_* variables can be read: the admin picks the destination host,
+ * so any other name could send a server secret to it.
+ *
+ * Paths support $, .name, ['name'], [n] (negative counts from the end),
+ * [*] / .* and ..name for recursive descent.
+ */
+
+import { createHash } from "crypto";
+import type {
+  ConnectorConfig,
+  ContentCategory,
+  ContentItem,
+  RawItem,
+  SourceConnector,
+} from "./types";
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+export type PaginationStyle = "cursor" | "offset" | "link";
+
+export interface ApiPagination {
+  style: PaginationStyle;
+  cursorPath?: string;
+  cursorParam?: string;
+  offsetParam?: string;
+  limitParam?: string;
+  pageSize?: number;
+  maxPages?: number;
+}
+
+/** One path, or fallbacks tried in order until one yields a value */
+export type FieldSelector = string | string[];
+
+export interface ApiFieldMapping {
+  title: FieldSelector;
+  content?: FieldSelector;
+  published_at?: FieldSelector;
+  expires_at?: FieldSelector;
+  url?: FieldSelector;
+  image_url?: FieldSelector;
+  /** Stable item id for dedup; defaults to url, then title */
+  id?: FieldSelector;
+  metadata?: Record<string, FieldSelector>;
+}
+
+export interface ApiConnectorSettings {
+  url: string;
+  headers?: Record<string, string>;
+  sourceName?: string;
+  itemsPath: string;
+  pagination?: ApiPagination;
+  fields: ApiFieldMapping;
+}
+
+const DEFAULT_MAX_PAGES = 10;
+
+// The only environment variables a template may read
+const CONNECTOR_ENV_PREFIX = "CONNECTOR_";
+
+const TEMPLATE_PATTERN = /\{(town|env\.([A-Za-z_][A-Za-z0-9_]*))\}/g;
+const DEFAULT_PAGE_SIZE = 100;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isSelector(value: unknown): value is FieldSelector {
+  return typeof value === "string" || (Array.isArray(value) && value.every((v) => typeof v === "string"));
+}
+
+/** Validate a connector's config; throws naming the first problem. */
+export function parseApiSettings(connectorId: string, config: Record<string, unknown>): ApiConnectorSettings {
+  const fail = (problem: string): never => {
+    throw new Error(`API connector "${connectorId}" ${problem}`);
+  };
+
+  const { url, headers, sourceName, itemsPath, pagination, fields } = config;
+  if (typeof url !== "string" || !url) fail("missing url in config");
+  if (typeof itemsPath !== "string" || !itemsPath) fail("missing itemsPath in config");
+  if (!isRecord(fields) || !isSelector(fields.title)) fail("missing fields.title in config");
+  if (headers !== undefined && !(isRecord(headers) && Object.values(headers).every((v) => typeof v === "string"))) {
+    fail("has non-string headers");
+  }
+  for (const template of [url as string, ...Object.values((headers ?? {}) as Record<string, string>)]) {
+    for (const [, , envName] of template.matchAll(TEMPLATE_PATTERN)) {
+      if (envName && !envName.startsWith(CONNECTOR_ENV_PREFIX)) {
+        fail(`may only read ${CONNECTOR_ENV_PREFIX}* environment variables, not ${envName}`);
+      }
+    }
+  }
+  if (pagination !== undefined) {
+    if (!isRecord(pagination) || !["cursor", "offset", "link"].includes(pagination.style as string)) {
+      fail("pagination.style must be cursor, offset or link");
+    }
+    if ((pagination as ApiPagination).style === "cursor" && typeof (pagination as ApiPagination).cursorPath !== "string") {
+      fail("needs pagination.cursorPath for cursor pagination");
+    }
+  }
+
+  const mapping = fields as Record<string, unknown>;
+  for (const [field, selector] of Object.entries(mapping)) {
+    if (field === "metadata") {
+      if (!isRecord(selector) || !Object.values(selector).every(isSelector)) fail("has an invalid fields.metadata");
+    } else if (!isSelector(selector)) {
+      fail(`has an invalid fields.${field}`);
+    }
+    for (const path of field === "metadata" ? Object.values(selector as object).flat() : [selector].flat()) {
+      parsePath(path as string);
+    }
+  }
+  parsePath(itemsPath as string);
+
+  return {
+    url: url as string,
+    headers: headers as Record<string, string> | undefined,
+    sourceName: typeof sourceName === "string" ? sourceName : undefined,
+    itemsPath: itemsPath as string,
+    pagination: pagination as ApiPagination | undefined,
+    fields: fields as unknown as ApiFieldMapping,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// JSONPath-style selectors
+// ---------------------------------------------------------------------------
+
+type PathSegment =
+  | { kind: "key"; key: string }
+  | { kind: "index"; index: number }
+  | { kind: "wildcard" }
+  | { kind: "descend"; key: string | null };
+
+function isNameChar(ch: string): boolean {
+  return (ch >= "a" && ch <= "z") || (ch >= "A" && ch <= "Z") || (ch >= "0" && ch <= "9") || ch === "_" || ch === "-" || ch === "$" || ch === "@";
+}
+
+/** Parse a path like `$.data.items[*].title`; throws on syntax errors. */
+export function parsePath(path: string): PathSegment[] {
+  const trimmed = path.trim();
+  if (!trimmed.startsWith("$")) throw new Error(`Invalid path "${path}": must start with $`);
+
+  const segments: PathSegment[] = [];
+  let i = 1;
+
+  const readName = (): string => {
+    const start = i;
+    while (i < trimmed.length && isNameChar(trimmed[i])) i++;
+    if (i === start) throw new Error(`Invalid path "${path}": expected a name at ${start}`);
+    return trimmed.slice(start, i);
+  };
+
+  while (i < trimmed.length) {
+    if (trimmed.startsWith("..", i)) {
+      i += 2;
+      if (trimmed[i] === "*") {
+        i++;
+        segments.push({ kind: "descend", key: null });
+      } else {
+        segments.push({ kind: "descend", key: readName() });
+      }
+    } else if (trimmed[i] === ".") {
+      i++;
+      if (trimmed[i] === "*") {
+        i++;
+        segments.push({ kind: "wildcard" });
+      } else {
+        segments.push({ kind: "key", key: readName() });
+      }
+    } else if (trimmed[i] === "[") {
+      const close = trimmed.indexOf("]", i);
+      if (close === -1) throw new Error(`Invalid path "${path}": unclosed [`);
+      const inner = trimmed.slice(i + 1, close).trim();
+      i = close + 1;
+
+      if (inner === "*") {
+        segments.push({ kind: "wildcard" });
+      } else if (
+        inner.length >= 2 &&
+        (inner[0] === "'" || inner[0] === '"') &&
+        inner[inner.length - 1] === inner[0]
+      ) {
+        segments.push({ kind: "key", key: inner.slice(1, -1) });
+      } else if (inner !== "" && Number.isInteger(Number(inner))) {
+        segments.push({ kind: "index", index: Number(inner) });
+      } else {
+        throw new Error(`Invalid path "${path}": unsupported [${inner}]`);
+      }
+    } else {
+      throw new Error(`Invalid path "${path}": unexpected "${trimmed[i]}" at ${i}`);
+    }
+  }
+
+  return segments;
+}
+
+function childrenOf(node: unknown): unknown[] {
+  if (Array.isArray(node)) return node;
+  if (isRecord(node)) return Object.values(node);
+  return [];
+}
+
+function selfAndDescendants(node: unknown): unknown[] {
+  return [node, ...childrenOf(node).flatMap(selfAndDescendants)];
+}
+
+function applySegment(node: unknown, segment: PathSegment): unknown[] {
+  switch (segment.kind) {
+    case "key":
+      return isRecord(node) && Object.hasOwn(node, segment.key) ? [node[segment.key]] : [];
+    case "index": {
+      if (!Array.isArray(node)) return [];
+      const value = node.at(segment.index);
+      return value === undefined ? [] : [value];
+    }
+    case "wildcard":
+      return childrenOf(node);
+    case "descend":
+      return selfAndDescendants(node).flatMap((n) =>
+        segment.key === null ? childrenOf(n) : applySegment(n, { kind: "key", key: segment.key })
+      );
+  }
+}
+
+/** Every value a path selects from `root`. */
+export function selectPath(root: unknown, path: string): unknown[] {
+  return parsePath(path).reduce<unknown[]>(
+    (nodes, segment) => nodes.flatMap((node) => applySegment(node, segment)),
+    [root]
+  );
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+/** Values selected by the first path in `selector` that selects anything non-empty. */
+function selectValues(item: unknown, selector: FieldSelector | undefined): unknown[] {
+  for (const path of [selector ?? []].flat()) {
+    const values = selectPath(item, path).filter((v) => !isEmpty(v));
+    if (values.length > 0) return values;
+  }
+  return [];
+}
+
+function selectText(item: unknown, selector: FieldSelector | undefined, separator = " "): string | undefined {
+  const text = selectValues(item, selector)
+    .filter((v) => typeof v === "string" || typeof v === "number" || typeof v === "boolean")
+    .map((v) => String(v).trim())
+    .filter(Boolean)
+    .join(separator);
+  return text || undefined;
+}
+
+/** ISO strings, RFC 2822 strings, or epoch seconds / milliseconds. */
+export function parseApiDate(value: unknown): Date | undefined {
+  let date: Date | undefined;
+  if (typeof value === "number") {
+    date = new Date(value < 1e12 ? value * 1000 : value);
+  } else if (typeof value === "string" && value.trim()) {
+    const trimmed = value.trim();
+    date = /^\d+$/.test(trimmed) ? parseApiDate(Number(trimmed)) : new Date(trimmed);
+  }
+  return date && !isNaN(date.getTime()) ? date : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Templates and pagination
+// ---------------------------------------------------------------------------
+
+/** Fill {town} and {env.CONNECTOR_*}; URL templates get their values encoded. */
+export function expandTemplate(template: string, townId: string, encode = false): string {
+  return template.replace(TEMPLATE_PATTERN, (_match, name: string, envName?: string) => {
+    let value = townId;
+    if (envName) {
+      if (!envName.startsWith(CONNECTOR_ENV_PREFIX)) {
+        throw new Error(`Environment variable ${envName} is not readable by connectors`);
+      }
+      const envValue = process.env[envName];
+      if (envValue === undefined) throw new Error(`Environment variable ${envName} is not set`);
+      value = envValue;
+    }
+    return encode ? encodeURIComponent(value) : value;
+  });
+}
+
+/** The rel="next" target of a Link header, resolved against the request URL. */
+export function parseNextLink(header: string | null, baseUrl: string): string | null {
+  if (!header) return null;
+  for (const part of header.split(",")) {
+    const [target, ...params] = part.split(";");
+    const isNext = params.some((p) => {
+      const [key, value = ""] = p.split("=");
+      return key.trim().toLowerCase() === "rel" && value.trim().replaceAll('"', "").split(/\s+/).includes("next");
+    });
+    const url = target.trim();
+    if (isNext && url.startsWith("<") && url.endsWith(">")) {
+      return new URL(url.slice(1, -1), baseUrl).href;
+    }
+  }
+  return null;
+}
+
+function withParam(url: string, name: string, value: string | number): string {
+  const parsed = new URL(url);
+  parsed.searchParams.set(name, String(value));
+  return parsed.href;
+}
+
+// ---------------------------------------------------------------------------
+// Connector factory
+// ---------------------------------------------------------------------------
+
+export function createApiConnector(
+  townId: string,
+  config: ConnectorConfig
+): SourceConnector {
+  const settings = parseApiSettings(config.id, config.config);
+  const sourceName = settings.sourceName ?? config.id;
+  const { fields } = settings;
+
+  async function fetchPage(url: string): Promise<{ body: unknown; link: string | null }> {
+    const headers: Record<string, string> = {
+      "User-Agent": "CommunityNavigator/1.0",
+      Accept: "application/json",
+    };
+    for (const [name, value] of Object.entries(settings.headers ?? {})) {
+      headers[name] = expandTemplate(value, townId);
+    }
+
+    const response = await fetch(url, {
+      headers,
+      signal: AbortSignal.timeout(30_000),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `API fetch failed for ${new URL(url).origin}${new URL(url).pathname}: ${response.status} ${response.statusText}`
+      );
+    }
+    return { body: await response.json(), link: response.headers.get("link") };
+  }
+
+  return {
+    id: config.id,
+    type: "api",
+    category: config.category as ContentCategory,
+    schedule: config.schedule,
+    townId,
+    shouldEmbed: config.shouldEmbed,
+
+    async fetch(): Promise<RawItem[]> {
+      const pagination = settings.pagination;
+      const maxPages = pagination ? pagination.maxPages ?? DEFAULT_MAX_PAGES : 1;
+      const pageSize = pagination?.pageSize ?? DEFAULT_PAGE_SIZE;
+      const firstUrl = expandTemplate(settings.url, townId, true);
+      const items: RawItem[] = [];
+      const seenCursors = new Set<string>();
+
+      let url: string | null =
+        pagination?.style === "offset"
+          ? withParam(withParam(firstUrl, pagination.offsetParam ?? "offset", 0), pagination.limitParam ?? "limit", pageSize)
+          : firstUrl;
+
+      for (let page = 0; url && page < maxPages; page++) {
+        const { body, link } = await fetchPage(url);
+        const pageItems = selectPath(body, settings.itemsPath).filter(isRecord);
+        items.push(...pageItems);
+
+        switch (pagination?.style) {
+          case "cursor": {
+            const [cursor] = selectPath(body, pagination.cursorPath!);
+            const next = isEmpty(cursor) ? null : String(cursor);
+            // A cursor we've already followed would loop forever
+            url = next && !seenCursors.has(next) ? withParam(url, pagination.cursorParam ?? "cursor", next) : null;
+            if (next) seenCursors.add(next);
+            break;
+          }
+          case "offset":
+            url = pageItems.length < pageSize
+              ? null
+              : withParam(url, pagination.offsetParam ?? "offset", (page + 1) * pageSize);
+            break;
+          case "link":
+            url = parseNextLink(link, url);
+            break;
+          default:
+            url = null;
+        }
+      }
+
+      return items;
+    },
+
+    normalize(raw: RawItem[]): ContentItem[] {
+      const items: ContentItem[] = [];
+
+      for (const item of raw) {
+        const title = selectText(item, fields.title);
+        if (!title) continue;
+
+        const url = selectText(item, fields.url);
+        const content = selectText(item, fields.content, "\n\n") ?? title;
+        const publishedAt = parseApiDate(selectValues(item, fields.published_at)[0]);
+        const expiresAt = parseApiDate(selectValues(item, fields.expires_at)[0]);
+
+        const metadata: Record<string, unknown> = { source_name: sourceName };
+        for (const [key, selector] of Object.entries(fields.metadata ?? {})) {
+          const values = selectValues(item, selector);
+          if (values.length > 0) metadata[key] = values.length === 1 ? values[0] : values;
+        }
+
+        const hash = createHash("sha256")
+          .update(selectText(item, fields.id) ?? url ?? title)
+          .digest("hex");
+
+        items.push({
+          source_id: config.id,
+          category: config.category as ContentCategory,
+          title,
+          content,
+          summary: content === title ? undefined : content.slice(0, 300),
+          published_at: publishedAt ?? new Date(),
+          expires_at: expiresAt,
+          url,
+          image_url: selectText(item, fields.image_url),
+          metadata,
+          content_hash: hash,
+        });
+      }
+
+      return items;
+    },
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * src/lib/connectors/health.ts — Connector health, backoff and auto-disable
+ *
+ * The runner records each connector's outcome on its source_configs row:
+ * consecutive_failures (reset by a success), last_error, last_success_at,
+ * and last_fetched_at for every attempt. From that state:
+ *
+ *   - a failing connector waits SCHEDULE_MS × 2^failures before its next
+ *     attempt (capped), instead of being retried on every schedule tick
+ *   - after MAX_CONSECUTIVE_FAILURES it is disabled, with disabled_reason
+ *     set so the admin Pipeline tab can tell it apart from a manual disable
+ */
+
+import { SCHEDULE_MS, type ConnectorSchedule } from "./types";
+
+/** Consecutive failures after which the runner disables a connector */
+export const MAX_CONSECUTIVE_FAILURES = 6;
+
+/** Longest backoff between retries, unless the schedule itself is longer */
+export const MAX_BACKOFF_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type ConnectorHealth = "healthy" | "backing_off" | "auto_disabled" | "disabled" | "never_run";
+
+/** The health columns of a source_configs row */
+export interface ConnectorHealthState {
+  enabled: boolean;
+  schedule: ConnectorSchedule;
+  lastFetchedAt: string | null;
+  lastSuccessAt: string | null;
+  consecutiveFailures: number;
+  /** Set when the runner disabled the connector; null for a manual disable */
+  disabledReason: string | null;
+}
+
+/** Time between attempts after `failures` consecutive failures. */
+export function retryIntervalMs(schedule: ConnectorSchedule, failures: number): number {
+  const base = SCHEDULE_MS[schedule] ?? SCHEDULE_MS.daily;
+  if (failures <= 0) return base;
+  return Math.min(base * 2 ** failures, Math.max(base, MAX_BACKOFF_MS));
+}
+
+/** When the connector should next run, or null if it is disabled. */
+export function nextRunAt(state: ConnectorHealthState): Date | null {
+  if (!state.enabled) return null;
+  if (!state.lastFetchedAt) return new Date(0);
+  const lastAttempt = new Date(state.lastFetchedAt).getTime();
+  return new Date(lastAttempt + retryIntervalMs(state.schedule, state.consecutiveFailures));
+}
+
+export function isConnectorDue(state: ConnectorHealthState, now = Date.now()): boolean {
+  const next = nextRunAt(state);
+  return next !== null && next.getTime() <= now;
+}
+
+export function classifyConnectorHealth(state: ConnectorHealthState): ConnectorHealth {
+  if (!state.enabled) return state.disabledReason ? "auto_disabled" : "disabled";
+  if (state.consecutiveFailures > 0) return "backing_off";
+  if (!state.lastFetchedAt) return "never_run";
+  return "healthy";
+}
+
+/** Read the health columns off a source_configs row. */
+export function healthStateFromRow(row: Record<string, unknown>): ConnectorHealthState {
+  return {
+    enabled: row.enabled !== false,
+    schedule: row.schedule as ConnectorSchedule,
+    lastFetchedAt: (row.last_fetched_at as string | null) ?? null,
+    lastSuccessAt: (row.last_success_at as string | null) ?? null,
+    consecutiveFailures: (row.consecutive_failures as number | null) ?? 0,
+    disabledReason: (row.disabled_reason as string | null) ?? null,
+  };
+}
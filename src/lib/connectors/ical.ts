@@ -1,14 +1,27 @@
 /**
  * src/lib/connectors/ical.ts — Generic iCal/ICS feed connector
  *
- * Fetches and parses iCal feeds (VCALENDAR/VEVENT). Config-driven: just
- * provide a feed URL and the connector handles parsing, normalization, and dedup.
+ * Fetches and parses iCal feeds (RFC 5545). Config-driven: just provide a
+ * feed URL and the connector handles parsing, normalization, and dedup.
+ *
+ * The parser unfolds content lines, reads property parameters (quoted ones
+ * included) and unescapes TEXT values. Times keep their meaning: UTC,
+ * TZID-qualified (IANA, Windows/Outlook and prefixed Mozilla names), floating
+ * (the calendar's X-WR-TIMEZONE, else Eastern) and all-day VALUE=DATE.
+ *
+ * Recurring events are expanded into one item per occurrence within
+ * daysAhead: RRULE (DAILY/WEEKLY/MONTHLY/YEARLY with INTERVAL, COUNT, UNTIL,
+ * BYDAY, BYMONTHDAY, BYMONTH, BYYEARDAY, BYSETPOS, WKST), RDATE and EXDATE,
+ * with RECURRENCE-ID overrides moving or cancelling single occurrences.
+ * Each occurrence hashes as UID + original start, so it stays one row across
+ * runs even when its details change.
  *
  * Config shape:
  *   { feedUrl: string, sourceName?: string, daysAhead?: number }
  */
 
 import { createHash } from "crypto";
+import { EASTERN_TZ, isValidTimeZone, zonedDateTime } from "@/lib/timezone";
 import type {
   ConnectorConfig,
   ContentCategory,
@@ -18,99 +31,609 @@ import type {
 } from "./types";
 
 // ---------------------------------------------------------------------------
-// iCal parsing (lightweight, no dependencies)
+// Content lines and components
 // ---------------------------------------------------------------------------
 
-interface ICalEvent {
-  uid: string;
-  summary: string;
-  description: string;
-  dtstart: string;
-  dtend: string;
-  location: string;
-  url: string;
+export interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
 }
 
-function parseICalFeed(icsText: string): ICalEvent[] {
-  const events: ICalEvent[] = [];
+export interface ICalComponent {
+  name: string;
+  properties: ICalProperty[];
+  components: ICalComponent[];
+}
 
-  // Split into VEVENT blocks
-  const eventBlocks = icsText.split("BEGIN:VEVENT");
+/** Join folded lines: a line break followed by a space or tab continues the line */
+function unfoldLines(text: string): string[] {
+  return text
+    .replaceAll(/\r\n?/g, "\n")
+    .replaceAll(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim() !== "");
+}
 
-  for (let i = 1; i < eventBlocks.length; i++) {
-    const block = eventBlocks[i].split("END:VEVENT")[0];
+/** NAME;PARAM=value;PARAM="quoted:value":VALUE — colons and semicolons may hide in quotes */
+function parseContentLine(line: string): ICalProperty | null {
+  let i = 0;
+  const readUntil = (stops: string): string => {
+    let token = "";
+    let quoted = false;
+    for (; i < line.length; i++) {
+      const char = line[i];
+      if (char === '"') quoted = !quoted;
+      else if (!quoted && stops.includes(char)) break;
+      else token += char;
+    }
+    return token;
+  };
 
-    events.push({
-      uid: extractICalProp(block, "UID"),
-      summary: unfoldICalText(extractICalProp(block, "SUMMARY")),
-      description: unfoldICalText(extractICalProp(block, "DESCRIPTION")),
-      dtstart: extractICalDate(block, "DTSTART"),
-      dtend: extractICalDate(block, "DTEND"),
-      location: unfoldICalText(extractICalProp(block, "LOCATION")),
-      url: extractICalProp(block, "URL"),
-    });
+  const name = readUntil(";:").toUpperCase();
+  const params: Record<string, string> = {};
+  while (line[i] === ";") {
+    i++;
+    const param = readUntil(";:");
+    const eq = param.indexOf("=");
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1);
   }
+  if (line[i] !== ":" || !name) return null;
 
-  return events;
+  return { name, params, value: line.slice(i + 1) };
 }
 
-function extractICalProp(block: string, prop: string): string {
-  // iCal properties can have parameters like DTSTART;VALUE=DATE:20260101
-  // nosemgrep: detect-non-literal-regexp -- prop is a hardcoded iCal property name
-  const regex = new RegExp(`^${prop}[;:](.*)$`, "im");
-  const match = block.match(regex);
-  if (!match) return "";
+/** Parse an iCalendar stream into its component tree (the root holds VCALENDARs). */
+export function parseICalComponents(text: string): ICalComponent {
+  const root: ICalComponent = { name: "ROOT", properties: [], components: [] };
+  const stack = [root];
+
+  for (const line of unfoldLines(text)) {
+    const property = parseContentLine(line);
+    if (!property) continue;
+    const current = stack[stack.length - 1];
 
-  let value = match[1];
-  // Remove parameters (everything before the last colon in cases like ;VALUE=DATE:20260101)
-  if (prop !== "URL" && value.includes(":")) {
-    // Only split on colon for non-URL properties
-    const parts = value.split(":");
-    value = parts[parts.length - 1];
+    if (property.name === "BEGIN") {
+      const component = { name: property.value.trim().toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === "END") {
+      // Tolerate unbalanced END lines in sloppy exports
+      if (stack.length > 1 && current.name === property.value.trim().toUpperCase()) stack.pop();
+    } else {
+      current.properties.push(property);
+    }
   }
 
-  return value.trim();
+  return root;
 }
 
-function extractICalDate(block: string, prop: string): string {
-  // Handle both DTSTART:20260101T120000Z and DTSTART;VALUE=DATE:20260101
-  // nosemgrep: detect-non-literal-regexp -- prop is a hardcoded iCal property name
-  const regex = new RegExp(`^${prop}[^:]*:(.*)$`, "im");
-  const match = block.match(regex);
-  return match?.[1]?.trim() ?? "";
+function getProp(component: ICalComponent, name: string): ICalProperty | undefined {
+  return component.properties.find((property) => property.name === name);
 }
 
-function unfoldICalText(text: string): string {
-  return text
-    .replaceAll("\\n", "\n")
-    .replaceAll("\\,", ",")
-    .replaceAll("\\;", ";")
-    .replaceAll("\\\\", "\\")
+function getProps(component: ICalComponent, name: string): ICalProperty[] {
+  return component.properties.filter((property) => property.name === name);
+}
+
+/** Unescape a TEXT value (\n, \, \; \\) */
+export function unescapeText(value: string): string {
+  return value
+    .replaceAll(/\\([nN,;\\])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char))
     .trim();
 }
 
-function parseICalDateTime(dtStr: string): Date {
-  if (!dtStr) return new Date();
+function getText(component: ICalComponent, name: string): string {
+  const property = getProp(component, name);
+  return property ? unescapeText(property.value) : "";
+}
+
+// ---------------------------------------------------------------------------
+// Dates, times and time zones
+// ---------------------------------------------------------------------------
+
+/** A calendar date plus wall-clock time, as written in the feed */
+interface LocalDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/** A DATE or DATE-TIME value with the zone its wall-clock time is in */
+interface ICalTime {
+  local: LocalDateTime;
+  /** VALUE=DATE: an all-day value */
+  dateOnly: boolean;
+  /** IANA zone for the wall-clock fields ("UTC" for Z values) */
+  timeZone: string;
+}
+
+/** Outlook/Exchange exports name zones the Windows way */
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  "Eastern Standard Time": "America/New_York",
+  "US Eastern Standard Time": "America/Indiana/Indianapolis",
+  "Central Standard Time": "America/Chicago",
+  "Mountain Standard Time": "America/Denver",
+  "US Mountain Standard Time": "America/Phoenix",
+  "Pacific Standard Time": "America/Los_Angeles",
+  "Alaskan Standard Time": "America/Anchorage",
+  "Hawaiian Standard Time": "Pacific/Honolulu",
+  "Atlantic Standard Time": "America/Halifax",
+  "GMT Standard Time": "Europe/London",
+  "W. Europe Standard Time": "Europe/Berlin",
+  UTC: "UTC",
+};
+
+/** Map a TZID to an IANA zone, or null when it names nothing Intl knows */
+export function resolveTimeZone(tzid: string): string | null {
+  const name = tzid.trim();
+  if (WINDOWS_TIME_ZONES[name]) return WINDOWS_TIME_ZONES[name];
+  if (isValidTimeZone(name)) return name;
+  // Prefixed ids like "/mozilla.org/20070129_1/America/New_York"
+  const segments = name.split("/");
+  const suffix = [3, 2]
+    .map((count) => segments.slice(-count).join("/"))
+    .find((candidate) => candidate.includes("/") && isValidTimeZone(candidate));
+  return suffix ?? null;
+}
+
+// eslint-disable-next-line security/detect-unsafe-regex -- anchored, fixed-width digit groups
+const DATE_TIME_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/i;
+
+function parseTimeValue(value: string, params: Record<string, string>, defaultZone: string): ICalTime | null {
+  const match = value.trim().match(DATE_TIME_PATTERN);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const dateOnly = hour === undefined || params.VALUE === "DATE";
+
+  return {
+    local: {
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: dateOnly ? 0 : Number(hour),
+      minute: dateOnly ? 0 : Number(minute),
+      second: dateOnly ? 0 : Number(second),
+    },
+    dateOnly,
+    timeZone: utc ? "UTC" : (params.TZID && resolveTimeZone(params.TZID)) || defaultZone,
+  };
+}
+
+function parseTimeProp(property: ICalProperty | undefined, defaultZone: string): ICalTime | null {
+  return property ? parseTimeValue(property.value, property.params, defaultZone) : null;
+}
+
+/** Every value of a list property (EXDATE/RDATE), across repeated lines; PERIODs keep their start */
+function parseTimeList(properties: ICalProperty[], defaultZone: string): ICalTime[] {
+  return properties.flatMap((property) =>
+    property.value
+      .split(",")
+      .map((value) => parseTimeValue(value.split("/")[0], property.params, defaultZone))
+      .filter((time): time is ICalTime => time !== null)
+  );
+}
+
+function toInstant(local: LocalDateTime, timeZone: string): Date {
+  return zonedDateTime(timeZone, local.year, local.month, local.day, local.hour, local.minute, local.second);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days since the epoch for a calendar date — plain integer arithmetic on dates */
+function dayNumber(year: number, month: number, day: number): number {
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+function fromDayNumber(days: number): { year: number; month: number; day: number } {
+  const date = new Date(days * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function weekdayOf(days: number): number {
+  return new Date(days * DAY_MS).getUTCDay();
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+interface ICalDuration {
+  days: number;
+  ms: number;
+}
+
+// eslint-disable-next-line security/detect-unsafe-regex -- anchored; each digit run ends at a distinct unit letter
+const DURATION_PATTERN = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i;
+
+function parseDuration(value: string): ICalDuration | null {
+  const match = value.trim().match(DURATION_PATTERN);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const factor = sign === "-" ? -1 : 1;
+  return {
+    days: factor * (Number(weeks ?? 0) * 7 + Number(days ?? 0)),
+    ms: factor * ((Number(hours ?? 0) * 60 + Number(minutes ?? 0)) * 60 + Number(seconds ?? 0)) * 1000,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Recurrence rules
+// ---------------------------------------------------------------------------
+
+type Frequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+interface ByDay {
+  weekday: number;
+  /** 2 = second, -1 = last; undefined = every */
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  until?: ICalTime;
+  byDay?: ByDay[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  byYearDay?: number[];
+  bySetPos?: number[];
+  /** Week start, 0 = Sunday; only matters for WEEKLY rules with INTERVAL > 1 */
+  wkst: number;
+}
 
-  // Format: 20260101T120000Z or 20260101
-  if (dtStr.length === 8) {
-    // Date only: YYYYMMDD
-    const y = dtStr.slice(0, 4);
-    const m = dtStr.slice(4, 6);
-    const d = dtStr.slice(6, 8);
-    return new Date(`${y}-${m}-${d}T00:00:00Z`);
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const FREQUENCIES = new Set<string>(["DAILY", "WEEKLY", "MONTHLY", "YEARLY"]);
+
+function parseNumberList(value: string | undefined): number[] | undefined {
+  if (!value) return undefined;
+  const numbers = value.split(",").map(Number).filter((n) => Number.isInteger(n) && n !== 0);
+  return numbers.length > 0 ? numbers : undefined;
+}
+
+/**
+ * Parse an RRULE value. Returns null for frequencies finer than a day,
+ * which municipal calendars don't use; the event then occurs once.
+ */
+export function parseRecurrenceRule(value: string, defaultZone: string): RecurrenceRule | null {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(";")) {
+    const eq = part.indexOf("=");
+    if (eq > 0) parts[part.slice(0, eq).trim().toUpperCase()] = part.slice(eq + 1).trim().toUpperCase();
   }
+  if (!FREQUENCIES.has(parts.FREQ)) return null;
 
-  // Full datetime: YYYYMMDDTHHMMSSZ or YYYYMMDDTHHMMSS
-  const y = dtStr.slice(0, 4);
-  const m = dtStr.slice(4, 6);
-  const d = dtStr.slice(6, 8);
-  const h = dtStr.slice(9, 11) || "00";
-  const min = dtStr.slice(11, 13) || "00";
-  const s = dtStr.slice(13, 15) || "00";
-  const tz = dtStr.endsWith("Z") ? "Z" : "";
+  const byDay = parts.BYDAY?.split(",").flatMap((token): ByDay[] => {
+    // eslint-disable-next-line security/detect-unsafe-regex -- anchored, at most two digits before a fixed weekday code
+    const match = token.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (!match) return [];
+    return [{ weekday: WEEKDAYS.indexOf(match[2]), ordinal: match[1] ? Number(match[1]) : undefined }];
+  });
 
-  return new Date(`${y}-${m}-${d}T${h}:${min}:${s}${tz}`);
+  return {
+    freq: parts.FREQ as Frequency,
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    count: parts.COUNT ? Number(parts.COUNT) : undefined,
+    until: parts.UNTIL ? parseTimeValue(parts.UNTIL, {}, defaultZone) ?? undefined : undefined,
+    byDay: byDay && byDay.length > 0 ? byDay : undefined,
+    byMonthDay: parseNumberList(parts.BYMONTHDAY),
+    byMonth: parseNumberList(parts.BYMONTH),
+    byYearDay: parseNumberList(parts.BYYEARDAY),
+    bySetPos: parseNumberList(parts.BYSETPOS),
+    wkst: parts.WKST ? Math.max(0, WEEKDAYS.indexOf(parts.WKST)) : 1,
+  };
+}
+
+/** Days (as day numbers) in [first, last] matching BYDAY; ordinals count within the span */
+function matchByDay(first: number, last: number, byDay: ByDay[]): number[] {
+  const matches: number[] = [];
+  for (let days = first; days <= last; days++) {
+    const weekday = weekdayOf(days);
+    const nth = Math.floor((days - first) / 7) + 1;
+    const nthFromEnd = -(Math.floor((last - days) / 7) + 1);
+    if (byDay.some((rule) =>
+      rule.weekday === weekday &&
+      (rule.ordinal === undefined || rule.ordinal === nth || rule.ordinal === nthFromEnd)
+    )) {
+      matches.push(days);
+    }
+  }
+  return matches;
+}
+
+/** Candidate days in one month for MONTHLY and YEARLY rules */
+function monthCandidates(year: number, month: number, rule: RecurrenceRule, startDay: number): number[] {
+  const dim = daysInMonth(year, month);
+  const first = dayNumber(year, month, 1);
+  const last = first + dim - 1;
+
+  let days: number[] | null = null;
+  if (rule.byMonthDay) {
+    days = rule.byMonthDay
+      .map((d) => (d > 0 ? d : dim + d + 1))
+      .filter((d) => d >= 1 && d <= dim)
+      .map((d) => first + d - 1);
+  }
+  if (rule.byDay) {
+    const weekdays = matchByDay(first, last, rule.byDay);
+    days = days ? days.filter((d) => weekdays.includes(d)) : weekdays;
+  }
+  return days ?? (startDay <= dim ? [first + startDay - 1] : []);
+}
+
+/** Candidate days in the `period`-th period after the one containing the start */
+function periodCandidates(rule: RecurrenceRule, start: number, period: number): number[] {
+  const { year, month, day } = fromDayNumber(start);
+  const step = period * rule.interval;
+  let days: number[];
+
+  switch (rule.freq) {
+    case "DAILY": {
+      days = [start + step];
+      if (rule.byDay) days = days.filter((d) => rule.byDay!.some((b) => b.weekday === weekdayOf(d)));
+      if (rule.byMonthDay) {
+        days = days.filter((d) => {
+          const date = fromDayNumber(d);
+          const dim = daysInMonth(date.year, date.month);
+          return rule.byMonthDay!.some((n) => (n > 0 ? n : dim + n + 1) === date.day);
+        });
+      }
+      break;
+    }
+    case "WEEKLY": {
+      const weekStart = start - ((weekdayOf(start) - rule.wkst + 7) % 7) + step * 7;
+      const weekdays = rule.byDay?.map((b) => b.weekday) ?? [weekdayOf(start)];
+      days = Array.from({ length: 7 }, (_, i) => weekStart + i).filter((d) => weekdays.includes(weekdayOf(d)));
+      break;
+    }
+    case "MONTHLY": {
+      const monthIndex = year * 12 + (month - 1) + step;
+      days = monthCandidates(Math.floor(monthIndex / 12), (monthIndex % 12) + 1, rule, day);
+      break;
+    }
+    case "YEARLY": {
+      const targetYear = year + step;
+      const first = dayNumber(targetYear, 1, 1);
+      const last = dayNumber(targetYear, 12, 31);
+      if (rule.byYearDay) {
+        days = rule.byYearDay
+          .map((n) => (n > 0 ? first + n - 1 : last + n + 1))
+          .filter((d) => d >= first && d <= last);
+      } else if (rule.byDay && !rule.byMonth && !rule.byMonthDay) {
+        // e.g. FREQ=YEARLY;BYDAY=20MO — ordinals count within the year
+        days = matchByDay(first, last, rule.byDay);
+      } else {
+        days = (rule.byMonth ?? [month]).flatMap((m) => monthCandidates(targetYear, m, rule, day));
+      }
+      break;
+    }
+  }
+
+  if (rule.byMonth) days = days.filter((d) => rule.byMonth!.includes(fromDayNumber(d).month));
+  days = [...new Set(days)].sort((a, b) => a - b);
+
+  if (rule.bySetPos) {
+    const selected = days;
+    days = rule.bySetPos
+      .map((pos) => selected[pos > 0 ? pos - 1 : selected.length + pos])
+      .filter((d): d is number => d !== undefined)
+      .sort((a, b) => a - b);
+  }
+  return days;
+}
+
+/** Upper bound on periods walked per rule, so a malformed rule can't spin forever */
+const MAX_RECURRENCE_PERIODS = 50_000;
+
+/**
+ * Start times of a recurring event, in order, until COUNT, UNTIL or `end`.
+ * DTSTART is always the first occurrence; later ones keep its wall-clock
+ * time in its zone, so a 7 PM meeting stays at 7 PM across DST changes.
+ */
+export function expandRecurrence(rule: RecurrenceRule, dtstart: ICalTime, end: Date): ICalTime[] {
+  const startDay = dayNumber(dtstart.local.year, dtstart.local.month, dtstart.local.day);
+  const until = rule.until
+    ? rule.until.dateOnly && !dtstart.dateOnly
+      ? toInstant({ ...rule.until.local, hour: 23, minute: 59, second: 59 }, dtstart.timeZone)
+      : toInstant(rule.until.local, rule.until.timeZone)
+    : null;
+
+  const occurrences: ICalTime[] = [dtstart];
+  for (let period = 0; period < MAX_RECURRENCE_PERIODS; period++) {
+    for (const days of periodCandidates(rule, startDay, period)) {
+      if (days <= startDay) continue;
+      if (rule.count !== undefined && occurrences.length >= rule.count) return occurrences;
+
+      const occurrence = { ...dtstart, local: { ...dtstart.local, ...fromDayNumber(days) } };
+      const instant = toInstant(occurrence.local, occurrence.timeZone);
+      if ((until && instant > until) || instant > end) return occurrences;
+      occurrences.push(occurrence);
+    }
+  }
+  return occurrences;
+}
+
+// ---------------------------------------------------------------------------
+// Events and occurrences
+// ---------------------------------------------------------------------------
+
+export interface ICalOccurrence {
+  uid: string;
+  summary: string;
+  description: string;
+  location: string;
+  url: string;
+  categories: string[];
+  /** ISO instant; for all-day events, midnight in the calendar's zone */
+  start: string;
+  /** ISO instant (exclusive); absent when the feed gives no end */
+  end?: string;
+  allDay: boolean;
+  /** The occurrence's original start, for occurrences of a recurring event */
+  recurrenceId?: string;
+}
+
+/** The zone floating times are read in: the calendar's X-WR-TIMEZONE, else Eastern */
+function calendarTimeZone(calendar: ICalComponent): string {
+  const declared = getProp(calendar, "X-WR-TIMEZONE")?.value;
+  return (declared && resolveTimeZone(declared)) || EASTERN_TZ;
+}
+
+/** Date-only values compare by calendar day; everything else by instant */
+function occurrenceKey(time: ICalTime): string {
+  return time.dateOnly
+    ? `${time.local.year}-${time.local.month}-${time.local.day}`
+    : toInstant(time.local, time.timeZone).toISOString();
+}
+
+/** How long each occurrence lasts: DTEND - DTSTART, DURATION, or a day for all-day events */
+function eventDuration(event: ICalComponent, start: ICalTime, zone: string): ICalDuration | null {
+  const dtend = parseTimeProp(getProp(event, "DTEND"), zone);
+  if (dtend) {
+    if (start.dateOnly) {
+      const days =
+        dayNumber(dtend.local.year, dtend.local.month, dtend.local.day) -
+        dayNumber(start.local.year, start.local.month, start.local.day);
+      return { days: Math.max(days, 1), ms: 0 };
+    }
+    const ms = toInstant(dtend.local, dtend.timeZone).getTime() - toInstant(start.local, start.timeZone).getTime();
+    return { days: 0, ms: Math.max(ms, 0) };
+  }
+  const duration = getProp(event, "DURATION");
+  if (duration) return parseDuration(duration.value);
+  return start.dateOnly ? { days: 1, ms: 0 } : null;
+}
+
+/** End of an occurrence: whole days move its wall-clock date, the rest is elapsed time */
+function occurrenceEnd(start: ICalTime, duration: ICalDuration | null): Date | undefined {
+  if (!duration) return undefined;
+  const endDate = fromDayNumber(dayNumber(start.local.year, start.local.month, start.local.day) + duration.days);
+  return new Date(toInstant({ ...start.local, ...endDate }, start.timeZone).getTime() + duration.ms);
+}
+
+function toOccurrence(
+  event: ICalComponent,
+  start: ICalTime,
+  end: Date | undefined,
+  recurrenceId?: string
+): ICalOccurrence {
+  return {
+    uid: getText(event, "UID"),
+    summary: getText(event, "SUMMARY"),
+    description: getText(event, "DESCRIPTION"),
+    location: getText(event, "LOCATION"),
+    url: getProp(event, "URL")?.value.trim() ?? "",
+    categories: getProps(event, "CATEGORIES")
+      .flatMap((property) => property.value.split(/(?<!\\),/))
+      .map(unescapeText)
+      .filter(Boolean),
+    start: toInstant(start.local, start.timeZone).toISOString(),
+    end: end?.toISOString(),
+    allDay: start.dateOnly,
+    recurrenceId,
+  };
+}
+
+function isCancelled(event: ICalComponent): boolean {
+  return getProp(event, "STATUS")?.value.trim().toUpperCase() === "CANCELLED";
+}
+
+/**
+ * Every event occurrence overlapping [from, to]. Recurring events are
+ * expanded; overrides (same UID with RECURRENCE-ID) replace or cancel the
+ * occurrence they name.
+ */
+export function expandICalEvents(icsText: string, from: Date, to: Date): ICalOccurrence[] {
+  const calendars = parseICalComponents(icsText).components.filter((c) => c.name === "VCALENDAR");
+  const occurrences: ICalOccurrence[] = [];
+
+  for (const calendar of calendars) {
+    const zone = calendarTimeZone(calendar);
+    const events = calendar.components.filter((c) => c.name === "VEVENT");
+
+    // Overrides by UID, keyed by the original start they replace
+    const overrides = new Map<string, Map<string, ICalComponent>>();
+    for (const event of events) {
+      const recurrenceId = parseTimeProp(getProp(event, "RECURRENCE-ID"), zone);
+      if (!recurrenceId) continue;
+      const uid = getText(event, "UID");
+      if (!overrides.has(uid)) overrides.set(uid, new Map());
+      overrides.get(uid)!.set(occurrenceKey(recurrenceId), event);
+    }
+
+    for (const event of events) {
+      if (getProp(event, "RECURRENCE-ID")) continue;
+      const dtstart = parseTimeProp(getProp(event, "DTSTART"), zone);
+      if (!dtstart || isCancelled(event)) continue;
+
+      const duration = eventDuration(event, dtstart, zone);
+      const rrule = getProp(event, "RRULE");
+      const rule = rrule ? parseRecurrenceRule(rrule.value, zone) : null;
+      const rdates = parseTimeList(getProps(event, "RDATE"), dtstart.timeZone);
+
+      if (!rule && rdates.length === 0) {
+        occurrences.push(toOccurrence(event, dtstart, occurrenceEnd(dtstart, duration)));
+        continue;
+      }
+
+      const eventOverrides = overrides.get(getText(event, "UID")) ?? new Map<string, ICalComponent>();
+      // An occurrence after the window may have been moved into it
+      const horizon = new Date(Math.max(to.getTime(), ...[...eventOverrides.values()].map((override) => {
+        const recurrenceId = parseTimeProp(getProp(override, "RECURRENCE-ID"), zone)!;
+        return toInstant(recurrenceId.local, recurrenceId.timeZone).getTime();
+      })));
+
+      // RDATEs add occurrences; a date-only RDATE keeps the event's time of day
+      const starts = rule ? expandRecurrence(rule, dtstart, horizon) : [dtstart];
+      for (const rdate of rdates) {
+        const { year, month, day } = rdate.local;
+        starts.push(rdate.dateOnly ? { ...dtstart, local: { ...dtstart.local, year, month, day } } : rdate);
+      }
+
+      const excluded = new Set(parseTimeList(getProps(event, "EXDATE"), dtstart.timeZone).map(occurrenceKey));
+      const seen = new Set<string>();
+
+      const ordered = starts
+        .map((start) => ({ start, instant: toInstant(start.local, start.timeZone) }))
+        .sort((a, b) => a.instant.getTime() - b.instant.getTime());
+
+      for (const { start, instant } of ordered) {
+        const key = occurrenceKey(start);
+        if (seen.has(key) || excluded.has(key)) continue;
+        seen.add(key);
+        const recurrenceId = instant.toISOString();
+
+        const override = eventOverrides.get(key);
+        if (!override) {
+          occurrences.push(toOccurrence(event, start, occurrenceEnd(start, duration), recurrenceId));
+          continue;
+        }
+        if (isCancelled(override)) continue;
+
+        // A moved occurrence keeps the master's details unless it restates them
+        const movedStart = parseTimeProp(getProp(override, "DTSTART"), zone) ?? start;
+        const movedEnd = occurrenceEnd(movedStart, eventDuration(override, movedStart, zone) ?? duration);
+        const merged: ICalComponent = {
+          ...override,
+          properties: [
+            ...override.properties,
+            ...event.properties.filter((property) => !getProp(override, property.name)),
+          ],
+        };
+        occurrences.push(toOccurrence(merged, movedStart, movedEnd, recurrenceId));
+      }
+    }
+  }
+
+  return occurrences.filter((occurrence) => {
+    const start = new Date(occurrence.start);
+    const end = new Date(occurrence.end ?? occurrence.start);
+    return start <= to && (occurrence.end ? end > from : end >= from);
+  });
 }
 
 // ---------------------------------------------------------------------------
@@ -150,36 +673,31 @@ export function createICalConnector(
       }
 
       const icsText = await response.text();
-      const events = parseICalFeed(icsText);
 
-      // Filter to events within the lookahead window
+      // Occurrences within the lookahead window (in-progress events included)
       const now = new Date();
-      const cutoff = new Date(now.getTime() + daysAhead * 24 * 60 * 60 * 1000);
-
-      return events
-        .filter((e) => {
-          if (!e.dtstart) return false;
-          const start = parseICalDateTime(e.dtstart);
-          return start >= now && start <= cutoff;
-        })
-        .map((e) => ({ ...e } as unknown as RawItem));
+      const cutoff = new Date(now.getTime() + daysAhead * DAY_MS);
+
+      return expandICalEvents(icsText, now, cutoff).map(
+        (occurrence) => ({ ...occurrence } as unknown as RawItem)
+      );
     },
 
     normalize(raw: RawItem[]): ContentItem[] {
       return raw.map((item) => {
-        const event = item as unknown as ICalEvent;
-        const start = parseICalDateTime(event.dtstart);
-        const end = event.dtend
-          ? parseICalDateTime(event.dtend)
-          : undefined;
+        const event = item as unknown as ICalOccurrence;
+        const start = new Date(event.start);
+        const end = event.end ? new Date(event.end) : undefined;
 
         const contentParts = [event.description];
         if (event.location) contentParts.push(`Location: ${event.location}`);
         const content = contentParts.filter(Boolean).join("\n\n");
 
-        const hash = createHash("sha256")
-          .update(event.uid || `${event.summary}-${event.dtstart}`)
-          .digest("hex");
+        // One row per occurrence: a recurring event's occurrences share its UID
+        const hashKey = event.uid
+          ? event.recurrenceId ? `${event.uid}#${event.recurrenceId}` : event.uid
+          : `${event.summary}-${event.start}`;
+        const hash = createHash("sha256").update(hashKey).digest("hex");
 
         return {
           source_id: config.id,
@@ -194,6 +712,9 @@ export function createICalConnector(
             event_location: event.location || undefined,
             event_start: start.toISOString(),
             event_end: end?.toISOString(),
+            all_day: event.allDay || undefined,
+            recurring: event.recurrenceId ? true : undefined,
+            event_categories: event.categories.length > 0 ? event.categories : undefined,
           },
           content_hash: hash,
         };
@@ -12,9 +12,20 @@ export type {
   ConnectorConfig,
   ConnectorResult,
   ConnectorFactory,
+  HttpCacheValidators,
+  HttpCacheState,
 } from "./types";
 
 export { SCHEDULE_MS } from "./types";
 export { registerConnector, createConnector, listRegisteredConnectors } from "./registry";
 export { runConnectors, hashContent } from "./runner";
 export type { RunOptions } from "./runner";
+export {
+  MAX_CONSECUTIVE_FAILURES,
+  classifyConnectorHealth,
+  healthStateFromRow,
+  isConnectorDue,
+  nextRunAt,
+  retryIntervalMs,
+} from "./health";
+export type { ConnectorHealth, ConnectorHealthState } from "./health";
@@ -0,0 +1,190 @@
+/**
+ * src/lib/connectors/preview.ts — Dry-run a draft connector config
+ *
+ * Builds a SourceConnector from a ConnectorConfig that isn't saved yet,
+ * runs fetch() + normalize() exactly as the runner would, and returns the
+ * ContentItems without upserting them, along with warnings about items the
+ * runner would store badly or the site would filter out:
+ *
+ *   - missing_date    — normalize() fell back to the fetch time
+ *   - duplicate_hash  — items that would overwrite each other on upsert
+ *   - geo_rejected    — items the geo filter hides from the town's feeds
+ *   - missing_title / missing_url
+ *
+ * Callers must import "@/lib/connectors/register-all" so the factories are
+ * registered.
+ */
+
+import { checkGeographicRelevance, getTownGeography, isUrlGeographicallyRelevant } from "@/lib/geo-filter";
+import { createConnector } from "./registry";
+import {
+  SCHEDULE_MS,
+  type ConnectorConfig,
+  type ConnectorSchedule,
+  type ConnectorType,
+  type ContentCategory,
+  type ContentItem,
+} from "./types";
+
+const CONNECTOR_TYPES: readonly ConnectorType[] = ["rss", "ical", "api", "scrape", "pdf"];
+
+const CONTENT_CATEGORIES: readonly ContentCategory[] = [
+  "news",
+  "events",
+  "dining",
+  "safety",
+  "transit",
+  "weather",
+  "government",
+  "community",
+  "sports",
+];
+
+/** Items returned in a preview; warnings still cover every item */
+export const PREVIEW_ITEM_LIMIT = 50;
+
+export type PreviewWarningCode =
+  | "missing_date"
+  | "duplicate_hash"
+  | "geo_rejected"
+  | "missing_title"
+  | "missing_url";
+
+export interface PreviewWarning {
+  code: PreviewWarningCode;
+  message: string;
+  /** Index into the normalized items; absent for connector-wide warnings */
+  itemIndex?: number;
+}
+
+export interface ConnectorPreview {
+  connectorId: string;
+  itemsFound: number;
+  /** The first PREVIEW_ITEM_LIMIT normalized items */
+  items: ContentItem[];
+  totalItems: number;
+  warnings: PreviewWarning[];
+  durationMs: number;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// ---------------------------------------------------------------------------
+// Draft validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate a draft source_configs row from the admin dashboard. Returns the
+ * ConnectorConfig, or an error message. The id defaults to "{townId}:preview".
+ */
+export function parseDraftConnectorConfig(input: unknown, townId: string): ConnectorConfig | string {
+  if (!isRecord(input)) return "config must be an object";
+
+  const { id, connector_type, category, schedule, config, should_embed } = input;
+  if (typeof connector_type !== "string" || !CONNECTOR_TYPES.includes(connector_type as ConnectorType)) {
+    return `connector_type must be one of ${CONNECTOR_TYPES.join(", ")}`;
+  }
+  if (typeof category !== "string" || !CONTENT_CATEGORIES.includes(category as ContentCategory)) {
+    return `category must be one of ${CONTENT_CATEGORIES.join(", ")}`;
+  }
+  if (schedule !== undefined && !(typeof schedule === "string" && Object.hasOwn(SCHEDULE_MS, schedule))) {
+    return `schedule must be one of ${Object.keys(SCHEDULE_MS).join(", ")}`;
+  }
+  if (config !== undefined && !isRecord(config)) return "config.config must be an object";
+  if (id !== undefined && (typeof id !== "string" || !id.startsWith(`${townId}:`))) {
+    return `id must start with "${townId}:"`;
+  }
+
+  return {
+    id: (id as string | undefined) ?? `${townId}:preview`,
+    connector_type: connector_type as ConnectorType,
+    category: category as ContentCategory,
+    schedule: (schedule as ConnectorSchedule | undefined) ?? "daily",
+    config: (config as Record<string, unknown> | undefined) ?? {},
+    enabled: true,
+    shouldEmbed: should_embed === true,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Warnings
+// ---------------------------------------------------------------------------
+
+/**
+ * Check normalized items the way the runner and the site will treat them.
+ * `normalizedFrom`/`normalizedTo` bracket the normalize() call: a date in
+ * that range is a connector's "now" fallback for an item without one.
+ */
+export function collectPreviewWarnings(
+  items: ContentItem[],
+  townId: string,
+  normalizedFrom: number,
+  normalizedTo: number
+): PreviewWarning[] {
+  const warnings: PreviewWarning[] = [];
+  const geography = getTownGeography(townId);
+  const firstIndexByHash = new Map<string, number>();
+
+  items.forEach((item, itemIndex) => {
+    const publishedAt = item.published_at.getTime();
+    if (isNaN(publishedAt)) {
+      warnings.push({ code: "missing_date", message: "Publish date is not a valid date", itemIndex });
+    } else if (publishedAt >= normalizedFrom && publishedAt <= normalizedTo) {
+      warnings.push({ code: "missing_date", message: "No publish date; defaulted to the fetch time", itemIndex });
+    }
+
+    const firstIndex = firstIndexByHash.get(item.content_hash);
+    if (firstIndex !== undefined) {
+      warnings.push({
+        code: "duplicate_hash",
+        message: `Same content hash as item ${firstIndex + 1}; only one of them will be stored`,
+        itemIndex,
+      });
+    } else {
+      firstIndexByHash.set(item.content_hash, itemIndex);
+    }
+
+    if (!item.title.trim()) {
+      warnings.push({ code: "missing_title", message: "Item has no title", itemIndex });
+    }
+    if (!item.url) {
+      warnings.push({ code: "missing_url", message: "Item has no link", itemIndex });
+    } else if (!isUrlGeographicallyRelevant(item.url, geography)) {
+      warnings.push({ code: "geo_rejected", message: "URL points at another town", itemIndex });
+      return;
+    }
+
+    const geo = checkGeographicRelevance(item.content, item.title, item.url ?? "", item.category, geography);
+    if (!geo.isRelevant) {
+      warnings.push({ code: "geo_rejected", message: geo.reason, itemIndex });
+    }
+  });
+
+  return warnings;
+}
+
+// ---------------------------------------------------------------------------
+// Preview
+// ---------------------------------------------------------------------------
+
+/** Run a connector's fetch() + normalize() without storing anything. */
+export async function previewConnector(townId: string, config: ConnectorConfig): Promise<ConnectorPreview> {
+  const startTime = Date.now();
+  const connector = createConnector(townId, config);
+  const rawItems = await connector.fetch();
+
+  const normalizedFrom = Date.now();
+  const items = connector.normalize(rawItems);
+  const normalizedTo = Date.now();
+
+  return {
+    connectorId: config.id,
+    itemsFound: rawItems.length,
+    items: items.slice(0, PREVIEW_ITEM_LIMIT),
+    totalItems: items.length,
+    warnings: collectPreviewWarnings(items, townId, normalizedFrom, normalizedTo),
+    durationMs: Date.now() - startTime,
+  };
+}
@@ -11,17 +11,17 @@ import { createRssConnector } from "./rss";
 import { createICalConnector } from "./ical";
 import { createScraperConnector } from "./scraper";
 import { createLibraryEventsConnector } from "./library-events";
+import { createApiConnector } from "./api";
 
 // Generic connector types
 registerConnector("rss", createRssConnector);
 registerConnector("ical", createICalConnector);
 registerConnector("scrape", createScraperConnector);
+registerConnector("api", createApiConnector);
 
 // Specialized connector types
 registerConnector("scrape:library-events", createLibraryEventsConnector);
 
-// Placeholder registrations for future connectors:
-// registerConnector("api:mbta", createMbtaConnector);
-// registerConnector("api:weather", createWeatherConnector);
+// Placeholder registrations for future connectors. JSON APIs such as MBTA,
+// weather or Yelp can be "api" source_configs rows; see api.ts.
 // registerConnector("scrape:police-blotter", createPoliceBlotterScraper);
-// registerConnector("api:yelp", createYelpConnector);
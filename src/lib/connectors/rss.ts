@@ -1,8 +1,13 @@
 /**
  * src/lib/connectors/rss.ts — Generic RSS feed connector
  *
- * Fetches and parses RSS/Atom feeds. Config-driven: just provide a feed URL
- * and the connector handles parsing, normalization, and dedup.
+ * Fetches and parses news feeds in every common dialect: RSS 2.0, RSS 1.0
+ * (RDF) and Atom 1.0. Config-driven: just provide a feed URL and the
+ * connector handles parsing, normalization, and dedup. Images come from
+ * media:content / media:thumbnail, enclosures and Atom enclosure links.
+ *
+ * Requests are conditional: the ETag / Last-Modified validators saved on
+ * the source_configs row are sent back, and a 304 yields no items.
  *
  * Config shape:
  *   { feedUrl: string, sourceName?: string }
@@ -18,57 +23,105 @@ import type {
 } from "./types";
 
 // ---------------------------------------------------------------------------
-// RSS XML parsing (lightweight, no dependencies)
+// Feed XML parsing (lightweight, no dependencies)
 // ---------------------------------------------------------------------------
 
-interface RssEntry {
+export type FeedFormat = "rss2" | "rss1" | "atom";
+
+export interface RssEntry {
   title: string;
   link: string;
   description: string;
   pubDate: string;
   category?: string;
+  imageUrl?: string;
+}
+
+export function detectFeedFormat(xml: string): FeedFormat {
+  if (/<rdf:RDF\b/i.test(xml)) return "rss1";
+  if (/<feed\b[^>]*xmlns="http:\/\/www\.w3\.org\/2005\/Atom"/i.test(xml)) return "atom";
+  if (/<rss\b/i.test(xml)) return "rss2";
+  return /<entry\b/i.test(xml) ? "atom" : "rss2";
 }
 
-function parseRssXml(xml: string): RssEntry[] {
+export function parseRssXml(xml: string): RssEntry[] {
+  const format = detectFeedFormat(xml);
+  // RSS 2.0 and RDF list <item>s (RDF puts them beside the channel); Atom lists <entry>s
+  const blockRegex = format === "atom"
+    ? /<entry\b[^>]*>([\s\S]*?)<\/entry>/gi
+    : /<item\b[^>]*>([\s\S]*?)<\/item>/gi;
+
   const entries: RssEntry[] = [];
+  for (const match of xml.matchAll(blockRegex)) {
+    const block = match[1];
+    const entry = format === "atom" ? parseAtomEntry(block) : parseRssItem(block, match[0]);
+    if (entry.title || entry.link) entries.push(entry);
+  }
+  return entries;
+}
 
-  // Handle both RSS <item> and Atom <entry>
-  const itemRegex = /<item\b[^>]*>([\s\S]*?)<\/item>/gi;
-  const entryRegex = /<entry\b[^>]*>([\s\S]*?)<\/entry>/gi;
+function parseRssItem(block: string, element: string): RssEntry {
+  // RSS 1.0 items name their URL in rdf:about when <link> is missing
+  const about = element.match(ITEM_ABOUT_PATTERN)?.[1] ?? "";
+  const category = extractTag(block, "category") || extractTag(block, "dcSubject");
 
-  const items = Array.from(xml.matchAll(itemRegex)).concat(
-    Array.from(xml.matchAll(entryRegex))
-  );
+  return {
+    title: cleanText(extractTag(block, "title")),
+    link: decodeEntities(stripCdata(extractTag(block, "link") || about)),
+    description: cleanText(
+      extractTag(block, "description") || extractTag(block, "contentEncoded")
+    ),
+    pubDate: extractTag(block, "pubDate") || extractTag(block, "dcDate"),
+    category: category ? cleanText(category) : undefined,
+    imageUrl: findImageUrl(block),
+  };
+}
 
-  for (const match of items) {
-    const block = match[1];
+function parseAtomEntry(block: string): RssEntry {
+  const links = findElements(block, "link");
+  // The entry's page is its rel="alternate" link (rel defaults to alternate)
+  const alternate = links.find((attrs) => !attrs.rel || attrs.rel === "alternate");
+  const category = findElements(block, "category")[0];
 
-    const title = extractTag(block, "title");
-    const link =
-      extractTag(block, "link") || extractAttr(block, "link", "href");
-    const description =
-      extractTag(block, "description") ||
-      extractTag(block, "summary") ||
-      extractTag(block, "content");
-    const pubDate =
-      extractTag(block, "pubDate") ||
-      extractTag(block, "published") ||
-      extractTag(block, "updated") ||
-      "";
-    const category = extractTag(block, "category");
-
-    if (title || link) {
-      entries.push({
-        title: stripCdata(title),
-        link: stripCdata(link),
-        description: stripHtml(stripCdata(description)),
-        pubDate,
-        category: category ? stripCdata(category) : undefined,
-      });
-    }
-  }
+  return {
+    title: atomText(block, "title"),
+    link: alternate?.href ?? "",
+    description: atomText(block, "summary") || atomText(block, "content"),
+    pubDate: extractTag(block, "published") || extractTag(block, "updated"),
+    category: category ? category.label || category.term : undefined,
+    imageUrl: findImageUrl(block, links),
+  };
+}
 
-  return entries;
+/** Atom text constructs: a type="html" body is escaped HTML */
+function atomText(block: string, tag: "title" | "summary" | "content"): string {
+  const text = extractTag(block, tag);
+  const type = findElements(block, tag)[0]?.type;
+  return cleanText(type === "html" ? decodeEntities(stripCdata(text)) : text);
+}
+
+/**
+ * First image attached to an item, in order of intent: Media RSS content,
+ * then its thumbnail, then an image enclosure (RSS) or enclosure link (Atom).
+ */
+function findImageUrl(
+  block: string,
+  links: Record<string, string>[] = []
+): string | undefined {
+  const isImage = (attrs: Record<string, string>) =>
+    attrs.medium === "image" ||
+    (attrs.type ?? "").startsWith("image/") ||
+    (!attrs.type && !attrs.medium && IMAGE_EXTENSION_PATTERN.test(attrs.url ?? ""));
+
+  const candidates = [
+    ...findElements(block, "mediaContent").filter(isImage),
+    ...findElements(block, "mediaThumbnail"),
+    ...findElements(block, "enclosure").filter(isImage),
+    ...links
+      .filter((attrs) => attrs.rel === "enclosure" && (attrs.type ?? "").startsWith("image/"))
+      .map((attrs) => ({ url: attrs.href })),
+  ];
+  return candidates.find((attrs) => attrs.url)?.url;
 }
 
 /**
@@ -81,20 +134,33 @@ const TAG_PATTERNS: Record<string, RegExp> = {
   title: /<title[^>]*>([\s\S]*?)<\/title>/i,
   link: /<link[^>]*>([\s\S]*?)<\/link>/i,
   description: /<description[^>]*>([\s\S]*?)<\/description>/i,
+  contentEncoded: /<content:encoded[^>]*>([\s\S]*?)<\/content:encoded>/i,
   summary: /<summary[^>]*>([\s\S]*?)<\/summary>/i,
-  content: /<content[^>]*>([\s\S]*?)<\/content>/i,
+  content: /<content\b[^>]*>([\s\S]*?)<\/content>/i,
   pubDate: /<pubDate[^>]*>([\s\S]*?)<\/pubDate>/i,
   published: /<published[^>]*>([\s\S]*?)<\/published>/i,
   updated: /<updated[^>]*>([\s\S]*?)<\/updated>/i,
   category: /<category[^>]*>([\s\S]*?)<\/category>/i,
+  dcDate: /<dc:date[^>]*>([\s\S]*?)<\/dc:date>/i,
+  dcSubject: /<dc:subject[^>]*>([\s\S]*?)<\/dc:subject>/i,
 };
 
-const ATTR_PATTERNS: Record<string, Record<string, RegExp>> = {
-  link: {
-    href: /<link[^>]*href="([^"]*)">/i,
-  },
+/** Opening (or self-closing) tags whose attributes carry the data */
+const ELEMENT_PATTERNS: Record<string, RegExp> = {
+  title: /<title\b([^>]*?)\/?>/gi,
+  summary: /<summary\b([^>]*?)\/?>/gi,
+  content: /<content\b([^>]*?)\/?>/gi,
+  link: /<link\b([^>]*?)\/?>/gi,
+  category: /<category\b([^>]*?)\/?>/gi,
+  enclosure: /<enclosure\b([^>]*?)\/?>/gi,
+  mediaContent: /<media:content\b([^>]*?)\/?>/gi,
+  mediaThumbnail: /<media:thumbnail\b([^>]*?)\/?>/gi,
 };
 
+const ATTRIBUTE_PATTERN = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const ITEM_ABOUT_PATTERN = /^<item\b[^>]*\brdf:about="([^"]*)"/i;
+const IMAGE_EXTENSION_PATTERN = /\.(?:jpe?g|png|gif|webp|avif)(?:[?#]|$)/i;
+
 function extractTag(xml: string, tag: string): string {
   const pattern = TAG_PATTERNS[tag];
   if (!pattern) return "";
@@ -102,31 +168,53 @@ function extractTag(xml: string, tag: string): string {
   return match?.[1]?.trim() ?? "";
 }
 
-function extractAttr(xml: string, tag: string, attr: string): string {
-  const pattern = ATTR_PATTERNS[tag]?.[attr];
-  if (!pattern) return "";
-  const match = xml.match(pattern);
-  return match?.[1]?.trim() ?? "";
+/** Attributes of every matching element, entity-decoded */
+function findElements(xml: string, element: string): Record<string, string>[] {
+  const pattern = ELEMENT_PATTERNS[element];
+  if (!pattern) return [];
+  return Array.from(xml.matchAll(pattern), (match) => {
+    const attrs: Record<string, string> = {};
+    for (const [, name, doubleQuoted, singleQuoted] of match[1].matchAll(ATTRIBUTE_PATTERN)) {
+      attrs[name] = decodeEntities(doubleQuoted ?? singleQuoted ?? "");
+    }
+    return attrs;
+  });
 }
 
 function stripCdata(text: string): string {
   return text.replaceAll(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1").trim();
 }
 
-function stripHtml(text: string): string {
+function decodeEntities(text: string): string {
   return text
-    .replaceAll(/<[^>]+>/g, " ")
+    .replaceAll(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replaceAll(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
     // Decode named entities — &amp; must be last to prevent double-decoding
     .replaceAll("&lt;", "<")
     .replaceAll("&gt;", ">")
     .replaceAll("&quot;", '"')
-    .replaceAll("&#39;", "'")
+    .replaceAll("&apos;", "'")
     .replaceAll("&nbsp;", " ")
-    .replaceAll("&amp;", "&")
+    .replaceAll("&amp;", "&");
+}
+
+function stripHtml(text: string): string {
+  return decodeEntities(text.replaceAll(/<[^>]+>/g, " "))
     .replaceAll(/\s+/g, " ")
     .trim();
 }
 
+/**
+ * Plain text from an element body. HTML may arrive in CDATA or escaped
+ * (Atom type="html", most RSS descriptions), so escaped markup is decoded
+ * and stripped as well.
+ */
+function cleanText(text: string): string {
+  const unwrapped = stripCdata(text);
+  const html = /&lt;\/?[a-z][\s\S]*?&gt;/i.test(unwrapped) ? decodeEntities(unwrapped) : unwrapped;
+  return stripHtml(html);
+}
+
 // ---------------------------------------------------------------------------
 // RSS Connector
 // ---------------------------------------------------------------------------
@@ -142,7 +230,7 @@ export function createRssConnector(
     throw new Error(`RSS connector "${config.id}" missing feedUrl in config`);
   }
 
-  return {
+  const connector: SourceConnector = {
     id: config.id,
     type: "rss",
     category: config.category as ContentCategory,
@@ -151,11 +239,23 @@ export function createRssConnector(
     shouldEmbed: config.shouldEmbed,
 
     async fetch(): Promise<RawItem[]> {
+      const etag = config.httpCache?.etag ?? null;
+      const lastModified = config.httpCache?.lastModified ?? null;
+      const headers: Record<string, string> = { "User-Agent": "CommunityNavigator/1.0" };
+      if (etag) headers["If-None-Match"] = etag;
+      if (lastModified) headers["If-Modified-Since"] = lastModified;
+
       const response = await fetch(feedUrl, {
-        headers: { "User-Agent": "CommunityNavigator/1.0" },
+        headers,
         signal: AbortSignal.timeout(30_000),
       });
 
+      // Unchanged since the last run: keep the validators we sent
+      if (response.status === 304) {
+        connector.httpCache = { etag, lastModified, notModified: true };
+        return [];
+      }
+
       if (!response.ok) {
         throw new Error(
           `RSS fetch failed for ${feedUrl}: ${response.status} ${response.statusText}`
@@ -164,6 +264,11 @@ export function createRssConnector(
 
       const xml = await response.text();
       const entries = parseRssXml(xml);
+      connector.httpCache = {
+        etag: response.headers.get("etag"),
+        lastModified: response.headers.get("last-modified"),
+        notModified: false,
+      };
 
       return entries.map((entry) => ({ ...entry } as unknown as RawItem));
     },
@@ -205,6 +310,7 @@ export function createRssConnector(
           summary: entry.description ? entry.description.slice(0, 300) : undefined,
           published_at: publishedAt,
           url: entry.link || undefined,
+          image_url: entry.imageUrl,
           metadata: {
             source_name: sourceName,
             rss_category: entry.category,
@@ -214,4 +320,6 @@ export function createRssConnector(
       });
     },
   };
+
+  return connector;
 }
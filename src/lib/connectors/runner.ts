@@ -4,35 +4,32 @@
  * Reads source_configs from Supabase, determines which connectors are due
  * to run based on their schedule, executes them, and upserts results into
  * content_items. Handles errors gracefully so one broken connector doesn't
- * block others.
+ * block others; failing connectors back off and are eventually disabled
+ * (see health.ts).
  */
 
 import { createHash } from "crypto";
 import { getSupabaseServiceClient } from "@/lib/supabase";
+import { getTenantDb, type TenantDb } from "@/lib/tenant-db";
 import { generateEmbedding } from "@/lib/embeddings";
-import { upsertToPinecone, PINECONE_NS_CONTENT } from "@/lib/upstash-vector";
-import { classifyDocument } from "@/lib/relevance-classifier";
+import { getVectorStore, VECTOR_NS_CONTENT } from "@/lib/vector-store";
+import { invalidateCachedAnswersForUrls } from "@/lib/answer-cache";
+import { classifyDocument, type TownTierRules } from "@/lib/relevance-classifier";
+import { getTierRules } from "@/lib/tier-rules";
 import { createConnector } from "./registry";
+import {
+  MAX_CONSECUTIVE_FAILURES,
+  healthStateFromRow,
+  isConnectorDue,
+  type ConnectorHealthState,
+} from "./health";
 import type {
   ConnectorConfig,
   ConnectorResult,
   ConnectorSchedule,
   ContentItem,
+  HttpCacheValidators,
 } from "./types";
-import { SCHEDULE_MS as scheduleMs } from "./types";
-
-// ---------------------------------------------------------------------------
-// Determine which connectors are due to run
-// ---------------------------------------------------------------------------
-
-function isDue(
-  lastFetchedAt: string | null,
-  schedule: ConnectorSchedule
-): boolean {
-  if (!lastFetchedAt) return true; // never run before
-  const elapsed = Date.now() - new Date(lastFetchedAt).getTime();
-  return elapsed >= scheduleMs[schedule];
-}
 
 // ---------------------------------------------------------------------------
 // Load source configs from Supabase
@@ -66,13 +63,17 @@ async function loadSourceConfigs(
     config: row.config ?? {},
     enabled: row.enabled,
     shouldEmbed: row.should_embed ?? false,
-    _lastFetchedAt: row.last_fetched_at as string | null,
+    httpCache: {
+      etag: (row.etag as string | null) ?? null,
+      lastModified: (row.last_modified as string | null) ?? null,
+    },
+    _health: healthStateFromRow(row),
     _townId: row.town_id as string,
   }));
 }
 
 type LoadedConfig = ConnectorConfig & {
-  _lastFetchedAt: string | null;
+  _health: ConnectorHealthState;
   _townId: string;
 };
 
@@ -80,14 +81,12 @@ type LoadedConfig = ConnectorConfig & {
 // Upsert content items into Supabase
 // ---------------------------------------------------------------------------
 
-type SupabaseServiceClient = ReturnType<typeof getSupabaseServiceClient>;
-
 async function upsertSingleItem(
-  supabase: SupabaseServiceClient,
-  townId: string,
+  db: TenantDb,
   item: ContentItem,
-  shouldEmbed: boolean
-): Promise<{ upserted: boolean }> {
+  shouldEmbed: boolean,
+  tierRules: TownTierRules
+): Promise<{ upserted: boolean; failed?: boolean }> {
   let embeddingValues: number[] | null = null;
   if (shouldEmbed && item.content) {
     const textToEmbed = `${item.title}\n\n${item.summary || item.content}`.slice(
@@ -104,7 +103,6 @@ async function upsertSingleItem(
   }
 
   const row = {
-    town_id: townId,
     source_id: item.source_id,
     category: item.category,
     title: item.title,
@@ -119,89 +117,166 @@ async function upsertSingleItem(
     updated_at: new Date().toISOString(),
   };
 
-  const { data: upsertedRow, error } = await supabase.from("content_items").upsert(row, {
+  const { data: upsertedRow, error } = await db.upsert("content_items", row, {
     onConflict: "town_id,source_id,content_hash",
     ignoreDuplicates: false,
   }).select("id").single();
 
   if (error) {
-    if (error.code !== "23505") {
-      console.error(
-        `[runner] Upsert error for "${item.title}": ${error.message}`
-      );
-    }
-    return { upserted: false };
+    // A duplicate (23505) is already stored; anything else failed to store
+    if (error.code === "23505") return { upserted: false };
+    console.error(
+      `[runner] Upsert error for "${item.title}": ${error.message}`
+    );
+    return { upserted: false, failed: true };
   }
 
   if (embeddingValues && upsertedRow?.id) {
     try {
-      const tier = item.url ? classifyDocument(item.url, item.title) : "supplementary";
-      await upsertToPinecone(PINECONE_NS_CONTENT, [{
+      const tier = item.url ? classifyDocument(item.url, tierRules, item.title) : "supplementary";
+      await getVectorStore().upsert(VECTOR_NS_CONTENT, [{
         id: upsertedRow.id,
         values: embeddingValues,
-        metadata: { town_id: townId, source_id: item.source_id, relevance_tier: tier },
+        metadata: { town_id: db.townId, source_id: item.source_id, relevance_tier: tier },
       }]);
-    } catch (pineconeErr) {
-      console.warn(`[runner] Pinecone upsert failed for "${item.title}": ${pineconeErr}`);
+    } catch (vectorErr) {
+      console.warn(`[runner] Vector upsert failed for "${item.title}": ${vectorErr}`);
     }
   }
 
   return { upserted: true };
 }
 
+/** content_hash values per lookup, to keep the IN (...) list in the URL short */
+const HASH_LOOKUP_BATCH = 100;
+
+async function loadExistingHashes(
+  db: TenantDb,
+  items: ContentItem[]
+): Promise<Set<string>> {
+  const hashes = [...new Set(items.map((item) => item.content_hash))];
+  const existing = new Set<string>();
+
+  for (let i = 0; i < hashes.length; i += HASH_LOOKUP_BATCH) {
+    const { data, error } = await db
+      .select("content_items", "content_hash")
+      .in("content_hash", hashes.slice(i, i + HASH_LOOKUP_BATCH));
+
+    if (error) {
+      console.warn(`[runner] Failed to look up existing content hashes: ${error.message}`);
+      continue;
+    }
+    for (const row of data ?? []) existing.add(row.content_hash as string);
+  }
+
+  return existing;
+}
+
 async function upsertContentItems(
   townId: string,
   items: ContentItem[],
   shouldEmbed: boolean
-): Promise<{ upserted: number; skipped: number }> {
-  if (items.length === 0) return { upserted: 0, skipped: 0 };
-
-  const supabase = getSupabaseServiceClient();
+): Promise<{ upserted: number; skipped: number; failed: number; changedUrls: string[] }> {
+  if (items.length === 0) return { upserted: 0, skipped: 0, failed: 0, changedUrls: [] };
+
+  const db = getTenantDb(townId);
+  // Items whose hash is already stored are re-fetches of unchanged content
+  const existingHashes = await loadExistingHashes(db, items);
+  const tierRules = await getTierRules(townId);
+  const changedUrls: string[] = [];
   let upserted = 0;
   let skipped = 0;
+  let failed = 0;
 
   for (const item of items) {
-    const result = await upsertSingleItem(supabase, townId, item, shouldEmbed);
+    const result = await upsertSingleItem(db, item, shouldEmbed, tierRules);
     if (result.upserted) {
       upserted++;
+      if (item.url && !existingHashes.has(item.content_hash)) {
+        changedUrls.push(item.url);
+      }
     } else {
       skipped++;
+      if (result.failed) failed++;
     }
   }
 
-  return { upserted, skipped };
+  return { upserted, skipped, failed, changedUrls };
+}
+
+/** Drop cached answers citing URLs a connector brought new content for. Non-fatal. */
+async function purgeCachedAnswers(
+  townId: string,
+  connectorId: string,
+  changedUrls: string[]
+): Promise<number> {
+  if (changedUrls.length === 0) return 0;
+  try {
+    return await invalidateCachedAnswersForUrls(townId, changedUrls, {
+      reason: "content_item_updated",
+      triggeredBy: `connector:${connectorId}`,
+    });
+  } catch (err) {
+    console.warn(`[runner] Cache invalidation failed for ${connectorId}: ${err}`);
+    return 0;
+  }
 }
 
 // ---------------------------------------------------------------------------
 // Update source_config after a run
 // ---------------------------------------------------------------------------
 
+/**
+ * Record a run's outcome. A failure extends the connector's failure streak,
+ * which backs off its next run; at MAX_CONSECUTIVE_FAILURES the connector is
+ * disabled. Returns true when this run disabled it.
+ */
 async function updateSourceConfig(
   configId: string,
   success: boolean,
-  errorMessage?: string
-): Promise<void> {
+  errorMessage?: string,
+  httpCache?: HttpCacheValidators
+): Promise<boolean> {
   const supabase = getSupabaseServiceClient();
+  const now = new Date().toISOString();
 
   const update: Record<string, unknown> = {
-    last_fetched_at: new Date().toISOString(),
+    last_fetched_at: now,
   };
+  let disabled = false;
 
   if (success) {
-    update.error_count = 0;
+    update.consecutive_failures = 0;
     update.last_error = null;
+    update.last_success_at = now;
+    // Validators for the next run's conditional GET
+    if (httpCache) {
+      update.etag = httpCache.etag;
+      update.last_modified = httpCache.lastModified;
+    }
   } else {
-    update.last_error = errorMessage ?? "Unknown error";
-    // Increment error_count via raw update
+    const lastError = errorMessage ?? "Unknown error";
+    update.last_error = lastError;
+    // Increment the counters via raw update
     const { data } = await supabase
       .from("source_configs")
-      .select("error_count")
+      .select("error_count, consecutive_failures")
       .eq("id", configId)
       .single();
+    const failures = ((data?.consecutive_failures as number) ?? 0) + 1;
     update.error_count = ((data?.error_count as number) ?? 0) + 1;
+    update.consecutive_failures = failures;
+
+    if (failures >= MAX_CONSECUTIVE_FAILURES) {
+      disabled = true;
+      update.enabled = false;
+      update.disabled_reason = `Disabled after ${failures} consecutive failures: ${lastError}`;
+      console.warn(`[runner] ${configId} disabled after ${failures} consecutive failures`);
+    }
   }
 
   await supabase.from("source_configs").update(update).eq("id", configId);
+  return disabled;
 }
 
 // ---------------------------------------------------------------------------
@@ -236,8 +311,8 @@ export async function runConnectors(
   const results: ConnectorResult[] = [];
 
   for (const config of configs as LoadedConfig[]) {
-    // Check if this connector is due
-    if (!options.force && !isDue(config._lastFetchedAt, config.schedule)) {
+    // Check if this connector is due, counting any failure backoff
+    if (!options.force && !isConnectorDue(config._health)) {
       continue;
     }
 
@@ -261,19 +336,24 @@ export async function runConnectors(
       const normalized = connector.normalize(rawItems);
 
       // Upsert into Supabase
-      const { upserted, skipped } = await upsertContentItems(
+      const { upserted, skipped, failed, changedUrls } = await upsertContentItems(
         townId,
         normalized,
         config.shouldEmbed
       );
+      const cachedAnswersPurged = await purgeCachedAnswers(townId, config.id, changedUrls);
 
-      await updateSourceConfig(config.id, true);
+      // Keep the old validators when any item failed to store, so the next
+      // run refetches the feed instead of getting a 304 and never retrying
+      await updateSourceConfig(config.id, true, undefined, failed === 0 ? connector.httpCache : undefined);
 
       results.push({
         connectorId: config.id,
         itemsFound: rawItems.length,
         itemsUpserted: upserted,
         itemsSkipped: skipped,
+        cachedAnswersPurged,
+        notModified: connector.httpCache?.notModified,
         errors: [],
         durationMs: Date.now() - startTime,
       });
@@ -283,13 +363,15 @@ export async function runConnectors(
       const errorMsg = err instanceof Error ? err.message : String(err);
       console.error(`[runner] ${config.id} FAILED: ${errorMsg}`);
 
-      await updateSourceConfig(config.id, false, errorMsg);
+      const autoDisabled = await updateSourceConfig(config.id, false, errorMsg);
 
       results.push({
         connectorId: config.id,
         itemsFound: 0,
         itemsUpserted: 0,
         itemsSkipped: 0,
+        cachedAnswersPurged: 0,
+        autoDisabled,
         errors: [errorMsg],
         durationMs: Date.now() - startTime,
       });
@@ -13,6 +13,7 @@
  *     articleUrlPattern?: string,  // Regex pattern to filter article URLs
  *     maxPages?: number,           // Max pages to scrape per run (default: 20)
  *     maxDepth?: number,           // Max crawl depth (default: 1)
+ *     sitemapUrl?: string,         // Take links from this sitemap instead of the base page
  *   }
  */
 
@@ -152,6 +153,49 @@ async function discoverLinks(
   }
 }
 
+/**
+ * Page URLs listed in a sitemap, following one level of sitemap index.
+ * Filtered by the URL pattern and capped at maxLinks.
+ */
+async function discoverSitemapLinks(
+  sitemapUrl: string,
+  urlPattern?: RegExp,
+  maxLinks: number = 20,
+  depth: number = 0
+): Promise<string[]> {
+  try {
+    const response = await fetch(sitemapUrl, {
+      headers: { "User-Agent": "CommunityNavigator/1.0" },
+      signal: AbortSignal.timeout(15_000),
+    });
+
+    if (!response.ok) return [];
+
+    const xml = await response.text();
+    const locs = Array.from(xml.matchAll(/<loc>\s*([^<\s]+)\s*<\/loc>/gi), (m) => m[1]);
+    const isIndex = /<sitemapindex\b/i.test(xml);
+
+    const links: string[] = [];
+    for (const loc of locs) {
+      if (links.length >= maxLinks) break;
+      if (isIndex) {
+        if (depth === 0) {
+          const nested = await discoverSitemapLinks(loc, urlPattern, maxLinks - links.length, depth + 1);
+          links.push(...nested);
+        }
+        continue;
+      }
+      if (!/^https?:\/\//i.test(loc)) continue;
+      if (urlPattern && !urlPattern.test(loc)) continue;
+      if (!links.includes(loc)) links.push(loc);
+    }
+
+    return links;
+  } catch {
+    return [];
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Scraper Connector
 // ---------------------------------------------------------------------------
@@ -168,6 +212,7 @@ export function createScraperConnector(
   // nosemgrep: detect-non-literal-regexp -- pattern from admin-controlled connector config
   const urlPattern = urlPatternStr ? new RegExp(urlPatternStr) : undefined;
   const maxPages = (config.config.maxPages as number) ?? 20;
+  const sitemapUrl = config.config.sitemapUrl as string | undefined;
 
   if (!baseUrl) {
     throw new Error(`Scraper connector "${config.id}" missing url in config`);
@@ -182,13 +227,10 @@ export function createScraperConnector(
     shouldEmbed: config.shouldEmbed,
 
     async fetch(): Promise<RawItem[]> {
-      // Discover article links from the base URL
-      const links = await discoverLinks(
-        baseUrl,
-        articleSelector,
-        urlPattern,
-        maxPages
-      );
+      // Discover article links from the sitemap, or the base URL
+      const links = sitemapUrl
+        ? await discoverSitemapLinks(sitemapUrl, urlPattern, maxPages)
+        : await discoverLinks(baseUrl, articleSelector, urlPattern, maxPages);
 
       // Extract content from each link
       const results: RawItem[] = [];
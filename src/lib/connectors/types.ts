@@ -80,6 +80,22 @@ export interface ContentItem {
   content_hash: string;
 }
 
+// ---------------------------------------------------------------------------
+// HTTP cache validators — conditional GET for feed-style connectors
+// ---------------------------------------------------------------------------
+
+export interface HttpCacheValidators {
+  /** ETag header from the last successful fetch */
+  etag: string | null;
+  /** Last-Modified header from the last successful fetch */
+  lastModified: string | null;
+}
+
+export interface HttpCacheState extends HttpCacheValidators {
+  /** The source answered 304 Not Modified, so fetch() returned nothing */
+  notModified: boolean;
+}
+
 // ---------------------------------------------------------------------------
 // SourceConnector — the interface every connector implements
 // ---------------------------------------------------------------------------
@@ -97,6 +113,11 @@ export interface SourceConnector {
   townId: string;
   /** Whether items should be embedded for RAG search */
   shouldEmbed: boolean;
+  /**
+   * Set by fetch() on connectors that make conditional requests; the runner
+   * persists the validators for the next run.
+   */
+  httpCache?: HttpCacheState;
 
   /** Fetch raw data from the source */
   fetch(): Promise<RawItem[]>;
@@ -124,6 +145,8 @@ export interface ConnectorConfig {
   enabled: boolean;
   /** Whether items should be embedded for vector search */
   shouldEmbed: boolean;
+  /** Validators persisted on the source_configs row by the previous run */
+  httpCache?: HttpCacheValidators;
 }
 
 // ---------------------------------------------------------------------------
@@ -135,6 +158,12 @@ export interface ConnectorResult {
   itemsFound: number;
   itemsUpserted: number;
   itemsSkipped: number;
+  /** Cached answers deleted because they cite a URL this run brought new content for */
+  cachedAnswersPurged: number;
+  /** The source reported no changes since the last run (HTTP 304) */
+  notModified?: boolean;
+  /** This run's failure disabled the connector (see health.ts) */
+  autoDisabled?: boolean;
   errors: string[];
   durationMs: number;
 }
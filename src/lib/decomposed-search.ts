@@ -0,0 +1,193 @@
+/**
+ * src/lib/decomposed-search.ts — Decomposition-aware hybrid search
+ *
+ * Glues the query decomposer and the intent router onto hybridSearch:
+ * "when is the transfer station open and do I need a sticker"
+ * → "transfer station hours" (factual) + "transfer station sticker" (procedural)
+ *
+ * Each sub-query is searched with its own RetrievalConfig, following the
+ * decomposition strategy (parallel or sequential). Results are merged and
+ * the final result slots are divided between sub-queries by priority, so a
+ * secondary question can't crowd out the primary one.
+ */
+
+import { decomposeQuery, type QueryDecomposition, type SubQuery } from "@/lib/query-decomposer";
+import { getRetrievalConfig } from "@/lib/query-router";
+import { hybridSearch, type HybridSearchResult } from "@/lib/rag";
+import { mergeRerankStats, type RerankStats } from "@/lib/rerankers";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface DecomposedSearchResult {
+  results: HybridSearchResult[];
+  decomposition: QueryDecomposition;
+  /** Reranking metrics, aggregated across sub-queries */
+  rerank?: RerankStats;
+}
+
+// ---------------------------------------------------------------------------
+// Result budgets
+// ---------------------------------------------------------------------------
+
+/**
+ * Split `limit` result slots between sub-queries, weighting by priority
+ * (priority 1 gets 3x the share of priority 3). Every sub-query gets at
+ * least one slot. Returned budgets line up with the input order.
+ */
+export function allocateResultBudgets(subQueries: SubQuery[], limit: number): number[] {
+  if (subQueries.length === 0) return [];
+
+  const weights = subQueries.map((sq) => 1 / Math.min(Math.max(sq.priority || 1, 1), 3));
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+  const budgets = weights.map((w) => Math.max(1, Math.floor((limit * w) / totalWeight)));
+
+  // Hand leftover slots (from flooring) to the highest-priority sub-queries first
+  const byPriority = subQueries
+    .map((sq, index) => ({ index, priority: sq.priority || 1 }))
+    .sort((a, b) => a.priority - b.priority);
+  let remaining = limit - budgets.reduce((sum, b) => sum + b, 0);
+  for (let i = 0; remaining > 0; i = (i + 1) % byPriority.length) {
+    budgets[byPriority[i].index] += 1;
+    remaining -= 1;
+  }
+
+  return budgets;
+}
+
+/**
+ * Merge per-sub-query result lists. Each sub-query first fills its own
+ * budget (skipping chunks another sub-query already claimed), then any
+ * unused slots go to the best leftover results across all lists.
+ */
+export function mergeSubQueryResults(
+  resultLists: HybridSearchResult[][],
+  budgets: number[],
+  limit: number,
+): HybridSearchResult[] {
+  const selected = new Map<string, HybridSearchResult>();
+
+  resultLists.forEach((results, index) => {
+    let taken = 0;
+    for (const result of results) {
+      if (taken >= budgets[index]) break;
+      if (selected.has(result.id)) continue;
+      selected.set(result.id, result);
+      taken += 1;
+    }
+  });
+
+  if (selected.size < limit) {
+    const leftovers = resultLists
+      .flat()
+      .filter((r) => !selected.has(r.id))
+      .sort((a, b) => b.score - a.score);
+    for (const result of leftovers) {
+      if (selected.size >= limit) break;
+      if (!selected.has(result.id)) selected.set(result.id, result);
+    }
+  }
+
+  return Array.from(selected.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// ---------------------------------------------------------------------------
+// Search entry point
+// ---------------------------------------------------------------------------
+
+export async function searchWithDecomposition(
+  query: string,
+  options: {
+    townId: string;
+    limit: number;
+    /** Reuse a decomposition the caller already has instead of decomposing again */
+    decomposition?: QueryDecomposition;
+  }
+): Promise<DecomposedSearchResult> {
+  const { townId, limit } = options;
+  const decomposition = options.decomposition ?? (await decomposeQuery(query));
+  const subQueries = decomposition.subQueries;
+  const rerankStats: RerankStats[] = [];
+  const onRerank = (stats: RerankStats) => rerankStats.push(stats);
+
+  // Simple query: one search with the intent's config. Search the user's own
+  // wording — the decomposer's paraphrase is only useful for splitting.
+  if (!decomposition.isComplex || subQueries.length <= 1) {
+    const [primary] = subQueries;
+    const config = primary ? getRetrievalConfig(primary.intent, primary.sourceHint) : undefined;
+    const results = await hybridSearch(query, { townId, limit, config, onRerank });
+    return { results, decomposition, rerank: mergeRerankStats(rerankStats) };
+  }
+
+  const budgets = allocateResultBudgets(subQueries, limit);
+
+  const runSubQuery = (subQuery: SubQuery, budget: number) =>
+    hybridSearch(subQuery.query, {
+      townId,
+      // Over-fetch so overlaps with other sub-queries don't leave the budget unfilled
+      limit: Math.max(budget * 2, 5),
+      config: getRetrievalConfig(subQuery.intent, subQuery.sourceHint),
+      onRerank,
+    }).catch((err) => {
+      // One failed sub-query shouldn't sink the others
+      console.warn(`[decomposed-search] Sub-query failed: "${subQuery.query}"`, err?.message ?? err);
+      return [] as HybridSearchResult[];
+    });
+
+  let resultLists: HybridSearchResult[][];
+  if (decomposition.strategy === "sequential") {
+    resultLists = [];
+    for (let i = 0; i < subQueries.length; i++) {
+      resultLists.push(await runSubQuery(subQueries[i], budgets[i]));
+    }
+  } else {
+    resultLists = await Promise.all(subQueries.map((sq, i) => runSubQuery(sq, budgets[i])));
+  }
+
+  return {
+    results: mergeSubQueryResults(resultLists, budgets, limit),
+    decomposition,
+    rerank: mergeRerankStats(rerankStats),
+  };
+}
+
+/**
+ * Flatten a decomposition into the telemetry fields logSearchTelemetry expects.
+ */
+export function decompositionTelemetry(decomposition: QueryDecomposition): {
+  wasDecomposed: boolean;
+  subQueryCount: number;
+  intents: string[];
+  sourceHints: string[];
+} {
+  return {
+    wasDecomposed: decomposition.isComplex && decomposition.subQueries.length > 1,
+    subQueryCount: decomposition.subQueries.length,
+    intents: Array.from(new Set(decomposition.subQueries.map((sq) => sq.intent))),
+    sourceHints: Array.from(new Set(decomposition.subQueries.flatMap((sq) => sq.sourceHint))),
+  };
+}
+
+/**
+ * Flatten rerank stats into the telemetry fields logSearchTelemetry expects.
+ */
+export function rerankTelemetry(stats: RerankStats | undefined): {
+  usedReranker: boolean;
+  rerankerLatencyMs: number | null;
+  reranker?: string;
+  rerankScoreDelta?: number;
+  rerankRankShift?: number;
+} {
+  if (!stats) return { usedReranker: false, rerankerLatencyMs: null };
+  return {
+    usedReranker: stats.usedModel,
+    rerankerLatencyMs: stats.latencyMs,
+    reranker: stats.reranker,
+    rerankScoreDelta: stats.scoreDelta,
+    rerankRankShift: stats.rankShift,
+  };
+}
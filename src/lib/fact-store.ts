@@ -0,0 +1,541 @@
+/**
+ * src/lib/fact-store.ts — Structured facts: hours, fees and contacts
+ *
+ * Most resident questions want one exact value: "when is the transfer
+ * station open", "how much is a dog license", "what's the Building
+ * Department's number". At ingest, each document's chunks are scanned for
+ * facility hours, fee schedule lines and department contacts, and the typed
+ * facts are stored in structured_facts with a link back to their documents
+ * row. For factual and contact questions the chat and search routes look
+ * here first and answer straight from the stored value, citing the page it
+ * came from, before falling back to free-text RAG.
+ */
+
+import type { TownDepartment } from "../../config/towns";
+import { extractFacts, subjectTerms } from "@/lib/conflict-detector";
+import type { QueryDecomposition, QueryIntent } from "@/lib/query-decomposer";
+import { cleanDocumentTitle } from "@/lib/rag";
+import { getSupabaseClient, getSupabaseServiceClient } from "@/lib/supabase";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type StructuredFactType = "hours" | "fee" | "contact";
+
+export interface StructuredFact {
+  factType: StructuredFactType;
+  /** What the fact is about, e.g. "Building Department", "Transfer Station" */
+  subject: string;
+  /** "phone" / "email" / "address" for contacts, a day range for hours, the fee name for fees */
+  attribute: string;
+  /** The value as written in the source, e.g. "(781) 455-7550", "7:00 a.m. – 3:00 p.m." */
+  value: string;
+  /** The source line, kept so answers can quote exactly what the page says */
+  excerpt: string;
+  chunkIndex: number;
+}
+
+export interface StoredFact extends StructuredFact {
+  documentId: string;
+  documentUrl: string;
+  documentTitle: string;
+  documentDate?: string;
+}
+
+/** The parts of a scripts/chunk.ts Chunk that extraction needs */
+export interface FactSourceChunk {
+  text: string;
+  metadata: {
+    document_title: string;
+    section_title?: string;
+    chunk_index?: number;
+  };
+}
+
+export interface FactAnswer {
+  subject: string;
+  facts: StoredFact[];
+  source: { documentId: string; url: string; title: string; date?: string };
+}
+
+// ---------------------------------------------------------------------------
+// Extraction
+// ---------------------------------------------------------------------------
+
+// Heading words that name a section rather than a facility or department
+const SECTION_WORDS = new Set([
+  "hour", "operation", "information", "info", "schedule", "location", "directions",
+  "general", "overview", "details", "holiday", "regular",
+]);
+
+const DAY_PATTERN =
+  /\b(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday|mon|tue|tues|wed|thu|thur|thurs|fri|sat|sun|daily|weekdays?|weekends?)\b/i;
+
+const FEE_CONTEXT =
+  /\b(?:fees?|costs?|prices?|rates?|charges?|permits?|stickers?|licen[cs]es?|pass(?:es)?|registrations?|tuition|fines?)\b/i;
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]*[a-z]{2,}/gi;
+
+// eslint-disable-next-line security/detect-unsafe-regex -- bounded {1,3} word repetition on a single line
+const ADDRESS_PATTERN = /\b\d{1,5}\s+(?:[A-Z][a-z]+\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Drive|Dr|Way|Place|Pl|Lane|Ln|Highway|Hwy|Parkway|Square|Sq)\b/g;
+
+/** Strip markdown/table punctuation and collapse whitespace */
+function cleanText(text: string): string {
+  return text
+    .replaceAll(/[*_#|]/g, " ")
+    .replaceAll(/^\s*[-•]\s+/g, "")
+    .replaceAll(/\s+/g, " ")
+    .trim()
+    .replace(/[\s:–-]+$/, "")
+    .trim();
+}
+
+function isMeaningfulSubject(text: string): boolean {
+  return subjectTerms(text).some((term) => !SECTION_WORDS.has(term));
+}
+
+function headingOf(line: string): string | null {
+  const match = /^\s*#{1,6}\s+(.+)$/.exec(line) ?? /^\s*\*\*([^*]+)\*\*:?\s*$/.exec(line);
+  return match ? cleanText(match[1]) : null;
+}
+
+/**
+ * A department or facility named at the start of the line — the first table
+ * cell, or the text before a colon ("Building Department: (781) 455-7550").
+ */
+function lineLabel(line: string): string | null {
+  const trimmed = line.trim();
+  let label: string | undefined;
+  if (trimmed.startsWith("|")) {
+    label = trimmed.split("|").map((cell) => cell.trim()).find(Boolean);
+  } else {
+    const colon = trimmed.indexOf(":");
+    if (colon >= 3 && colon <= 60) label = trimmed.slice(0, colon);
+  }
+  if (!label) return null;
+
+  const cleaned = cleanText(label);
+  if (/\d/.test(cleaned) || DAY_PATTERN.test(cleaned) || !isMeaningfulSubject(cleaned)) return null;
+  return cleaned;
+}
+
+function hoursFact(line: string): { attribute: string; value: string } | null {
+  if (!DAY_PATTERN.test(line) || /\bclosed\b/i.test(line)) return null;
+  const times = extractFacts(line).filter((fact) => fact.kind === "time");
+  if (times.length < 2) return null;
+
+  // "Hours: Monday - Friday 8:30 a.m. …" → "Monday - Friday"
+  let days = cleanText(line.slice(0, line.indexOf(times[0].display)));
+  days = cleanText(days.slice(days.lastIndexOf(":") + 1));
+  if (!DAY_PATTERN.test(days)) days = DAY_PATTERN.exec(line)?.[0] ?? days;
+
+  return { attribute: days, value: `${times[0].display} – ${times[1].display}` };
+}
+
+function feeFacts(line: string, subject: string): { attribute: string; value: string }[] {
+  const amounts = extractFacts(line).filter((fact) => fact.kind === "money");
+  if (amounts.length === 0 || (!FEE_CONTEXT.test(line) && !FEE_CONTEXT.test(subject))) return [];
+
+  const fees: { attribute: string; value: string }[] = [];
+  let cursor = 0;
+  let name = subject;
+  for (const amount of amounts) {
+    const index = line.indexOf(amount.display, cursor);
+    if (index < 0) continue;
+    // The fee's name is whatever precedes its amount (since the previous amount)
+    const label = cleanText(line.slice(cursor, index));
+    if (label.length >= 3) name = label;
+    cursor = index + amount.display.length;
+    fees.push({ attribute: name, value: amount.display });
+  }
+  return fees;
+}
+
+function contactFacts(line: string): { attribute: string; value: string }[] {
+  const contacts: { attribute: string; value: string }[] = [];
+
+  for (const fact of extractFacts(line)) {
+    if (fact.kind !== "phone") continue;
+    const index = line.indexOf(fact.display);
+    if (/fax/i.test(line.slice(Math.max(0, index - 12), index))) continue;
+    contacts.push({ attribute: "phone", value: fact.display });
+  }
+  for (const match of line.matchAll(EMAIL_PATTERN)) {
+    contacts.push({ attribute: "email", value: match[0] });
+  }
+  for (const match of line.matchAll(ADDRESS_PATTERN)) {
+    contacts.push({ attribute: "address", value: match[0].trim() });
+  }
+
+  return contacts;
+}
+
+/**
+ * Pull facility hours, fee schedule lines and department contacts out of a
+ * document's chunks. Each fact is attributed to the nearest meaningful
+ * heading above it (or a label on its own line), falling back to the
+ * section or document title.
+ */
+export function extractStructuredFacts(chunks: FactSourceChunk[]): StructuredFact[] {
+  const facts = new Map<string, StructuredFact>();
+
+  chunks.forEach((chunk, position) => {
+    const chunkIndex = chunk.metadata.chunk_index ?? position;
+    const sectionTitle = chunk.metadata.section_title ? cleanText(chunk.metadata.section_title) : "";
+    let subject = isMeaningfulSubject(sectionTitle)
+      ? sectionTitle
+      : cleanDocumentTitle(chunk.metadata.document_title);
+
+    const add = (factType: StructuredFactType, factSubject: string, attribute: string, value: string, line: string) => {
+      const key = `${factType}|${factSubject.toLowerCase()}|${attribute.toLowerCase()}|${value}`;
+      if (facts.has(key)) return;
+      facts.set(key, { factType, subject: factSubject, attribute, value, excerpt: cleanText(line), chunkIndex });
+    };
+
+    for (const line of chunk.text.split("\n")) {
+      const heading = headingOf(line);
+      if (heading !== null) {
+        if (isMeaningfulSubject(heading)) subject = heading;
+        continue;
+      }
+
+      const hours = hoursFact(line);
+      if (hours) add("hours", subject, hours.attribute, hours.value, line);
+
+      for (const fee of feeFacts(line, subject)) {
+        add("fee", subject, fee.attribute, fee.value, line);
+      }
+
+      const label = lineLabel(line);
+      for (const contact of contactFacts(line)) {
+        add("contact", label ?? subject, contact.attribute, contact.value, line);
+      }
+    }
+  });
+
+  return Array.from(facts.values());
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+interface FactRow {
+  document_id: string;
+  chunk_index: number;
+  fact_type: StructuredFactType;
+  subject: string;
+  attribute: string;
+  value: string;
+  excerpt: string | null;
+  source_url: string;
+  source_title: string | null;
+  document_date: string | null;
+}
+
+const FACT_COLUMNS =
+  "document_id, chunk_index, fact_type, subject, attribute, value, excerpt, source_url, source_title, document_date";
+
+function toStoredFact(row: FactRow): StoredFact {
+  return {
+    factType: row.fact_type,
+    subject: row.subject,
+    attribute: row.attribute,
+    value: row.value,
+    excerpt: row.excerpt ?? "",
+    chunkIndex: row.chunk_index,
+    documentId: row.document_id,
+    documentUrl: row.source_url,
+    documentTitle: row.source_title ?? row.subject,
+    documentDate: row.document_date ?? undefined,
+  };
+}
+
+/**
+ * Replace a document's stored facts with a fresh extraction.
+ * Returns the number of facts stored.
+ */
+export async function saveDocumentFacts(
+  townId: string,
+  documentId: string,
+  facts: StructuredFact[],
+  source: { url: string; title: string; date?: string },
+): Promise<number> {
+  const supabase = getSupabaseServiceClient();
+
+  const { error: deleteError } = await supabase
+    .from("structured_facts")
+    .delete()
+    .eq("document_id", documentId);
+  if (deleteError) throw new Error(`Failed to clear facts: ${deleteError.message}`);
+
+  if (facts.length === 0) return 0;
+
+  const { error } = await supabase.from("structured_facts").insert(
+    facts.map((fact) => ({
+      town_id: townId,
+      document_id: documentId,
+      chunk_index: fact.chunkIndex,
+      fact_type: fact.factType,
+      subject: fact.subject,
+      attribute: fact.attribute,
+      value: fact.value,
+      excerpt: fact.excerpt,
+      source_url: source.url,
+      source_title: source.title,
+      document_date: source.date ?? null,
+    })),
+  );
+  if (error) throw new Error(`Failed to store facts: ${error.message}`);
+
+  return facts.length;
+}
+
+/** All stored facts of one type for a town (used by offline checks). */
+export async function listTownFacts(townId: string, factType: StructuredFactType): Promise<StoredFact[]> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("structured_facts")
+    .select(FACT_COLUMNS)
+    .eq("town_id", townId)
+    .eq("fact_type", factType);
+
+  if (error) throw new Error(`Failed to list facts: ${error.message}`);
+  return ((data ?? []) as FactRow[]).map(toStoredFact);
+}
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+const FACT_INTENTS = new Set<QueryIntent>(["factual", "contact"]);
+
+const MAX_ANSWER_FACTS = 12;
+const MAX_LOOKUP_ROWS = 200;
+
+const FACT_TYPE_CUES: Record<StructuredFactType, RegExp> = {
+  hours: /\b(?:hours?|open|opens|opening|close|closes|closing)\b/i,
+  fee: /\b(?:fees?|costs?|price|how much|charges?|rates?)\b|\$/i,
+  contact: /\b(?:phone|call|number|e-?mail|contact|address|located|reach)\b/i,
+};
+
+// Query words that say what kind of value is wanted, not what it's about
+const QUERY_NOISE = new Set([
+  "address", "located", "location", "email", "mail", "reach", "today", "tomorrow", "currently", "now",
+]);
+
+/** Which fact types a question asks for. Empty when it asks for none of them. */
+export function factTypesForQuery(query: string, intent: QueryIntent): StructuredFactType[] {
+  const types = (Object.keys(FACT_TYPE_CUES) as StructuredFactType[]).filter((type) =>
+    FACT_TYPE_CUES[type].test(query),
+  );
+  if (types.length === 0 && intent === "contact") return ["contact"];
+  return types;
+}
+
+/**
+ * Content words naming what the question is about ("building", "department"),
+ * without the town's own name.
+ */
+export function factQueryTerms(query: string, townId?: string): string[] {
+  return Array.from(new Set(subjectTerms(query, townId))).filter((term) => !QUERY_NOISE.has(term));
+}
+
+/**
+ * Pick the stored subject that answers the question. Every subject word in
+ * the question has to appear in the fact's subject, its page title, or (for
+ * fees) the fee name; ties go to the tighter subject match, then the newest
+ * page. Returns null unless there's an unambiguous match.
+ */
+export function selectFactAnswer(
+  query: string,
+  facts: StoredFact[],
+  types: StructuredFactType[],
+  townId?: string,
+): FactAnswer | null {
+  const queryTerms = factQueryTerms(query, townId);
+  if (queryTerms.length === 0 || types.length === 0) return null;
+
+  const groups = new Map<string, StoredFact[]>();
+  for (const fact of facts) {
+    if (!types.includes(fact.factType)) continue;
+    const key = `${fact.documentId}|${fact.subject.toLowerCase()}`;
+    groups.set(key, [...(groups.get(key) ?? []), fact]);
+  }
+
+  const candidates: { facts: StoredFact[]; subjectHits: number }[] = [];
+  for (const group of groups.values()) {
+    const [first] = group;
+    const subjectWords = new Set(subjectTerms(first.subject));
+    const pageWords = new Set([...subjectWords, ...subjectTerms(first.documentTitle)]);
+
+    // Fees can be matched by name ("dog license") — keep only the fees that best match the question
+    const feeHits = new Map(
+      group
+        .filter((fact) => fact.factType === "fee")
+        .map((fact) => [fact, subjectTerms(fact.attribute).filter((term) => queryTerms.includes(term)).length]),
+    );
+    const bestFeeHits = Math.max(0, ...feeHits.values());
+    const matchedFees = group.filter((fact) => bestFeeHits > 0 && feeHits.get(fact) === bestFeeHits);
+    const feeWords = new Set(matchedFees.flatMap((fact) => subjectTerms(fact.attribute)));
+
+    if (!queryTerms.every((term) => pageWords.has(term) || feeWords.has(term))) continue;
+
+    const kept = matchedFees.length > 0
+      ? group.filter((fact) => fact.factType !== "fee" || matchedFees.includes(fact))
+      : group;
+    candidates.push({
+      facts: kept,
+      subjectHits: queryTerms.filter((term) => subjectWords.has(term)).length,
+    });
+  }
+
+  if (candidates.length === 0) return null;
+
+  candidates.sort((a, b) => {
+    if (a.subjectHits !== b.subjectHits) return b.subjectHits - a.subjectHits;
+    return (b.facts[0].documentDate ?? "").localeCompare(a.facts[0].documentDate ?? "");
+  });
+
+  const best = candidates[0].facts;
+  const typeOrder: StructuredFactType[] = ["hours", "fee", "contact"];
+  const ordered = [...best].sort(
+    (a, b) => typeOrder.indexOf(a.factType) - typeOrder.indexOf(b.factType) || a.chunkIndex - b.chunkIndex,
+  );
+
+  return {
+    subject: best[0].subject,
+    facts: ordered.slice(0, MAX_ANSWER_FACTS),
+    source: {
+      documentId: best[0].documentId,
+      url: best[0].documentUrl,
+      title: best[0].documentTitle,
+      date: best[0].documentDate,
+    },
+  };
+}
+
+/**
+ * Answer a single factual or contact question from the fact store.
+ * Returns null (fall back to RAG) for other intents, multi-part questions,
+ * no confident match, or a lookup failure.
+ */
+export async function findFactAnswer(
+  query: string,
+  options: { townId: string; decomposition: QueryDecomposition },
+): Promise<FactAnswer | null> {
+  const { townId, decomposition } = options;
+  if (decomposition.isComplex && decomposition.subQueries.length > 1) return null;
+
+  const intent = decomposition.subQueries[0]?.intent;
+  if (!intent || !FACT_INTENTS.has(intent)) return null;
+
+  const types = factTypesForQuery(query, intent);
+  const terms = factQueryTerms(query, townId);
+  if (types.length === 0 || terms.length === 0) return null;
+
+  const supabase = getSupabaseClient({ townId });
+  // Terms are [a-z] only (see subjectTerms), so they're safe inside the filter string
+  const { data, error } = await supabase
+    .from("structured_facts")
+    .select(FACT_COLUMNS)
+    .eq("town_id", townId)
+    .in("fact_type", types)
+    .or(terms.flatMap((term) => [`subject.ilike.%${term}%`, `source_title.ilike.%${term}%`, `attribute.ilike.%${term}%`]).join(","))
+    .limit(MAX_LOOKUP_ROWS);
+
+  if (error) {
+    console.warn("[fact-store] Lookup failed:", error.message);
+    return null;
+  }
+
+  return selectFactAnswer(query, ((data ?? []) as FactRow[]).map(toStoredFact), types, townId);
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+function factLabel(fact: StructuredFact): string {
+  if (fact.factType !== "contact") return fact.attribute;
+  return fact.attribute.charAt(0).toUpperCase() + fact.attribute.slice(1);
+}
+
+/** Markdown answer for the chat stream, ending with the exact source. */
+export function formatFactAnswer(answer: FactAnswer): string {
+  const lines = [`**${answer.subject}**`, ""];
+  for (const fact of answer.facts) {
+    lines.push(`- **${factLabel(fact)}:** ${fact.value}`);
+  }
+  const dated = answer.source.date ? ` (${answer.source.date})` : "";
+  lines.push("", `Source: [${answer.source.title}](${answer.source.url})${dated}`);
+  return lines.join("\n");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
+
+/** HTML answer for the search page's answer card. */
+export function formatFactAnswerHtml(answer: FactAnswer): string {
+  const items = answer.facts
+    .map((fact) => `<li><strong>${escapeHtml(factLabel(fact))}:</strong> ${escapeHtml(fact.value)}</li>`)
+    .join("");
+  return `<p><strong>${escapeHtml(answer.subject)}</strong></p><ul>${items}</ul>`;
+}
+
+// ---------------------------------------------------------------------------
+// Department check
+// ---------------------------------------------------------------------------
+
+export interface DepartmentContactMismatch {
+  department: string;
+  configuredPhone: string;
+  extractedPhones: string[];
+  sourceUrls: string[];
+}
+
+function phoneDigits(phone: string): string {
+  return phone.replaceAll(/\D/g, "").slice(-10);
+}
+
+/**
+ * Compare the hand-maintained TownDepartment phone numbers in
+ * config/towns.ts against phone numbers extracted for the same department.
+ * Departments the store has no phone for are skipped.
+ */
+export function checkDepartmentContacts(
+  departments: TownDepartment[],
+  facts: StoredFact[],
+): DepartmentContactMismatch[] {
+  const phones = facts.filter((fact) => fact.factType === "contact" && fact.attribute === "phone");
+  const mismatches: DepartmentContactMismatch[] = [];
+
+  for (const department of departments) {
+    const nameTerms = subjectTerms(department.name);
+    if (nameTerms.length === 0) continue;
+
+    const matches = phones.filter((fact) => {
+      const factTerms = new Set(subjectTerms(fact.subject));
+      return nameTerms.every((term) => factTerms.has(term));
+    });
+    if (matches.length === 0) continue;
+
+    const configured = phoneDigits(department.phone);
+    if (matches.some((fact) => phoneDigits(fact.value) === configured)) continue;
+
+    mismatches.push({
+      department: department.name,
+      configuredPhone: department.phone,
+      extractedPhones: Array.from(new Set(matches.map((fact) => fact.value))),
+      sourceUrls: Array.from(new Set(matches.map((fact) => fact.documentUrl))),
+    });
+  }
+
+  return mismatches;
+}
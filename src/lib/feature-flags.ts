@@ -0,0 +1,194 @@
+/**
+ * src/lib/feature-flags.ts — Per-town feature flags resolved at request time
+ *
+ * The static TownFeatureFlags in the town config are the defaults. Admins
+ * override them per town from the Settings tab; overrides live in the
+ * towns.config JSON under feature_flags and apply without a redeploy:
+ *
+ *   { "enableTransit": false,                          // everyone
+ *     "uiMode": { "value": "search", "percent": 20 } } // 20% of sessions
+ *
+ * Rollouts bucket sessions by a hash of town, flag and the nn_session cookie
+ * (set by src/proxy.ts), so a visitor keeps the same variant across requests
+ * and each flag's rollout is independent of the others.
+ */
+
+import { getTownSettings } from "@/lib/town-settings";
+import { getTownById, getTownByIdOrDefault, type TownConfig } from "@/lib/towns";
+import type { TownFeatureFlags } from "../../config/towns";
+
+export type FeatureFlagName = keyof TownFeatureFlags;
+export type FeatureFlagValue = TownFeatureFlags[FeatureFlagName];
+
+/** Serve `value` to `percent`% of sessions; the rest keep the default */
+export type FeatureFlagRollout<V> = { value: V; percent: number };
+
+export type FeatureFlagOverrides = {
+  [K in FeatureFlagName]?: TownFeatureFlags[K] | FeatureFlagRollout<TownFeatureFlags[K]>;
+};
+
+/** Which side of a rollout a session landed on, as recorded in telemetry */
+export interface FlagAssignment {
+  value: FeatureFlagValue;
+  percent: number;
+  /** The session's bucket, 0-99; it gets the rollout value when bucket < percent */
+  bucket: number;
+}
+
+export type FlagAssignments = Partial<Record<FeatureFlagName, FlagAssignment>>;
+
+export interface ResolvedFeatureFlags {
+  flags: TownFeatureFlags;
+  /** Rollout flags only, and only when the request had a session */
+  assignments: FlagAssignments;
+}
+
+/** Cookie holding the anonymous session id rollouts are bucketed by */
+export const FLAG_SESSION_COOKIE = "nn_session";
+
+/** Allowed values per flag — also the list of flags admins may override */
+export const FEATURE_FLAG_VALUES: Record<FeatureFlagName, readonly FeatureFlagValue[]> = {
+  enableZoningMap: [true, false],
+  enablePermitWizard: [true, false],
+  enableMultiLanguage: [true, false],
+  enableDashboard: [true, false],
+  enableNews: [true, false],
+  enableAbout: [true, false],
+  enableEvents: [true, false],
+  enableDining: [true, false],
+  enableSafety: [true, false],
+  enableTransit: [true, false],
+  enableWeather: [true, false],
+  uiMode: ["classic", "search"],
+  enableAnswerCache: [true, false],
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate a feature_flags override map (admin input, or the stored JSON).
+ * Returns the overrides, or an error message.
+ */
+export function parseFeatureFlagOverrides(input: unknown): FeatureFlagOverrides | string {
+  if (input === undefined || input === null) return {};
+  if (!isRecord(input)) return "feature_flags must be an object";
+
+  const overrides: Record<string, unknown> = {};
+  for (const [flag, override] of Object.entries(input)) {
+    if (!Object.hasOwn(FEATURE_FLAG_VALUES, flag)) return `Unknown feature flag: ${flag}`;
+    const allowed = FEATURE_FLAG_VALUES[flag as FeatureFlagName];
+    const allowedText = allowed.map(String).join(" or ");
+
+    if (isRecord(override)) {
+      const { value, percent } = override;
+      if (!allowed.includes(value as FeatureFlagValue)) {
+        return `feature_flags.${flag}.value must be ${allowedText}`;
+      }
+      if (typeof percent !== "number" || !(percent >= 0 && percent <= 100)) {
+        return `feature_flags.${flag}.percent must be a number from 0 to 100`;
+      }
+      overrides[flag] = { value, percent };
+    } else if (allowed.includes(override as FeatureFlagValue)) {
+      overrides[flag] = override;
+    } else {
+      return `feature_flags.${flag} must be ${allowedText}, or { value, percent } for a rollout`;
+    }
+  }
+  return overrides as FeatureFlagOverrides;
+}
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+/** Stable 0-99 bucket for a string (32-bit FNV-1a). */
+export function rolloutBucket(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % 100;
+}
+
+/**
+ * Layer a town's overrides over its static flags. Without a session a
+ * rollout only applies at 100%, so crawlers and server-side jobs see the
+ * default until a rollout completes.
+ */
+export function resolveFeatureFlags(
+  townId: string,
+  defaults: TownFeatureFlags,
+  overrides: FeatureFlagOverrides,
+  sessionId?: string | null
+): ResolvedFeatureFlags {
+  const flags: Record<string, FeatureFlagValue> = { ...defaults };
+  const assignments: FlagAssignments = {};
+
+  for (const [flag, override] of Object.entries(overrides) as [FeatureFlagName, unknown][]) {
+    if (!isRecord(override)) {
+      flags[flag] = override as FeatureFlagValue;
+      continue;
+    }
+
+    const { value, percent } = override as FeatureFlagRollout<FeatureFlagValue>;
+    if (!sessionId) {
+      if (percent >= 100) flags[flag] = value;
+      continue;
+    }
+
+    const bucket = rolloutBucket(`${townId}:${flag}:${sessionId}`);
+    if (bucket < percent) flags[flag] = value;
+    assignments[flag] = { value: flags[flag], percent, bucket };
+  }
+
+  return { flags: flags as TownFeatureFlags, assignments };
+}
+
+/**
+ * A town's flags for one session: static config plus the overrides stored
+ * in towns.config. Never throws — town settings fall back to defaults.
+ */
+export async function getTownFeatureFlags(
+  town: TownConfig | string,
+  sessionId?: string | null
+): Promise<ResolvedFeatureFlags> {
+  const config = typeof town === "string"
+    ? (await getTownById(town)) ?? getTownByIdOrDefault(town)
+    : town;
+  const { raw } = await getTownSettings(config.town_id);
+  const overrides = parseFeatureFlagOverrides(raw.feature_flags);
+  if (typeof overrides === "string") {
+    console.warn(`[feature-flags] Ignoring invalid overrides for ${config.town_id}: ${overrides}`);
+  }
+  return resolveFeatureFlags(
+    config.town_id,
+    config.feature_flags,
+    typeof overrides === "string" ? {} : overrides,
+    sessionId
+  );
+}
+
+/**
+ * The rollout session id from a request's nn_session cookie, if any. A
+ * malformed cookie counts as no session rather than failing the request.
+ */
+export function getRequestSessionId(request: Request): string | null {
+  const cookie = request.headers.get("cookie") ?? "";
+  for (const part of cookie.split(";")) {
+    const [name, ...value] = part.trim().split("=");
+    if (name !== FLAG_SESSION_COOKIE) continue;
+    try {
+      return decodeURIComponent(value.join("=")) || null;
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
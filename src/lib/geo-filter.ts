@@ -2,46 +2,36 @@
  * src/lib/geo-filter.ts — Geographic relevance filtering
  *
  * Keyword-based pre-filter that checks whether content is geographically
- * relevant to Needham, MA before sending it to GPT for summarization.
+ * relevant to a town before sending it to GPT for summarization.
  * Saves API costs by rejecting obviously off-topic content (e.g., Connecticut
  * articles that leak in via Patch or other scraped sources).
  *
+ * What counts as local comes from the town's geography profile in
+ * config/towns.ts (core names, villages, neighbors, metro, county, state).
+ *
  * Category-specific scope rules:
- *   - needham_only: government, schools, public_safety, development
- *   - metro_area:   community, events, dining, news, business
+ *   - town_only:  government, schools, public_safety, development
+ *   - metro_area: community, events, dining, news, business
  */
 
-// ─── Geographic data ─────────────────────────────────────────────────────────
-
-/** Needham itself — always allowed for all categories */
-const CORE_TOWN = 'needham';
+import { getTownByIdOrDefault } from '@/lib/towns';
+import type { TownGeography } from '../../config/towns';
 
-/** Neighboring towns — allowed for metro_area categories */
-const NEIGHBORING_TOWNS = [
-  'wellesley', 'newton', 'dedham', 'dover', 'westwood',
-  'natick', 'norwood', 'brookline', 'waltham', 'framingham',
-];
+export type { TownGeography };
 
-/** Greater Boston metro — allowed for metro_area categories */
-const METRO_CITIES = [
-  'boston', 'cambridge', 'somerville', 'quincy', 'medford',
-  'arlington', 'watertown', 'lexington', 'concord',
-];
+// ─── Geographic data ─────────────────────────────────────────────────────────
 
-/** All allowed Massachusetts locations */
-const ALLOWED_LOCATIONS = new Set([
-  CORE_TOWN,
-  ...NEIGHBORING_TOWNS,
-  ...METRO_CITIES,
-  'massachusetts',
-]);
+/** Geography profile for a town, falling back to the default town */
+export function getTownGeography(townId?: string | null): TownGeography {
+  return getTownByIdOrDefault(townId).geography;
+}
 
 /**
- * US states other than Massachusetts — presence of these without a local
- * mention is a strong signal of off-topic content.
+ * US states — presence of a state other than the town's own without a
+ * local mention is a strong signal of off-topic content.
  */
-const OTHER_STATES = [
-  'connecticut', 'new york', 'new jersey', 'rhode island',
+const US_STATES = [
+  'massachusetts', 'connecticut', 'new york', 'new jersey', 'rhode island',
   'new hampshire', 'vermont', 'maine', 'pennsylvania',
   'california', 'florida', 'texas', 'ohio', 'virginia',
   'georgia', 'north carolina', 'south carolina', 'michigan',
@@ -55,8 +45,8 @@ const OTHER_STATES = [
 ];
 
 /** State abbreviations (2-letter) — used in patterns like ", CT" or "CT 06103" */
-const OTHER_STATE_ABBREVS = [
-  'CT', 'NY', 'NJ', 'RI', 'NH', 'VT', 'ME', 'PA',
+const US_STATE_ABBREVS = [
+  'MA', 'CT', 'NY', 'NJ', 'RI', 'NH', 'VT', 'ME', 'PA',
   'CA', 'FL', 'TX', 'OH', 'VA', 'GA', 'NC', 'SC',
   'MI', 'IL', 'IN', 'WI', 'MN', 'IA', 'MO', 'TN',
   'KY', 'AL', 'MS', 'LA', 'AR', 'OK', 'KS', 'NE',
@@ -65,32 +55,54 @@ const OTHER_STATE_ABBREVS = [
   'DC',
 ];
 
-/** Major cities in other states — strong rejection signal */
-const DISTANT_CITIES = [
-  // Connecticut
-  'hartford', 'stamford', 'bridgeport', 'new haven', 'greenwich',
-  'norwalk', 'danbury', 'waterbury',
-  // New York
-  'manhattan', 'brooklyn', 'queens', 'bronx', 'staten island',
-  'buffalo', 'rochester', 'albany', 'syracuse',
-  // Other major US cities
-  'los angeles', 'chicago', 'houston', 'phoenix', 'philadelphia',
-  'san antonio', 'san diego', 'dallas', 'san jose', 'austin',
-  'detroit', 'seattle', 'denver', 'atlanta', 'miami',
-  'minneapolis', 'portland', 'las vegas', 'baltimore',
-  'milwaukee', 'pittsburgh', 'cleveland', 'nashville',
-  'charlotte', 'raleigh', 'indianapolis',
+/** Major cities by state — a strong rejection signal outside the town's own state */
+const MAJOR_CITIES_BY_STATE: Record<string, string[]> = {
+  connecticut: [
+    'hartford', 'stamford', 'bridgeport', 'new haven', 'greenwich',
+    'norwalk', 'danbury', 'waterbury',
+  ],
+  'new york': [
+    'manhattan', 'brooklyn', 'queens', 'bronx', 'staten island',
+    'buffalo', 'rochester', 'albany', 'syracuse',
+  ],
+  california: ['los angeles', 'san diego', 'san jose'],
+  illinois: ['chicago'],
+  texas: ['houston', 'san antonio', 'dallas', 'austin'],
+  arizona: ['phoenix'],
+  pennsylvania: ['philadelphia', 'pittsburgh'],
+  michigan: ['detroit'],
+  washington: ['seattle'],
+  colorado: ['denver'],
+  georgia: ['atlanta'],
+  florida: ['miami'],
+  minnesota: ['minneapolis'],
+  oregon: ['portland'],
+  nevada: ['las vegas'],
+  maryland: ['baltimore'],
+  wisconsin: ['milwaukee'],
+  ohio: ['cleveland'],
+  tennessee: ['nashville'],
+  'north carolina': ['charlotte', 'raleigh'],
+  indiana: ['indianapolis'],
+};
+
+/** Patch-style URL path segments for states — blocked on generic news sites */
+const STATE_PATH_SEGMENTS = [
+  'connecticut', 'new-york', 'new-jersey', 'california',
+  'florida', 'texas', 'pennsylvania', 'virginia',
 ];
 
+const slugify = (name: string) => name.toLowerCase().replaceAll(/\s+/g, '-');
+
 // ─── Category scope rules ────────────────────────────────────────────────────
 
-type GeoScope = 'needham_only' | 'metro_area';
+type GeoScope = 'town_only' | 'metro_area';
 
 const CATEGORY_GEO_SCOPE: Record<string, GeoScope> = {
-  government: 'needham_only',
-  schools: 'needham_only',
-  public_safety: 'needham_only',
-  development: 'needham_only',
+  government: 'town_only',
+  schools: 'town_only',
+  public_safety: 'town_only',
+  development: 'town_only',
   // Wider scope for lifestyle/community content
   community: 'metro_area',
   events: 'metro_area',
@@ -109,34 +121,49 @@ export interface GeoFilterResult {
 }
 
 /**
- * Check whether article content is geographically relevant to Needham, MA.
+ * Check whether article content is geographically relevant to a town.
  *
  * Returns `isRelevant: false` if the article appears to be primarily about
- * another state or distant location with no connection to Needham.
+ * another state or distant location with no connection to the town.
  */
 export function checkGeographicRelevance(
   text: string,
   title: string,
   url: string,
   category: string,
+  geography: TownGeography = getTownGeography(),
 ): GeoFilterResult {
   const combined = `${title} ${text}`.toLowerCase();
   const scope = CATEGORY_GEO_SCOPE[category] ?? 'metro_area';
+  const townName = geography.core_names[0] ?? 'the town';
+  const ownState = geography.state.toLowerCase();
+  const ownAbbrev = geography.state_abbrev.toUpperCase();
 
-  // 1. Check for Needham / local mentions
-  const hasNeedhamMention = combined.includes('needham');
-  const localMentions = [...ALLOWED_LOCATIONS].filter(loc =>
+  // 1. Check for town / local mentions
+  const hasTownMention = [...geography.core_names, ...geography.villages].some(name =>
+    combined.includes(name.toLowerCase())
+  );
+  const allowedLocations = new Set([
+    ...geography.core_names,
+    ...geography.villages,
+    ...geography.neighbors,
+    ...geography.metro,
+    `${geography.county} county`,
+    geography.state,
+  ].map(name => name.toLowerCase()));
+  const localMentions = [...allowedLocations].filter(loc =>
     combined.includes(loc)
   );
 
   // 2. Check for other-state mentions (full names)
-  const detectedOtherStates = OTHER_STATES.filter(state =>
-    combined.includes(state)
+  const detectedOtherStates = US_STATES.filter(state =>
+    state !== ownState && combined.includes(state)
   );
 
   // 3. Check for state abbreviation patterns: ", CT" or "(CT)" or "CT 0XXXX"
   const titleAndText = `${title} ${text}`;
-  const detectedStateAbbrevs = OTHER_STATE_ABBREVS.filter(abbrev => {
+  const detectedStateAbbrevs = US_STATE_ABBREVS.filter(abbrev => {
+    if (abbrev === ownAbbrev) return false;
     // Match ", CT" (comma + space + abbrev + word boundary)
     // nosemgrep: detect-non-literal-regexp -- abbrev values are hardcoded state abbreviations
     const commaPattern = new RegExp(String.raw`,\s*${abbrev}\b`);
@@ -149,10 +176,11 @@ export function checkGeographicRelevance(
       zipPattern.test(titleAndText);
   });
 
-  // 4. Check for distant city mentions
-  const detectedDistantCities = DISTANT_CITIES.filter(city =>
-    combined.includes(city)
-  );
+  // 4. Check for distant city mentions (major cities of other states)
+  const detectedDistantCities = Object.entries(MAJOR_CITIES_BY_STATE)
+    .filter(([state]) => state !== ownState)
+    .flatMap(([, cities]) => cities)
+    .filter(city => !allowedLocations.has(city) && combined.includes(city));
 
   const allDistant = [
     ...detectedOtherStates,
@@ -163,17 +191,17 @@ export function checkGeographicRelevance(
 
   // ── Decision logic ──
 
-  // Strong rejection: other state(s) mentioned, Needham is NOT mentioned
-  if (distantCount > 0 && !hasNeedhamMention) {
+  // Strong rejection: other state(s) mentioned, the town is NOT mentioned
+  if (distantCount > 0 && !hasTownMention) {
     return {
       isRelevant: false,
-      reason: `Content about other locations (${allDistant.slice(0, 3).join(', ')}), no Needham mention`,
+      reason: `Content about other locations (${allDistant.slice(0, 3).join(', ')}), no ${townName} mention`,
       detectedLocations: allDistant,
     };
   }
 
-  // For needham_only categories: reject if more distant than local references
-  if (scope === 'needham_only' && distantCount > localMentions.length) {
+  // For town_only categories: reject if more distant than local references
+  if (scope === 'town_only' && distantCount > localMentions.length) {
     return {
       isRelevant: false,
       reason: `Government/school content with more distant (${distantCount}) than local (${localMentions.length}) references`,
@@ -191,8 +219,8 @@ export function checkGeographicRelevance(
   }
 
   let reason: string;
-  if (hasNeedhamMention) {
-    reason = 'Content mentions Needham';
+  if (hasTownMention) {
+    reason = `Content mentions ${townName}`;
   } else if (localMentions.length > 0) {
     reason = `Content mentions local area (${localMentions.slice(0, 3).join(', ')})`;
   } else {
@@ -212,7 +240,10 @@ export function checkGeographicRelevance(
  * Check whether a URL is geographically relevant based on its path.
  * Primarily catches Patch URLs from other states/towns.
  */
-export function isUrlGeographicallyRelevant(url: string): boolean {
+export function isUrlGeographicallyRelevant(
+  url: string,
+  geography: TownGeography = getTownGeography(),
+): boolean {
   let parsed: URL;
   try {
     parsed = new URL(url);
@@ -222,34 +253,27 @@ export function isUrlGeographicallyRelevant(url: string): boolean {
 
   const host = parsed.hostname.toLowerCase();
   const fullUrl = parsed.href.toLowerCase();
+  const townSlugs = geography.core_names.map(slugify);
+  const stateSlug = slugify(geography.state);
 
-  // Always allow Needham-specific domains (exact host match OR subdomain)
+  // Always allow the town's own domains (exact host match OR subdomain)
   // codeql[js/incomplete-url-substring-sanitization] — hostname extracted from URL.parse(), not substring check
-  if (host === 'needhamma.gov' || host.endsWith('.needhamma.gov')) return true;
-  // codeql[js/incomplete-url-substring-sanitization]
-  if (host === 'needham.k12.ma.us' || host.endsWith('.needham.k12.ma.us')) return true;
-  // codeql[js/incomplete-url-substring-sanitization]
-  if (host === 'needhamobserver.com' || host.endsWith('.needhamobserver.com')) return true;
-  // codeql[js/incomplete-url-substring-sanitization]
-  if (host === 'needhamlocal.org' || host.endsWith('.needhamlocal.org')) return true;
-  // codeql[js/incomplete-url-substring-sanitization]
-  if (host === 'needhamchannel.org' || host.endsWith('.needhamchannel.org')) return true;
-
-  // Patch: only allow Massachusetts/Needham paths
+  if (geography.local_domains.some(domain => host === domain || host.endsWith(`.${domain}`))) return true;
+
+  // Patch: only allow this town's state/town paths
   if (host === 'patch.com' || host.endsWith('.patch.com')) {
-    return fullUrl.includes('/massachusetts/needham');
+    return townSlugs.some(slug => fullUrl.includes(`/${stateSlug}/${slug}`));
   }
 
-  // Wicked Local: only allow Needham paths
+  // Wicked Local: only allow this town's paths
   if (host === 'wickedlocal.com' || host.endsWith('.wickedlocal.com')) {
-    return fullUrl.includes('needham');
+    return townSlugs.some(slug => fullUrl.includes(slug));
   }
 
-  // Block obviously non-MA paths on generic news sites
-  const blockedPathSegments = [
-    '/connecticut/', '/new-york/', '/new-jersey/', '/california/',
-    '/florida/', '/texas/', '/pennsylvania/', '/virginia/',
-  ];
+  // Block paths for other states on generic news sites
+  const blockedPathSegments = STATE_PATH_SEGMENTS
+    .filter(seg => seg !== stateSlug)
+    .map(seg => `/${seg}/`);
   if (blockedPathSegments.some(seg => fullUrl.includes(seg))) {
     return false;
   }
@@ -0,0 +1,243 @@
+/**
+ * src/lib/grounding.ts — Per-sentence citation grounding
+ *
+ * The model reports which sources it used on a USED_SOURCES line, but
+ * nothing checks that what it wrote is actually in them. After generation,
+ * this module splits the answer into sentences and aligns each one with the
+ * context documents it was given: a sentence is supported when a document
+ * covers most of its content words and every fee, time, phone number or
+ * date it states appears in the sources. Sentences that miss lexically can
+ * get a second chance from an optional embedding check, but never when they
+ * state a value no source contains.
+ */
+
+import { extractFacts, subjectTerms, type ExtractedFact } from "@/lib/conflict-detector";
+import { stripInternalMetadata } from "@/lib/text-utils";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A context document as built by buildContextDocuments */
+export interface GroundingSource {
+  sourceId: string;
+  excerpt: string;
+}
+
+export interface GroundedSentence {
+  text: string;
+  supported: boolean;
+  /** Sources that support the sentence, best first */
+  sourceIds: string[];
+  /** Best lexical coverage (0..1), or the embedding similarity when that decided it */
+  score: number;
+  method: "lexical" | "embedding";
+  /** Values stated in the sentence that no source contains, e.g. "$75" */
+  unmatchedValues: string[];
+}
+
+export interface GroundingReport {
+  sentences: GroundedSentence[];
+  /** Fraction of checked sentences that are supported (1 when nothing was checkable) */
+  supportedRatio: number;
+  unsupportedCount: number;
+  embeddingChecked: boolean;
+}
+
+export interface GroundingOptions {
+  /** Embeds a batch of texts; enables the embedding check when provided */
+  embed?: (texts: string[]) => Promise<number[][]>;
+  /** Cosine similarity needed for the embedding check to support a sentence */
+  embeddingThreshold?: number;
+}
+
+// Share of a sentence's content words one document must contain
+const LEXICAL_SUPPORT_MIN = 0.6;
+const DEFAULT_EMBEDDING_THRESHOLD = 0.8;
+// Sentences with fewer content words (and no values) aren't claims worth checking
+const MIN_CHECKABLE_TERMS = 3;
+const MAX_SOURCES_PER_SENTENCE = 3;
+
+// ---------------------------------------------------------------------------
+// Sentence splitting
+// ---------------------------------------------------------------------------
+
+// Split after ., ! or ? followed by a capitalized word, but not after
+// abbreviations common in town pages ("Highland Ave. Suite 2")
+const SENTENCE_BOUNDARY =
+  /(?<!\b(?:St|Ave|Rd|Dr|Mr|Mrs|Ms|No|Dept|approx|e\.g|i\.e)\.)(?<=[.!?])\s+(?=["(]?[A-Z0-9])/;
+// "7 a.m. Tuesday" continues the sentence; "3 p.m. Dog licenses" doesn't
+const TIME_THEN_DAY = /\b[ap]\.m\.$/i;
+const DAY_OR_MONTH =
+  /^(?:mon|tue|wed|thu|fri|sat|sun|jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\b/i;
+
+function stripLineMarkdown(line: string): string {
+  return line
+    .replaceAll(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replaceAll(/\*\*|__|`/g, "")
+    .replace(/^\s*(?:[-*•]|\d+[.)])\s+/, "")
+    .replace(/^>\s*/, "")
+    .trim();
+}
+
+/**
+ * Break an answer into sentences: one per list item or table row, and
+ * prose lines split on sentence punctuation. Headings are dropped.
+ */
+export function splitAnswerSentences(answer: string): string[] {
+  const sentences: string[] = [];
+
+  for (const rawLine of stripInternalMetadata(answer).split("\n")) {
+    if (/^\s*#{1,6}\s/.test(rawLine) || /^\s*\|?\s*:?-{3,}/.test(rawLine)) continue;
+    const line = stripLineMarkdown(rawLine.replaceAll("|", " "));
+    if (!line) continue;
+
+    const pieces: string[] = [];
+    for (const piece of line.split(SENTENCE_BOUNDARY)) {
+      const last = pieces.length - 1;
+      if (last >= 0 && TIME_THEN_DAY.test(pieces[last]) && DAY_OR_MONTH.test(piece)) {
+        pieces[last] = `${pieces[last]} ${piece}`;
+      } else {
+        pieces.push(piece);
+      }
+    }
+    sentences.push(...pieces.map((piece) => piece.trim()).filter(Boolean));
+  }
+
+  return sentences;
+}
+
+// ---------------------------------------------------------------------------
+// Lexical alignment
+// ---------------------------------------------------------------------------
+
+interface PreparedSource {
+  sourceId: string;
+  terms: Set<string>;
+  factKeys: Set<string>;
+}
+
+const factKey = (fact: ExtractedFact) => `${fact.kind}:${fact.value}`;
+
+function prepareSources(sources: GroundingSource[]): PreparedSource[] {
+  return sources.map((source) => ({
+    sourceId: source.sourceId,
+    terms: new Set(subjectTerms(source.excerpt)),
+    factKeys: new Set(extractFacts(source.excerpt).map(factKey)),
+  }));
+}
+
+function groundLexically(text: string, sources: PreparedSource[]): GroundedSentence | null {
+  const terms = [...new Set(subjectTerms(text))];
+  const facts = extractFacts(text);
+  if (facts.length === 0 && terms.length < MIN_CHECKABLE_TERMS) return null;
+
+  const unmatchedValues = facts
+    .filter((fact) => !sources.some((source) => source.factKeys.has(factKey(fact))))
+    .map((fact) => fact.display);
+
+  const scored = sources
+    .map((source) => {
+      const coverage =
+        terms.length === 0 ? 1 : terms.filter((term) => source.terms.has(term)).length / terms.length;
+      const statesValue = facts.some((fact) => source.factKeys.has(factKey(fact)));
+      return { sourceId: source.sourceId, coverage, statesValue };
+    })
+    .sort((a, b) => b.coverage - a.coverage);
+
+  const supporting = scored.filter(
+    (s) => s.coverage >= LEXICAL_SUPPORT_MIN && (facts.length === 0 || s.statesValue),
+  );
+
+  return {
+    text,
+    supported: supporting.length > 0 && unmatchedValues.length === 0,
+    sourceIds: supporting.slice(0, MAX_SOURCES_PER_SENTENCE).map((s) => s.sourceId),
+    score: Math.round((scored[0]?.coverage ?? 0) * 1000) / 1000,
+    method: "lexical",
+    unmatchedValues,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Embedding check
+// ---------------------------------------------------------------------------
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+async function groundByEmbedding(
+  candidates: GroundedSentence[],
+  sources: GroundingSource[],
+  options: Required<GroundingOptions>,
+): Promise<void> {
+  const vectors = await options.embed([
+    ...sources.map((source) => source.excerpt),
+    ...candidates.map((sentence) => sentence.text),
+  ]);
+  const sourceVectors = vectors.slice(0, sources.length);
+
+  candidates.forEach((sentence, i) => {
+    const sentenceVector = vectors[sources.length + i];
+    const matches = sources
+      .map((source, j) => ({ sourceId: source.sourceId, similarity: cosine(sentenceVector, sourceVectors[j]) }))
+      .filter((match) => match.similarity >= options.embeddingThreshold)
+      .sort((a, b) => b.similarity - a.similarity);
+    if (matches.length === 0) return;
+
+    sentence.supported = true;
+    sentence.method = "embedding";
+    sentence.score = Math.round(matches[0].similarity * 1000) / 1000;
+    sentence.sourceIds = matches.slice(0, MAX_SOURCES_PER_SENTENCE).map((m) => m.sourceId);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Check each sentence of a generated answer against the context documents.
+ * If the embedding check fails, the lexical result is returned unchanged.
+ */
+export async function verifyGrounding(
+  answer: string,
+  sources: GroundingSource[],
+  options: GroundingOptions = {},
+): Promise<GroundingReport> {
+  const prepared = prepareSources(sources);
+  const sentences = splitAnswerSentences(answer)
+    .map((sentence) => groundLexically(sentence, prepared))
+    .filter((sentence): sentence is GroundedSentence => sentence !== null);
+
+  let embeddingChecked = false;
+  const candidates = sentences.filter((s) => !s.supported && s.unmatchedValues.length === 0);
+  if (options.embed && candidates.length > 0 && sources.length > 0) {
+    try {
+      await groundByEmbedding(candidates, sources, {
+        embed: options.embed,
+        embeddingThreshold: options.embeddingThreshold ?? DEFAULT_EMBEDDING_THRESHOLD,
+      });
+      embeddingChecked = true;
+    } catch (err) {
+      console.warn("[grounding] Embedding check failed, using lexical result:", err);
+    }
+  }
+
+  const supportedCount = sentences.filter((s) => s.supported).length;
+  return {
+    sentences,
+    supportedRatio: sentences.length === 0 ? 1 : Math.round((supportedCount / sentences.length) * 1000) / 1000,
+    unsupportedCount: sentences.length - supportedCount,
+    embeddingChecked,
+  };
+}
@@ -72,6 +72,13 @@ const DICTIONARIES: Record<LanguageCode, Record<string, string>> = {
     "confidence.high": "Verified from official sources",
     "confidence.medium": "Based on town documents",
     "confidence.low": "Limited info — call the department",
+    "conflicts.title": "Sources disagree",
+    "conflicts.newest_says": "newest says {value}",
+    "conflicts.top_says": "top source says {value}",
+    "conflicts.also_stated": "Also stated: {values}",
+    "grounding.title": "Not found in sources",
+    "grounding.hint": "verify these statements with the department",
+    "grounding.more": "and {count} more",
     "footer.disclaimer":
       "{app_name} is an independent community tool. Not affiliated with, endorsed by, or operated by the Town of {town}. AI responses may contain errors. Always verify with official sources at {website} or call {phone}.",
     "footer.terms_privacy": "Terms · Privacy",
@@ -151,6 +158,13 @@ const DICTIONARIES: Record<LanguageCode, Record<string, string>> = {
     "confidence.high": "Verificado de fuentes oficiales",
     "confidence.medium": "Basado en documentos municipales",
     "confidence.low": "Info limitada — llame al departamento",
+    "conflicts.title": "Las fuentes no coinciden",
+    "conflicts.newest_says": "la mas reciente dice {value}",
+    "conflicts.top_says": "la fuente principal dice {value}",
+    "conflicts.also_stated": "Tambien se indica: {values}",
+    "grounding.title": "No se encontro en las fuentes",
+    "grounding.hint": "verifique estas afirmaciones con el departamento",
+    "grounding.more": "y {count} mas",
     "footer.disclaimer":
       "{app_name} es una herramienta comunitaria independiente. No esta afiliada, respaldada ni operada por el Municipio de {town}. Las respuestas de IA pueden contener errores. Verifica siempre con fuentes oficiales en {website} o llama al {phone}.",
     "footer.terms_privacy": "Terminos · Privacidad",
@@ -230,6 +244,13 @@ const DICTIONARIES: Record<LanguageCode, Record<string, string>> = {
     "confidence.high": "已从官方来源核实",
     "confidence.medium": "基于市政文件",
     "confidence.low": "信息有限 — 请致电相关部门",
+    "conflicts.title": "来源信息不一致",
+    "conflicts.newest_says": "最新来源为 {value}",
+    "conflicts.top_says": "首要来源为 {value}",
+    "conflicts.also_stated": "其他来源：{values}",
+    "grounding.title": "来源中未找到",
+    "grounding.hint": "请向相关部门核实以下内容",
+    "grounding.more": "另有 {count} 条",
     "footer.disclaimer":
       "{app_name} 是独立社区工具，与 {town} 市政机构无隶属、背书或运营关系。AI 回答可能有误，请通过 {website} 或致电 {phone} 进行核实。",
     "footer.terms_privacy": "条款 · 隐私",
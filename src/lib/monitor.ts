@@ -4,14 +4,17 @@
  * Ported from scripts/monitor.ts so it can be imported by Next.js API routes
  * (scripts/ is excluded from tsconfig). The logic is identical:
  * 1. Checks tracked documents for content-hash changes
- * 2. Checks CivicPlus RSS feed for new pages
- * 3. Flags stale documents (not verified in 90 days)
- * 4. Logs results to Supabase ingestion_log
+ * 2. Purges cached answers that cite a changed page
+ * 3. Checks the town website's RSS feed (from its rss source_configs) for new pages
+ * 4. Flags stale documents (not verified in 90 days)
+ * 5. Logs results to Supabase ingestion_log
  */
 
 import { createHash } from "crypto";
 import { getSupabaseServiceClient } from "@/lib/supabase";
-import { cleanupExpiredCache } from "@/lib/answer-cache";
+import { getTenantDb, type TenantDb } from "@/lib/tenant-db";
+import { getTownById } from "@/lib/towns";
+import { cleanupExpiredCache, invalidateCachedAnswersForUrls } from "@/lib/answer-cache";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -22,6 +25,8 @@ export interface ChangeDetectionResult {
   changedUrls: string[];
   newUrls: string[];
   removedUrls: string[];
+  /** Cached answers deleted because they cite a changed URL */
+  purgedCachedAnswers: number;
   errors: number;
   durationMs: number;
 }
@@ -111,7 +116,7 @@ async function checkRssFeed(rssFeedUrl: string): Promise<string[]> {
 type MonitorSupabaseClient = ReturnType<typeof getSupabaseServiceClient>;
 
 async function checkDocumentsForChanges(
-  supabase: MonitorSupabaseClient,
+  db: TenantDb,
   tracked: TrackedDocument[]
 ): Promise<{ changedUrls: string[]; unchangedIds: string[]; errorCount: number }> {
   const changedUrls: string[] = [];
@@ -129,9 +134,8 @@ async function checkDocumentsForChanges(
     if (changed) {
       changedUrls.push(doc.url);
       const now = new Date().toISOString();
-      await supabase
-        .from("documents")
-        .update({
+      await db
+        .update("documents", {
           content_hash: newHash,
           last_verified_at: now,
           is_stale: false,
@@ -147,15 +151,14 @@ async function checkDocumentsForChanges(
 }
 
 async function batchUpdateUnchanged(
-  supabase: MonitorSupabaseClient,
+  db: TenantDb,
   unchangedIds: string[]
 ): Promise<number> {
   if (unchangedIds.length === 0) return 0;
 
   const now = new Date().toISOString();
-  const { error: batchError } = await supabase
-    .from("documents")
-    .update({ last_verified_at: now })
+  const { error: batchError } = await db
+    .update("documents", { last_verified_at: now })
     .in("id", unchangedIds);
 
   if (batchError) {
@@ -165,30 +168,57 @@ async function batchUpdateUnchanged(
   return 0;
 }
 
-async function findNewUrlsFromRss(
-  supabase: MonitorSupabaseClient,
-  townId: string
-): Promise<string[]> {
-  const rssUrls = await checkRssFeed("https://www.needhamma.gov/rss.aspx");
-
-  const { data: allUrlDocs } = await supabase
-    .from("documents")
-    .select("url")
-    .eq("town_id", townId);
-  const existingUrls = new Set((allUrlDocs || []).map((d: { url: string }) => d.url));
-  return rssUrls.filter((u) => !existingUrls.has(u));
+function hostOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
 }
 
-async function flagStaleDocuments(
-  supabase: MonitorSupabaseClient,
-  townId: string
-): Promise<number> {
+/**
+ * Feed URLs of the town's enabled rss connectors that point at the town's
+ * own website — the feeds that announce new pages worth crawling. Empty
+ * when the town has none.
+ */
+export async function getTownSiteFeedUrls(townId: string): Promise<string[]> {
+  const town = await getTownById(townId);
+  const siteHost = town ? hostOf(town.website_url) : null;
+  if (!siteHost) return [];
+
+  const { data, error } = await getSupabaseServiceClient()
+    .from("source_configs")
+    .select("config")
+    .eq("town_id", townId)
+    .eq("connector_type", "rss")
+    .eq("enabled", true);
+
+  if (error) {
+    console.warn(`[monitor] Failed to load rss source_configs for ${townId}: ${error.message}`);
+    return [];
+  }
+
+  const feedUrls = (data ?? [])
+    .map((row) => (row.config as Record<string, unknown> | null)?.feedUrl)
+    .filter((url): url is string => typeof url === "string" && hostOf(url) === siteHost);
+  return [...new Set(feedUrls)];
+}
+
+async function findNewUrlsFromRss(db: TenantDb): Promise<string[]> {
+  const feedUrls = await getTownSiteFeedUrls(db.townId);
+  if (feedUrls.length === 0) return [];
+
+  const rssUrls = (await Promise.all(feedUrls.map(checkRssFeed))).flat();
+  const { data: allUrlDocs } = await db.select<{ url: string }>("documents", "url");
+  const existingUrls = new Set((allUrlDocs || []).map((d) => d.url));
+  return [...new Set(rssUrls)].filter((u) => !existingUrls.has(u));
+}
+
+async function flagStaleDocuments(db: TenantDb): Promise<number> {
   const ninetyDaysAgo = new Date();
   ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - 90);
-  const { error: staleError } = await supabase
-    .from("documents")
-    .update({ is_stale: true })
-    .eq("town_id", townId)
+  const { error: staleError } = await db
+    .update("documents", { is_stale: true })
     .lt("last_verified_at", ninetyDaysAgo.toISOString());
 
   if (staleError) {
@@ -198,6 +228,27 @@ async function flagStaleDocuments(
   return 0;
 }
 
+async function purgeCachedAnswers(
+  townId: string,
+  changedUrls: string[],
+  triggeredBy: string
+): Promise<number> {
+  if (changedUrls.length === 0) return 0;
+  try {
+    const purged = await invalidateCachedAnswersForUrls(townId, changedUrls, {
+      reason: "source_changed",
+      triggeredBy: `monitor:${triggeredBy}`,
+    });
+    if (purged > 0) {
+      console.log(`[monitor] Purged ${purged} cached answers citing changed pages`);
+    }
+    return purged;
+  } catch (err) {
+    console.warn("[monitor] Cache invalidation failed:", err);
+    return 0;
+  }
+}
+
 async function runCleanupTasks(supabase: MonitorSupabaseClient): Promise<void> {
   try {
     const { data: cleanupResults } = await supabase.rpc("cleanup_old_data");
@@ -223,11 +274,12 @@ async function runCleanupTasks(supabase: MonitorSupabaseClient): Promise<void> {
 // ---------------------------------------------------------------------------
 
 export async function runChangeDetection(
-  townId: string = "needham",
+  townId: string,
   triggeredBy: string = "cli"
 ): Promise<ChangeDetectionResult> {
   const startTime = Date.now();
   const supabase = getSupabaseServiceClient();
+  const db = getTenantDb(townId);
 
   // Stage 1: Fetch a rotating daily subset (~1/7 of documents)
   const dayOfYear = Math.floor(
@@ -235,20 +287,16 @@ export async function runChangeDetection(
   );
   const bucket = dayOfYear % 7;
 
-  const { count: totalCount, error: countError } = await supabase
-    .from("documents")
-    .select("id", { count: "exact", head: true })
-    .eq("town_id", townId);
+  const { count: totalCount, error: countError } = await db
+    .select("documents", "id", { count: "exact", head: true });
 
   const docCount = countError ? 800 : (totalCount ?? 800);
   const bucketSize = Math.ceil(docCount / 7);
   const rangeStart = bucket * bucketSize;
   const rangeEnd = rangeStart + bucketSize - 1;
 
-  const { data: documents, error: fetchError } = await supabase
-    .from("documents")
-    .select("id, url, content_hash, source_type, metadata")
-    .eq("town_id", townId)
+  const { data: documents, error: fetchError } = await db
+    .select<TrackedDocument>("documents", "id, url, content_hash, source_type, metadata")
     .order("created_at", { ascending: true })
     .range(rangeStart, rangeEnd);
 
@@ -256,21 +304,24 @@ export async function runChangeDetection(
     throw new Error(`Failed to fetch documents: ${fetchError.message}`);
   }
 
-  const tracked = (documents || []) as TrackedDocument[];
+  const tracked = documents || [];
 
   // Stage 2: Content-hash change detection
   const { changedUrls, unchangedIds, errorCount: changeErrors } =
-    await checkDocumentsForChanges(supabase, tracked);
+    await checkDocumentsForChanges(db, tracked);
   let errorCount = changeErrors;
 
   // Stage 3: Batch update unchanged docs
-  errorCount += await batchUpdateUnchanged(supabase, unchangedIds);
+  errorCount += await batchUpdateUnchanged(db, unchangedIds);
+
+  // Stage 3b: Drop cached answers that cite a changed page
+  const purgedCachedAnswers = await purgeCachedAnswers(townId, changedUrls, triggeredBy);
 
-  // Stage 4: RSS feed check
-  const newUrls = await findNewUrlsFromRss(supabase, townId);
+  // Stage 4: RSS feed check (skipped when the town has no site feed)
+  const newUrls = await findNewUrlsFromRss(db);
 
   // Stage 5: Staleness flagging
-  errorCount += await flagStaleDocuments(supabase, townId);
+  errorCount += await flagStaleDocuments(db);
 
   // Stage 6: Cleanup tasks
   await runCleanupTasks(supabase);
@@ -292,6 +343,7 @@ export async function runChangeDetection(
       bucket: `${bucket + 1}/7`,
       total_documents: docCount,
       unchanged_batch_size: unchangedIds.length,
+      purged_cached_answers: purgedCachedAnswers,
     },
   });
 
@@ -300,6 +352,7 @@ export async function runChangeDetection(
     changedUrls,
     newUrls,
     removedUrls: [],
+    purgedCachedAnswers,
     errors: errorCount,
     durationMs,
   };
@@ -0,0 +1,175 @@
+/**
+ * src/lib/prompt-profile.ts — Per-town prompt profiles
+ *
+ * Resolves a town's prompt_profile (config/towns.ts or towns.town_config)
+ * into the persona, local vocabulary, supported topics, disclaimer and
+ * escalation contacts the chat, search answer and article generator prompts
+ * are built from. Missing fields fall back to town-neutral defaults, so a
+ * freshly onboarded town gets a sensible assistant without any prompt work.
+ */
+
+import type { TownConfig, TownEscalationContact, TownPromptProfile } from "@/lib/towns";
+
+export type { TownEscalationContact, TownPromptProfile };
+
+/** A town's prompt profile with every default filled in */
+export type PromptProfile = {
+  townName: string;
+  assistantName: string;
+  persona: string | null;
+  vocabularyNotes: string[];
+  supportedTopics: string[];
+  newResidentTopics: string[];
+  disclaimer: string;
+  escalationContacts: TownEscalationContact[];
+};
+
+export const DEFAULT_VOCABULARY_NOTES = [
+  '"Cops" means the Police Department.',
+  '"Can I build a deck" is a zoning/permit question.',
+  '"Who do I call about a rat" is a Board of Health question.',
+];
+
+export const DEFAULT_SUPPORTED_TOPICS = [
+  "Permits and building requirements",
+  "Trash & recycling",
+  "Property taxes and payments",
+  "Zoning regulations",
+  "Schools and enrollment",
+  "Town meetings and elections",
+  "Recreation programs",
+  "Department contact information",
+];
+
+export const DEFAULT_NEW_RESIDENT_TOPICS = [
+  "Trash & recycling",
+  "Voter registration",
+  "School enrollment",
+  "Property taxes and payment schedules",
+  "Parking permits and regulations",
+  "Town Hall contact information and hours",
+  "Library card and services",
+  "Recreation programs and facilities",
+];
+
+export const DEFAULT_DISCLAIMER = "All information is for reference only and is not legal advice.";
+
+/** Town Hall, or failing that the first listed department with a phone number */
+function defaultEscalationContacts(town: TownConfig): TownEscalationContact[] {
+  const department =
+    town.departments.find((d) => d.name === "Town Hall" && d.phone) ??
+    town.departments.find((d) => d.phone);
+  return department ? [{ name: department.name, phone: department.phone }] : [];
+}
+
+/** Fill a town's prompt profile in with defaults. */
+export function resolvePromptProfile(town: TownConfig, override?: TownPromptProfile): PromptProfile {
+  const profile = override ?? town.prompt_profile ?? {};
+  return {
+    townName: town.name,
+    assistantName: profile.assistant_name?.trim() || town.app_name,
+    persona: profile.persona?.trim() || null,
+    vocabularyNotes: profile.vocabulary_notes ?? DEFAULT_VOCABULARY_NOTES,
+    supportedTopics: profile.supported_topics?.length ? profile.supported_topics : DEFAULT_SUPPORTED_TOPICS,
+    newResidentTopics: profile.new_resident_topics?.length
+      ? profile.new_resident_topics
+      : DEFAULT_NEW_RESIDENT_TOPICS,
+    disclaimer: profile.disclaimer?.trim() || DEFAULT_DISCLAIMER,
+    escalationContacts: profile.escalation_contacts?.length
+      ? profile.escalation_contacts
+      : defaultEscalationContacts(town),
+  };
+}
+
+/**
+ * Profile for callers that only know the town's name and main phone number
+ * (the town-neutral defaults plus that one escalation contact).
+ */
+export function basicPromptProfile(townName: string, townHallPhone: string): PromptProfile {
+  return {
+    townName,
+    assistantName: `${townName} Navigator`,
+    persona: null,
+    vocabularyNotes: DEFAULT_VOCABULARY_NOTES,
+    supportedTopics: DEFAULT_SUPPORTED_TOPICS,
+    newResidentTopics: DEFAULT_NEW_RESIDENT_TOPICS,
+    disclaimer: DEFAULT_DISCLAIMER,
+    escalationContacts: townHallPhone ? [{ name: "Town Hall", phone: townHallPhone }] : [],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Validation (onboarding and the admin preview)
+// ---------------------------------------------------------------------------
+
+const MAX_LIST_ITEMS = 30;
+const MAX_TEXT_LENGTH = 500;
+
+function parseText(value: unknown, field: string): string | undefined | { error: string } {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") return { error: `${field} must be a string` };
+  if (value.length > MAX_TEXT_LENGTH) return { error: `${field} must be at most ${MAX_TEXT_LENGTH} characters` };
+  return value.trim() || undefined;
+}
+
+function parseTextList(value: unknown, field: string): string[] | undefined | { error: string } {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    return { error: `${field} must be an array of strings` };
+  }
+  const items = (value as string[]).map((item) => item.trim()).filter(Boolean);
+  if (items.length > MAX_LIST_ITEMS) return { error: `${field} can have at most ${MAX_LIST_ITEMS} entries` };
+  if (items.some((item) => item.length > MAX_TEXT_LENGTH)) {
+    return { error: `${field} entries must be at most ${MAX_TEXT_LENGTH} characters` };
+  }
+  return items;
+}
+
+function isError(value: unknown): value is { error: string } {
+  return typeof value === "object" && value !== null && "error" in value;
+}
+
+/**
+ * Validate a prompt_profile object. Returns the profile, or an error message.
+ */
+export function parsePromptProfile(input: unknown): TownPromptProfile | string {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return "prompt_profile must be an object";
+  }
+  const raw = input as Record<string, unknown>;
+  const profile: TownPromptProfile = {};
+
+  for (const field of ["assistant_name", "persona", "disclaimer"] as const) {
+    const value = parseText(raw[field], field);
+    if (isError(value)) return value.error;
+    if (value) profile[field] = value;
+  }
+
+  for (const field of ["vocabulary_notes", "supported_topics", "new_resident_topics"] as const) {
+    const value = parseTextList(raw[field], field);
+    if (isError(value)) return value.error;
+    if (value) profile[field] = value;
+  }
+
+  if (raw.escalation_contacts !== undefined && raw.escalation_contacts !== null) {
+    if (!Array.isArray(raw.escalation_contacts)) return "escalation_contacts must be an array";
+    const contacts: TownEscalationContact[] = [];
+    for (const [i, entry] of raw.escalation_contacts.entries()) {
+      const contact = (entry ?? {}) as Record<string, unknown>;
+      if (typeof contact.name !== "string" || !contact.name.trim() ||
+          typeof contact.phone !== "string" || !contact.phone.trim()) {
+        return `escalation_contacts[${i}] needs a name and phone`;
+      }
+      const handles = typeof contact.handles === "string" ? contact.handles.trim() : "";
+      contacts.push({
+        name: contact.name.trim(),
+        phone: contact.phone.trim(),
+        ...(handles ? { handles } : {}),
+      });
+    }
+    if (contacts.length > MAX_LIST_ITEMS) return `escalation_contacts can have at most ${MAX_LIST_ITEMS} entries`;
+    profile.escalation_contacts = contacts;
+  }
+
+  return profile;
+}
@@ -1,26 +1,54 @@
+import { EASTERN_TZ } from "@/lib/timezone";
+import { formatConflictsForPrompt, type SourceConflict } from "@/lib/conflict-detector";
+import { basicPromptProfile, type PromptProfile } from "@/lib/prompt-profile";
+
 // ---------------------------------------------------------------------------
-// Town info passed in from the caller (e.g. chat route)
+// Profile-driven sections
 // ---------------------------------------------------------------------------
 
-export type TownPromptInfo = {
-  townName: string;      // e.g. "Needham, MA"
-  townHallPhone: string; // e.g. "(781) 455-7500"
-};
+/** "Town Hall at (781) 455-7500", or just "Town Hall" when no number is known */
+function primaryContact(profile: PromptProfile): string {
+  const contact = profile.escalationContacts[0];
+  return contact ? `${contact.name} at ${contact.phone}` : "Town Hall";
+}
+
+function formatEscalationContacts(profile: PromptProfile): string | null {
+  if (profile.escalationContacts.length === 0) return null;
+  const lines = profile.escalationContacts.map((contact) =>
+    `- ${contact.name}: ${contact.phone}${contact.handles ? ` — ${contact.handles}` : ""}`
+  );
+  return `ESCALATION CONTACTS (when the documents don't answer, send residents here — the first one is the general line):\n${lines.join("\n")}`;
+}
+
+/**
+ * Local slang and nicknames, for any prompt that reads resident-written or
+ * town-written text. Null when the town has no notes.
+ */
+export function formatVocabularyForPrompt(profile: PromptProfile): string | null {
+  if (profile.vocabularyNotes.length === 0) return null;
+  return `LOCAL VOCABULARY (use the official names in your writing):\n${profile.vocabularyNotes.map((note) => `- ${note}`).join("\n")}`;
+}
 
 // ---------------------------------------------------------------------------
 // Build the base system prompt — fully multi-tenant, no hardcoded facts
 // ---------------------------------------------------------------------------
 
-function buildBaseSystemPrompt(town: TownPromptInfo): string {
-  return `You are ${town.townName} Navigator — a friendly, knowledgeable AI assistant for the Town of ${town.townName}. Think of yourself as a helpful neighbor who happens to know everything about town government.
+function buildBaseSystemPrompt(profile: PromptProfile): string {
+  const townName = profile.townName;
+  const persona = profile.persona ? `\n- ${profile.persona}` : "";
+  const vocabulary = profile.vocabularyNotes.length > 0 ? ` ${profile.vocabularyNotes.join(" ")}` : "";
+  const newResidentTopics = profile.newResidentTopics.map((topic, i) => `${i + 1}. ${topic}`).join("\n");
+  const escalation = formatEscalationContacts(profile);
+
+  return `You are ${profile.assistantName} — a friendly, knowledgeable AI assistant for the Town of ${townName}. Think of yourself as a helpful neighbor who happens to know everything about town government.
 
 PERSONALITY & TONE:
 - Warm and conversational, like a town clerk who genuinely wants to help
 - Lead with the direct answer in the very first sentence
 - Use natural, everyday language — avoid bureaucratic jargon
-- When a resident uses slang (like "the dump"), acknowledge it naturally: "The Transfer Station (that's what most folks call 'the dump')" — NOT robotic phrasing like "often referred to as"
+- When a resident uses local slang, acknowledge it naturally alongside the official name — NOT robotic phrasing like "often referred to as"
 - One natural follow-up question at the end, not two generic ones
-- When you don't know something, say: "I'm not sure about that one. Your best bet is to call [Department] at [number] — they'll know right away."
+- When you don't know something, say: "I'm not sure about that one. Your best bet is to call [Department] at [number] — they'll know right away." If no department fits, point them to ${primaryContact(profile)}.${persona}
 
 RESPONSE FORMAT:
 - Start with a clear, direct answer (1-2 sentences)
@@ -68,19 +96,12 @@ Example: If the answer is about building permits, good follow-ups would be:
 FOLLOW_UPS: What are the permit fees? | How long does approval take? | Can I apply online?
 
 UNDERSTANDING RESIDENT LANGUAGE:
-Residents often use informal language. "The dump" means the Transfer Station. "Cops" means the Police Department. "Can I build a deck" is a zoning/permit question. "Who do I call about a rat" is a Board of Health question. Always interpret questions charitably and match them to the most relevant town service.
+Residents often use informal language.${vocabulary} Always interpret questions charitably and match them to the most relevant town service.
 
 NEW RESIDENT PRIORITY LIST:
-When someone asks a broad question like "I just moved to Needham" or "what do I need to know," prioritize these topics if they appear in your context documents:
-1. Trash & recycling (Transfer Station hours, sticker requirements)
-2. Voter registration
-3. School enrollment
-4. Property taxes and payment schedules
-5. Parking permits and regulations
-6. Town Hall contact information and hours
-7. Library card and services
-8. Recreation programs and facilities
-
+When someone asks a broad question like "I just moved to ${townName.split(",")[0]}" or "what do I need to know," prioritize these topics if they appear in your context documents:
+${newResidentTopics}
+${escalation ? `\n${escalation}\n` : ""}
 GROUNDING RULES — READ CAREFULLY:
 - ONLY make factual claims that are DIRECTLY SUPPORTED by the provided context documents
 - If a retrieved chunk is NOT RELEVANT to the user's question, IGNORE IT — do not cite it
@@ -89,7 +110,7 @@ GROUNDING RULES — READ CAREFULLY:
 - If you're unsure about a detail, direct the user to call the relevant department rather than guessing
 
 HANDLING EDGE CASES:
-- **Off-topic questions**: "I'm here to help with ${town.townName} town info! For [topic], you'd want to check with [resource]."
+- **Off-topic questions**: "I'm here to help with ${townName} town info! For [topic], you'd want to check with [resource]."
 - **Ambiguous questions**: Ask a clarifying question before answering (e.g., "Are you asking about residential or commercial zoning setbacks?")
 - **Multi-part questions**: Address each part separately
 - **Wrong assumptions**: Politely correct using information from the context documents
@@ -98,8 +119,8 @@ RULES:
 1. Only answer based on the provided context documents. Never make up information.
 2. Never invent facts, dates, fees, phone numbers, or other specific details.
 3. Be specific and complete. Include every factual detail from the context. It's better to be slightly longer and fully accurate than short and missing key details.
-4. Never provide legal advice — state that all information is for reference only.
-5. For off-topic questions: "I'm here to help with ${town.townName} town info! For [topic], you'd want to check with [resource]."
+4. Never provide legal advice — when a question is legal in nature, say: "${profile.disclaimer}"
+5. For off-topic questions: "I'm here to help with ${townName} town info! For [topic], you'd want to check with [resource]."
 6. Do not generate inappropriate, offensive, or harmful content.
 7. Do NOT start your response with a disclaimer or preamble about AI accuracy. The UI already displays reliability indicators and a disclaimer footer — just jump straight into answering the question.`;
 }
@@ -113,6 +134,8 @@ export type PromptContextDocument = {
   citation: string;
   excerpt: string;
   url?: string;
+  /** Town the document belongs to, in regional mode */
+  town?: string;
 };
 
 function formatContextDocuments(contextDocuments: PromptContextDocument[]): string {
@@ -128,6 +151,9 @@ function formatContextDocuments(contextDocuments: PromptContextDocument[]): stri
 
   for (const doc of contextDocuments) {
     lines.push(`[${doc.sourceId}] ${doc.citation}`);
+    if (doc.town) {
+      lines.push(`TOWN: ${doc.town}`);
+    }
     if (doc.url) {
       lines.push(`URL: ${doc.url}`);
     }
@@ -138,6 +164,18 @@ function formatContextDocuments(contextDocuments: PromptContextDocument[]): stri
   return lines.join("\n");
 }
 
+/**
+ * Regional mode: the context mixes documents from several towns. Ask for a
+ * side-by-side answer with each town's facts cited from its own documents.
+ */
+function formatRegionalInstructions(townNames: string[]): string {
+  return `REGIONAL SEARCH — this question covers ${townNames.join(", ")}:
+- Each context document is labeled with its TOWN. Rules, fees, hours and contacts differ between towns — never apply one town's document to another town.
+- When the resident compares towns (or the answer differs by town), answer side by side: a short section per town, headed with the town name, or a compact table with one column per town.
+- Within each town's section, use only that town's documents, and list that town's source IDs in USED_SOURCES.
+- If the documents don't cover one of the towns, say so for that town instead of guessing.`;
+}
+
 // ---------------------------------------------------------------------------
 // Compose the full system prompt
 // ---------------------------------------------------------------------------
@@ -147,16 +185,19 @@ export function buildChatSystemPrompt(options: {
   includeDisclaimer: boolean;
   townName: string;
   townHallPhone: string;
+  /** The town's resolved prompt profile — built from townName/townHallPhone when omitted */
+  profile?: PromptProfile;
+  conflicts?: SourceConflict[];
+  /** Regional mode: names of every town searched, home town first */
+  regionalTowns?: string[];
 }): string {
-  const town: TownPromptInfo = {
-    townName: options.townName,
-    townHallPhone: options.townHallPhone,
-  };
+  const profile = options.profile ?? basicPromptProfile(options.townName, options.townHallPhone);
 
-  const sections: string[] = [buildBaseSystemPrompt(town)];
+  const sections: string[] = [buildBaseSystemPrompt(profile)];
 
   // Inject current date so the LLM knows what's past vs. upcoming
   const today = new Date().toLocaleDateString("en-US", {
+    timeZone: EASTERN_TZ,
     weekday: "long",
     year: "numeric",
     month: "long",
@@ -166,7 +207,32 @@ export function buildChatSystemPrompt(options: {
     `TODAY'S DATE: ${today}\nDo not present past events or meetings as upcoming. If a date in the context documents is in the past, say it already happened and suggest checking the town website for the next scheduled date.`
   );
 
+  if (options.regionalTowns && options.regionalTowns.length > 1) {
+    sections.push(formatRegionalInstructions(options.regionalTowns));
+  }
+
   sections.push(formatContextDocuments(options.contextDocuments));
 
+  if (options.conflicts && options.conflicts.length > 0) {
+    sections.push(formatConflictsForPrompt(options.conflicts));
+  }
+
   return sections.join("\n\n");
 }
+
+// ---------------------------------------------------------------------------
+// No-results answer
+// ---------------------------------------------------------------------------
+
+/**
+ * The answer shown when retrieval finds nothing: point the resident at the
+ * town's main contact and list the topics the assistant can help with.
+ */
+export function buildFallbackAnswer(profile: PromptProfile): string {
+  return [
+    `I don't have specific information about that topic in my indexed documents.`,
+    `Your best bet is to call ${primaryContact(profile)} — they'll know right away or can point you to the right department.`,
+    "I can help with questions about:",
+    ...profile.supportedTopics.map((topic) => `- ${topic}`),
+  ].join("\n\n");
+}
@@ -13,11 +13,17 @@
  * The original query is ALWAYS used for primary search. The rewritten
  * query is used as an additional parallel search to catch docs the
  * original query might miss.
+ *
+ * condenseQuery handles multi-turn chat: a follow-up like "what about for a
+ * fence?" is turned into a standalone question from the recent turns
+ * before it becomes the "original query" above.
  */
 
 import { openai } from "@ai-sdk/openai";
 import { generateText } from "ai";
 
+const REWRITE_MODEL = "gpt-4.1-nano";
+
 const REWRITE_SYSTEM_PROMPT = `You are a municipal search query optimizer. Your job is to rewrite a resident's question into an ideal search query that would match official government documents.
 
 Rules:
@@ -42,7 +48,7 @@ export async function rewriteQuery(
 ): Promise<string | null> {
   try {
     const { text } = await generateText({
-      model: openai("gpt-4.1-nano"),
+      model: openai(REWRITE_MODEL),
       system: REWRITE_SYSTEM_PROMPT,
       prompt: `Town: ${townName}\nResident's question: "${originalQuery}"`,
       temperature: 0,
@@ -62,3 +68,76 @@ export async function rewriteQuery(
     return null;
   }
 }
+
+// ---------------------------------------------------------------------------
+// Conversational condensation
+// ---------------------------------------------------------------------------
+
+export interface ConversationTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/** How many prior turns (user + assistant) are shown to the condenser */
+export const CONDENSE_HISTORY_TURNS = 6;
+// Assistant answers are long; the gist is enough to resolve a follow-up
+const MAX_TURN_CHARS = 400;
+
+const CONDENSE_SYSTEM_PROMPT = `You rewrite a resident's follow-up message into a standalone question for searching municipal documents.
+
+Rules:
+1. Use the conversation only to resolve what the follow-up refers to ("it", "that", "what about...", "and for a fence?")
+2. Keep the resident's own wording and intent; do not add details they didn't ask about
+3. If the follow-up is already a standalone question, return it unchanged
+4. Do NOT answer the question
+5. Output ONLY the standalone question, nothing else
+
+Examples:
+- Conversation: "do I need a permit to build a deck?" / follow-up: "what about for a fence?" → "Do I need a permit to build a fence?"
+- Conversation: "when is the transfer station open?" / follow-up: "is it open on holidays?" → "Is the transfer station open on holidays?"
+- Conversation: "how do I register my dog?" / follow-up: "where is the library?" → "Where is the library?"`;
+
+function formatTurn(turn: ConversationTurn): string {
+  const text = turn.content
+    .replaceAll(/USED_SOURCES:\s*.+?(?:\n|$)/gi, "")
+    .replaceAll(/FOLLOW_UPS:\s*.+?(?:\n|$)/gi, "")
+    .replaceAll(/\s+/g, " ")
+    .trim();
+  const clipped = text.length > MAX_TURN_CHARS ? `${text.slice(0, MAX_TURN_CHARS)}…` : text;
+  return `${turn.role === "user" ? "Resident" : "Assistant"}: ${clipped}`;
+}
+
+/**
+ * Turn the latest chat message into a standalone search question using the
+ * last CONDENSE_HISTORY_TURNS turns before it. Returns null when there is no
+ * earlier resident turn to draw on, or when condensing fails — callers then
+ * fall back to the message as written.
+ */
+export async function condenseQuery(
+  latestMessage: string,
+  history: ConversationTurn[],
+  townName: string = "Town"
+): Promise<string | null> {
+  const recent = history.slice(-CONDENSE_HISTORY_TURNS);
+  if (!recent.some((turn) => turn.role === "user")) return null;
+
+  try {
+    const { text } = await generateText({
+      model: openai(REWRITE_MODEL),
+      system: CONDENSE_SYSTEM_PROMPT,
+      prompt: [
+        `Town: ${townName}`,
+        "Conversation:",
+        ...recent.map(formatTurn),
+        `Follow-up: "${latestMessage}"`,
+      ].join("\n"),
+      temperature: 0,
+    });
+
+    const condensed = text.trim().replaceAll(/^"|"$/g, "");
+    return condensed || null;
+  } catch (error) {
+    console.warn("[query-rewriter] Failed to condense follow-up, using original:", error);
+    return null;
+  }
+}
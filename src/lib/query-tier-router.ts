@@ -3,11 +3,12 @@
  *
  * Detects whether a user query is about state-level topics
  * (taxes, programs, regulations) and expands the search scope
- * to include mass.gov and other state content.
+ * to include mass.gov and other state content. Towns can add their own
+ * query patterns (relevance_tier_rules) that widen the scope further.
  */
 
-import type { RelevanceTier } from "./relevance-classifier";
-import { DEFAULT_SEARCH_TIERS, EXPANDED_SEARCH_TIERS } from "./relevance-classifier";
+import type { RelevanceTier, TownTierRules } from "./relevance-classifier";
+import { DEFAULT_SEARCH_TIERS, EXPANDED_SEARCH_TIERS, RELEVANCE_TIERS } from "./relevance-classifier";
 
 const STATE_QUERY_PATTERNS = [
   // Tax
@@ -87,8 +88,17 @@ const STATE_QUERY_PATTERNS = [
  *
  * - Default queries → primary + regional
  * - State-level queries → primary + regional + state
+ * - Queries matching one of the town's query_pattern rules → plus that rule's tier
  */
-export function getSearchTiers(query: string): RelevanceTier[] {
+export function getSearchTiers(query: string, rules?: TownTierRules): RelevanceTier[] {
   const isStateQuery = STATE_QUERY_PATTERNS.some((p) => p.test(query));
-  return isStateQuery ? EXPANDED_SEARCH_TIERS : DEFAULT_SEARCH_TIERS;
+  const tiers = isStateQuery ? EXPANDED_SEARCH_TIERS : DEFAULT_SEARCH_TIERS;
+
+  const extra = (rules?.queryPatterns ?? [])
+    .filter((rule) => !tiers.includes(rule.tier) && rule.pattern.test(query))
+    .map((rule) => rule.tier);
+  if (extra.length === 0) return tiers;
+
+  // Keep the canonical tier order
+  return RELEVANCE_TIERS.filter((tier) => tiers.includes(tier) || extra.includes(tier));
 }
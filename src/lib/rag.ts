@@ -1,15 +1,31 @@
 import { generateEmbedding } from "@/lib/embeddings";
-import { getSupabaseClient } from "@/lib/supabase";
-import { queryPinecone, PINECONE_NS_CHUNKS, PINECONE_NS_CONTENT } from "@/lib/upstash-vector";
+import { getTenantDb } from "@/lib/tenant-db";
+import {
+  getVectorStore,
+  filterAnd,
+  filterEq,
+  filterIn,
+  VECTOR_NS_CHUNKS,
+  VECTOR_NS_CONTENT,
+} from "@/lib/vector-store";
 import { DEFAULT_TOWN_ID as DEFAULT_TOWN_ID_FROM_CONFIG } from "@/lib/towns";
-import { expandQuery } from "@/lib/synonyms";
+import { expandQuery, getSynonymDictionary } from "@/lib/synonyms";
 import { rewriteQuery } from "@/lib/query-rewriter";
 import { trackEvent } from "@/lib/pendo";
-import { checkGeographicRelevance } from "@/lib/geo-filter";
+import { checkGeographicRelevance, getTownGeography } from "@/lib/geo-filter";
 import { canonicalizeUrl } from "@/lib/url-canonicalize";
 import { getSearchTiers } from "@/lib/query-tier-router";
+import { getTierRules } from "@/lib/tier-rules";
 import type { RetrievalConfig } from "@/lib/query-router";
 import { FALLBACK_SEARCH_TIERS, type RelevanceTier } from "@/lib/relevance-classifier";
+import { getReranker, computeRerankStats, type RerankStats } from "@/lib/rerankers";
+import { parseTemporalExpression, applyTemporalRange, isStaleForRange } from "@/lib/temporal-query";
+import {
+  getTownSettings,
+  DEFAULT_CHAT_MODEL,
+  type RerankerKind,
+  type TownSettings,
+} from "@/lib/town-settings";
 
 export const DEFAULT_TOWN_ID = DEFAULT_TOWN_ID_FROM_CONFIG;
 
@@ -17,21 +33,7 @@ const DEFAULT_MATCH_THRESHOLD = 0.7;
 const DEFAULT_MATCH_COUNT = 20; // Retrieve more for reranking (reduced from 30 — reranking discards most beyond top 15)
 const DEFAULT_FINAL_COUNT = 10; // Final chunks to pass to LLM
 const MIN_SIMILARITY_FLOOR = 0.3; // Drop chunks below this — they're noise (tuned for better recall)
-
-// Lazy-loaded Cohere client — avoids importing the heavy cohere-ai package on cold start
-// unless cross-encoder reranking is actually enabled
-let _cohereClient: import("cohere-ai").CohereClient | null | undefined;
-
-function getCohereClient(): import("cohere-ai").CohereClient | null {
-  if (_cohereClient !== undefined) return _cohereClient;
-  if (process.env.COHERE_API_KEY && process.env.USE_CROSS_ENCODER_RERANK === "true") {
-    const { CohereClient } = require("cohere-ai") as typeof import("cohere-ai");
-    _cohereClient = new CohereClient({ token: process.env.COHERE_API_KEY });
-  } else {
-    _cohereClient = null;
-  }
-  return _cohereClient;
-}
+const HYBRID_MATCH_THRESHOLD = 0.45; // Looser semantic threshold for hybrid search (text rank compensates)
 
 type ChunkMetadata = Record<string, unknown>;
 
@@ -56,6 +58,9 @@ export type SourceReference = {
   section?: string;
   date?: string;
   pageNumber?: number;
+  /** Town the source belongs to — set by regional search, which mixes towns */
+  townId?: string;
+  townName?: string;
 };
 
 export type RetrievedChunk = {
@@ -64,8 +69,8 @@ export type RetrievedChunk = {
   similarity: number;
   metadata: ChunkMetadata;
   source: SourceReference;
-  cohereScore?: number;  // Added by Cohere reranker if used
-  relevanceScore?: number;  // Added by formula reranking
+  rerankerScore?: number;  // Added by model rerankers (Cohere, LLM judge)
+  relevanceScore?: number;  // Added by reranking
 };
 
 export type HybridSearchResult = {
@@ -245,12 +250,14 @@ export function buildContextDocuments(chunks: RetrievedChunk[]): Array<{
   citation: string;
   excerpt: string;
   url?: string;
+  town?: string;
 }> {
   return chunks.map((chunk, index) => ({
     sourceId: chunk.source.sourceId || `S${index + 1}`,
     citation: chunk.source.citation,
     excerpt: cleanLine(chunk.chunkText, 900),
     url: chunk.source.documentUrl,
+    town: chunk.source.townName,
   }));
 }
 
@@ -360,176 +367,6 @@ function detectDepartment(query: string): string | null {
   return null;
 }
 
-// ---------------------------------------------------------------------------
-// Cohere cross-encoder reranking (optional upgrade)
-// ---------------------------------------------------------------------------
-
-interface RerankResult {
-  chunks: RetrievedChunk[];
-  usedReranker: boolean;
-  rerankerLatencyMs: number | null;
-}
-
-async function cohereRerank(
-  query: string,
-  chunks: RetrievedChunk[]
-): Promise<RerankResult> {
-  // If Cohere client not configured or no chunks, skip reranking
-  const cohereClient = getCohereClient();
-  if (!cohereClient || chunks.length === 0) {
-    return { chunks, usedReranker: false, rerankerLatencyMs: null };
-  }
-
-  const startTime = performance.now();
-
-  try {
-    // Cohere rerank API expects documents as strings
-    const documents = chunks.map((chunk) => chunk.chunkText);
-
-    // Call Cohere Rerank v3.5 with 3-second timeout
-    const abortController = new AbortController();
-    const timeoutId = setTimeout(() => abortController.abort(), 3000);
-
-    const response = await cohereClient.v2.rerank({
-      model: "rerank-v3.5",
-      query,
-      documents,
-      topN: chunks.length, // Return all documents with scores
-    });
-
-    clearTimeout(timeoutId);
-
-    const latencyMs = Math.round(performance.now() - startTime);
-
-    // Map Cohere results back to chunks with updated scores
-    const rankedChunks = response.results.map((result) => {
-      const chunk = chunks[result.index];
-      return {
-        ...chunk,
-        cohereScore: result.relevanceScore,
-      };
-    });
-
-    return {
-      chunks: rankedChunks,
-      usedReranker: true,
-      rerankerLatencyMs: latencyMs,
-    };
-  } catch (error) {
-    // Graceful fallback: if Cohere fails or times out, use original chunks
-    console.warn("[rag] Cohere reranking failed, using formula reranking:", error);
-    return {
-      chunks,
-      usedReranker: false,
-      rerankerLatencyMs: null,
-    };
-  }
-}
-
-// Reranking: score chunks by multiple factors
-// If config is provided, uses adjusted weights. Otherwise uses defaults.
-// If chunks have cohereScore, blends it with the formula score.
-function rerankChunks(
-  chunks: RetrievedChunk[],
-  query: string,
-  detectedDepartment: string | null,
-  config?: RetrievalConfig
-): RetrievedChunk[] {
-  const queryTerms = query.toLowerCase().split(/\s+/).filter(t => t.length >= 3);
-
-  // Use config weights if provided, otherwise use defaults
-  const recencyWeight = config?.recencyWeight ?? 0.1;
-  const authorityWeight = config?.authorityWeight ?? 0.1;
-  const sourceBoost = config?.sourceBoost ?? {};
-
-  const scored = chunks.map(chunk => {
-    const chunkLower = chunk.chunkText.toLowerCase();
-    const metadata = chunk.metadata;
-
-    // Check if this chunk has a Cohere score (from reranking)
-    const hasCohereScore = chunk.cohereScore !== undefined;
-    const cohereScore = chunk.cohereScore ?? 0;
-
-    // Semantic similarity (0.6 weight)
-    const semanticScore = chunk.similarity * 0.6;
-
-    // Keyword overlap (0.2 weight)
-    const matchedTerms = queryTerms.filter(term => chunkLower.includes(term)).length;
-    const keywordScore = (matchedTerms / Math.max(queryTerms.length, 1)) * 0.2;
-
-    // Document recency (configurable weight)
-    let recencyScore = 0;
-    const docDate = readString(metadata, ["document_date", "effective_date", "last_amended"]);
-    if (docDate) {
-      const year = parseInt(docDate.match(/\d{4}/)?.[0] ?? "0");
-      if (year >= 2024) recencyScore = recencyWeight;
-      else if (year >= 2020) recencyScore = recencyWeight * 0.7;
-      else if (year >= 2015) recencyScore = recencyWeight * 0.4;
-    }
-
-    // Document authority (configurable weight)
-    let authorityScore = 0;
-    const docType = readString(metadata, ["document_type", "chunk_type"]);
-    if (docType === "regulation" || docType === "bylaw") authorityScore = authorityWeight;
-    else if (docType === "procedure" || docType === "meeting") authorityScore = authorityWeight * 0.7;
-    else authorityScore = authorityWeight * 0.5;
-
-    // Source boost (from config, replaces department boost)
-    let sourceBoostScore = 0;
-    const contentType = readString(metadata, ["content_type"]);
-    if (contentType && sourceBoost[contentType as keyof typeof sourceBoost]) {
-      sourceBoostScore = sourceBoost[contentType as keyof typeof sourceBoost] ?? 0;
-    }
-    // Fallback to department boost if no source boost
-    if (sourceBoostScore === 0 && detectedDepartment) {
-      const chunkDept = readString(metadata, ["department"]);
-      if (chunkDept && chunkDept.toLowerCase().includes(detectedDepartment.toLowerCase())) {
-        sourceBoostScore = 0.05;
-      }
-    }
-
-    // Locality boost (0.15 weight) — heavily reward local content, penalize distant
-    let localityScore = 0;
-    const docUrl = readString(metadata, ["document_url", "url"]) ?? "";
-    const docTitle = readString(metadata, ["document_title", "title"]) ?? "";
-    const category = readString(metadata, ["category"]) ?? "";
-    const geoResult = checkGeographicRelevance(chunkLower, docTitle, docUrl, category);
-
-    if (geoResult.isRelevant) {
-      // Bonus for content that explicitly mentions Needham
-      if (chunkLower.includes("needham")) {
-        localityScore = 0.15;
-      } else if (geoResult.detectedLocations.length > 0) {
-        localityScore = 0.1;
-      } else {
-        // No strong geo signals but not blocked — small positive
-        localityScore = 0.05;
-      }
-    } else {
-      // Content about distant locations — apply penalty
-      localityScore = -0.1;
-    }
-
-    // Formula score (6-factor formula with locality)
-    const formulaScore = semanticScore + keywordScore + recencyScore + authorityScore + sourceBoostScore + localityScore;
-
-    // Blend Cohere score if available: 60% Cohere, 30% formula, 10% source boost
-    const relevanceScore = hasCohereScore
-      ? cohereScore * 0.6 + formulaScore * 0.3 + sourceBoostScore * 0.1
-      : formulaScore;
-
-    return {
-      ...chunk,
-      relevanceScore,
-    };
-  });
-
-  // Sort by relevance score descending
-  scored.sort((a, b) => (b.relevanceScore ?? 0) - (a.relevanceScore ?? 0));
-
-  return scored;
-}
-
 // Select top chunks with a two-pass strategy:
 //   Pass 1 — fill ~80% of slots with a per-doc cap to maintain diversity.
 //   Pass 2 — fill remaining slots preferring *sibling* chunks (same
@@ -615,7 +452,7 @@ function selectTopChunks(
 
 /**
  * Run a vector search against content_items (external news, RSS, etc.)
- * via Pinecone, then fetch metadata from Supabase.
+ * via the vector store, then fetch metadata from Supabase.
  * Accepts a pre-computed embedding to avoid redundant OpenAI API calls.
  */
 async function vectorSearchContentItems(
@@ -627,31 +464,29 @@ async function vectorSearchContentItems(
 ): Promise<MatchDocumentRow[]> {
   const embedding = precomputedEmbedding ?? await generateEmbedding(queryText);
 
-  // Query Pinecone for content_items vectors
-  let pineconeResults;
+  // Query the vector store for content_items vectors
+  let vectorResults;
   try {
-    pineconeResults = await queryPinecone(
-      PINECONE_NS_CONTENT,
+    vectorResults = await getVectorStore().query(
+      VECTOR_NS_CONTENT,
       embedding,
       matchCount,
-      { town_id: { $eq: townId } },
+      filterEq("town_id", townId),
     );
   } catch (err) {
     // Non-fatal — content_items search is supplementary
-    console.warn(`[rag] Pinecone content_items search failed:`, err);
+    console.warn(`[rag] Vector store content_items search failed:`, err);
     return [];
   }
 
   // Filter by threshold
-  const filtered = pineconeResults.filter((r) => r.score >= matchThreshold);
+  const filtered = vectorResults.filter((r) => r.score >= matchThreshold);
   if (filtered.length === 0) return [];
 
   // Fetch full content_item data from Supabase by IDs
   const ids = filtered.map((r) => r.id);
-  const supabase = getSupabaseClient({ townId });
-  const { data, error } = await supabase
-    .from("content_items")
-    .select("id, title, content, summary, url, source_id, category, published_at, metadata")
+  const { data, error } = await getTenantDb(townId, { rls: true })
+    .select("content_items", "id, title, content, summary, url, source_id, category, published_at, metadata")
     .in("id", ids);
 
   if (error) {
@@ -659,11 +494,12 @@ async function vectorSearchContentItems(
     return [];
   }
 
-  // Build score map from Pinecone results
+  // Build score map from vector store results
   const scoreMap = new Map(filtered.map((r) => [r.id, r.score]));
 
   // Transform content_items results to MatchDocumentRow shape,
   // filtering out geographically irrelevant content.
+  const geography = getTownGeography(townId);
   type ContentItemRow = {
     id: string;
     title: string;
@@ -680,7 +516,7 @@ async function vectorSearchContentItems(
     .filter((row) => {
       // Pre-filter: reject content about distant locations
       const text = row.summary || row.content?.slice(0, 2000) || "";
-      const geo = checkGeographicRelevance(text, row.title, row.url ?? "", row.category);
+      const geo = checkGeographicRelevance(text, row.title, row.url ?? "", row.category, geography);
       if (!geo.isRelevant) {
         console.log(`[rag] Geo-filtered content_item: "${row.title}" — ${geo.reason}`);
         return false;
@@ -705,7 +541,7 @@ async function vectorSearchContentItems(
 }
 
 /**
- * Run a vector search via Pinecone, then fetch chunk text/metadata from Supabase.
+ * Run a vector search via the vector store, then fetch chunk text/metadata from Supabase.
  * Accepts a pre-computed embedding to avoid redundant OpenAI API calls.
  */
 async function vectorSearch(
@@ -718,38 +554,36 @@ async function vectorSearch(
 ): Promise<MatchDocumentRow[]> {
   const embedding = precomputedEmbedding ?? await generateEmbedding(queryText);
 
-  // Build Pinecone filter — always filter by town_id, optionally by relevance tier.
-  const filter: Record<string, unknown> = { town_id: { $eq: townId } };
-  if (tiers && tiers.length > 0) {
-    filter.relevance_tier = { $in: tiers };
-  }
+  // Always filter by town_id, optionally by relevance tier.
+  const filter = filterAnd(
+    filterEq("town_id", townId),
+    tiers && tiers.length > 0 ? filterIn("relevance_tier", tiers) : undefined,
+  );
 
-  // Query Pinecone for document_chunks vectors
-  const pineconeResults = await queryPinecone(
-    PINECONE_NS_CHUNKS,
+  // Query the vector store for document_chunks vectors
+  const vectorResults = await getVectorStore().query(
+    VECTOR_NS_CHUNKS,
     embedding,
     matchCount,
     filter,
   );
 
   // Filter by similarity threshold
-  const filtered = pineconeResults.filter((r) => r.score >= matchThreshold);
+  const filtered = vectorResults.filter((r) => r.score >= matchThreshold);
   if (filtered.length === 0) return [];
 
   // Fetch chunk_text and metadata from Supabase by IDs
   const ids = filtered.map((r) => r.id);
-  const supabase = getSupabaseClient({ townId });
-  const { data, error } = await supabase
-    .from("document_chunks")
-    .select("id, chunk_text, metadata")
+  const { data, error } = await getTenantDb(townId, { rls: true })
+    .select<{ id: string; chunk_text: string; metadata: ChunkMetadata | null }>("document_chunks", "id, chunk_text, metadata")
     .in("id", ids);
 
   if (error) {
     throw new Error(`Failed to fetch chunk data from Supabase: ${error.message}`);
   }
 
-  // Merge Pinecone scores with Supabase data
-  const chunkMap = new Map((data ?? []).map((d: { id: string; chunk_text: string; metadata: ChunkMetadata | null }) => [d.id, d]));
+  // Merge vector scores with Supabase data
+  const chunkMap = new Map((data ?? []).map((d) => [d.id, d]));
 
   return filtered
     .map((r) => {
@@ -773,11 +607,25 @@ export async function retrieveRelevantChunks(
     matchCount?: number;
     finalCount?: number;
     config?: RetrievalConfig; // Optional retrieval config from query router
+    reranker?: RerankerKind; // Overrides the town's configured reranker
+    textMatches?: Promise<TextSearchRow[]>; // Full-text results for RRF, if the caller already has them
+    onRerank?: (stats: RerankStats) => void; // Receives rerank metrics for telemetry
   }
 ): Promise<RetrievedChunk[]> {
   const townId = options?.townId ?? DEFAULT_TOWN_ID;
   const config = options?.config;
 
+  // Town settings pick the reranker; fetched alongside the searches (cached)
+  const settingsPromise: Promise<Pick<TownSettings, "reranker" | "chatModel">> = options?.reranker
+    ? Promise.resolve({ reranker: options.reranker, chatModel: DEFAULT_CHAT_MODEL })
+    : getTownSettings(townId);
+
+  // The town's tier rules can widen the search scope for some queries (cached)
+  const tierRulesPromise = getTierRules(townId);
+
+  // The town's synonym entries plus the universal ones (cached)
+  const synonymsPromise = getSynonymDictionary(townId);
+
   // Use config values if provided, otherwise fall back to options or defaults
   const matchThreshold = config?.similarityThreshold ?? options?.matchThreshold ?? DEFAULT_MATCH_THRESHOLD;
   const matchCount = options?.matchCount ?? DEFAULT_MATCH_COUNT;
@@ -789,7 +637,7 @@ export async function retrieveRelevantChunks(
   }
 
   // Step 1: Synonym expansion
-  const { expanded, expandedQuery } = expandQuery(trimmedQuery, townId);
+  const { expanded, expandedQuery } = expandQuery(trimmedQuery, await synonymsPromise);
 
   // Step 2: Intent detection — add intent keywords to the expanded query
   const intentKeywords = detectIntent(trimmedQuery);
@@ -825,7 +673,7 @@ export async function retrieveRelevantChunks(
   // Step 6: Run vector searches in parallel — original + expanded + LLM-rewritten
   // All searches reuse pre-computed embeddings (no duplicate API calls)
   // Determine relevance tiers based on query intent (e.g., state tax questions expand to mass.gov)
-  const tiers = getSearchTiers(trimmedQuery);
+  const tiers = getSearchTiers(trimmedQuery, await tierRulesPromise);
 
   const searchPromises: Promise<MatchDocumentRow[]>[] = [
     vectorSearch(trimmedQuery, townId, matchThreshold, matchCount, originalEmbedding, tiers),
@@ -929,17 +777,33 @@ export async function retrieveRelevantChunks(
     }
   }
 
-  // Step 7: Cohere cross-encoder reranking (optional upgrade)
-  const { chunks: cohereRanked, usedReranker, rerankerLatencyMs } = await cohereRerank(
-    fullExpandedQuery,
-    chunks
-  );
+  // Step 7: Rerank with the town's configured reranker (formula, Cohere, LLM judge, RRF)
+  const { reranker: rerankerKind, chatModel } = await settingsPromise;
+  const reranker = getReranker(rerankerKind, { chatModel });
+
+  let textRanking: string[] | undefined;
+  if (reranker.needsTextRanking) {
+    const textRows = await (options?.textMatches ??
+      textSearchChunks(trimmedQuery, { townId, limit: matchCount }).catch(() => [] as TextSearchRow[]));
+    textRanking = textRows.map((row) => row.id);
+  }
 
-  // Log reranker usage for telemetry
-  if (usedReranker) {
+  const rerankStart = performance.now();
+  const { chunks: reranked, applied } = await reranker.rerank(chunks, {
+    query: fullExpandedQuery,
+    detectedDepartment,
+    config,
+    textRanking,
+    townId,
+  });
+  const rerankLatencyMs = Math.round(performance.now() - rerankStart);
+
+  // Log model reranker usage for analytics
+  if (applied === "cohere" || applied === "llm") {
     try {
       trackEvent("reranker_used", {
-        latency_ms: rerankerLatencyMs,
+        reranker: applied,
+        latency_ms: rerankLatencyMs,
         chunk_count: chunks.length,
       });
     } catch {
@@ -947,11 +811,15 @@ export async function retrieveRelevantChunks(
     }
   }
 
-  // Step 8: Formula-based reranking (blends with Cohere if available)
-  const reranked = rerankChunks(cohereRanked, fullExpandedQuery, detectedDepartment, config);
+  // Step 8: Date-aware ranking — "next meeting", "this weekend", deadlines.
+  // Boosts chunks dated in range and drops events/meetings dated outside it.
+  const temporalRange = parseTemporalExpression(trimmedQuery);
+  const dateRanked = temporalRange ? applyTemporalRange(reranked, temporalRange) : reranked;
 
   // Step 9: Select top chunks by reranked score (with optional sibling expansion)
-  const diverse = selectTopChunks(reranked, finalCount, config);
+  const diverse = selectTopChunks(dateRanked, finalCount, config);
+
+  options?.onRerank?.(computeRerankStats(chunks, diverse, applied, rerankLatencyMs));
 
   return diverse;
 }
@@ -971,11 +839,8 @@ export async function textSearchChunks(
     return [];
   }
 
-  const supabase = getSupabaseClient({ townId });
-  const { data, error } = await supabase
-    .from("document_chunks")
-    .select("id, chunk_text, metadata")
-    .eq("town_id", townId)
+  const { data, error } = await getTenantDb(townId, { rls: true })
+    .select("document_chunks", "id, chunk_text, metadata")
     .textSearch("chunk_text", trimmedQuery, {
       type: "websearch",
       config: "english",
@@ -1047,23 +912,43 @@ export async function hybridSearch(
   options?: {
     townId?: string;
     limit?: number;
+    config?: RetrievalConfig; // Optional per-intent config from query router
+    onRerank?: (stats: RerankStats) => void;
   }
 ): Promise<HybridSearchResult[]> {
   const townId = options?.townId ?? DEFAULT_TOWN_ID;
   const limit = options?.limit ?? 15;
 
+  // Router thresholds are expressed relative to DEFAULT_MATCH_THRESHOLD (0.7).
+  // Hybrid search runs looser, so shift the intent's offset onto the hybrid base
+  // instead of letting a 0.75 "factual" threshold starve the semantic leg.
+  // The caller's limit decides how many results surface, so the intent's
+  // resultCount never shrinks the semantic pool below the default.
+  const config = options?.config
+    ? {
+        ...options.config,
+        similarityThreshold:
+          HYBRID_MATCH_THRESHOLD + (options.config.similarityThreshold - DEFAULT_MATCH_THRESHOLD),
+        resultCount: Math.max(options.config.resultCount, DEFAULT_FINAL_COUNT),
+      }
+    : undefined;
+
   // Run semantic + text search in parallel. Text search is non-critical —
   // if it fails (e.g. Supabase statement timeout), we still return semantic results.
-  const semanticPromise = retrieveRelevantChunks(query, {
-    townId,
-    matchThreshold: 0.45,
-    matchCount: Math.max(limit * 2, 12),
-  });
+  // The text results are shared with retrieval so the RRF reranker can fuse them.
   const textPromise = textSearchChunks(query, { townId, limit: Math.max(limit * 2, 12) })
     .catch((err) => {
       console.warn("[hybridSearch] Text search failed, using semantic only:", err?.message ?? err);
       return [] as TextSearchRow[];
     });
+  const semanticPromise = retrieveRelevantChunks(query, {
+    townId,
+    matchThreshold: HYBRID_MATCH_THRESHOLD,
+    matchCount: Math.max(limit * 2, 12),
+    config,
+    textMatches: textPromise,
+    onRerank: options?.onRerank,
+  });
 
   const [semanticMatches, textMatches] = await Promise.all([
     semanticPromise,
@@ -1092,8 +977,12 @@ export async function hybridSearch(
   });
 
   const maxTextRankDivisor = Math.max(textMatches.length, 1);
+  // Keyword hits skip the reranker, so drop out-of-range events here too
+  const temporalRange = parseTemporalExpression(query);
+
   textMatches.forEach((chunk, index) => {
     const metadata = asMetadata(chunk.metadata);
+    if (temporalRange && isStaleForRange(metadata, temporalRange)) return;
     const existing = merged.get(chunk.id);
     const textRank = (maxTextRankDivisor - index) / maxTextRankDivisor;
 
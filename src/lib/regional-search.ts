@@ -0,0 +1,169 @@
+/**
+ * src/lib/regional-search.ts — Regional multi-town search
+ *
+ * Opt-in mode for questions that cross town lines ("Needham vs Wellesley
+ * trash pickup", "does Newton have a dog park"). Runs the decomposed hybrid
+ * search for the home town and each of its regional neighbors in parallel,
+ * labels every result with the town it came from, and divides the result
+ * slots evenly so one well-indexed town can't crowd out the others.
+ */
+
+import { searchWithDecomposition } from "@/lib/decomposed-search";
+import type { QueryDecomposition } from "@/lib/query-decomposer";
+import type { HybridSearchResult } from "@/lib/rag";
+import { mergeRerankStats, type RerankStats } from "@/lib/rerankers";
+import { listTowns, type TownConfig } from "@/lib/towns";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RegionalTown {
+  townId: string;
+  /** Display name, e.g. "Needham, MA" */
+  townName: string;
+}
+
+export interface RegionalSearchResult {
+  results: HybridSearchResult[];
+  /** The towns searched, home town first */
+  towns: RegionalTown[];
+  decomposition: QueryDecomposition;
+  rerank?: RerankStats;
+}
+
+/** Cap on neighbors searched per request — each one is a full hybrid search */
+export const MAX_REGIONAL_TOWNS = 3;
+
+// ---------------------------------------------------------------------------
+// Neighbor resolution
+// ---------------------------------------------------------------------------
+
+/** "Wellesley, MA" → "wellesley" */
+function shortName(town: TownConfig): string {
+  return town.name.split(",")[0].trim().toLowerCase();
+}
+
+/**
+ * The other tenants searched with `home` in regional mode: its explicit
+ * regional_town_ids, or else every tenant named in its geography.neighbors.
+ */
+export function resolveRegionalTowns(home: TownConfig, towns: TownConfig[]): RegionalTown[] {
+  const others = towns.filter((town) => town.town_id !== home.town_id);
+
+  let neighbors: TownConfig[];
+  if (home.regional_town_ids) {
+    neighbors = home.regional_town_ids
+      .map((id) => others.find((town) => town.town_id === id))
+      .filter((town): town is TownConfig => Boolean(town));
+  } else {
+    const names = new Set(home.geography.neighbors.map((name) => name.toLowerCase()));
+    neighbors = others.filter(
+      (town) => names.has(shortName(town)) || town.geography.core_names.some((name) => names.has(name))
+    );
+  }
+
+  return neighbors
+    .slice(0, MAX_REGIONAL_TOWNS)
+    .map((town) => ({ townId: town.town_id, townName: town.name }));
+}
+
+/** Home town first, then its regional neighbors. Just the home town if it has none. */
+export async function getRegionalTowns(townId: string): Promise<RegionalTown[]> {
+  const towns = await listTowns();
+  const home = towns.find((town) => town.town_id === townId);
+  if (!home) return [{ townId, townName: townId }];
+  return [{ townId, townName: home.name }, ...resolveRegionalTowns(home, towns)];
+}
+
+// ---------------------------------------------------------------------------
+// Search
+// ---------------------------------------------------------------------------
+
+/**
+ * Split `limit` slots evenly across towns; the home town (first) takes any
+ * remainder. Every town gets at least one slot.
+ */
+export function allocateTownBudgets(townCount: number, limit: number): number[] {
+  if (townCount === 0) return [];
+  const base = Math.max(1, Math.floor(limit / townCount));
+  const budgets = Array.from({ length: townCount }, () => base);
+  budgets[0] += Math.max(0, limit - base * townCount);
+  return budgets;
+}
+
+/**
+ * Merge per-town result lists: each town fills its budget with its best
+ * results, unused slots go to the best leftovers, and source ids are
+ * renumbered S1..Sn so citations stay unique across towns.
+ */
+export function mergeTownResults(resultLists: HybridSearchResult[][], budgets: number[], limit: number): HybridSearchResult[] {
+  const selected = new Map<string, HybridSearchResult>();
+
+  resultLists.forEach((results, index) => {
+    for (const result of results.slice(0, budgets[index])) {
+      selected.set(result.id, result);
+    }
+  });
+  const leftovers = resultLists
+    .flat()
+    .filter((result) => !selected.has(result.id))
+    .sort((a, b) => b.score - a.score);
+  for (const result of leftovers) {
+    if (selected.size >= limit) break;
+    selected.set(result.id, result);
+  }
+
+  return Array.from(selected.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((result, index) => ({ ...result, source: { ...result.source, sourceId: `S${index + 1}` } }));
+}
+
+/**
+ * Search the home town and its regional neighbors, labeling every result's
+ * source with its town. One town failing leaves the others' results intact.
+ */
+export async function regionalSearch(
+  query: string,
+  options: {
+    townId: string;
+    limit: number;
+    decomposition: QueryDecomposition;
+    /** Towns to search, home first — defaults to getRegionalTowns(townId) */
+    towns?: RegionalTown[];
+  }
+): Promise<RegionalSearchResult> {
+  const { limit, decomposition } = options;
+  const towns = options.towns ?? (await getRegionalTowns(options.townId));
+  const budgets = allocateTownBudgets(towns.length, limit);
+  const rerankStats: RerankStats[] = [];
+
+  const resultLists = await Promise.all(
+    towns.map(async (town, index) => {
+      try {
+        const { results, rerank } = await searchWithDecomposition(query, {
+          townId: town.townId,
+          // Over-fetch so the leftover pass has something to fill empty slots with
+          limit: budgets[index] * 2,
+          decomposition,
+        });
+        if (rerank) rerankStats.push(rerank);
+        return results.map((result) => ({
+          ...result,
+          source: { ...result.source, townId: town.townId, townName: town.townName },
+        }));
+      } catch (err) {
+        console.warn(`[regional-search] Search failed for ${town.townId}:`, err instanceof Error ? err.message : err);
+        return [] as HybridSearchResult[];
+      }
+    })
+  );
+
+  return {
+    results: mergeTownResults(resultLists, budgets, limit),
+    towns,
+    decomposition,
+    rerank: mergeRerankStats(rerankStats),
+  };
+}
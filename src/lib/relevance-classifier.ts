@@ -1,46 +1,63 @@
 /**
  * Document relevance classification for tiered search.
  *
- * Classifies documents into tiers based on domain and URL patterns.
+ * Classifies documents into tiers based on domain and URL patterns. Each
+ * town has its own rules (relevance_tier_rules, loaded by tier-rules.ts):
+ * one tenant's primary domain is another's wrong-town content.
  * Used at ingestion time and for backfilling existing documents.
  */
 
 export type RelevanceTier =
-  | "primary"        // Needham-specific: needhamma.gov, needham.k12.ma.us
-  | "regional"       // Norfolk County, MBTA, neighboring town overlaps
-  | "state"          // mass.gov, statewide programs
+  | "primary"        // Town-specific: needhamma.gov, needham.k12.ma.us
+  | "regional"       // County, transit, neighboring town overlaps
+  | "state"          // mass.gov, federal agencies, statewide programs
   | "supplementary"  // Utilities, review sites, businesses
   | "archive"        // Archive Center pages, old meeting minutes
   | "irrelevant";    // Wrong town, junk
 
+export const RELEVANCE_TIERS: RelevanceTier[] = [
+  "primary", "regional", "state", "supplementary", "archive", "irrelevant",
+];
+
 // ---------------------------------------------------------------------------
-// Domain → tier mapping
+// Tier rules
 // ---------------------------------------------------------------------------
 
-const DOMAIN_TIER_MAP: Record<string, RelevanceTier> = {
-  // Primary — Needham-specific
-  "needhamma.gov": "primary",
-  "needham.k12.ma.us": "primary",
-  "needhamchannel.org": "primary",
-  "needhamhistory.org": "primary",
-  "needhamcommunityfarm.org": "primary",
-  "needhamba.com": "primary",
-  "needhamlibrary.org": "primary",
-  "needhamhousing.org": "primary",
-  "needhamcouncil.org": "primary",
-  "needhamopen.space.org": "primary",
-  "bidneedham.org": "primary",
-  "patch.com": "primary", // local news often Needham-specific
-  "wickedlocal.com": "primary",
-
-  // Regional — Norfolk County / transit
-  "norfolkcountyma.gov": "regional",
-  "mbta.com": "regional",
-  "ymcaboston.org": "regional",
-
-  // State — Massachusetts
-  "mass.gov": "state",
+export type TierRuleType = "domain" | "url_pattern" | "archive_pattern" | "query_pattern";
 
+export const TIER_RULE_TYPES: TierRuleType[] = [
+  "domain", "url_pattern", "archive_pattern", "query_pattern",
+];
+
+/**
+ * A per-town rule from the relevance_tier_rules table.
+ *
+ * - domain: hostname (subdomains included) → tier
+ * - url_pattern: case-insensitive regex tested against the full URL → tier
+ * - archive_pattern: regex marking a URL as "archive"
+ * - query_pattern: regex on a search query that adds `tier` to the search scope
+ */
+export interface TierRule {
+  id?: string;
+  rule_type: TierRuleType;
+  pattern: string;
+  tier: RelevanceTier;
+  note?: string | null;
+}
+
+/** A town's rules compiled for classification; build with compileTierRules */
+export interface TownTierRules {
+  townId: string;
+  domains: Map<string, RelevanceTier>;
+  urlPatterns: { pattern: RegExp; tier: RelevanceTier }[];
+  archivePatterns: RegExp[];
+  queryPatterns: { pattern: RegExp; tier: RelevanceTier }[];
+  /** Town names as they appear in hosts and paths ("needham", "west-hartford") */
+  townSlugs: string[];
+}
+
+// Domains with the same tier for every town. Town rules take precedence.
+const SHARED_DOMAIN_TIERS: Record<string, RelevanceTier> = {
   // Supplementary — utilities, review sites
   "eversource.com": "supplementary",
   "verizon.com": "supplementary",
@@ -50,33 +67,107 @@ const DOMAIN_TIER_MAP: Record<string, RelevanceTier> = {
   "bbb.org": "supplementary",
   "google.com": "irrelevant",
 
-  // Irrelevant — wrong towns
-  "wellesleyma.gov": "irrelevant",
-  "newtonma.gov": "irrelevant",
-  "dedham-ma.gov": "irrelevant",
-  "doverma.gov": "irrelevant",
-  "townhall.westwood.ma.us": "irrelevant",
-  "westwood.ma.us": "irrelevant",
+  // State — federal agencies apply wherever the town is
+  "usa.gov": "state",
+  "irs.gov": "state",
+  "ssa.gov": "state",
+  "fema.gov": "state",
+  "weather.gov": "state",
+  "census.gov": "state",
+  "epa.gov": "state",
+  "medicare.gov": "state",
 };
 
-// Domains containing "needham" are always primary
-function isNeedhamDomain(hostname: string): boolean {
-  return hostname.includes("needham");
-}
-
-// ---------------------------------------------------------------------------
-// Archive detection
-// ---------------------------------------------------------------------------
+// State government portals, by the town's state_abbrev
+const STATE_GOV_DOMAINS: Record<string, string[]> = {
+  MA: ["mass.gov"],
+  CT: ["ct.gov"],
+  RI: ["ri.gov"],
+  NH: ["nh.gov"],
+  VT: ["vermont.gov"],
+  ME: ["maine.gov"],
+  NY: ["ny.gov"],
+};
 
-const ARCHIVE_URL_PATTERNS = [
+// CivicPlus archive pages, common to most town sites
+const SHARED_ARCHIVE_PATTERNS = [
   /\/archive\.aspx?/i,       // archive.asp and archive.aspx
   /\/archivecenter/i,         // /archivecenter/ or /ArchiveCenter.aspx
   /\/archive\//i,             // /archive/ path segment
   /\barchive_id=/i,           // CivicPlus archive query param
 ];
 
-function isArchiveUrl(url: string): boolean {
-  return ARCHIVE_URL_PATTERNS.some((p) => p.test(url));
+/** Compile a rule's pattern, or null when the regex is invalid */
+export function compileRulePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, "i"); // nosemgrep: detect-non-literal-regexp -- admin-entered rule pattern
+  } catch {
+    return null;
+  }
+}
+
+/** Normalize a domain rule's pattern to a bare lowercase hostname */
+export function normalizeRuleDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^https?:\/\//, "").replace(/^www\./, "").replace(/\/.*$/, "");
+}
+
+/**
+ * Build a town's classification rules: shared defaults (including its
+ * state's government portal), then the town's geography profile (its own
+ * domains are primary), then its stored rules. Rules with invalid regexes
+ * are skipped.
+ */
+export function compileTierRules(
+  townId: string,
+  geography: { core_names: string[]; local_domains: string[]; state_abbrev?: string },
+  rules: TierRule[] = [],
+): TownTierRules {
+  const domains = new Map<string, RelevanceTier>(Object.entries(SHARED_DOMAIN_TIERS));
+  for (const domain of STATE_GOV_DOMAINS[geography.state_abbrev?.toUpperCase() ?? ""] ?? []) {
+    domains.set(domain, "state");
+  }
+  for (const domain of geography.local_domains) {
+    domains.set(normalizeRuleDomain(domain), "primary");
+  }
+
+  const compiled: TownTierRules = {
+    townId,
+    domains,
+    urlPatterns: [],
+    archivePatterns: [...SHARED_ARCHIVE_PATTERNS],
+    queryPatterns: [],
+    townSlugs: [...new Set(geography.core_names.flatMap((name) => {
+      const lower = name.toLowerCase();
+      return [lower.replaceAll(/\s+/g, ""), lower.replaceAll(/\s+/g, "-")];
+    }))],
+  };
+
+  for (const rule of rules) {
+    if (rule.rule_type === "domain") {
+      domains.set(normalizeRuleDomain(rule.pattern), rule.tier);
+      continue;
+    }
+    const pattern = compileRulePattern(rule.pattern);
+    if (!pattern) {
+      console.warn(`[relevance-classifier] Skipping invalid ${rule.rule_type} for ${townId}: ${rule.pattern}`);
+      continue;
+    }
+    if (rule.rule_type === "archive_pattern") compiled.archivePatterns.push(pattern);
+    else if (rule.rule_type === "url_pattern") compiled.urlPatterns.push({ pattern, tier: rule.tier });
+    else compiled.queryPatterns.push({ pattern, tier: rule.tier });
+  }
+
+  return compiled;
+}
+
+// Exact host first, then each parent domain ("townhall.westwood.ma.us" → "westwood.ma.us")
+function lookupDomainTier(hostname: string, domains: Map<string, RelevanceTier>): RelevanceTier | undefined {
+  const labels = hostname.split(".");
+  for (let i = 0; i < labels.length - 1; i++) {
+    const tier = domains.get(labels.slice(i).join("."));
+    if (tier) return tier;
+  }
+  return undefined;
 }
 
 // ---------------------------------------------------------------------------
@@ -84,9 +175,10 @@ function isArchiveUrl(url: string): boolean {
 // ---------------------------------------------------------------------------
 
 /**
- * Classify a document's relevance tier based on its URL and title.
+ * Classify a document's relevance tier from its URL and title, using the
+ * rules of the town it was ingested for.
  */
-export function classifyDocument(url: string, title?: string): RelevanceTier {
+export function classifyDocument(url: string, rules: TownTierRules, title?: string): RelevanceTier {
   let hostname: string;
   let pathname: string;
   try {
@@ -98,23 +190,24 @@ export function classifyDocument(url: string, title?: string): RelevanceTier {
   }
 
   // Archive pages — regardless of domain
-  if (isArchiveUrl(url) || (title && /archive center/i.test(title))) {
+  if (rules.archivePatterns.some((p) => p.test(url)) || (title && /archive center/i.test(title))) {
     return "archive";
   }
 
-  // Check explicit domain map
-  const domainTier = DOMAIN_TIER_MAP[hostname];
-  if (domainTier) {
-    return domainTier;
+  // Town URL patterns are the most specific rules
+  const urlRule = rules.urlPatterns.find((rule) => rule.pattern.test(url));
+  if (urlRule) {
+    return urlRule.tier;
   }
 
-  // Needham-related domains not in the map
-  if (isNeedhamDomain(hostname)) {
-    return "primary";
+  // Check explicit domain rules
+  const domainTier = lookupDomainTier(hostname, rules.domains);
+  if (domainTier) {
+    return domainTier;
   }
 
-  // Faith/community orgs with needham in URL path
-  if (pathname.includes("needham")) {
+  // Town-named domains not in the rules, and faith/community orgs with the town in the path
+  if (rules.townSlugs.some((slug) => hostname.includes(slug) || pathname.includes(slug))) {
     return "primary";
   }
 
@@ -131,6 +224,4 @@ export const EXPANDED_SEARCH_TIERS: RelevanceTier[] = ["primary", "regional", "s
 export const FALLBACK_SEARCH_TIERS: RelevanceTier[] = [
   "primary", "regional", "state", "supplementary",
 ];
-export const ALL_SEARCH_TIERS: RelevanceTier[] = [
-  "primary", "regional", "state", "supplementary", "archive", "irrelevant",
-];
+export const ALL_SEARCH_TIERS: RelevanceTier[] = RELEVANCE_TIERS;
@@ -0,0 +1,66 @@
+/**
+ * src/lib/rerankers/cohere.ts — Cohere Rerank v3.5 cross-encoder
+ *
+ * Scores every candidate with Cohere, then blends the cross-encoder score
+ * with the formula. Falls back to the formula alone if Cohere is not
+ * configured, errors, or times out.
+ */
+
+import type { RetrievedChunk } from "@/lib/rag";
+import { scoreChunks } from "./formula";
+import type { Reranker, RerankContext, RerankResult } from "./types";
+
+const COHERE_TIMEOUT_MS = 3000;
+
+// Lazy-loaded Cohere client — avoids importing the heavy cohere-ai package on cold start
+// unless a town actually uses the Cohere reranker
+let _cohereClient: import("cohere-ai").CohereClient | null | undefined;
+
+function getCohereClient(): import("cohere-ai").CohereClient | null {
+  if (_cohereClient !== undefined) return _cohereClient;
+  if (process.env.COHERE_API_KEY) {
+    const { CohereClient } = require("cohere-ai") as typeof import("cohere-ai");
+    _cohereClient = new CohereClient({ token: process.env.COHERE_API_KEY });
+  } else {
+    _cohereClient = null;
+  }
+  return _cohereClient;
+}
+
+export function createCohereReranker(): Reranker {
+  return {
+    kind: "cohere",
+
+    async rerank(chunks: RetrievedChunk[], context: RerankContext): Promise<RerankResult> {
+      const cohereClient = getCohereClient();
+      if (!cohereClient || chunks.length === 0) {
+        return { chunks: scoreChunks(chunks, context), applied: "formula" };
+      }
+
+      try {
+        // Cohere rerank API expects documents as strings
+        const response = await cohereClient.v2.rerank(
+          {
+            model: "rerank-v3.5",
+            query: context.query,
+            documents: chunks.map((chunk) => chunk.chunkText),
+            topN: chunks.length, // Return all documents with scores
+          },
+          { timeoutInSeconds: COHERE_TIMEOUT_MS / 1000 },
+        );
+
+        // Map Cohere results back to chunks with model scores
+        const withScores = response.results.map((result) => ({
+          ...chunks[result.index],
+          rerankerScore: result.relevanceScore,
+        }));
+
+        return { chunks: scoreChunks(withScores, context), applied: "cohere" };
+      } catch (error) {
+        // Graceful fallback: if Cohere fails or times out, use formula reranking
+        console.warn("[rerankers] Cohere reranking failed, using formula reranking:", error);
+        return { chunks: scoreChunks(chunks, context), applied: "formula" };
+      }
+    },
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * src/lib/rerankers/formula.ts — Hand-tuned multi-factor reranker
+ *
+ * The original reranking formula: semantic similarity, keyword overlap,
+ * recency, authority, source/department boost and locality. Model-based
+ * rerankers reuse scoreChunks() to blend their score with the formula.
+ */
+
+import { checkGeographicRelevance, getTownGeography } from "@/lib/geo-filter";
+import type { RetrievedChunk } from "@/lib/rag";
+import type { Reranker, RerankContext, RerankResult } from "./types";
+
+function metaString(metadata: Record<string, unknown>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = metadata[key];
+    if (typeof value === "string" && value.trim().length > 0) {
+      return value.trim();
+    }
+  }
+  return undefined;
+}
+
+// Reranking: score chunks by multiple factors
+// If config is provided, uses adjusted weights. Otherwise uses defaults.
+// If chunks have rerankerScore (Cohere / LLM judge), blends it with the formula score.
+export function scoreChunks(chunks: RetrievedChunk[], context: RerankContext): RetrievedChunk[] {
+  const { query, detectedDepartment, config } = context;
+  const geography = getTownGeography(context.townId);
+  const townNames = [...geography.core_names, ...geography.villages].map(name => name.toLowerCase());
+  const queryTerms = query.toLowerCase().split(/\s+/).filter(t => t.length >= 3);
+
+  // Use config weights if provided, otherwise use defaults
+  const recencyWeight = config?.recencyWeight ?? 0.1;
+  const authorityWeight = config?.authorityWeight ?? 0.1;
+  const sourceBoost = config?.sourceBoost ?? {};
+
+  const scored = chunks.map(chunk => {
+    const chunkLower = chunk.chunkText.toLowerCase();
+    const metadata = chunk.metadata;
+
+    // Check if this chunk has a model score (from Cohere or the LLM judge)
+    const hasRerankerScore = chunk.rerankerScore !== undefined;
+    const rerankerScore = chunk.rerankerScore ?? 0;
+
+    // Semantic similarity (0.6 weight)
+    const semanticScore = chunk.similarity * 0.6;
+
+    // Keyword overlap (0.2 weight)
+    const matchedTerms = queryTerms.filter(term => chunkLower.includes(term)).length;
+    const keywordScore = (matchedTerms / Math.max(queryTerms.length, 1)) * 0.2;
+
+    // Document recency (configurable weight)
+    let recencyScore = 0;
+    const docDate = metaString(metadata, ["document_date", "effective_date", "last_amended"]);
+    if (docDate) {
+      const year = parseInt(docDate.match(/\d{4}/)?.[0] ?? "0");
+      if (year >= 2024) recencyScore = recencyWeight;
+      else if (year >= 2020) recencyScore = recencyWeight * 0.7;
+      else if (year >= 2015) recencyScore = recencyWeight * 0.4;
+    }
+
+    // Document authority (configurable weight)
+    let authorityScore = 0;
+    const docType = metaString(metadata, ["document_type", "chunk_type"]);
+    if (docType === "regulation" || docType === "bylaw") authorityScore = authorityWeight;
+    else if (docType === "procedure" || docType === "meeting") authorityScore = authorityWeight * 0.7;
+    else authorityScore = authorityWeight * 0.5;
+
+    // Source boost (from config, replaces department boost)
+    let sourceBoostScore = 0;
+    const contentType = metaString(metadata, ["content_type"]);
+    if (contentType && sourceBoost[contentType as keyof typeof sourceBoost]) {
+      sourceBoostScore = sourceBoost[contentType as keyof typeof sourceBoost] ?? 0;
+    }
+    // Fallback to department boost if no source boost
+    if (sourceBoostScore === 0 && detectedDepartment) {
+      const chunkDept = metaString(metadata, ["department"]);
+      if (chunkDept && chunkDept.toLowerCase().includes(detectedDepartment.toLowerCase())) {
+        sourceBoostScore = 0.05;
+      }
+    }
+
+    // Locality boost (0.15 weight) — heavily reward local content, penalize distant
+    let localityScore = 0;
+    const docUrl = metaString(metadata, ["document_url", "url"]) ?? "";
+    const docTitle = metaString(metadata, ["document_title", "title"]) ?? "";
+    const category = metaString(metadata, ["category"]) ?? "";
+    const geoResult = checkGeographicRelevance(chunkLower, docTitle, docUrl, category, geography);
+
+    if (geoResult.isRelevant) {
+      // Bonus for content that explicitly mentions the town
+      if (townNames.some(name => chunkLower.includes(name))) {
+        localityScore = 0.15;
+      } else if (geoResult.detectedLocations.length > 0) {
+        localityScore = 0.1;
+      } else {
+        // No strong geo signals but not blocked — small positive
+        localityScore = 0.05;
+      }
+    } else {
+      // Content about distant locations — apply penalty
+      localityScore = -0.1;
+    }
+
+    // Formula score (6-factor formula with locality)
+    const formulaScore = semanticScore + keywordScore + recencyScore + authorityScore + sourceBoostScore + localityScore;
+
+    // Blend model score if available: 60% model, 30% formula, 10% source boost
+    const relevanceScore = hasRerankerScore
+      ? rerankerScore * 0.6 + formulaScore * 0.3 + sourceBoostScore * 0.1
+      : formulaScore;
+
+    return {
+      ...chunk,
+      relevanceScore,
+    };
+  });
+
+  // Sort by relevance score descending
+  scored.sort((a, b) => (b.relevanceScore ?? 0) - (a.relevanceScore ?? 0));
+
+  return scored;
+}
+
+export function createFormulaReranker(): Reranker {
+  return {
+    kind: "formula",
+    async rerank(chunks: RetrievedChunk[], context: RerankContext): Promise<RerankResult> {
+      return { chunks: scoreChunks(chunks, context), applied: "formula" };
+    },
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * src/lib/rerankers/index.ts — Public API for reranking
+ *
+ * Each town picks a reranker via towns.config.reranker:
+ *   - "formula" — hand-tuned multi-factor score (default)
+ *   - "cohere"  — Cohere Rerank v3.5 blended with the formula
+ *   - "llm"     — the town's chat model grades passages, blended with the formula
+ *   - "rrf"     — reciprocal rank fusion of semantic and full-text rankings
+ */
+
+import type { RetrievedChunk } from "@/lib/rag";
+import type { RerankerKind } from "@/lib/town-settings";
+import { createCohereReranker } from "./cohere";
+import { createFormulaReranker } from "./formula";
+import { createLlmJudgeReranker } from "./llm-judge";
+import { createRrfReranker } from "./rrf";
+import type { Reranker, RerankStats } from "./types";
+
+export type { Reranker, RerankContext, RerankResult, RerankStats, RerankerKind } from "./types";
+
+export { scoreChunks, createFormulaReranker } from "./formula";
+export { createCohereReranker } from "./cohere";
+export { createLlmJudgeReranker, parseJudgeScores } from "./llm-judge";
+export { createRrfReranker, reciprocalRankFusion, DEFAULT_RRF_K } from "./rrf";
+
+/**
+ * Build the reranker for a town's configured kind.
+ */
+export function getReranker(kind: RerankerKind, options: { chatModel: string }): Reranker {
+  switch (kind) {
+    case "cohere":
+      return createCohereReranker();
+    case "llm":
+      return createLlmJudgeReranker(options.chatModel);
+    case "rrf":
+      return createRrfReranker();
+    case "formula":
+    default:
+      return createFormulaReranker();
+  }
+}
+
+/**
+ * Compare the kept chunks against their pre-rerank (similarity) order.
+ */
+export function computeRerankStats(
+  candidates: RetrievedChunk[],
+  kept: RetrievedChunk[],
+  applied: RerankerKind,
+  latencyMs: number,
+): RerankStats {
+  const similarityOrder = [...candidates]
+    .sort((a, b) => b.similarity - a.similarity)
+    .map((c) => c.id);
+
+  let scoreDeltaSum = 0;
+  let rankShiftSum = 0;
+  kept.forEach((chunk, index) => {
+    scoreDeltaSum += (chunk.relevanceScore ?? chunk.similarity) - chunk.similarity;
+    const before = similarityOrder.indexOf(chunk.id);
+    rankShiftSum += Math.abs((before === -1 ? index : before) - index);
+  });
+
+  const count = Math.max(kept.length, 1);
+  return {
+    reranker: applied,
+    usedModel: applied === "cohere" || applied === "llm",
+    latencyMs,
+    scoreDelta: Number((scoreDeltaSum / count).toFixed(4)),
+    rankShift: Number((rankShiftSum / count).toFixed(2)),
+  };
+}
+
+/**
+ * Combine stats from several searches (e.g. decomposed sub-queries).
+ * Latency adds up; deltas are averaged.
+ */
+export function mergeRerankStats(stats: RerankStats[]): RerankStats | undefined {
+  if (stats.length === 0) return undefined;
+  const n = stats.length;
+  return {
+    reranker: stats[0].reranker,
+    usedModel: stats.some((s) => s.usedModel),
+    latencyMs: stats.reduce((sum, s) => sum + s.latencyMs, 0),
+    scoreDelta: Number((stats.reduce((sum, s) => sum + s.scoreDelta, 0) / n).toFixed(4)),
+    rankShift: Number((stats.reduce((sum, s) => sum + s.rankShift, 0) / n).toFixed(2)),
+  };
+}
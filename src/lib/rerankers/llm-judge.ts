@@ -0,0 +1,85 @@
+/**
+ * src/lib/rerankers/llm-judge.ts — LLM-as-judge reranker
+ *
+ * Asks the town's configured chat model to grade each candidate passage
+ * 0-10 for how well it answers the query, then blends the normalized grade
+ * with the formula score. Only the top candidates are sent to keep the
+ * prompt small; the rest keep their formula order below them.
+ */
+
+import { openai } from "@ai-sdk/openai";
+import { generateText } from "ai";
+import type { RetrievedChunk } from "@/lib/rag";
+import { scoreChunks } from "./formula";
+import type { Reranker, RerankContext, RerankResult } from "./types";
+
+const LLM_JUDGE_TIMEOUT_MS = 4000;
+const MAX_JUDGED_CHUNKS = 12;
+const PASSAGE_CHARS = 500;
+
+const JUDGE_SYSTEM_PROMPT = `You grade search results for a municipal information assistant.
+For each numbered passage, rate how directly it answers the resident's question:
+10 = answers it completely, 5 = related but incomplete, 0 = irrelevant.
+Respond with ONLY a JSON array of integers, one per passage, in passage order. Example: [8, 2, 0]`;
+
+/**
+ * Parse the judge's JSON array. Returns null unless it has exactly one
+ * numeric grade per passage.
+ */
+export function parseJudgeScores(text: string, expected: number): number[] | null {
+  const match = /\[[\d\s.,]*\]/.exec(text);
+  if (!match) return null;
+  try {
+    const parsed = JSON.parse(match[0]) as unknown[];
+    if (parsed.length !== expected || !parsed.every((v) => typeof v === "number")) {
+      return null;
+    }
+    return (parsed as number[]).map((v) => Math.min(Math.max(v, 0), 10) / 10);
+  } catch {
+    return null;
+  }
+}
+
+export function createLlmJudgeReranker(model: string): Reranker {
+  return {
+    kind: "llm",
+
+    async rerank(chunks: RetrievedChunk[], context: RerankContext): Promise<RerankResult> {
+      if (chunks.length === 0) {
+        return { chunks: [], applied: "formula" };
+      }
+
+      // Judge the formula's top candidates only
+      const preRanked = scoreChunks(chunks, context);
+      const judged = preRanked.slice(0, MAX_JUDGED_CHUNKS);
+      const rest = preRanked.slice(MAX_JUDGED_CHUNKS);
+
+      try {
+        const passages = judged
+          .map((chunk, i) => `[${i + 1}] ${chunk.chunkText.slice(0, PASSAGE_CHARS)}`)
+          .join("\n\n");
+
+        const { text } = await generateText({
+          model: openai(model),
+          system: JUDGE_SYSTEM_PROMPT,
+          prompt: `Question: "${context.query}"\n\nPassages:\n${passages}`,
+          abortSignal: AbortSignal.timeout(LLM_JUDGE_TIMEOUT_MS),
+        });
+
+        const scores = parseJudgeScores(text, judged.length);
+        if (!scores) {
+          throw new Error(`Unparseable judge output: ${text.slice(0, 120)}`);
+        }
+
+        const withScores = judged.map((chunk, i) => ({ ...chunk, rerankerScore: scores[i] }));
+        return {
+          chunks: [...scoreChunks(withScores, context), ...rest],
+          applied: "llm",
+        };
+      } catch (error) {
+        console.warn("[rerankers] LLM judge failed, using formula reranking:", error);
+        return { chunks: preRanked, applied: "formula" };
+      }
+    },
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * src/lib/rerankers/rrf.ts — Reciprocal rank fusion reranker
+ *
+ * Fuses two rankings of the same candidates: the semantic list (formula
+ * order, which is similarity plus locality/authority boosts) and the
+ * Postgres full-text ranking. score = Σ 1 / (k + rank) over the lists a
+ * chunk appears in. Rank-based, so it needs no score calibration between
+ * the vector and keyword engines.
+ *
+ * relevanceScore is the fused score divided by the best possible one (first
+ * in both lists), so it sits on the same 0..1 scale as similarity for the
+ * temporal boost and rerank telemetry downstream.
+ */
+
+import type { RetrievedChunk } from "@/lib/rag";
+import { scoreChunks } from "./formula";
+import type { Reranker, RerankContext, RerankResult } from "./types";
+
+/** Standard RRF damping constant (Cormack et al., 2009) */
+export const DEFAULT_RRF_K = 60;
+
+export function reciprocalRankFusion(rankings: string[][], k = DEFAULT_RRF_K): Map<string, number> {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (k + index + 1));
+    });
+  }
+  return scores;
+}
+
+export function createRrfReranker(k = DEFAULT_RRF_K): Reranker {
+  return {
+    kind: "rrf",
+    needsTextRanking: true,
+
+    async rerank(chunks: RetrievedChunk[], context: RerankContext): Promise<RerankResult> {
+      const semantic = scoreChunks(chunks, context);
+
+      // Without a text ranking there is nothing to fuse
+      if (!context.textRanking || context.textRanking.length === 0) {
+        return { chunks: semantic, applied: "formula" };
+      }
+
+      const rankings = [semantic.map((c) => c.id), context.textRanking];
+      const fused = reciprocalRankFusion(rankings, k);
+      const maxScore = rankings.length / (k + 1);
+
+      const ranked = semantic
+        .map((chunk) => ({ ...chunk, relevanceScore: (fused.get(chunk.id) ?? 0) / maxScore }))
+        .sort((a, b) => b.relevanceScore - a.relevanceScore);
+
+      return { chunks: ranked, applied: "rrf" };
+    },
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * src/lib/rerankers/types.ts — Core type definitions for reranking
+ *
+ * Every reranker (formula, Cohere, LLM-as-judge, reciprocal rank fusion)
+ * implements the Reranker interface. retrieveRelevantChunks runs the
+ * town's configured reranker over the merged vector-search candidates.
+ */
+
+import type { RetrievedChunk } from "@/lib/rag";
+import type { RetrievalConfig } from "@/lib/query-router";
+import type { RerankerKind } from "@/lib/town-settings";
+
+export type { RerankerKind };
+
+export interface RerankContext {
+  /** Query used for scoring (synonym + intent expanded) */
+  query: string;
+  /** Department detected from the query, for the formula's department boost */
+  detectedDepartment: string | null;
+  /** Per-intent weights from the query router */
+  config?: RetrievalConfig;
+  /** Chunk IDs from full-text search, best first (only used by RRF) */
+  textRanking?: string[];
+  /** Town being searched, whose geography profile drives the locality boost */
+  townId?: string;
+}
+
+export interface RerankResult {
+  /** Chunks sorted best-first, each with relevanceScore set */
+  chunks: RetrievedChunk[];
+  /** Which reranker actually produced the order ("formula" after a fallback) */
+  applied: RerankerKind;
+}
+
+export interface Reranker {
+  readonly kind: RerankerKind;
+  /** Set when the reranker needs context.textRanking */
+  readonly needsTextRanking?: boolean;
+  rerank(chunks: RetrievedChunk[], context: RerankContext): Promise<RerankResult>;
+}
+
+/** Per-query reranking metrics, logged to search_telemetry */
+export interface RerankStats {
+  reranker: RerankerKind;
+  usedModel: boolean;
+  latencyMs: number;
+  /** Mean (relevanceScore − similarity) over the kept chunks */
+  scoreDelta: number;
+  /** Mean absolute rank change of the kept chunks vs. similarity order */
+  rankShift: number;
+}
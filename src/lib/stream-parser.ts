@@ -1,4 +1,6 @@
 import type { MockSource } from "@/lib/mock-data";
+import type { SourceConflict } from "@/lib/conflict-detector";
+import type { GroundingReport } from "@/lib/grounding";
 import { stripInternalMetadata } from "@/lib/text-utils";
 
 /**
@@ -11,6 +13,10 @@ export interface StreamCallbacks {
   onSources?: (sources: MockSource[]) => void;
   /** Called when confidence data arrives */
   onConfidence?: (confidence: "high" | "medium" | "low") => void;
+  /** Called when retrieved sources disagree on a fact */
+  onConflicts?: (conflicts: SourceConflict[]) => void;
+  /** Called when the per-sentence grounding check arrives (after the text) */
+  onGrounding?: (grounding: GroundingReport) => void;
   /** Called when follow-up questions arrive */
   onFollowUps?: (followUps: string[]) => void;
   /** Called when the stream completes */
@@ -81,6 +87,10 @@ export async function parseStreamResponse(
                 })
               );
               callbacks.onSources?.(sources);
+            } else if (data.type === "data-conflicts") {
+              callbacks.onConflicts?.((data.data ?? []) as SourceConflict[]);
+            } else if (data.type === "data-grounding") {
+              callbacks.onGrounding?.(data.data as GroundingReport);
             } else if (data.type === "data-followups") {
               const followUps = (data.data ?? []) as string[];
               callbacks.onFollowUps?.(followUps);
@@ -2,23 +2,32 @@
  * Municipal synonym dictionary for query expansion.
  *
  * Two-tier structure:
- *   1. UNIVERSAL synonyms — apply to any municipality
- *   2. TOWN-SPECIFIC synonyms — keyed by town_id, swappable per tenant
+ *   1. UNIVERSAL synonyms — apply to any municipality, kept in code
+ *   2. TOWN-SPECIFIC synonyms — rows in town_synonyms, edited per town from
+ *      the admin Settings tab and cached for a short TTL
  *
  * Each entry maps a set of informal/colloquial triggers to a set of
  * formal/official expansion terms. When a user query matches any trigger,
  * ALL expansion terms are appended to the search.
  */
 
+import { openai } from "@ai-sdk/openai";
+import { generateText } from "ai";
+import { getSupabaseClient, getSupabaseServiceClient } from "@/lib/supabase";
+import { getTenantDb } from "@/lib/tenant-db";
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
 export type SynonymEntry = {
+  /** town_synonyms row id; absent for universal entries */
+  id?: string;
   /** Informal phrases residents might use (lowercased) */
   triggers: string[];
   /** Official/formal terms to expand into */
   expansions: string[];
+  note?: string | null;
 };
 
 export type SynonymDictionary = SynonymEntry[];
@@ -27,7 +36,7 @@ export type SynonymDictionary = SynonymEntry[];
 // Universal synonyms (any municipality)
 // ---------------------------------------------------------------------------
 
-const UNIVERSAL_SYNONYMS: SynonymDictionary = [
+export const UNIVERSAL_SYNONYMS: SynonymDictionary = [
   {
     triggers: ["dump", "garbage", "trash", "rubbish", "waste"],
     expansions: ["transfer station", "solid waste", "recycling center", "refuse disposal"],
@@ -186,95 +195,91 @@ const UNIVERSAL_SYNONYMS: SynonymDictionary = [
   },
 ];
 
+
 // ---------------------------------------------------------------------------
-// Town-specific synonyms (keyed by town_id)
+// Cached lookup
 // ---------------------------------------------------------------------------
 
-const TOWN_SYNONYMS: Record<string, SynonymDictionary> = {
-  needham: [
-    {
-      triggers: ["the dump", "rts"],
-      expansions: ["Needham Transfer Station", "recycling and transfer station"],
-    },
-    {
-      triggers: ["the rec", "rec center"],
-      expansions: ["Needham Recreation", "community center"],
-    },
-    {
-      triggers: ["defazio field", "memorial park"],
-      expansions: ["Needham parks", "DeFazio Park", "Memorial Park"],
-    },
-    {
-      triggers: ["the heights", "needham heights"],
-      expansions: ["Needham Heights", "village area"],
-    },
-    {
-      triggers: ["charles river"],
-      expansions: ["conservation areas", "trails", "Charles River"],
-    },
-    {
-      triggers: ["the greendale"],
-      expansions: ["Greendale Avenue"],
-    },
-    {
-      triggers: ["town meeting"],
-      expansions: ["Needham Town Meeting", "annual town meeting"],
-    },
-    {
-      triggers: ["override", "prop 2.5", "proposition 2 1/2"],
-      expansions: ["proposition 2½", "tax override", "override vote"],
-    },
-    {
-      triggers: ["sticker", "transfer station sticker"],
-      expansions: ["RTS sticker", "transfer station permit", "annual sticker"],
-    },
-    {
-      triggers: ["rosemary pool", "the pool"],
-      expansions: ["Rosemary Recreation Complex", "swimming pool", "aquatics"],
-    },
-    {
-      triggers: ["payt", "pay as you throw", "trash bags"],
-      expansions: ["Pay-As-You-Throw", "PAYT bags", "transfer station"],
-    },
-    {
-      triggers: ["high rock", "pollard"],
-      expansions: ["High Rock School", "Pollard Middle School", "middle school"],
-    },
-    {
-      triggers: ["broadmeadow", "eliot", "mitchell", "sunita williams", "newman"],
-      expansions: ["elementary school", "Needham Public Schools"],
-    },
-    {
-      triggers: ["katie king"],
-      expansions: ["Town Manager", "Select Board"],
-    },
-    {
-      triggers: ["dan walsh"],
-      expansions: ["Building Inspector", "Building Department"],
-    },
-    {
-      triggers: ["needham line", "commuter rail"],
-      expansions: ["MBTA Needham Line", "Needham Heights station", "Needham Junction station", "Needham Center station", "South Station"],
-    },
-  ],
-};
+const SYNONYM_COLUMNS = "id, triggers, expansions, note";
 
-// ---------------------------------------------------------------------------
-// Public API
-// ---------------------------------------------------------------------------
+const SYNONYMS_CACHE_TTL_MS = 60 * 1000;
+
+const synonymsCache = new Map<string, { entries: SynonymDictionary; timestamp: number }>();
+
+/**
+ * A town's own entries from town_synonyms. Never throws — returns none
+ * when Supabase is unreachable, leaving the universal synonyms.
+ */
+async function getTownSynonyms(townId: string): Promise<SynonymDictionary> {
+  const cached = synonymsCache.get(townId);
+  if (cached && Date.now() - cached.timestamp < SYNONYMS_CACHE_TTL_MS) {
+    return cached.entries;
+  }
+
+  let entries: SynonymDictionary;
+  try {
+    const supabase = getSupabaseClient({ townId });
+    const { data, error } = await supabase
+      .from("town_synonyms")
+      .select(SYNONYM_COLUMNS)
+      .eq("town_id", townId);
+    if (error) throw new Error(error.message);
+    entries = (data ?? []) as SynonymDictionary;
+  } catch (err) {
+    console.warn(`[synonyms] Using universal synonyms only for ${townId}:`, err instanceof Error ? err.message : err);
+    return [];
+  }
+
+  synonymsCache.set(townId, { entries, timestamp: Date.now() });
+  return entries;
+}
 
 /**
  * Get the combined synonym dictionary for a given town.
- * Returns universal synonyms merged with town-specific ones.
+ * Returns the town's own entries merged with the universal ones.
  */
-export function getSynonymDictionary(townId: string): SynonymDictionary {
-  const townSpecific = TOWN_SYNONYMS[townId] ?? [];
+export async function getSynonymDictionary(townId: string): Promise<SynonymDictionary> {
+  const townSpecific = await getTownSynonyms(townId);
   // Town-specific first so they take priority in matching
   return [...townSpecific, ...UNIVERSAL_SYNONYMS];
 }
 
+/** Drop cached entries (after an admin edit, and in tests). */
+export function clearSynonymCache(townId?: string): void {
+  if (townId) synonymsCache.delete(townId);
+  else synonymsCache.clear();
+}
+
+// ---------------------------------------------------------------------------
+// Expansion
+// ---------------------------------------------------------------------------
+
+function escapeRegExp(text: string): string {
+  return text.replaceAll(/[.*+?^${}()|[\]\\]/g, String.raw`\$&`);
+}
+
+function entryMatches(entry: SynonymEntry, lowerQuery: string): boolean {
+  return entry.triggers.some((trigger) => {
+    // Multi-word triggers use substring match (phrase matching)
+    if (trigger.includes(" ")) {
+      return lowerQuery.includes(trigger);
+    }
+    // Single-word triggers use word-boundary matching to avoid
+    // false positives like "tree" inside "street"
+    // nosemgrep: detect-non-literal-regexp -- trigger is escaped
+    const wordBoundary = new RegExp(`\\b${escapeRegExp(trigger)}\\b`, "i");
+    return wordBoundary.test(lowerQuery);
+  });
+}
+
+/** The dictionary entries a query triggers, in dictionary order */
+export function matchSynonymEntries(query: string, dictionary: SynonymDictionary): SynonymEntry[] {
+  const lowerQuery = query.toLowerCase();
+  return dictionary.filter((entry) => entryMatches(entry, lowerQuery));
+}
+
 /**
- * Expand a user query using the synonym dictionary.
+ * Expand a user query using a synonym dictionary (from getSynonymDictionary).
  *
  * Returns an object with:
  *   - `original`: the original query
@@ -285,34 +290,20 @@ export function getSynonymDictionary(townId: string): SynonymDictionary {
  */
 export function expandQuery(
   query: string,
-  townId: string
+  dictionary: SynonymDictionary = UNIVERSAL_SYNONYMS
 ): {
   original: string;
   expanded: string[];
   expandedQuery: string;
 } {
-  const dictionary = getSynonymDictionary(townId);
   const lowerQuery = query.toLowerCase();
   const matchedExpansions = new Set<string>();
 
-  for (const entry of dictionary) {
-    const triggered = entry.triggers.some((trigger) => {
-      // Multi-word triggers use substring match (phrase matching)
-      if (trigger.includes(" ")) {
-        return lowerQuery.includes(trigger);
-      }
-      // Single-word triggers use word-boundary matching to avoid
-      // false positives like "tree" inside "street"
-      // nosemgrep: detect-non-literal-regexp -- trigger values are hardcoded synonym strings
-      const wordBoundary = new RegExp(`\\b${trigger}\\b`, "i");
-      return wordBoundary.test(lowerQuery);
-    });
-    if (triggered) {
-      for (const expansion of entry.expansions) {
-        // Don't add if the original query already contains this term
-        if (!lowerQuery.includes(expansion.toLowerCase())) {
-          matchedExpansions.add(expansion);
-        }
+  for (const entry of matchSynonymEntries(query, dictionary)) {
+    for (const expansion of entry.expansions) {
+      // Don't add if the original query already contains this term
+      if (!lowerQuery.includes(expansion.toLowerCase())) {
+        matchedExpansions.add(expansion);
       }
     }
   }
@@ -327,3 +318,261 @@ export function expandQuery(
 
   return { original: query, expanded, expandedQuery };
 }
+
+// ---------------------------------------------------------------------------
+// Admin editing
+// ---------------------------------------------------------------------------
+
+const MAX_TERMS_PER_ENTRY = 20;
+const MAX_TERM_LENGTH = 80;
+
+/** Accepts an array of strings or one comma-separated string */
+function parseTermList(value: unknown): string[] | null {
+  const raw = typeof value === "string" ? value.split(",") : value;
+  if (!Array.isArray(raw) || !raw.every((term) => typeof term === "string")) return null;
+  return [...new Set(raw.map((term: string) => term.replaceAll(/\s+/g, " ").trim()).filter(Boolean))];
+}
+
+/**
+ * Validate an admin-submitted entry. Returns the normalized entry, or an
+ * error message. Triggers are lowercased; expansions keep their case.
+ */
+export function parseSynonymEntry(input: {
+  id?: unknown;
+  triggers?: unknown;
+  expansions?: unknown;
+  note?: unknown;
+}): SynonymEntry | string {
+  const triggers = parseTermList(input.triggers)?.map((term) => term.toLowerCase());
+  const expansions = parseTermList(input.expansions);
+  if (!triggers || triggers.length === 0) return "At least one trigger is required";
+  if (!expansions || expansions.length === 0) return "At least one expansion is required";
+  if (triggers.length > MAX_TERMS_PER_ENTRY || expansions.length > MAX_TERMS_PER_ENTRY) {
+    return `At most ${MAX_TERMS_PER_ENTRY} triggers and ${MAX_TERMS_PER_ENTRY} expansions per entry`;
+  }
+  if ([...triggers, ...expansions].some((term) => term.length > MAX_TERM_LENGTH)) {
+    return `Terms must be at most ${MAX_TERM_LENGTH} characters`;
+  }
+
+  const entry: SynonymEntry = {
+    triggers: [...new Set(triggers)],
+    expansions,
+    note: typeof input.note === "string" && input.note.trim() ? input.note.trim() : null,
+  };
+  if (typeof input.id === "string" && input.id.trim()) entry.id = input.id.trim();
+  return entry;
+}
+
+/** All of a town's stored entries, oldest first */
+export async function listTownSynonyms(townId: string): Promise<SynonymEntry[]> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("town_synonyms")
+    .select(SYNONYM_COLUMNS)
+    .eq("town_id", townId)
+    .order("created_at");
+
+  if (error) throw new Error(error.message);
+  return (data ?? []) as SynonymEntry[];
+}
+
+/**
+ * Create an entry, or update the one with the given id. Returns null when
+ * the id doesn't exist for the town.
+ */
+export async function saveTownSynonym(townId: string, entry: SynonymEntry): Promise<SynonymEntry | null> {
+  const supabase = getSupabaseServiceClient();
+  const fields = {
+    triggers: entry.triggers,
+    expansions: entry.expansions,
+    note: entry.note ?? null,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data, error } = entry.id
+    ? await supabase
+        .from("town_synonyms")
+        .update(fields)
+        .eq("town_id", townId)
+        .eq("id", entry.id)
+        .select(SYNONYM_COLUMNS)
+        .maybeSingle()
+    : await supabase
+        .from("town_synonyms")
+        .insert({ town_id: townId, ...fields })
+        .select(SYNONYM_COLUMNS)
+        .single();
+
+  if (error) throw new Error(error.message);
+  clearSynonymCache(townId);
+  return (data as SynonymEntry | null) ?? null;
+}
+
+/** Delete an entry. Returns false when it didn't exist for the town. */
+export async function deleteTownSynonym(townId: string, id: string): Promise<boolean> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("town_synonyms")
+    .delete()
+    .eq("town_id", townId)
+    .eq("id", id)
+    .select("id");
+
+  if (error) throw new Error(error.message);
+  clearSynonymCache(townId);
+  return (data ?? []).length > 0;
+}
+
+// ---------------------------------------------------------------------------
+// Suggestions from search telemetry
+// ---------------------------------------------------------------------------
+
+export interface SynonymCandidate {
+  /** Word or two-word phrase residents used */
+  trigger: string;
+  /** Distinct failing queries that contained it */
+  queryCount: number;
+  exampleQueries: string[];
+}
+
+export interface SynonymSuggestion extends SynonymCandidate {
+  /** Proposed official terms; empty when none could be proposed */
+  expansions: string[];
+}
+
+const SUGGESTION_LOOKBACK_DAYS = 30;
+const MIN_SUGGESTION_QUERIES = 2;
+const MAX_SUGGESTIONS = 10;
+const MAX_EXAMPLE_QUERIES = 3;
+const SUGGESTION_MODEL = "gpt-4.1-nano";
+
+const QUERY_STOPWORDS = new Set([
+  "what", "where", "when", "how", "who", "which", "why",
+  "are", "was", "were", "been", "the", "and", "for", "about", "with", "from",
+  "does", "did", "can", "could", "would", "should", "will",
+  "this", "that", "there", "here", "you", "your", "our", "have", "has",
+  "get", "need", "want", "any", "much", "many", "near", "open", "town",
+]);
+
+/** Words and adjacent-word phrases in a query, minus stopwords */
+function queryTerms(query: string): Set<string> {
+  const words = query
+    .toLowerCase()
+    .split(/[^a-z0-9']+/)
+    .map((word) => word.replaceAll("'", ""))
+    .filter((word) => word.length >= 3 && !QUERY_STOPWORDS.has(word));
+  const terms = new Set(words);
+  for (let i = 0; i < words.length - 1; i++) {
+    terms.add(`${words[i]} ${words[i + 1]}`);
+  }
+  return terms;
+}
+
+/**
+ * Terms that keep showing up in failing queries (no results or low
+ * confidence) but not in successful ones, and that the dictionary doesn't
+ * already expand. Two-word phrases win over the single words inside them.
+ */
+export function mineSynonymCandidates(
+  failingQueries: string[],
+  successfulQueries: string[],
+  dictionary: SynonymDictionary,
+): SynonymCandidate[] {
+  const uniqueFailing = [...new Set(failingQueries.map((q) => q.trim()).filter(Boolean))];
+  const failingCounts = new Map<string, string[]>();
+  for (const query of uniqueFailing) {
+    for (const term of queryTerms(query)) {
+      failingCounts.set(term, [...(failingCounts.get(term) ?? []), query]);
+    }
+  }
+
+  const successCounts = new Map<string, number>();
+  for (const query of new Set(successfulQueries)) {
+    for (const term of queryTerms(query)) {
+      successCounts.set(term, (successCounts.get(term) ?? 0) + 1);
+    }
+  }
+
+  const ranked = [...failingCounts.entries()]
+    .filter(([term, queries]) =>
+      queries.length >= MIN_SUGGESTION_QUERIES &&
+      (successCounts.get(term) ?? 0) < queries.length &&
+      matchSynonymEntries(term, dictionary).length === 0
+    )
+    .sort((a, b) => b[1].length - a[1].length || b[0].split(" ").length - a[0].split(" ").length);
+
+  const candidates: SynonymCandidate[] = [];
+  for (const [term, queries] of ranked) {
+    if (candidates.length >= MAX_SUGGESTIONS) break;
+    const coveredByPhrase = candidates.some(
+      (c) => c.trigger.includes(" ") && c.trigger.split(" ").includes(term) && c.queryCount >= queries.length
+    );
+    if (coveredByPhrase) continue;
+    candidates.push({
+      trigger: term,
+      queryCount: queries.length,
+      exampleQueries: queries.slice(0, MAX_EXAMPLE_QUERIES),
+    });
+  }
+  return candidates;
+}
+
+const SUGGESTION_SYSTEM_PROMPT = `You maintain a municipal search synonym dictionary. Residents searched using the terms below and the search found little or nothing. For each term, list up to 4 official terms a town government website would use for the same thing (department names, program names, formal phrases).
+
+Reply with JSON only, no prose: {"suggestions":[{"trigger":"<term>","expansions":["..."]}]}
+Use an empty expansions list when a term has no clear official equivalent.`;
+
+/** Ask a small model for expansions. Never throws — returns none on failure. */
+async function proposeExpansions(
+  candidates: SynonymCandidate[],
+  townName: string,
+): Promise<Map<string, string[]>> {
+  const proposals = new Map<string, string[]>();
+  if (candidates.length === 0 || !process.env.OPENAI_API_KEY) return proposals;
+
+  try {
+    const { text } = await generateText({
+      model: openai(SUGGESTION_MODEL),
+      system: SUGGESTION_SYSTEM_PROMPT,
+      prompt: `Town: ${townName}\n` + candidates
+        .map((c) => `- "${c.trigger}" (e.g. ${c.exampleQueries.map((q) => `"${q}"`).join(", ")})`)
+        .join("\n"),
+      temperature: 0,
+    });
+    const json = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+    const parsed = JSON.parse(json) as { suggestions?: { trigger?: unknown; expansions?: unknown }[] };
+    for (const suggestion of parsed.suggestions ?? []) {
+      const expansions = parseTermList(suggestion.expansions);
+      if (typeof suggestion.trigger === "string" && expansions) {
+        proposals.set(suggestion.trigger.toLowerCase(), expansions.slice(0, 4));
+      }
+    }
+  } catch (err) {
+    console.warn("[synonyms] Failed to propose expansions:", err instanceof Error ? err.message : err);
+  }
+  return proposals;
+}
+
+/**
+ * Suggest new trigger → expansion pairs from the town's recent zero-result
+ * and low-confidence searches in search_telemetry.
+ */
+export async function suggestSynonyms(townId: string, townName: string): Promise<SynonymSuggestion[]> {
+  const since = new Date(Date.now() - SUGGESTION_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const { data, error } = await getTenantDb(townId)
+    .select("search_telemetry", "query, result_count, confidence")
+    .gte("created_at", since.toISOString());
+
+  if (error) throw new Error(error.message);
+
+  const rows = (data ?? []) as { query: string; result_count: number | null; confidence: string | null }[];
+  const failing = rows.filter((r) => r.result_count === 0 || r.confidence === "low").map((r) => r.query);
+  const successful = rows.filter((r) => r.confidence === "high" && (r.result_count ?? 0) > 0).map((r) => r.query);
+
+  const candidates = mineSynonymCandidates(failing, successful, await getSynonymDictionary(townId));
+  const proposals = await proposeExpansions(candidates, townName);
+  return candidates.map((candidate) => ({
+    ...candidate,
+    expansions: proposals.get(candidate.trigger) ?? [],
+  }));
+}
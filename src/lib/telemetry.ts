@@ -5,7 +5,8 @@
  * RAG pipeline performance, query patterns, and retrieval quality.
  */
 
-import { getSupabaseServiceClient } from "@/lib/supabase";
+import type { FlagAssignments } from "@/lib/feature-flags";
+import { getTenantDb } from "@/lib/tenant-db";
 
 export interface SearchTelemetry {
   query: string;
@@ -18,10 +19,15 @@ export interface SearchTelemetry {
   avgSimilarity?: number;
   usedReranker?: boolean;
   rerankerLatencyMs?: number | null;
+  reranker?: string;
+  rerankScoreDelta?: number;
+  rerankRankShift?: number;
   totalLatencyMs: number;
   hadAiAnswer?: boolean;
   confidence?: "high" | "medium" | "low";
   town?: string;
+  /** Rollout variants this session was served (see feature-flags.ts) */
+  flagAssignments?: FlagAssignments;
 }
 
 /**
@@ -33,8 +39,6 @@ export async function logSearchTelemetry(data: SearchTelemetry): Promise<void> {
     // Sample at 10% to reduce write IO on Supabase free tier
     if (Math.random() > 0.1) return;
 
-    const supabase = getSupabaseServiceClient();
-
     // Compute confidence level from similarity scores
     let confidence: "high" | "medium" | "low" = "low";
     if (data.topSimilarity) {
@@ -42,7 +46,7 @@ export async function logSearchTelemetry(data: SearchTelemetry): Promise<void> {
       else if (data.topSimilarity >= 0.55) confidence = "medium";
     }
 
-    await supabase.from("search_telemetry").insert({
+    await getTenantDb(data.town ?? "needham").insert("search_telemetry", {
       query: data.query,
       was_decomposed: data.wasDecomposed ?? false,
       sub_query_count: data.subQueryCount ?? 1,
@@ -53,10 +57,16 @@ export async function logSearchTelemetry(data: SearchTelemetry): Promise<void> {
       avg_similarity: data.avgSimilarity ?? null,
       used_reranker: data.usedReranker ?? false,
       reranker_latency_ms: data.rerankerLatencyMs ?? null,
+      reranker: data.reranker ?? null,
+      rerank_score_delta: data.rerankScoreDelta ?? null,
+      rerank_rank_shift: data.rerankRankShift ?? null,
       total_latency_ms: data.totalLatencyMs,
       had_ai_answer: data.hadAiAnswer ?? false,
       confidence: data.confidence ?? confidence,
-      town: data.town ?? "needham",
+      flag_assignments:
+        data.flagAssignments && Object.keys(data.flagAssignments).length > 0
+          ? data.flagAssignments
+          : null,
     });
   } catch (error) {
     // Non-critical — log error but don't throw
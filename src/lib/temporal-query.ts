@@ -0,0 +1,234 @@
+/**
+ * src/lib/temporal-query.ts — Date-aware retrieval
+ *
+ * Turns relative time expressions in a question into a concrete Eastern
+ * date range, then uses it to rerank retrieved chunks:
+ *   "next Select Board meeting"   → upcoming: today … +90 days
+ *   "what's happening this weekend" → Saturday 00:00 … Monday 00:00
+ *   "before the tax deadline"     → upcoming: today … +1 year
+ *
+ * Dated chunks inside the range get a boost. Events and meetings dated
+ * outside it are dropped, so last year's meeting schedule stops answering
+ * "when is the next meeting". Undated chunks are left alone.
+ */
+
+import { easternMidnight, getEasternDateParts } from "@/lib/timezone";
+import type { RetrievedChunk } from "@/lib/rag";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * - upcoming: open-ended "next …" / deadline questions
+ * - window:   a specific span ("this weekend", "next week", "in 2025")
+ * - past:     looking back ("last week", "yesterday")
+ */
+export type TemporalDirection = "upcoming" | "window" | "past";
+
+export interface TemporalRange {
+  /** Inclusive start instant */
+  start: Date;
+  /** Exclusive end instant */
+  end: Date;
+  direction: TemporalDirection;
+  /** The expression that produced the range, e.g. "this weekend" */
+  label: string;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+const UPCOMING_HORIZON_DAYS = 90;
+const DEADLINE_HORIZON_DAYS = 365;
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+/**
+ * Parse the first relative time expression in a query into an Eastern
+ * date range. Returns null when the query has no time component.
+ */
+export function parseTemporalExpression(query: string, now: Date = new Date()): TemporalRange | null {
+  const q = query.toLowerCase();
+  const { year, month, day, weekday } = getEasternDateParts(now);
+
+  // Calendar-day helper relative to today (Eastern)
+  const dayStart = (offset: number) => easternMidnight(year, month, day + offset);
+  const range = (start: Date, end: Date, direction: TemporalDirection, label: string): TemporalRange => ({
+    start, end, direction, label,
+  });
+
+  // Days until the coming Monday (weeks run Monday-Sunday)
+  const daysToMonday = ((8 - weekday) % 7) || 7;
+
+  if (/\b(today|tonight|this (morning|afternoon|evening))\b/.test(q)) {
+    return range(dayStart(0), dayStart(1), "window", "today");
+  }
+  if (/\btomorrow\b/.test(q)) {
+    return range(dayStart(1), dayStart(2), "window", "tomorrow");
+  }
+  if (/\byesterday\b/.test(q)) {
+    return range(dayStart(-1), dayStart(0), "past", "yesterday");
+  }
+
+  const weekendMatch = /\b(this|next) weekend\b/.exec(q);
+  if (weekendMatch) {
+    // On Saturday/Sunday "this weekend" is the one in progress
+    const daysToSaturday = weekday === 0 ? -1 : 6 - weekday;
+    const offset = daysToSaturday + (weekendMatch[1] === "next" ? 7 : 0);
+    const start = weekendMatch[1] === "this" && weekday === 0 ? dayStart(0) : dayStart(offset);
+    return range(start, dayStart(offset + 2), "window", `${weekendMatch[1]} weekend`);
+  }
+
+  if (/\bthis week\b/.test(q)) {
+    return range(dayStart(0), dayStart(daysToMonday), "window", "this week");
+  }
+  if (/\bnext week\b/.test(q)) {
+    return range(dayStart(daysToMonday), dayStart(daysToMonday + 7), "window", "next week");
+  }
+  if (/\blast week\b/.test(q)) {
+    return range(dayStart(daysToMonday - 14), dayStart(daysToMonday - 7), "past", "last week");
+  }
+
+  if (/\bthis month\b/.test(q)) {
+    return range(dayStart(0), easternMidnight(year, month + 1, 1), "window", "this month");
+  }
+  if (/\bnext month\b/.test(q)) {
+    return range(easternMidnight(year, month + 1, 1), easternMidnight(year, month + 2, 1), "window", "next month");
+  }
+  if (/\blast month\b/.test(q)) {
+    return range(easternMidnight(year, month - 1, 1), easternMidnight(year, month, 1), "past", "last month");
+  }
+
+  // "this friday" / "next tuesday" — the next occurrence (today counts for "this")
+  const weekdayMatch = new RegExp(`\\b(this|next) (${WEEKDAYS.join("|")})\\b`).exec(q);
+  if (weekdayMatch) {
+    const target = WEEKDAYS.indexOf(weekdayMatch[2]);
+    let offset = (target - weekday + 7) % 7;
+    if (offset === 0 && weekdayMatch[1] === "next") offset = 7;
+    return range(dayStart(offset), dayStart(offset + 1), "window", weekdayMatch[0]);
+  }
+
+  if (/\blast year\b/.test(q)) {
+    return range(easternMidnight(year - 1, 1, 1), easternMidnight(year, 1, 1), "past", "last year");
+  }
+  if (/\bthis year\b/.test(q)) {
+    return range(easternMidnight(year, 1, 1), easternMidnight(year + 1, 1, 1), "window", "this year");
+  }
+  const yearMatch = /\b(?:in|for|during) (20\d{2})\b/.exec(q);
+  if (yearMatch) {
+    const target = parseInt(yearMatch[1], 10);
+    return range(
+      easternMidnight(target, 1, 1),
+      easternMidnight(target + 1, 1, 1),
+      target < year ? "past" : "window",
+      yearMatch[1],
+    );
+  }
+
+  if (/\b(deadlines?|due dates?|due by|last day to|expires?|expiration)\b/.test(q)) {
+    return range(dayStart(0), dayStart(DEADLINE_HORIZON_DAYS), "upcoming", "deadline");
+  }
+
+  if (/\b(next|upcoming|coming up|soon)\b/.test(q)) {
+    return range(dayStart(0), dayStart(UPCOMING_HORIZON_DAYS), "upcoming", "upcoming");
+  }
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Chunk dates
+// ---------------------------------------------------------------------------
+
+// When an event or meeting happens
+const EVENT_DATE_KEYS = ["event_start", "event_date", "meeting_date"];
+// When a document was written or took effect
+const DOCUMENT_DATE_KEYS = ["document_date", "effective_date", "published_at", "last_amended"];
+
+const EVENT_DOC_TYPES = new Set(["meeting", "agenda", "minutes", "event"]);
+
+// Date-only values mean that Eastern calendar day, not UTC midnight
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function parseMetaDate(value: unknown): Date | null {
+  if (typeof value !== "string" || !value.trim()) return null;
+  const dateOnly = DATE_ONLY.exec(value.trim());
+  const parsed = dateOnly
+    ? easternMidnight(Number(dateOnly[1]), Number(dateOnly[2]), Number(dateOnly[3]))
+    : new Date(value.trim());
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/**
+ * Find the date a chunk is "about". Events and meetings use their
+ * scheduled date; everything else its document date.
+ */
+export function getChunkDate(metadata: Record<string, unknown>): { date: Date; isEvent: boolean } | null {
+  for (const key of EVENT_DATE_KEYS) {
+    const date = parseMetaDate(metadata[key]);
+    if (date) return { date, isEvent: true };
+  }
+
+  const docType = [metadata.document_type, metadata.chunk_type]
+    .find((v): v is string => typeof v === "string")
+    ?.toLowerCase();
+  const isEvent = docType !== undefined && EVENT_DOC_TYPES.has(docType);
+
+  for (const key of DOCUMENT_DATE_KEYS) {
+    const date = parseMetaDate(metadata[key]);
+    if (date) return { date, isEvent };
+  }
+  return null;
+}
+
+function inRange(date: Date, range: TemporalRange): boolean {
+  return date >= range.start && date < range.end;
+}
+
+/**
+ * True for an event or meeting scheduled outside the range — the kind of
+ * result that answers "when is the next meeting" with last year's date.
+ */
+export function isStaleForRange(metadata: Record<string, unknown>, range: TemporalRange): boolean {
+  const dated = getChunkDate(metadata);
+  return dated !== null && dated.isEvent && !inRange(dated.date, range);
+}
+
+// ---------------------------------------------------------------------------
+// Reranking
+// ---------------------------------------------------------------------------
+
+const IN_RANGE_BOOST = 0.15;
+const STALE_PENALTY = 0.2;
+
+/**
+ * Boost chunks dated inside the range and drop events/meetings dated
+ * outside it. If that would drop everything, the stale chunks are kept
+ * (penalized) so the model can still say when it last happened.
+ */
+export function applyTemporalRange(chunks: RetrievedChunk[], range: TemporalRange): RetrievedChunk[] {
+  const kept: RetrievedChunk[] = [];
+  const stale: RetrievedChunk[] = [];
+
+  for (const chunk of chunks) {
+    const score = chunk.relevanceScore ?? chunk.similarity;
+    const dated = getChunkDate(chunk.metadata);
+
+    if (!dated) {
+      kept.push(chunk);
+    } else if (inRange(dated.date, range)) {
+      kept.push({ ...chunk, relevanceScore: score + IN_RANGE_BOOST });
+    } else if (dated.isEvent) {
+      stale.push({ ...chunk, relevanceScore: score - STALE_PENALTY });
+    } else {
+      kept.push(chunk);
+    }
+  }
+
+  const result = kept.length > 0 ? kept : stale;
+  return result.sort(
+    (a, b) => (b.relevanceScore ?? b.similarity) - (a.relevanceScore ?? a.similarity),
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * src/lib/tenant-db.ts — Tenant-scoped data access
+ *
+ * Server code mostly talks to Supabase through the service client, which
+ * bypasses the town-scoped RLS policies, so tenant isolation on the shared
+ * tables depends on every query remembering its town filter. Queries on
+ * those tables go through a TenantDb instead: it is bound to one town, adds
+ * the town filter to every select/update/delete, and stamps (or rejects)
+ * the town column on every insert/upsert.
+ *
+ * __tests__/lib/tenant-db.test.ts audits src/ for direct .from() calls on
+ * these tables. The few deliberate cross-town queries (retention sweeps,
+ * cross-town admin views) carry a `tenant-scope: cross-town` comment.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getSupabaseClient, getSupabaseServiceClient } from "@/lib/supabase";
+
+/** Tenant tables and the column holding their town id */
+export const TENANT_TABLES = {
+  documents: "town_id",
+  document_chunks: "town_id",
+  content_items: "town_id",
+  articles: "town",
+  cached_answers: "town_id",
+  search_telemetry: "town",
+} as const;
+
+export type TenantTable = keyof typeof TENANT_TABLES;
+
+type QueryBuilder = ReturnType<SupabaseClient["from"]>;
+type SelectOptions = Parameters<QueryBuilder["select"]>[1];
+type InsertOptions = Parameters<QueryBuilder["insert"]>[1];
+type UpsertOptions = Parameters<QueryBuilder["upsert"]>[1];
+type UpdateOptions = Parameters<QueryBuilder["update"]>[1];
+type DeleteOptions = Parameters<QueryBuilder["delete"]>[0];
+type Row = Record<string, unknown>;
+
+export type TenantDbOptions = {
+  /** Query through the anon client, so the town-scoped RLS policies apply as well */
+  rls?: boolean;
+  /** Explicit client (scripts, tests); defaults to the service client */
+  client?: SupabaseClient;
+};
+
+export type TenantDb = ReturnType<typeof getTenantDb>;
+
+/**
+ * Bind the tenant tables to one town. Every query the returned object
+ * builds is filtered (or stamped) with that town; callers keep chaining
+ * the usual filters, ordering and modifiers onto the result.
+ */
+export function getTenantDb(townId: string, options: TenantDbOptions = {}) {
+  const scopedTownId = townId?.trim();
+  if (!scopedTownId) {
+    throw new Error("Tenant-scoped queries require a townId");
+  }
+
+  const client = options.client
+    ?? (options.rls ? getSupabaseClient({ townId: scopedTownId }) : getSupabaseServiceClient());
+
+  /** Fill in the town column, refusing rows that name another town. */
+  const stampRow = (table: TenantTable, row: object): Row => {
+    const column = TENANT_TABLES[table];
+    const rowTown = (row as Row)[column];
+    if (rowTown !== undefined && rowTown !== scopedTownId) {
+      throw new Error(
+        `Refusing to write a ${String(rowTown)} row to ${table} through the ${scopedTownId} tenant scope`
+      );
+    }
+    return { ...row, [column]: scopedTownId };
+  };
+
+  const stampRows = (table: TenantTable, rows: object | object[]) =>
+    Array.isArray(rows) ? rows.map((row) => stampRow(table, row)) : stampRow(table, rows);
+
+  return {
+    townId: scopedTownId,
+
+    /** Rows are Record<string, unknown> unless the caller names their shape. */
+    select<R = Row>(table: TenantTable, columns = "*", selectOptions?: SelectOptions) {
+      return client
+        .from(table)
+        .select<string, R>(columns, selectOptions)
+        .eq(TENANT_TABLES[table], scopedTownId);
+    },
+
+    insert(table: TenantTable, rows: object | object[], insertOptions?: InsertOptions) {
+      return client.from(table).insert(stampRows(table, rows), insertOptions);
+    },
+
+    upsert(table: TenantTable, rows: object | object[], upsertOptions?: UpsertOptions) {
+      return client.from(table).upsert(stampRows(table, rows), upsertOptions);
+    },
+
+    /** Updates may not move rows to another town. */
+    update(table: TenantTable, values: object, updateOptions?: UpdateOptions) {
+      const column = TENANT_TABLES[table];
+      if (column in values && (values as Row)[column] !== scopedTownId) {
+        throw new Error(`Refusing to move ${table} rows out of the ${scopedTownId} tenant scope`);
+      }
+      return client.from(table).update(values, updateOptions).eq(column, scopedTownId);
+    },
+
+    delete(table: TenantTable, deleteOptions?: DeleteOptions) {
+      return client.from(table).delete(deleteOptions).eq(TENANT_TABLES[table], scopedTownId);
+    },
+  };
+}
@@ -0,0 +1,167 @@
+/**
+ * src/lib/tier-rules.ts — Per-town relevance tier rules
+ *
+ * Loads a town's rows from relevance_tier_rules and compiles them (with the
+ * town's geography profile) into the rules classifyDocument and
+ * getSearchTiers use. Admins edit the rows from the Sources tab. Reads are
+ * cached per town for a short TTL, like town settings.
+ */
+
+import { getSupabaseClient, getSupabaseServiceClient } from "@/lib/supabase";
+import { getTownById, getTownByIdOrDefault } from "@/lib/towns";
+import {
+  compileRulePattern,
+  compileTierRules,
+  normalizeRuleDomain,
+  RELEVANCE_TIERS,
+  TIER_RULE_TYPES,
+  type RelevanceTier,
+  type TierRule,
+  type TierRuleType,
+  type TownTierRules,
+} from "@/lib/relevance-classifier";
+
+const RULE_COLUMNS = "id, rule_type, pattern, tier, note";
+
+// ---------------------------------------------------------------------------
+// Cached lookup
+// ---------------------------------------------------------------------------
+
+const RULES_CACHE_TTL_MS = 60 * 1000;
+
+const rulesCache = new Map<string, { rules: TownTierRules; timestamp: number }>();
+
+async function compileForTown(townId: string, rules: TierRule[]): Promise<TownTierRules> {
+  const town = (await getTownById(townId)) ?? getTownByIdOrDefault(townId);
+  return compileTierRules(townId, town.geography, rules);
+}
+
+/**
+ * Load a town's compiled tier rules. Never throws — falls back to the shared
+ * defaults plus the town's geography when Supabase is unreachable.
+ */
+export async function getTierRules(townId: string): Promise<TownTierRules> {
+  const cached = rulesCache.get(townId);
+  if (cached && Date.now() - cached.timestamp < RULES_CACHE_TTL_MS) {
+    return cached.rules;
+  }
+
+  let rules: TownTierRules;
+  try {
+    const supabase = getSupabaseClient({ townId });
+    const { data, error } = await supabase
+      .from("relevance_tier_rules")
+      .select(RULE_COLUMNS)
+      .eq("town_id", townId);
+    if (error) throw new Error(error.message);
+    rules = await compileForTown(townId, (data ?? []) as TierRule[]);
+  } catch (err) {
+    console.warn(`[tier-rules] Using default rules for ${townId}:`, err instanceof Error ? err.message : err);
+    return compileForTown(townId, []);
+  }
+
+  rulesCache.set(townId, { rules, timestamp: Date.now() });
+  return rules;
+}
+
+/** Drop cached rules (after an admin edit, and in tests). */
+export function clearTierRulesCache(townId?: string): void {
+  if (townId) rulesCache.delete(townId);
+  else rulesCache.clear();
+}
+
+// ---------------------------------------------------------------------------
+// Admin editing
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate an admin-submitted rule. Returns the normalized rule, or an
+ * error message.
+ */
+export function parseTierRule(input: {
+  rule_type?: unknown;
+  pattern?: unknown;
+  tier?: unknown;
+  note?: unknown;
+}): TierRule | string {
+  const ruleType = input.rule_type as TierRuleType;
+  if (!TIER_RULE_TYPES.includes(ruleType)) {
+    return `rule_type must be one of: ${TIER_RULE_TYPES.join(", ")}`;
+  }
+
+  const rawPattern = typeof input.pattern === "string" ? input.pattern.trim() : "";
+  if (!rawPattern) return "pattern is required";
+
+  let pattern = rawPattern;
+  if (ruleType === "domain") {
+    pattern = normalizeRuleDomain(rawPattern);
+    const labels = pattern.split(".");
+    if (labels.length < 2 || !labels.every((label) => /^[a-z0-9-]+$/.test(label))) {
+      return `Invalid domain: ${rawPattern}`;
+    }
+  } else if (!compileRulePattern(pattern)) {
+    return `Invalid regular expression: ${rawPattern}`;
+  }
+
+  // Archive patterns always classify as archive
+  const tier = ruleType === "archive_pattern" ? "archive" : (input.tier as RelevanceTier);
+  if (!RELEVANCE_TIERS.includes(tier)) {
+    return `tier must be one of: ${RELEVANCE_TIERS.join(", ")}`;
+  }
+
+  const note = typeof input.note === "string" && input.note.trim() ? input.note.trim() : null;
+  return { rule_type: ruleType, pattern, tier, note };
+}
+
+/** All of a town's stored rules, sorted by type and pattern */
+export async function listTierRules(townId: string): Promise<TierRule[]> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("relevance_tier_rules")
+    .select(RULE_COLUMNS)
+    .eq("town_id", townId)
+    .order("rule_type")
+    .order("pattern");
+
+  if (error) throw new Error(error.message);
+  return (data ?? []) as TierRule[];
+}
+
+/** Create or update a rule (one per town, type and pattern) */
+export async function saveTierRule(townId: string, rule: TierRule): Promise<TierRule> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("relevance_tier_rules")
+    .upsert(
+      {
+        town_id: townId,
+        rule_type: rule.rule_type,
+        pattern: rule.pattern,
+        tier: rule.tier,
+        note: rule.note ?? null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "town_id,rule_type,pattern" },
+    )
+    .select(RULE_COLUMNS)
+    .single();
+
+  if (error) throw new Error(error.message);
+  clearTierRulesCache(townId);
+  return data as TierRule;
+}
+
+/** Delete a rule. Returns false when it didn't exist for the town. */
+export async function deleteTierRule(townId: string, id: string): Promise<boolean> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("relevance_tier_rules")
+    .delete()
+    .eq("town_id", townId)
+    .eq("id", id)
+    .select("id");
+
+  if (error) throw new Error(error.message);
+  clearTierRulesCache(townId);
+  return (data ?? []).length > 0;
+}
@@ -36,3 +36,115 @@ export function formatEasternTime(isoStr: string | null | undefined): string {
     minute: "2-digit",
   });
 }
+
+export interface EasternDateParts {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  /** 0 = Sunday … 6 = Saturday */
+  weekday: number;
+}
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6,
+};
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      weekday: "short",
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function readZonedParts(date: Date, timeZone: string): Record<string, string> {
+  const parts: Record<string, string> = {};
+  for (const part of getPartsFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return parts;
+}
+
+function readEasternParts(date: Date): Record<string, string> {
+  return readZonedParts(date, EASTERN_TZ);
+}
+
+/**
+ * Get the Eastern calendar date of an instant. A server running in UTC
+ * would otherwise roll over to "tomorrow" at 7-8 PM local time.
+ */
+export function getEasternDateParts(date: Date = new Date()): EasternDateParts {
+  const parts = readEasternParts(date);
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    weekday: WEEKDAY_INDEX[parts.weekday] ?? 0,
+  };
+}
+
+/** Whether Intl knows an IANA time zone name (e.g. "America/Chicago"). */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getPartsFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** What a wall clock in `timeZone` reads at `instant`, minus `instant` */
+function zoneOffsetMs(instant: number, timeZone: string): number {
+  const parts = readZonedParts(new Date(instant), timeZone);
+  const wallClock = Date.UTC(
+    parseInt(parts.year, 10),
+    parseInt(parts.month, 10) - 1,
+    parseInt(parts.day, 10),
+    parseInt(parts.hour, 10),
+    parseInt(parts.minute, 10),
+    parseInt(parts.second, 10),
+  );
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * The instant a wall clock in `timeZone` shows the given local time. Month
+ * is 1-12; out-of-range fields roll over like Date.UTC. Ambiguous fall-back
+ * times resolve to the first (daylight) instant.
+ */
+export function zonedDateTime(
+  timeZone: string,
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+  second = 0,
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  const guess = wallClock - zoneOffsetMs(wallClock, timeZone);
+  // The offset at the guess differs from the one at wallClock only near a DST change
+  return new Date(wallClock - zoneOffsetMs(guess, timeZone));
+}
+
+/**
+ * The instant of midnight Eastern on a calendar date. Month is 1-12;
+ * out-of-range days roll over like Date.UTC (day 32 of January → Feb 1).
+ */
+export function easternMidnight(year: number, month: number, day: number): Date {
+  return zonedDateTime(EASTERN_TZ, year, month, day);
+}
@@ -0,0 +1,65 @@
+/**
+ * src/lib/town-host.ts — Host-based town resolution
+ *
+ * Each town can run on its own domain (TownConfig.hostnames) from one
+ * deployment. The proxy (src/proxy.ts) resolves the town from the Host
+ * header, rewrites root paths like /chat to /<town>/chat, and passes the
+ * town to API routes in the x-town-id request header. These helpers are
+ * free of server-only imports so client components can build town URLs too.
+ */
+
+import { DEFAULT_TOWN_ID } from "../../config/towns";
+import type { TownConfig } from "@/lib/towns";
+
+/** Request header the proxy sets to the town resolved from the Host header */
+export const TOWN_HEADER = "x-town-id";
+
+/** Shared domain for towns without their own hostnames, served at /<town_id> */
+export const DEFAULT_SITE_HOST = "needhamnavigator.com";
+export const DEFAULT_SITE_ORIGIN = `https://${DEFAULT_SITE_HOST}`;
+
+/** "WWW.Example.com:3000." → "www.example.com" */
+export function normalizeHost(host: string | null | undefined): string {
+  return (host ?? "").trim().toLowerCase().replace(/:\d+$/, "").replace(/\.$/, "");
+}
+
+/** The town whose hostnames include `host`, if any. */
+export function findTownIdForHost(host: string | null | undefined, towns: TownConfig[]): string | null {
+  const normalized = normalizeHost(host);
+  if (!normalized) return null;
+  const town = towns.find((t) => t.hostnames?.some((h) => normalizeHost(h) === normalized));
+  return town?.town_id ?? null;
+}
+
+/** Whether the town has a domain of its own (so its pages live at the root). */
+export function hasOwnHost(town: TownConfig): boolean {
+  return Boolean(town.hostnames?.length);
+}
+
+/** The town's canonical hostname — its first configured one, or the shared site. */
+export function townHost(town: TownConfig): string {
+  return town.hostnames?.[0] ? normalizeHost(town.hostnames[0]) : DEFAULT_SITE_HOST;
+}
+
+export function townOrigin(town: TownConfig): string {
+  return `https://${townHost(town)}`;
+}
+
+/**
+ * Absolute URL of a town page: https://wellesleynavigator.com/chat for a town
+ * with its own domain, https://needhamnavigator.com/wellesley/chat otherwise.
+ */
+export function townUrl(town: TownConfig, path = ""): string {
+  const normalizedPath = path ? (path.startsWith("/") ? path : `/${path}`) : "";
+  return hasOwnHost(town)
+    ? `${townOrigin(town)}${normalizedPath}`
+    : `${townOrigin(town)}/${town.town_id}${normalizedPath}`;
+}
+
+/**
+ * Town for an API request: the explicit town param when given, else the
+ * town the proxy resolved from the Host header, else DEFAULT_TOWN_ID.
+ */
+export function getRequestTownId(request: Request, explicit?: string | null): string {
+  return explicit?.trim() || request.headers.get(TOWN_HEADER)?.trim() || DEFAULT_TOWN_ID;
+}
@@ -0,0 +1,499 @@
+/**
+ * src/lib/town-onboarding.ts — Add a town without a redeploy
+ *
+ * Validates a TownConfig submitted from the admin dashboard (filling in
+ * defaults suited to a brand-new town), discovers the town website's
+ * sitemap and its RSS/Atom and iCal feeds, and writes the towns row plus
+ * starter source_configs. The admin route then runs the new connectors
+ * once as the town's first crawl.
+ */
+
+import * as cheerio from "cheerio";
+import { parsePromptProfile } from "@/lib/prompt-profile";
+import { getSupabaseServiceClient } from "@/lib/supabase";
+import { clearTownCache, type TownConfig } from "@/lib/towns";
+import type {
+  TownBrandColors,
+  TownDepartment,
+  TownFeatureFlags,
+  TownGeography,
+} from "../../config/towns";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface DiscoveredFeed {
+  url: string;
+  title: string;
+}
+
+export interface SourceDiscovery {
+  sitemapUrls: string[];
+  feeds: DiscoveredFeed[];
+  calendars: DiscoveredFeed[];
+  /** Fetch failures; discovery keeps going past them */
+  errors: string[];
+}
+
+/** A source_configs row as inserted */
+export interface SourceConfigRow {
+  id: string;
+  town_id: string;
+  connector_type: "rss" | "ical" | "scrape";
+  category: string;
+  schedule: string;
+  config: Record<string, unknown>;
+  enabled: boolean;
+  should_embed: boolean;
+}
+
+export interface OnboardingResult {
+  town: TownConfig;
+  sources: SourceConfigRow[];
+  discovery: SourceDiscovery;
+}
+
+// ---------------------------------------------------------------------------
+// Config validation
+// ---------------------------------------------------------------------------
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/** Applied when a new town doesn't set a flag: features that need no town-specific data */
+const NEW_TOWN_FEATURE_FLAGS: TownFeatureFlags = {
+  enableZoningMap: false,
+  enablePermitWizard: false,
+  enableMultiLanguage: true,
+  enableDashboard: false,
+  enableNews: true,
+  enableAbout: true,
+  enableEvents: true,
+  enableDining: false,
+  enableSafety: false,
+  enableTransit: false,
+  enableWeather: true,
+  uiMode: "search",
+  enableAnswerCache: true,
+};
+
+/** Neutral colors for everything but the town's primary and accent */
+const NEW_TOWN_BASE_COLORS: Omit<
+  TownBrandColors,
+  "primary" | "primary_dark" | "primary_light" | "accent" | "accent_light"
+> = {
+  background: "#FFFFFF",
+  surface: "#F7F8FA",
+  text_primary: "#1A1A1A",
+  text_secondary: "#5A6070",
+  text_muted: "#9CA3AF",
+  border: "#E2E5EB",
+  border_light: "#EFF1F5",
+  success: "#059669",
+  warning: "#D97706",
+};
+
+/** Mix a hex color toward black (amount < 0) or white (amount > 0) */
+function shade(hex: string, amount: number): string {
+  const target = amount < 0 ? 0 : 255;
+  const channels = [1, 3, 5].map((i) => {
+    const value = Number.parseInt(hex.slice(i, i + 2), 16);
+    return Math.round(value + (target - value) * Math.abs(amount));
+  });
+  return `#${channels.map((c) => c.toString(16).padStart(2, "0")).join("")}`.toUpperCase();
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function stringList(value: unknown, field: string): string[] | string {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || !value.every((item) => typeof item === "string")) {
+    return `${field} must be an array of strings`;
+  }
+  return value.map((item: string) => item.trim().toLowerCase()).filter(Boolean);
+}
+
+function hostOf(url: string): string {
+  return new URL(url).hostname.replace(/^www\./, "").toLowerCase();
+}
+
+function parseBrandColors(value: unknown): TownBrandColors | string {
+  const input = isRecord(value) ? value : {};
+  for (const [key, color] of Object.entries(input)) {
+    if (typeof color !== "string" || !HEX_COLOR.test(color)) {
+      return `brand_colors.${key} must be a #RRGGBB color`;
+    }
+  }
+  // Unset shades are derived from the primary and accent colors
+  const primary = (input.primary as string | undefined) ?? "#1F4E79";
+  const accent = (input.accent as string | undefined) ?? "#D4AF37";
+  const colors: TownBrandColors = {
+    primary,
+    primary_dark: shade(primary, -0.3),
+    primary_light: shade(primary, 0.2),
+    accent,
+    accent_light: shade(accent, 0.6),
+    ...NEW_TOWN_BASE_COLORS,
+  };
+  for (const key of Object.keys(input)) {
+    if (!(key in colors)) return `Unknown brand color: ${key}`;
+  }
+  return { ...colors, ...(input as Partial<TownBrandColors>) };
+}
+
+function parseFeatureFlags(value: unknown, hasTransitRoute: boolean): TownFeatureFlags | string {
+  const input = isRecord(value) ? value : {};
+  const flags: TownFeatureFlags = { ...NEW_TOWN_FEATURE_FLAGS, enableTransit: hasTransitRoute };
+  for (const [key, flag] of Object.entries(input)) {
+    if (!(key in flags)) return `Unknown feature flag: ${key}`;
+    if (key === "uiMode") {
+      if (flag !== "classic" && flag !== "search") return "feature_flags.uiMode must be classic or search";
+    } else if (typeof flag !== "boolean") {
+      return `feature_flags.${key} must be true or false`;
+    }
+  }
+  return { ...flags, ...(input as Partial<TownFeatureFlags>) };
+}
+
+function parseDepartments(value: unknown): TownDepartment[] | string {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return "departments must be an array";
+  const departments: TownDepartment[] = [];
+  for (const [i, item] of value.entries()) {
+    const name = isRecord(item) ? optionalString(item.name) : undefined;
+    const phone = isRecord(item) ? optionalString(item.phone) : undefined;
+    const question = isRecord(item) ? optionalString(item.question) : undefined;
+    if (!name || !phone || !question) {
+      return `departments[${i}] needs a name, phone and question`;
+    }
+    const department: TownDepartment = { name, phone, question };
+    for (const key of ["icon", "email", "address"] as const) {
+      const extra = optionalString((item as Record<string, unknown>)[key]);
+      if (extra) department[key] = extra;
+    }
+    departments.push(department);
+  }
+  return departments;
+}
+
+function parseGeography(
+  value: unknown,
+  shortName: string,
+  websiteHost: string,
+): TownGeography | string {
+  const input = isRecord(value) ? value : {};
+  const state = optionalString(input.state)?.toLowerCase();
+  const stateAbbrev = optionalString(input.state_abbrev)?.toUpperCase();
+  if (!state) return "geography.state is required";
+  if (!stateAbbrev || !/^[A-Z]{2}$/.test(stateAbbrev)) {
+    return "geography.state_abbrev must be a two-letter state code";
+  }
+
+  const lists: Record<"core_names" | "villages" | "neighbors" | "metro" | "local_domains", string[]> = {
+    core_names: [],
+    villages: [],
+    neighbors: [],
+    metro: [],
+    local_domains: [],
+  };
+  for (const key of Object.keys(lists) as (keyof typeof lists)[]) {
+    const list = stringList(input[key], `geography.${key}`);
+    if (typeof list === "string") return list;
+    lists[key] = list;
+  }
+
+  return {
+    ...lists,
+    core_names: lists.core_names.length > 0 ? lists.core_names : [shortName.toLowerCase()],
+    local_domains: lists.local_domains.length > 0 ? lists.local_domains : [websiteHost],
+    county: optionalString(input.county)?.toLowerCase() ?? "",
+    state,
+    state_abbrev: stateAbbrev,
+  };
+}
+
+/**
+ * Validate a submitted town config. Returns the complete TownConfig with
+ * defaults filled in, or an error message.
+ */
+export function parseTownConfig(input: unknown): TownConfig | string {
+  if (!isRecord(input)) return "Town config must be an object";
+
+  const townId = optionalString(input.town_id)?.toLowerCase();
+  if (!townId || !/^[a-z0-9-]{2,40}$/.test(townId) || townId.startsWith("-") || townId.endsWith("-")) {
+    return "town_id must be 2-40 lowercase letters, digits or hyphens";
+  }
+
+  const name = optionalString(input.name);
+  if (!name) return "name is required";
+  const shortName = name.split(",")[0].trim();
+
+  const websiteUrl = optionalString(input.website_url);
+  let websiteHost: string;
+  try {
+    if (!websiteUrl || !/^https?:\/\//i.test(websiteUrl)) throw new Error("not http");
+    websiteHost = hostOf(websiteUrl);
+  } catch {
+    return "website_url must be an http(s) URL";
+  }
+
+  const location = isRecord(input.location) ? input.location : {};
+  const { lat, lng } = location;
+  if (typeof lat !== "number" || typeof lng !== "number" || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return "location needs numeric lat (-90..90) and lng (-180..180)";
+  }
+
+  const brandColors = parseBrandColors(input.brand_colors);
+  if (typeof brandColors === "string") return brandColors;
+
+  const transitRoute = optionalString(input.transit_route);
+  const featureFlags = parseFeatureFlags(input.feature_flags, Boolean(transitRoute));
+  if (typeof featureFlags === "string") return featureFlags;
+
+  const departments = parseDepartments(input.departments);
+  if (typeof departments === "string") return departments;
+
+  const geography = parseGeography(input.geography, shortName, websiteHost);
+  if (typeof geography === "string") return geography;
+
+  if (input.cron_enabled !== undefined && typeof input.cron_enabled !== "boolean") {
+    return "cron_enabled must be true or false";
+  }
+
+  const funFacts = input.fun_facts === undefined ? [] : input.fun_facts;
+  if (!Array.isArray(funFacts) || !funFacts.every((fact) => typeof fact === "string")) {
+    return "fun_facts must be an array of strings";
+  }
+
+  const hostnames = input.hostnames === undefined ? [] : input.hostnames;
+  if (!Array.isArray(hostnames) ||
+      !hostnames.every((host) => typeof host === "string" && /^[a-z0-9.-]+\.[a-z]{2,}$/i.test(host.trim()))) {
+    return "hostnames must be an array of domain names, e.g. wellesleynavigator.com";
+  }
+
+  const regionalTownIds = input.regional_town_ids;
+  if (regionalTownIds !== undefined &&
+      (!Array.isArray(regionalTownIds) || !regionalTownIds.every((id) => typeof id === "string"))) {
+    return "regional_town_ids must be an array of town ids";
+  }
+
+  const promptProfile = input.prompt_profile === undefined ? undefined : parsePromptProfile(input.prompt_profile);
+  if (typeof promptProfile === "string") return promptProfile;
+
+  const config: TownConfig = {
+    town_id: townId,
+    name,
+    website_url: websiteUrl,
+    brand_colors: brandColors,
+    vector_namespace: optionalString(input.vector_namespace) ?? `${townId}-docs-v1`,
+    departments,
+    feature_flags: featureFlags,
+    location: { lat, lng },
+    geography,
+    cron_enabled: input.cron_enabled ?? true,
+    app_name: optionalString(input.app_name) ?? `${shortName} Navigator`,
+    app_tagline: optionalString(input.app_tagline) ?? "Your AI Town Guide",
+    assistant_name: optionalString(input.assistant_name) ?? `${shortName} AI`,
+  };
+  if (hostnames.length > 0) config.hostnames = hostnames.map((host: string) => host.trim().toLowerCase());
+  if (transitRoute) config.transit_route = transitRoute;
+  if (funFacts.length > 0) config.fun_facts = funFacts;
+  if (regionalTownIds) config.regional_town_ids = regionalTownIds.map((id: string) => id.trim().toLowerCase());
+  if (promptProfile) config.prompt_profile = promptProfile;
+  return config;
+}
+
+// ---------------------------------------------------------------------------
+// Source discovery
+// ---------------------------------------------------------------------------
+
+const MAX_DISCOVERED_FEEDS = 5;
+const DISCOVERY_TIMEOUT_MS = 15_000;
+
+const FEED_LINK_TYPES = new Set(["application/rss+xml", "application/atom+xml"]);
+// CivicPlus rss.aspx / RSSFeed.aspx, WordPress /feed/, plain .rss and /rss
+const FEED_HREF = /(?:rss(?:feed)?\.aspx|\/feed\/?$|\.rss$|\/rss\/?$)/i;
+// .ics files, CivicPlus iCalendar.aspx, The Events Calendar ?ical=1
+const CALENDAR_HREF = /(?:\.ics$|icalendar\.aspx|[?&]ical=1)/i;
+
+type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+async function fetchText(fetchImpl: FetchLike, url: string): Promise<string | null> {
+  const response = await fetchImpl(url, {
+    headers: { "User-Agent": "CommunityNavigator/1.0" },
+    signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS),
+  });
+  return response.ok ? response.text() : null;
+}
+
+function addFeed(list: DiscoveredFeed[], url: string, title: string): void {
+  if (list.length < MAX_DISCOVERED_FEEDS && !list.some((feed) => feed.url === url)) {
+    list.push({ url, title: title.replace(/\s+/g, " ").trim() });
+  }
+}
+
+/** Resolve an href against the page; webcal: links become https:. Null for anything else non-http. */
+function resolveHref(href: string, baseUrl: string): string | null {
+  try {
+    const url = new URL(href.replace(/^webcal:/i, "https:"), baseUrl);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find a town website's sitemaps (from robots.txt, else /sitemap.xml) and
+ * the RSS/Atom and iCal feeds its home page advertises or links to. Never
+ * throws — failures are collected in `errors`.
+ */
+export async function discoverSources(
+  websiteUrl: string,
+  fetchImpl: FetchLike = fetch,
+): Promise<SourceDiscovery> {
+  const discovery: SourceDiscovery = { sitemapUrls: [], feeds: [], calendars: [], errors: [] };
+  const origin = new URL(websiteUrl).origin;
+
+  try {
+    const robots = await fetchText(fetchImpl, `${origin}/robots.txt`);
+    for (const match of (robots ?? "").matchAll(/^\s*sitemap:\s*(\S+)/gim)) {
+      const url = resolveHref(match[1], origin);
+      if (url && !discovery.sitemapUrls.includes(url)) discovery.sitemapUrls.push(url);
+    }
+    if (discovery.sitemapUrls.length === 0) {
+      const sitemap = await fetchText(fetchImpl, `${origin}/sitemap.xml`);
+      if (sitemap && /<(?:urlset|sitemapindex)\b/i.test(sitemap)) {
+        discovery.sitemapUrls.push(`${origin}/sitemap.xml`);
+      }
+    }
+  } catch (err) {
+    discovery.errors.push(`sitemap: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  try {
+    const html = await fetchText(fetchImpl, websiteUrl);
+    if (html === null) throw new Error(`home page returned an error for ${websiteUrl}`);
+    const $ = cheerio.load(html);
+
+    $('link[rel="alternate"]').each((_, el) => {
+      const type = $(el).attr("type")?.toLowerCase() ?? "";
+      const url = resolveHref($(el).attr("href") ?? "", websiteUrl);
+      if (url && FEED_LINK_TYPES.has(type)) addFeed(discovery.feeds, url, $(el).attr("title") ?? "");
+    });
+
+    $("a[href]").each((_, el) => {
+      const href = $(el).attr("href") ?? "";
+      const url = resolveHref(href, websiteUrl);
+      if (!url) return;
+      const path = url.split("#")[0];
+      if (/^webcal:/i.test(href) || CALENDAR_HREF.test(path)) {
+        addFeed(discovery.calendars, url, $(el).text());
+      } else if (FEED_HREF.test(path)) {
+        addFeed(discovery.feeds, url, $(el).text());
+      }
+    });
+  } catch (err) {
+    discovery.errors.push(`feeds: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  return discovery;
+}
+
+/**
+ * Starter connectors for a new town: a scrape of its website (driven by the
+ * sitemap when one was found) plus one connector per discovered feed.
+ */
+export function buildSourceConfigs(town: TownConfig, discovery: SourceDiscovery): SourceConfigRow[] {
+  const host = hostOf(town.website_url).replaceAll(".", String.raw`\.`);
+  const rows: SourceConfigRow[] = [
+    {
+      id: `${town.town_id}:website`,
+      town_id: town.town_id,
+      connector_type: "scrape",
+      category: "government",
+      schedule: "daily",
+      config: {
+        url: town.website_url,
+        sourceName: town.name,
+        articleUrlPattern: String.raw`^https?://(www\.)?` + host + "/",
+        maxPages: 25,
+        ...(discovery.sitemapUrls[0] ? { sitemapUrl: discovery.sitemapUrls[0] } : {}),
+      },
+      enabled: true,
+      should_embed: true,
+    },
+  ];
+
+  discovery.feeds.forEach((feed, i) => {
+    rows.push({
+      id: `${town.town_id}:rss-${i + 1}`,
+      town_id: town.town_id,
+      connector_type: "rss",
+      category: "news",
+      schedule: "daily",
+      config: { feedUrl: feed.url, sourceName: feed.title || town.name },
+      enabled: true,
+      should_embed: true,
+    });
+  });
+
+  discovery.calendars.forEach((calendar, i) => {
+    rows.push({
+      id: `${town.town_id}:ical-${i + 1}`,
+      town_id: town.town_id,
+      connector_type: "ical",
+      category: "events",
+      schedule: "daily",
+      config: { feedUrl: calendar.url, sourceName: calendar.title || town.name, daysAhead: 90 },
+      enabled: true,
+      should_embed: true,
+    });
+  });
+
+  return rows;
+}
+
+// ---------------------------------------------------------------------------
+// Onboarding
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the towns row for a validated config and seed its source_configs.
+ * Throws when the town already exists or a write fails.
+ */
+export async function onboardTown(
+  town: TownConfig,
+  fetchImpl: FetchLike = fetch,
+): Promise<OnboardingResult> {
+  const supabase = getSupabaseServiceClient();
+
+  const { error: townError } = await supabase.from("towns").insert({
+    id: town.town_id,
+    name: town.name,
+    website_url: town.website_url,
+    brand_colors: town.brand_colors,
+    town_config: town,
+  });
+  if (townError) {
+    throw new Error(
+      townError.code === "23505" ? `Town "${town.town_id}" already exists` : townError.message,
+    );
+  }
+  clearTownCache();
+
+  const discovery = await discoverSources(town.website_url, fetchImpl);
+  const sources = buildSourceConfigs(town, discovery);
+  const { error: sourcesError } = await supabase
+    .from("source_configs")
+    .upsert(sources, { onConflict: "id" });
+  if (sourcesError) {
+    throw new Error(`Town created, but seeding source_configs failed: ${sourcesError.message}`);
+  }
+
+  return { town, sources, discovery };
+}
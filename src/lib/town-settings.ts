@@ -0,0 +1,114 @@
+/**
+ * src/lib/town-settings.ts — Runtime settings from the towns.config JSON column
+ *
+ * Admins change these from the Settings tab without a redeploy (chat model,
+ * reranker, semantic cache cutoff, ...). Reads are cached per town for a short TTL so hot paths
+ * like retrieval don't hit Supabase on every query.
+ */
+
+import { getSupabaseClient } from "@/lib/supabase";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RerankerKind = "formula" | "cohere" | "llm" | "rrf";
+
+export interface TownSettings {
+  chatModel: string;
+  reranker: RerankerKind;
+  /** Minimum query-embedding similarity for a semantic answer-cache hit */
+  semanticCacheThreshold: number;
+  /** The raw towns.config JSON, for settings not modeled here yet */
+  raw: Record<string, unknown>;
+}
+
+export const DEFAULT_CHAT_MODEL = "gpt-5-nano";
+export const ALLOWED_CHAT_MODELS = new Set([
+  "gpt-5-nano", "gpt-5-mini", "gpt-4o-mini", "gpt-4.1-mini",
+]);
+
+export const RERANKER_KINDS: RerankerKind[] = ["formula", "cohere", "llm", "rrf"];
+
+export const DEFAULT_SEMANTIC_CACHE_THRESHOLD = 0.92;
+/** Allowed range for semantic_cache_threshold; 1 effectively turns the semantic tier off */
+export const SEMANTIC_CACHE_THRESHOLD_RANGE = { min: 0.8, max: 1 } as const;
+
+/**
+ * Default reranker when a town hasn't picked one. Preserves the legacy
+ * USE_CROSS_ENCODER_RERANK switch.
+ */
+export function getDefaultReranker(): RerankerKind {
+  return process.env.COHERE_API_KEY && process.env.USE_CROSS_ENCODER_RERANK === "true"
+    ? "cohere"
+    : "formula";
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+export function parseTownSettings(config: Record<string, unknown> | null | undefined): TownSettings {
+  const raw = config ?? {};
+
+  const chatModel =
+    typeof raw.chat_model === "string" && ALLOWED_CHAT_MODELS.has(raw.chat_model)
+      ? raw.chat_model
+      : DEFAULT_CHAT_MODEL;
+
+  const reranker =
+    typeof raw.reranker === "string" && (RERANKER_KINDS as string[]).includes(raw.reranker)
+      ? (raw.reranker as RerankerKind)
+      : getDefaultReranker();
+
+  const threshold = raw.semantic_cache_threshold;
+  const semanticCacheThreshold =
+    typeof threshold === "number" &&
+    threshold >= SEMANTIC_CACHE_THRESHOLD_RANGE.min &&
+    threshold <= SEMANTIC_CACHE_THRESHOLD_RANGE.max
+      ? threshold
+      : DEFAULT_SEMANTIC_CACHE_THRESHOLD;
+
+  return { chatModel, reranker, semanticCacheThreshold, raw };
+}
+
+// ---------------------------------------------------------------------------
+// Cached lookup
+// ---------------------------------------------------------------------------
+
+const SETTINGS_CACHE_TTL_MS = 60 * 1000;
+
+const settingsCache = new Map<string, { settings: TownSettings; timestamp: number }>();
+
+/**
+ * Load a town's runtime settings. Never throws — falls back to defaults
+ * when the towns row is missing or Supabase is unreachable.
+ */
+export async function getTownSettings(townId: string): Promise<TownSettings> {
+  const cached = settingsCache.get(townId);
+  if (cached && Date.now() - cached.timestamp < SETTINGS_CACHE_TTL_MS) {
+    return cached.settings;
+  }
+
+  let settings: TownSettings;
+  try {
+    const supabase = getSupabaseClient({ townId });
+    const { data } = await supabase
+      .from("towns")
+      .select("config")
+      .eq("id", townId)
+      .single();
+    settings = parseTownSettings(data?.config as Record<string, unknown> | undefined);
+  } catch {
+    return parseTownSettings(undefined);
+  }
+
+  settingsCache.set(townId, { settings, timestamp: Date.now() });
+  return settings;
+}
+
+/** Drop cached settings (after an admin update, and in tests). */
+export function clearTownSettingsCache(townId?: string): void {
+  if (townId) settingsCache.delete(townId);
+  else settingsCache.clear();
+}
@@ -2,25 +2,102 @@ import {
   DEFAULT_TOWN_ID as DEFAULT_TOWN_ID_FROM_CONFIG,
   TOWNS,
   type TownConfig,
+  type TownEscalationContact,
+  type TownPromptProfile,
 } from "../../config/towns";
+import { getSupabaseServiceClient } from "@/lib/supabase";
+import { DEFAULT_SITE_ORIGIN, findTownIdForHost, normalizeHost, townOrigin } from "@/lib/town-host";
 
-export type { TownConfig };
+export type { TownConfig, TownEscalationContact, TownPromptProfile };
 
 export const DEFAULT_TOWN_ID = DEFAULT_TOWN_ID_FROM_CONFIG;
+/** Towns built into config/towns.ts — the fallback when the database has no config */
 export const TOWN_CONFIGS = TOWNS;
 
 const townById = new Map<string, TownConfig>(
   TOWN_CONFIGS.map((town) => [town.town_id, town])
 );
 
-export function getTownById(townId: string): TownConfig | undefined {
-  return townById.get(townId);
+// ---------------------------------------------------------------------------
+// Database-backed configs (towns.town_config, written by the onboarding flow)
+// ---------------------------------------------------------------------------
+
+const TOWN_CACHE_TTL_MS = 60 * 1000;
+
+/** Every town by id and by hostname, built from the towns table once per TTL */
+type TownIndex = { byId: Map<string, TownConfig>; byHost: Map<string, string>; timestamp: number };
+
+let townIndex: TownIndex | null = null;
+let townIndexLoad: Promise<TownIndex> | null = null;
+
+function rowToTownConfig(row: { id: string; town_config: unknown }): TownConfig | null {
+  const config = row.town_config as TownConfig | null;
+  return config && typeof config === "object" ? { ...config, town_id: row.id } : null;
+}
+
+/**
+ * Load the static configs, overridden or extended by onboarded towns in the
+ * database, and index them. When Supabase is unreachable, keeps the towns
+ * from the last successful load.
+ */
+async function loadTownIndex(): Promise<TownIndex> {
+  const byId = new Map(townById);
+  try {
+    const supabase = getSupabaseServiceClient();
+    const { data, error } = await supabase
+      .from("towns")
+      .select("id, town_config")
+      .not("town_config", "is", null);
+    if (error) throw new Error(error.message);
+    for (const row of data ?? []) {
+      const town = rowToTownConfig(row);
+      if (town) byId.set(town.town_id, town);
+    }
+  } catch (err) {
+    console.warn("[towns] Using static town list:", err instanceof Error ? err.message : err);
+    for (const town of townIndex?.byId.values() ?? []) byId.set(town.town_id, town);
+  }
+
+  const byHost = new Map<string, string>();
+  for (const town of byId.values()) {
+    for (const host of town.hostnames ?? []) {
+      const normalized = normalizeHost(host);
+      if (normalized && !byHost.has(normalized)) byHost.set(normalized, town.town_id);
+    }
+  }
+
+  townIndex = { byId, byHost, timestamp: Date.now() };
+  return townIndex;
+}
+
+async function getTownIndex(): Promise<TownIndex> {
+  if (townIndex && Date.now() - townIndex.timestamp < TOWN_CACHE_TTL_MS) return townIndex;
+  // Concurrent requests share one rebuild
+  townIndexLoad ??= loadTownIndex().finally(() => {
+    townIndexLoad = null;
+  });
+  return townIndexLoad;
 }
 
+/**
+ * Look up a town: its towns.town_config row when there is one, otherwise
+ * config/towns.ts. Ids come from URLs and request bodies, so they're
+ * resolved against the town index, rebuilt once per TTL — unknown ids cost
+ * neither a query nor a cache entry. Never throws.
+ */
+export async function getTownById(townId: string): Promise<TownConfig | undefined> {
+  return (await getTownIndex()).byId.get(townId);
+}
+
+/**
+ * Synchronous lookup for hot paths that can't await (geo filtering, tier
+ * rules). Sees a database-backed town once the town index has loaded, and
+ * the static config before that.
+ */
 export function getTownByIdOrDefault(townId?: string | null): TownConfig {
   const normalized = townId?.trim().toLowerCase();
   if (normalized) {
-    const town = getTownById(normalized);
+    const town = townIndex?.byId.get(normalized) ?? townById.get(normalized);
     if (town) {
       return town;
     }
@@ -29,6 +106,55 @@ export function getTownByIdOrDefault(townId?: string | null): TownConfig {
   return townById.get(DEFAULT_TOWN_ID) ?? TOWN_CONFIGS[0];
 }
 
+/** Ids of the towns built into config/towns.ts */
 export function getTownIds(): string[] {
   return TOWN_CONFIGS.map((town) => town.town_id);
 }
+
+/**
+ * Every town: the static configs, overridden or extended by onboarded towns
+ * in the database. Always reloads (and refreshes the town index); falls back
+ * to the last known list when Supabase is unreachable.
+ */
+export async function listTowns(): Promise<TownConfig[]> {
+  return [...(await loadTownIndex()).byId.values()];
+}
+
+/**
+ * The town served on `host` (TownConfig.hostnames), or null for hosts no
+ * town claims. Static configs answer without a database round trip; the
+ * rest are looked up in the town index, so unknown Host headers cost
+ * neither memory nor a query each.
+ */
+export async function getTownIdForHost(host: string | null | undefined): Promise<string | null> {
+  const normalized = normalizeHost(host);
+  if (!normalized) return null;
+
+  const staticMatch = findTownIdForHost(normalized, TOWN_CONFIGS);
+  if (staticMatch) return staticMatch;
+
+  return (await getTownIndex()).byHost.get(normalized) ?? null;
+}
+
+/**
+ * Origin to use in absolute URLs (sitemap, robots) for a request to `host`:
+ * the canonical origin of the town served there, else the shared site.
+ */
+export async function getOriginForHost(host: string | null | undefined): Promise<string> {
+  const townId = await getTownIdForHost(host);
+  const town = townId ? await getTownById(townId) : undefined;
+  return town ? townOrigin(town) : DEFAULT_SITE_ORIGIN;
+}
+
+/** Towns the daily cron pipeline runs for, default town first */
+export async function getCronTownIds(): Promise<string[]> {
+  return (await listTowns())
+    .filter((town) => town.cron_enabled !== false)
+    .map((town) => town.town_id)
+    .sort((a, b) => Number(b === DEFAULT_TOWN_ID) - Number(a === DEFAULT_TOWN_ID));
+}
+
+/** Drop the cached town index (after onboarding, and in tests). */
+export function clearTownCache(): void {
+  townIndex = null;
+}
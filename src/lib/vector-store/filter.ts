@@ -0,0 +1,128 @@
+/**
+ * src/lib/vector-store/filter.ts — Backend-neutral metadata filters
+ *
+ * Callers build a VectorFilter with the helpers below; each backend
+ * translates it (Upstash → SQL-like string, pgvector → JSONB containment,
+ * in-memory → direct evaluation via matchesFilter).
+ */
+
+import type { VectorFilter, VectorFilterValue } from "./types";
+
+// ---------------------------------------------------------------------------
+// Builders
+// ---------------------------------------------------------------------------
+
+export function filterEq(field: string, value: VectorFilterValue): VectorFilter {
+  return { op: "eq", field, value };
+}
+
+export function filterNe(field: string, value: VectorFilterValue): VectorFilter {
+  return { op: "ne", field, value };
+}
+
+export function filterIn(field: string, values: VectorFilterValue[]): VectorFilter {
+  return { op: "in", field, values };
+}
+
+/** Combine filters with AND, dropping undefined entries. */
+export function filterAnd(...filters: Array<VectorFilter | undefined>): VectorFilter {
+  return { op: "and", filters: filters.filter((f): f is VectorFilter => f !== undefined) };
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation (in-memory backend + post-filtering)
+// ---------------------------------------------------------------------------
+
+/**
+ * Evaluate a filter against a metadata object.
+ * An empty AND matches everything.
+ */
+export function matchesFilter(
+  filter: VectorFilter | undefined,
+  metadata: Record<string, unknown> | undefined
+): boolean {
+  if (!filter) return true;
+  const meta = metadata ?? {};
+
+  switch (filter.op) {
+    case "eq":
+      return meta[filter.field] === filter.value;
+    case "ne":
+      return meta[filter.field] !== filter.value;
+    case "in":
+      return filter.values.includes(meta[filter.field] as VectorFilterValue);
+    case "and":
+      return filter.filters.every((f) => matchesFilter(f, meta));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Upstash translation
+// ---------------------------------------------------------------------------
+
+function upstashLiteral(value: VectorFilterValue): string {
+  if (typeof value === "string") {
+    // Upstash filter strings use single quotes; escape embedded quotes
+    return `'${value.replaceAll("'", "\\'")}'`;
+  }
+  return String(value);
+}
+
+/**
+ * Translate a filter into Upstash Vector's SQL-like filter syntax.
+ * Returns undefined when the filter places no constraints.
+ */
+export function toUpstashFilter(filter: VectorFilter | undefined): string | undefined {
+  if (!filter) return undefined;
+
+  switch (filter.op) {
+    case "eq":
+      return `${filter.field} = ${upstashLiteral(filter.value)}`;
+    case "ne":
+      return `${filter.field} != ${upstashLiteral(filter.value)}`;
+    case "in":
+      return `${filter.field} IN (${filter.values.map(upstashLiteral).join(", ")})`;
+    case "and": {
+      const clauses = filter.filters
+        .map((f) => {
+          const clause = toUpstashFilter(f);
+          return clause && f.op === "and" ? `(${clause})` : clause;
+        })
+        .filter((clause): clause is string => clause !== undefined);
+      return clauses.length > 0 ? clauses.join(" AND ") : undefined;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// pgvector translation
+// ---------------------------------------------------------------------------
+
+/**
+ * Split a filter into the part Postgres can apply with JSONB containment
+ * (`metadata @> containment`) and a residual filter the caller must apply
+ * to the returned rows. Only top-level equality clauses are pushed down.
+ */
+export function toPgContainment(filter: VectorFilter | undefined): {
+  containment: Record<string, VectorFilterValue>;
+  residual: VectorFilter | undefined;
+} {
+  const containment: Record<string, VectorFilterValue> = {};
+  if (!filter) return { containment, residual: undefined };
+
+  const clauses = filter.op === "and" ? filter.filters : [filter];
+  const residual: VectorFilter[] = [];
+
+  for (const clause of clauses) {
+    if (clause.op === "eq" && !(clause.field in containment)) {
+      containment[clause.field] = clause.value;
+    } else {
+      residual.push(clause);
+    }
+  }
+
+  return {
+    containment,
+    residual: residual.length > 0 ? filterAnd(...residual) : undefined,
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * src/lib/vector-store/index.ts — Public API for vector storage
+ *
+ * getVectorStore() returns the backend selected by VECTOR_STORE_BACKEND:
+ *   - "upstash"  (default) — Upstash Vector, production
+ *   - "pgvector" — Supabase vector_embeddings table + match_vector_embeddings RPC
+ *   - "memory"   — in-process store; set VECTOR_STORE_FILE to persist to disk
+ *
+ * Tests can swap in their own store with setVectorStore().
+ */
+
+import { createMemoryVectorStore } from "./memory";
+import { createPgVectorStore } from "./pgvector";
+import { createUpstashVectorStore } from "./upstash";
+import type { VectorStore, VectorStoreBackend } from "./types";
+
+export type {
+  VectorStore,
+  VectorStoreBackend,
+  VectorFilter,
+  VectorFilterValue,
+  VectorRecord,
+  VectorQueryResult,
+} from "./types";
+
+export { VECTOR_NS_CHUNKS, VECTOR_NS_CONTENT, VECTOR_NS_ANSWERS } from "./types";
+export { filterEq, filterNe, filterIn, filterAnd, matchesFilter, toUpstashFilter, toPgContainment } from "./filter";
+export { createUpstashVectorStore } from "./upstash";
+export { createPgVectorStore } from "./pgvector";
+export { createMemoryVectorStore, cosineSimilarity } from "./memory";
+
+const BACKENDS: Record<VectorStoreBackend, () => VectorStore> = {
+  upstash: createUpstashVectorStore,
+  pgvector: createPgVectorStore,
+  memory: () => createMemoryVectorStore({ filePath: process.env.VECTOR_STORE_FILE || undefined }),
+};
+
+let activeStore: VectorStore | null = null;
+
+function resolveBackend(): VectorStoreBackend {
+  const configured = (process.env.VECTOR_STORE_BACKEND ?? "upstash").trim().toLowerCase();
+  if (configured in BACKENDS) {
+    return configured as VectorStoreBackend;
+  }
+  throw new Error(
+    `Unknown VECTOR_STORE_BACKEND "${configured}". Expected one of: ${Object.keys(BACKENDS).join(", ")}`,
+  );
+}
+
+/**
+ * Get the process-wide vector store (created on first use).
+ */
+export function getVectorStore(): VectorStore {
+  if (!activeStore) {
+    activeStore = BACKENDS[resolveBackend()]();
+  }
+  return activeStore;
+}
+
+/**
+ * Override the process-wide vector store. Pass null to go back to the
+ * environment-selected backend on next use.
+ */
+export function setVectorStore(store: VectorStore | null): void {
+  activeStore = store;
+}
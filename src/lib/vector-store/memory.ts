@@ -0,0 +1,118 @@
+/**
+ * src/lib/vector-store/memory.ts — In-memory (optionally file-backed) backend
+ *
+ * Brute-force cosine similarity over every vector in the namespace. Meant
+ * for tests and local development, where it lets the whole RAG pipeline
+ * run without Upstash or Supabase vector credentials. Pass a file path to
+ * persist vectors as JSON between runs (e.g. after `npm run ingest`).
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { matchesFilter } from "./filter";
+import type { VectorFilter, VectorQueryResult, VectorRecord, VectorStore } from "./types";
+
+type StoredVector = {
+  values: number[];
+  metadata?: Record<string, unknown>;
+};
+
+type SerializedStore = Record<string, Record<string, StoredVector>>;
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+export function createMemoryVectorStore(options?: { filePath?: string }): VectorStore {
+  const filePath = options?.filePath;
+  const namespaces = new Map<string, Map<string, StoredVector>>();
+  let loaded = !filePath;
+
+  async function load(): Promise<void> {
+    if (loaded || !filePath) return;
+    loaded = true;
+    try {
+      const raw = await fs.readFile(filePath, "utf-8");
+      const parsed = JSON.parse(raw) as SerializedStore;
+      for (const [ns, vectors] of Object.entries(parsed)) {
+        namespaces.set(ns, new Map(Object.entries(vectors)));
+      }
+    } catch (err) {
+      // A missing file just means an empty store
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    }
+  }
+
+  async function persist(): Promise<void> {
+    if (!filePath) return;
+    const serialized: SerializedStore = {};
+    for (const [ns, vectors] of namespaces) {
+      serialized[ns] = Object.fromEntries(vectors);
+    }
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(serialized));
+  }
+
+  function getNamespace(namespace: string): Map<string, StoredVector> {
+    let ns = namespaces.get(namespace);
+    if (!ns) {
+      ns = new Map();
+      namespaces.set(namespace, ns);
+    }
+    return ns;
+  }
+
+  return {
+    backend: "memory",
+
+    async query(
+      namespace: string,
+      embedding: number[],
+      topK: number,
+      filter?: VectorFilter,
+    ): Promise<VectorQueryResult[]> {
+      await load();
+      const results: VectorQueryResult[] = [];
+
+      for (const [id, vector] of getNamespace(namespace)) {
+        if (!matchesFilter(filter, vector.metadata)) continue;
+        results.push({
+          id,
+          score: cosineSimilarity(embedding, vector.values),
+          metadata: vector.metadata,
+        });
+      }
+
+      results.sort((a, b) => b.score - a.score);
+      return results.slice(0, topK);
+    },
+
+    async upsert(namespace: string, vectors: VectorRecord[]): Promise<void> {
+      if (vectors.length === 0) return;
+      await load();
+      const ns = getNamespace(namespace);
+      for (const v of vectors) {
+        ns.set(v.id, { values: v.values, metadata: v.metadata ?? {} });
+      }
+      await persist();
+    },
+
+    async delete(namespace: string, ids: string[]): Promise<void> {
+      if (ids.length === 0) return;
+      await load();
+      const ns = getNamespace(namespace);
+      for (const id of ids) ns.delete(id);
+      await persist();
+    },
+  };
+}
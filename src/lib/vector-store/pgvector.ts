@@ -0,0 +1,97 @@
+/**
+ * src/lib/vector-store/pgvector.ts — Supabase pgvector backend
+ *
+ * Stores vectors in the vector_embeddings table and searches them through
+ * the match_vector_embeddings RPC (the successor of match_documents).
+ * Equality filters run in Postgres; IN / != clauses are applied to the
+ * returned rows, so the query over-fetches when a residual filter exists.
+ */
+
+import { getSupabaseServiceClient } from "@/lib/supabase";
+import { matchesFilter, toPgContainment } from "./filter";
+import type { VectorFilter, VectorQueryResult, VectorRecord, VectorStore } from "./types";
+
+const UPSERT_BATCH_SIZE = 100;
+const DELETE_BATCH_SIZE = 500;
+const RESIDUAL_OVERFETCH = 3;
+
+type MatchVectorRow = {
+  id: string;
+  metadata: Record<string, unknown> | null;
+  similarity: number;
+};
+
+export function createPgVectorStore(): VectorStore {
+  return {
+    backend: "pgvector",
+
+    async query(
+      namespace: string,
+      embedding: number[],
+      topK: number,
+      filter?: VectorFilter,
+    ): Promise<VectorQueryResult[]> {
+      const { containment, residual } = toPgContainment(filter);
+      const supabase = getSupabaseServiceClient();
+
+      const { data, error } = await supabase.rpc("match_vector_embeddings", {
+        query_embedding: embedding,
+        match_namespace: namespace,
+        match_count: residual ? topK * RESIDUAL_OVERFETCH : topK,
+        match_filter: containment,
+      });
+
+      if (error) {
+        throw new Error(`pgvector query failed: ${error.message}`);
+      }
+
+      return ((data ?? []) as MatchVectorRow[])
+        .filter((row) => matchesFilter(residual, row.metadata ?? undefined))
+        .slice(0, topK)
+        .map((row) => ({
+          id: row.id,
+          score: row.similarity,
+          metadata: row.metadata ?? undefined,
+        }));
+    },
+
+    async upsert(namespace: string, vectors: VectorRecord[]): Promise<void> {
+      if (vectors.length === 0) return;
+      const supabase = getSupabaseServiceClient();
+
+      for (let i = 0; i < vectors.length; i += UPSERT_BATCH_SIZE) {
+        const batch = vectors.slice(i, i + UPSERT_BATCH_SIZE);
+        const { error } = await supabase.from("vector_embeddings").upsert(
+          batch.map((v) => ({
+            namespace,
+            id: v.id,
+            // pgvector accepts the '[1,2,3]' text form
+            embedding: JSON.stringify(v.values),
+            metadata: v.metadata ?? {},
+            updated_at: new Date().toISOString(),
+          })),
+          { onConflict: "namespace,id" },
+        );
+        if (error) {
+          throw new Error(`pgvector upsert failed: ${error.message}`);
+        }
+      }
+    },
+
+    async delete(namespace: string, ids: string[]): Promise<void> {
+      if (ids.length === 0) return;
+      const supabase = getSupabaseServiceClient();
+
+      for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+        const { error } = await supabase
+          .from("vector_embeddings")
+          .delete()
+          .eq("namespace", namespace)
+          .in("id", ids.slice(i, i + DELETE_BATCH_SIZE));
+        if (error) {
+          throw new Error(`pgvector delete failed: ${error.message}`);
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * src/lib/vector-store/types.ts — Core type definitions for vector storage
+ *
+ * Every vector backend (Upstash, Supabase pgvector, in-memory) implements
+ * the VectorStore interface. Callers pass a backend-neutral VectorFilter,
+ * and each backend translates it into its own query syntax.
+ */
+
+// ---------------------------------------------------------------------------
+// Namespaces — separate indexes for chunk, content_item and cached-question vectors
+// ---------------------------------------------------------------------------
+
+export const VECTOR_NS_CHUNKS = "chunks";
+export const VECTOR_NS_CONTENT = "content";
+/** Cached-answer questions, for the semantic answer-cache tier */
+export const VECTOR_NS_ANSWERS = "answers";
+
+// ---------------------------------------------------------------------------
+// Backends
+// ---------------------------------------------------------------------------
+
+export type VectorStoreBackend = "upstash" | "pgvector" | "memory";
+
+// ---------------------------------------------------------------------------
+// Filter AST — shared across backends
+// ---------------------------------------------------------------------------
+
+export type VectorFilterValue = string | number | boolean;
+
+export type VectorFilter =
+  | { op: "eq"; field: string; value: VectorFilterValue }
+  | { op: "ne"; field: string; value: VectorFilterValue }
+  | { op: "in"; field: string; values: VectorFilterValue[] }
+  | { op: "and"; filters: VectorFilter[] };
+
+// ---------------------------------------------------------------------------
+// Records and results
+// ---------------------------------------------------------------------------
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface VectorQueryResult {
+  id: string;
+  score: number;
+  metadata?: Record<string, unknown>;
+}
+
+// ---------------------------------------------------------------------------
+// VectorStore — the interface every backend implements
+// ---------------------------------------------------------------------------
+
+export interface VectorStore {
+  readonly backend: VectorStoreBackend;
+
+  /** Return the topK most similar vectors in a namespace, highest score first. */
+  query(
+    namespace: string,
+    embedding: number[],
+    topK: number,
+    filter?: VectorFilter
+  ): Promise<VectorQueryResult[]>;
+
+  /** Insert or replace vectors by ID. */
+  upsert(namespace: string, vectors: VectorRecord[]): Promise<void>;
+
+  /** Delete vectors by ID. Missing IDs are ignored. */
+  delete(namespace: string, ids: string[]): Promise<void>;
+}
@@ -0,0 +1,77 @@
+/**
+ * src/lib/vector-store/upstash.ts — Upstash Vector backend
+ *
+ * Production default. Namespaces map directly onto Upstash namespaces.
+ */
+
+import { Index } from "@upstash/vector";
+import { toUpstashFilter } from "./filter";
+import type { VectorFilter, VectorQueryResult, VectorRecord, VectorStore } from "./types";
+
+const UPSERT_BATCH_SIZE = 100;
+
+export function createUpstashVectorStore(): VectorStore {
+  let indexInstance: Index | null = null;
+
+  function getIndex(): Index {
+    if (!indexInstance) {
+      const url = process.env.UPSTASH_VECTOR_REST_URL;
+      const token = process.env.UPSTASH_VECTOR_REST_TOKEN;
+      if (!url || !token) {
+        throw new Error(
+          "Missing environment variables: UPSTASH_VECTOR_REST_URL and/or UPSTASH_VECTOR_REST_TOKEN",
+        );
+      }
+      indexInstance = new Index({ url, token });
+    }
+    return indexInstance;
+  }
+
+  return {
+    backend: "upstash",
+
+    async query(
+      namespace: string,
+      embedding: number[],
+      topK: number,
+      filter?: VectorFilter,
+    ): Promise<VectorQueryResult[]> {
+      const results = await getIndex().query(
+        {
+          vector: embedding,
+          topK,
+          filter: toUpstashFilter(filter),
+          includeMetadata: true,
+        },
+        { namespace },
+      );
+
+      return results.map((match) => ({
+        id: String(match.id),
+        score: match.score,
+        metadata: (match.metadata ?? undefined) as Record<string, unknown> | undefined,
+      }));
+    },
+
+    async upsert(namespace: string, vectors: VectorRecord[]): Promise<void> {
+      if (vectors.length === 0) return;
+
+      const ns = getIndex().namespace(namespace);
+      for (let i = 0; i < vectors.length; i += UPSERT_BATCH_SIZE) {
+        const batch = vectors.slice(i, i + UPSERT_BATCH_SIZE);
+        await ns.upsert(
+          batch.map((v) => ({
+            id: v.id,
+            vector: v.values,
+            metadata: v.metadata ?? {},
+          })),
+        );
+      }
+    },
+
+    async delete(namespace: string, ids: string[]): Promise<void> {
+      if (ids.length === 0) return;
+      await getIndex().delete(ids, { namespace });
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { FLAG_SESSION_COOKIE } from "@/lib/feature-flags";
+import { TOWN_HEADER } from "@/lib/town-host";
+import { getTownIdForHost } from "@/lib/towns";
+
+/** First path segments of the pages under src/app/[town] */
+const TOWN_PAGES = new Set([
+  "about",
+  "articles",
+  "chat",
+  "community",
+  "daily-brief",
+  "events",
+  "news",
+  "permits",
+  "releases",
+  "search",
+  "transit",
+  "weather",
+]);
+
+/** Session cookie lifetime — long enough to keep a rollout variant stable */
+const SESSION_MAX_AGE = 60 * 60 * 24 * 365;
+
+/**
+ * Give first-time visitors an anonymous session id, visible to this request
+ * as well as later ones, so percentage rollouts (src/lib/feature-flags.ts)
+ * bucket them consistently from the very first page.
+ */
+function withSession(request: NextRequest, headers: Headers, respond: () => NextResponse): NextResponse {
+  if (request.cookies.has(FLAG_SESSION_COOKIE)) return respond();
+
+  const sessionId = crypto.randomUUID();
+  const cookie = request.headers.get("cookie");
+  headers.set("cookie", `${cookie ? `${cookie}; ` : ""}${FLAG_SESSION_COOKIE}=${sessionId}`);
+
+  const response = respond();
+  response.cookies.set(FLAG_SESSION_COOKIE, sessionId, {
+    path: "/",
+    maxAge: SESSION_MAX_AGE,
+    sameSite: "lax",
+    httpOnly: true,
+  });
+  return response;
+}
+
+/**
+ * Resolve the town from the Host header. On a town's own domain, root
+ * paths (/, /chat, /events, ...) are rewritten to /<town_id>/..., and every
+ * request — API routes included — carries the town in x-town-id. Hosts no
+ * town claims pass through untouched, so /<town_id> paths and the default
+ * town fallback keep working.
+ */
+export async function proxy(request: NextRequest): Promise<NextResponse> {
+  // Only the proxy decides this header — never trust one sent by the client
+  const headers = new Headers(request.headers);
+  headers.delete(TOWN_HEADER);
+
+  const townId = await getTownIdForHost(request.headers.get("host"));
+  if (!townId) {
+    return withSession(request, headers, () => NextResponse.next({ request: { headers } }));
+  }
+  headers.set(TOWN_HEADER, townId);
+
+  const { pathname } = request.nextUrl;
+  const firstSegment = pathname.split("/").find(Boolean) ?? "";
+  if (firstSegment === "" || TOWN_PAGES.has(firstSegment)) {
+    const url = request.nextUrl.clone();
+    url.pathname = `/${townId}${pathname === "/" ? "" : pathname}`;
+    return withSession(request, headers, () => NextResponse.rewrite(url, { request: { headers } }));
+  }
+
+  return withSession(request, headers, () => NextResponse.next({ request: { headers } }));
+}
+
+export const config = {
+  // Skip build assets and static files (anything with an extension)
+  matcher: ["/((?!_next/|.*\\.[^/]+$).*)"],
+};
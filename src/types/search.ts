@@ -19,8 +19,16 @@ export interface CachedAnswer {
   is_cached: true;
 }
 
+/** Exact answer built from the structured fact store (hours, fees, contacts) */
+export interface FactAnswer {
+  answer_html: string;
+  sources: { title: string; url: string; date?: string }[];
+  fact_types: ('hours' | 'fee' | 'contact')[];
+}
+
 export interface SearchResponse {
   results: SearchResult[];
   cached_answer: CachedAnswer | null;
+  fact_answer?: FactAnswer | null;
   timing_ms: number;
 }
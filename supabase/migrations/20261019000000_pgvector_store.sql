@@ -0,0 +1,59 @@
+-- Migration: pgvector vector store backend
+-- Created: 2026-10-19
+-- Description: Optional self-hosted alternative to Upstash Vector. Used only when
+-- VECTOR_STORE_BACKEND=pgvector. Takes over the role of the match_documents /
+-- match_content_items functions dropped in 20260221000002_drop_embeddings.sql,
+-- but stores vectors per namespace ("chunks", "content") in one table so the
+-- same code path serves document_chunks and content_items.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS vector_embeddings (
+  namespace  TEXT NOT NULL,
+  id         TEXT NOT NULL,
+  embedding  vector(1536) NOT NULL,
+  metadata   JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (namespace, id)
+);
+
+CREATE INDEX IF NOT EXISTS vector_embeddings_hnsw_idx
+  ON vector_embeddings USING hnsw (embedding vector_cosine_ops);
+CREATE INDEX IF NOT EXISTS vector_embeddings_metadata_idx
+  ON vector_embeddings USING GIN (metadata jsonb_path_ops);
+
+ALTER TABLE vector_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "vector_embeddings_service_all" ON vector_embeddings
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- Equality filters are pushed down as JSONB containment (metadata @> match_filter);
+-- the application post-filters anything else (IN, !=).
+CREATE OR REPLACE FUNCTION match_vector_embeddings(
+  query_embedding vector(1536),
+  match_namespace TEXT,
+  match_count     INT DEFAULT 10,
+  match_filter    JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  id         TEXT,
+  metadata   JSONB,
+  similarity FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ve.id,
+    ve.metadata,
+    1 - (ve.embedding <=> query_embedding) AS similarity
+  FROM vector_embeddings ve
+  WHERE ve.namespace = match_namespace
+    AND ve.metadata @> match_filter
+  ORDER BY ve.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON TABLE vector_embeddings IS 'pgvector backend for the VectorStore interface (VECTOR_STORE_BACKEND=pgvector)';
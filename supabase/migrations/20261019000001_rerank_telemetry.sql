@@ -0,0 +1,11 @@
+-- Migration: Reranker telemetry
+-- Created: 2026-10-19
+-- Description: Record which reranker ran and how much it reordered results.
+-- Towns pick a reranker in towns.config.reranker (formula | cohere | llm | rrf).
+
+ALTER TABLE search_telemetry ADD COLUMN IF NOT EXISTS reranker text;          -- reranker that produced the order (after fallback)
+ALTER TABLE search_telemetry ADD COLUMN IF NOT EXISTS rerank_score_delta float; -- mean (relevance score - similarity) of kept chunks
+ALTER TABLE search_telemetry ADD COLUMN IF NOT EXISTS rerank_rank_shift float;  -- mean |rank change| vs. similarity order
+
+COMMENT ON COLUMN search_telemetry.used_reranker IS 'Whether a model reranker (Cohere or LLM judge) was applied';
+COMMENT ON COLUMN search_telemetry.reranker_latency_ms IS 'Time spent in the reranking stage';
@@ -0,0 +1,41 @@
+-- Migration: Structured fact store
+-- Created: 2026-10-19
+-- Description: Typed facts (facility hours, fee schedule lines, department
+-- contacts) extracted from chunks at ingest. Each row points back to the
+-- documents row it came from so answers can cite the exact page. A document's
+-- facts are replaced whenever it is re-ingested.
+
+CREATE TABLE IF NOT EXISTS structured_facts (
+  id            UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  town_id       TEXT NOT NULL REFERENCES towns(id),
+  document_id   UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  chunk_index   INT NOT NULL DEFAULT 0,
+  fact_type     TEXT NOT NULL CHECK (fact_type IN ('hours', 'fee', 'contact')),
+  subject       TEXT NOT NULL,   -- "Building Department", "Transfer Station"
+  attribute     TEXT NOT NULL,   -- phone | email | address, a day range, or a fee name
+  value         TEXT NOT NULL,   -- as written in the source: "(781) 455-7550", "$150"
+  excerpt       TEXT,            -- the source line the value came from
+  source_url    TEXT NOT NULL,
+  source_title  TEXT,
+  document_date TEXT,
+  created_at    TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_structured_facts_town_type ON structured_facts(town_id, fact_type);
+CREATE INDEX IF NOT EXISTS idx_structured_facts_document ON structured_facts(document_id);
+
+ALTER TABLE structured_facts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read scoped structured_facts"
+  ON structured_facts
+  FOR SELECT
+  USING (town_id = request_town_id());
+
+CREATE POLICY "Service can manage structured_facts"
+  ON structured_facts
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE structured_facts IS 'Hours, fees and contacts extracted at ingest; checked before RAG for factual and contact questions';
@@ -0,0 +1,61 @@
+-- Migration: Semantic answer cache
+-- Created: 2026-10-19
+-- Description: Second answer-cache tier. Cached questions are embedded into the
+-- vector store ("answers" namespace); a query that misses the exact
+-- normalized_query key is compared against them, and served when the
+-- similarity clears the town's towns.config.semantic_cache_threshold.
+-- Every paraphrase that lands on or just below the cutoff is recorded here so
+-- admins can promote it to a canonical cache key.
+
+CREATE TABLE IF NOT EXISTS cached_answer_paraphrases (
+  id               UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  town_id          TEXT NOT NULL,
+  cached_answer_id UUID NOT NULL REFERENCES cached_answers(id) ON DELETE CASCADE,
+  query            TEXT NOT NULL,
+  normalized_query TEXT NOT NULL,
+  similarity       FLOAT NOT NULL,
+  served           BOOLEAN NOT NULL DEFAULT false,
+  hit_count        INTEGER NOT NULL DEFAULT 1,
+  first_seen_at    TIMESTAMPTZ DEFAULT NOW(),
+  last_seen_at     TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(town_id, normalized_query, cached_answer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cached_answer_paraphrases_town
+  ON cached_answer_paraphrases (town_id, hit_count DESC);
+
+ALTER TABLE cached_answer_paraphrases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service can manage cached_answer_paraphrases"
+  ON cached_answer_paraphrases
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Upsert that counts repeat askers instead of overwriting
+CREATE OR REPLACE FUNCTION record_cache_paraphrase(
+  p_town_id          TEXT,
+  p_cached_answer_id UUID,
+  p_query            TEXT,
+  p_normalized_query TEXT,
+  p_similarity       FLOAT,
+  p_served           BOOLEAN
+)
+RETURNS void
+LANGUAGE sql
+AS $$
+  INSERT INTO cached_answer_paraphrases
+    (town_id, cached_answer_id, query, normalized_query, similarity, served)
+  VALUES
+    (p_town_id, p_cached_answer_id, p_query, p_normalized_query, p_similarity, p_served)
+  ON CONFLICT (town_id, normalized_query, cached_answer_id) DO UPDATE SET
+    query        = EXCLUDED.query,
+    similarity   = EXCLUDED.similarity,
+    served       = EXCLUDED.served,
+    hit_count    = cached_answer_paraphrases.hit_count + 1,
+    last_seen_at = NOW();
+$$;
+
+COMMENT ON TABLE cached_answer_paraphrases IS 'Queries the semantic cache tier matched (served) or nearly matched to a cached question';
+COMMENT ON COLUMN cached_answer_paraphrases.served IS 'true when the similarity cleared the town cutoff and the cached answer was returned';
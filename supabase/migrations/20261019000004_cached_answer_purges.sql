@@ -0,0 +1,34 @@
+-- Migration: Source-aware answer cache invalidation
+-- Created: 2026-10-19
+-- Description: When the monitor detects a changed page, or a connector
+-- upserts new content, every cached answer citing that URL (compared after
+-- URL canonicalization) is deleted. Each purge is recorded here with the
+-- matched URL and cause so admins can see which answers were dropped and why.
+-- cached_answer_id is kept as a plain UUID: the cached row is already gone.
+
+CREATE TABLE IF NOT EXISTS cached_answer_purges (
+  id               UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  town_id          TEXT NOT NULL,
+  cached_answer_id UUID NOT NULL,
+  normalized_query TEXT NOT NULL,
+  original_query   TEXT,
+  matched_url      TEXT NOT NULL,
+  reason           TEXT NOT NULL,
+  triggered_by     TEXT NOT NULL,
+  purged_at        TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cached_answer_purges_town
+  ON cached_answer_purges (town_id, purged_at DESC);
+
+ALTER TABLE cached_answer_purges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service can manage cached_answer_purges"
+  ON cached_answer_purges
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE cached_answer_purges IS 'Cached answers deleted because a cited source page changed';
+COMMENT ON COLUMN cached_answer_purges.reason IS 'source_changed (monitor) or content_item_updated (connector)';
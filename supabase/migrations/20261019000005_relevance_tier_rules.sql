@@ -0,0 +1,68 @@
+-- Migration: Per-town relevance tier rules
+-- Created: 2026-10-19
+-- Description: Domain, URL-pattern, archive-pattern and query-pattern rules
+-- used to classify documents into relevance tiers and to widen search scope.
+-- Replaces the global domain map in relevance-classifier.ts, which marked
+-- needhamma.gov primary and neighboring town sites irrelevant for every
+-- tenant. Shared defaults (review sites, federal agencies, the town's state
+-- portal such as mass.gov, CivicPlus archive paths) and each town's own
+-- geography.local_domains still apply in code; rows here override.
+
+CREATE TABLE IF NOT EXISTS relevance_tier_rules (
+  id          UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  town_id     TEXT NOT NULL REFERENCES towns(id) ON DELETE CASCADE,
+  rule_type   TEXT NOT NULL CHECK (rule_type IN ('domain', 'url_pattern', 'archive_pattern', 'query_pattern')),
+  pattern     TEXT NOT NULL,   -- hostname for domain rules, a case-insensitive regex otherwise
+  tier        TEXT NOT NULL CHECK (tier IN ('primary', 'regional', 'state', 'supplementary', 'archive', 'irrelevant')),
+  note        TEXT,
+  created_at  TIMESTAMPTZ DEFAULT now(),
+  updated_at  TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (town_id, rule_type, pattern)
+);
+
+CREATE INDEX IF NOT EXISTS idx_relevance_tier_rules_town ON relevance_tier_rules(town_id);
+
+ALTER TABLE relevance_tier_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read scoped relevance_tier_rules"
+  ON relevance_tier_rules
+  FOR SELECT
+  USING (town_id = request_town_id());
+
+CREATE POLICY "Service can manage relevance_tier_rules"
+  ON relevance_tier_rules
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Needham's rules, carried over from the former global map
+INSERT INTO relevance_tier_rules (town_id, rule_type, pattern, tier)
+SELECT 'needham', 'domain', domain, tier
+FROM (VALUES
+  ('needhamma.gov', 'primary'),
+  ('needham.k12.ma.us', 'primary'),
+  ('needhamchannel.org', 'primary'),
+  ('needhamhistory.org', 'primary'),
+  ('needhamcommunityfarm.org', 'primary'),
+  ('needhamba.com', 'primary'),
+  ('needhamlibrary.org', 'primary'),
+  ('needhamhousing.org', 'primary'),
+  ('needhamcouncil.org', 'primary'),
+  ('needhamopen.space.org', 'primary'),
+  ('bidneedham.org', 'primary'),
+  ('patch.com', 'primary'),
+  ('wickedlocal.com', 'primary'),
+  ('norfolkcountyma.gov', 'regional'),
+  ('mbta.com', 'regional'),
+  ('ymcaboston.org', 'regional'),
+  ('wellesleyma.gov', 'irrelevant'),
+  ('newtonma.gov', 'irrelevant'),
+  ('dedham-ma.gov', 'irrelevant'),
+  ('doverma.gov', 'irrelevant'),
+  ('westwood.ma.us', 'irrelevant')
+) AS seed(domain, tier)
+WHERE EXISTS (SELECT 1 FROM towns WHERE id = 'needham')
+ON CONFLICT (town_id, rule_type, pattern) DO NOTHING;
+
+COMMENT ON TABLE relevance_tier_rules IS 'Per-town rules mapping domains, URL patterns and queries to relevance tiers; edited from the admin Sources tab';
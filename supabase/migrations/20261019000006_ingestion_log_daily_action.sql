@@ -0,0 +1,10 @@
+-- Migration: ingestion_log actions for the multi-town daily cron
+-- Created: 2026-10-19
+-- Description: /api/cron/daily now runs monitor, ingest and generate for every
+-- cron-enabled town and writes one 'daily' summary row per town. 'scrape' is
+-- already written by scripts/ingest.ts but was missing from the check.
+
+ALTER TABLE ingestion_log DROP CONSTRAINT IF EXISTS ingestion_log_action_check;
+
+ALTER TABLE ingestion_log ADD CONSTRAINT ingestion_log_action_check
+  CHECK (action IN ('crawl', 'parse', 'embed', 'monitor', 'scrape', 'daily'));
@@ -0,0 +1,10 @@
+-- Migration: Database-backed town configs
+-- Created: 2026-10-19
+-- Description: Towns onboarded from the admin dashboard store their full,
+-- validated TownConfig (brand colors, departments, feature flags, location,
+-- geography, transit route, ...) here, so a new town goes live without
+-- editing config/towns.ts and redeploying. getTownById prefers this column
+-- and falls back to the static file when it is NULL. towns.config keeps the
+-- runtime settings (chat model, reranker, ...) it already holds.
+
+ALTER TABLE towns ADD COLUMN IF NOT EXISTS town_config JSONB;
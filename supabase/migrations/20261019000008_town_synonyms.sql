@@ -0,0 +1,75 @@
+-- Migration: Per-town synonym dictionaries
+-- Created: 2026-10-19
+-- Description: Trigger -> expansion entries used by expandQuery, editable
+-- per town from the admin Settings tab. Replaces the town-specific lists in
+-- src/lib/synonyms.ts; the universal municipal synonyms stay in code and
+-- apply to every town after the town's own entries.
+
+CREATE TABLE IF NOT EXISTS town_synonyms (
+  id          UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  town_id     TEXT NOT NULL REFERENCES towns(id) ON DELETE CASCADE,
+  triggers    TEXT[] NOT NULL,   -- lowercased phrases residents use
+  expansions  TEXT[] NOT NULL,   -- official terms appended to the search
+  note        TEXT,
+  created_at  TIMESTAMPTZ DEFAULT now(),
+  updated_at  TIMESTAMPTZ DEFAULT now(),
+  CHECK (cardinality(triggers) > 0 AND cardinality(expansions) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_town_synonyms_town ON town_synonyms(town_id);
+
+ALTER TABLE town_synonyms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read scoped town_synonyms"
+  ON town_synonyms
+  FOR SELECT
+  USING (town_id = request_town_id());
+
+CREATE POLICY "Service can manage town_synonyms"
+  ON town_synonyms
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Needham's entries, carried over from src/lib/synonyms.ts
+INSERT INTO town_synonyms (town_id, triggers, expansions)
+SELECT 'needham', triggers, expansions
+FROM (VALUES
+  (ARRAY['the dump', 'rts'],
+   ARRAY['Needham Transfer Station', 'recycling and transfer station']),
+  (ARRAY['the rec', 'rec center'],
+   ARRAY['Needham Recreation', 'community center']),
+  (ARRAY['defazio field', 'memorial park'],
+   ARRAY['Needham parks', 'DeFazio Park', 'Memorial Park']),
+  (ARRAY['the heights', 'needham heights'],
+   ARRAY['Needham Heights', 'village area']),
+  (ARRAY['charles river'],
+   ARRAY['conservation areas', 'trails', 'Charles River']),
+  (ARRAY['the greendale'],
+   ARRAY['Greendale Avenue']),
+  (ARRAY['town meeting'],
+   ARRAY['Needham Town Meeting', 'annual town meeting']),
+  (ARRAY['override', 'prop 2.5', 'proposition 2 1/2'],
+   ARRAY['proposition 2½', 'tax override', 'override vote']),
+  (ARRAY['sticker', 'transfer station sticker'],
+   ARRAY['RTS sticker', 'transfer station permit', 'annual sticker']),
+  (ARRAY['rosemary pool', 'the pool'],
+   ARRAY['Rosemary Recreation Complex', 'swimming pool', 'aquatics']),
+  (ARRAY['payt', 'pay as you throw', 'trash bags'],
+   ARRAY['Pay-As-You-Throw', 'PAYT bags', 'transfer station']),
+  (ARRAY['high rock', 'pollard'],
+   ARRAY['High Rock School', 'Pollard Middle School', 'middle school']),
+  (ARRAY['broadmeadow', 'eliot', 'mitchell', 'sunita williams', 'newman'],
+   ARRAY['elementary school', 'Needham Public Schools']),
+  (ARRAY['katie king'],
+   ARRAY['Town Manager', 'Select Board']),
+  (ARRAY['dan walsh'],
+   ARRAY['Building Inspector', 'Building Department']),
+  (ARRAY['needham line', 'commuter rail'],
+   ARRAY['MBTA Needham Line', 'Needham Heights station', 'Needham Junction station', 'Needham Center station', 'South Station'])
+) AS seed(triggers, expansions)
+WHERE EXISTS (SELECT 1 FROM towns WHERE id = 'needham')
+  AND NOT EXISTS (SELECT 1 FROM town_synonyms WHERE town_id = 'needham');
+
+COMMENT ON TABLE town_synonyms IS 'Per-town query expansion entries (triggers -> expansions); edited from the admin Settings tab';
@@ -0,0 +1,46 @@
+-- Migration: Close tenant-isolation gaps in RLS
+-- Created: 2026-10-19
+-- Description: 20240102000000_town_scoped_rls.sql scoped documents and
+-- document_chunks to request_town_id(), but articles, cached_answers and
+-- search_telemetry were still readable (and partly writable) across towns
+-- by the anon key. Public reads now require the x-town-id header set by
+-- getSupabaseClient({ townId }) / getTenantDb(townId, { rls: true });
+-- writes are left to the service role, which src/lib/tenant-db.ts scopes.
+
+-- articles: published articles of the requesting town only
+DROP POLICY IF EXISTS "Public read published articles" ON articles;
+DROP POLICY IF EXISTS "Allow inserts for service role" ON articles;
+DROP POLICY IF EXISTS "Allow updates for service role" ON articles;
+
+CREATE POLICY "Public can read scoped published articles"
+  ON articles
+  FOR SELECT
+  USING (status = 'published' AND town = request_town_id());
+
+CREATE POLICY "Service can manage articles"
+  ON articles
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- cached_answers: never had RLS; only the server reads or writes it
+ALTER TABLE cached_answers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service can manage cached_answers"
+  ON cached_answers
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- search_telemetry: admin stats read it through the service role
+DROP POLICY IF EXISTS "Allow inserts" ON search_telemetry;
+DROP POLICY IF EXISTS "Allow admin reads" ON search_telemetry;
+
+CREATE POLICY "Service can manage search_telemetry"
+  ON search_telemetry
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,11 @@
+-- Migration: Feature-flag rollout telemetry
+-- Created: 2026-10-19
+-- Description: Towns override their feature flags at runtime in
+-- towns.config.feature_flags, optionally as a percentage rollout
+-- ({ "uiMode": { "value": "search", "percent": 20 } }). Record which variant
+-- each sampled search or chat session was served, so rollouts can be compared.
+
+ALTER TABLE search_telemetry ADD COLUMN IF NOT EXISTS flag_assignments JSONB;
+
+COMMENT ON COLUMN search_telemetry.flag_assignments IS
+  'Rollout flags for the session: { flag: { value, percent, bucket } }; NULL when no rollout applied';
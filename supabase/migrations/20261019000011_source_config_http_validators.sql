@@ -0,0 +1,9 @@
+-- Migration: Conditional GET for feed connectors
+-- Created: 2026-10-19
+-- Description: The RSS/Atom connector sends If-None-Match / If-Modified-Since
+-- with the validators from its last successful fetch, so an unchanged feed
+-- answers 304 and costs no parsing, hashing or upserts. The runner saves the
+-- ETag and Last-Modified response headers here after each successful run.
+
+ALTER TABLE source_configs ADD COLUMN IF NOT EXISTS etag TEXT;          -- ETag of the last 200 response
+ALTER TABLE source_configs ADD COLUMN IF NOT EXISTS last_modified TEXT; -- Last-Modified of the last 200 response, as sent
@@ -0,0 +1,16 @@
+-- Migration: Connector health tracking
+-- Created: 2026-10-19
+-- Description: The runner now remembers how each connector has been doing.
+-- A failing connector backs off exponentially on top of its schedule, and
+-- after repeated consecutive failures the runner disables it and records why
+-- in disabled_reason (NULL for connectors an admin disabled by hand).
+-- error_count keeps counting every failure and is no longer reset on success.
+
+ALTER TABLE source_configs ADD COLUMN IF NOT EXISTS consecutive_failures INT NOT NULL DEFAULT 0; -- failures since the last success
+ALTER TABLE source_configs ADD COLUMN IF NOT EXISTS last_success_at TIMESTAMPTZ;                 -- last run without errors
+ALTER TABLE source_configs ADD COLUMN IF NOT EXISTS disabled_reason TEXT;                        -- set when auto-disabled
+
+-- error_count was reset on success, so it already holds the current streak
+UPDATE source_configs SET consecutive_failures = error_count WHERE error_count > 0;
+UPDATE source_configs SET last_success_at = last_fetched_at
+  WHERE last_success_at IS NULL AND COALESCE(error_count, 0) = 0 AND last_fetched_at IS NOT NULL;